@@ -14,7 +14,12 @@
 import React from 'react';
 import PromptInput from './components/PromptInput';
 import D3ForceGraph from './components/D3ForceGraph';
+import NodeDetailPanel from './components/NodeDetailPanel';
+import SessionSidebar from './components/SessionSidebar';
 import { useGraphStore } from './store/graphStore';
+import { useSessionRoute } from './hooks/useSessionRoute';
+import { useHistoryShortcuts } from './hooks/useHistoryShortcuts';
+import { useGenerationJobs } from './hooks/useGenerationJobs';
 
 /**
  * Main App component providing a fullscreen Forum application interface.
@@ -22,12 +27,23 @@ import { useGraphStore } from './store/graphStore';
  * Layout Structure:
  * - Fullscreen D3ForceGraph taking entire viewport
  * - Floating PromptInput overlay at bottom center
+ * - NodeDetailPanel on the right when a node is opened
+ * - SessionSidebar on the left for past sessions
  * - Error display when needed
  * 
+ * The current session and open node are mirrored in the URL
+ * (/s/:sessionId/n/:nodeId) so sessions can be shared and restored.
+ * Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z undo and redo graph changes.
+ * Responses still being generated when a session is opened fill in as
+ * the server finishes them.
+ * 
  * @returns {JSX.Element} The complete fullscreen Forum application interface
  */
 function App() {
   const { error } = useGraphStore();
+  useSessionRoute();
+  useHistoryShortcuts();
+  useGenerationJobs();
 
   return (
     <div className="app">
@@ -37,6 +53,12 @@ function App() {
       {/* Floating Input Overlay */}
       <PromptInput />
       
+      {/* Full text of the opened node */}
+      <NodeDetailPanel />
+      
+      {/* Past sessions */}
+      <SessionSidebar />
+      
       {/* Global Error Display */}
       {error && (
         <div className="global-error">
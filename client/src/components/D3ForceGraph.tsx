@@ -10,10 +10,31 @@
  * 
  * Key Features:
  * - D3 force simulation for natural node positioning
- * - Interactive node clicking for conversation expansion
+ * - Click to open a node's full text in the detail panel
+ * - Double-click to expand a response without a follow-up; several branches
+ *   can be expanding at once, each showing phantom children with a spinner
+ *   until its responses arrive (cancel from the menu)
+ * - Right-click menu to open, edit (prompts) or delete a node with its branch
+ * - Collapsible branches: the toggle under a node hides its descendants
+ *   (shown as a +N badge) and takes them out of the simulation
+ * - Stale nodes (generated before an ancestor changed) outlined in amber,
+ *   with a menu entry to regenerate them top-down; nodes waiting for their
+ *   regeneration are dashed while the rest of the graph stays usable
  * - Real-time graph updates with smooth animations
+ * - Incremental keyed joins on a persistent simulation: existing nodes keep
+ *   their positions and new nodes spawn next to their parent
+ * - Live text updates while personality responses stream in
  * - Personality-based color coding and styling
- * - Drag support for manual node positioning
+ * - Failed responses shown as faded placeholders (retry from the detail panel)
+ * - Drag support for manual node positioning: dropped nodes stay pinned
+ *   (📌, unpin from the menu); positions and pins are saved to the session
+ *   in batches and restored when it is reopened or shared
+ * - Expansions, prompt edits, deletions and drags are recorded for undo/redo
+ * - SVG/PNG export of the whole graph or the focused branch
+ * - Pan and zoom (0.1x-2x), fit-to-content and a persona-colored minimap;
+ *   the view centers on selected nodes and follows new nodes off screen
+ * - Layout switcher: force, radial tree or top-down tidy tree (remembered
+ *   per session), with animated transitions between them
  * - Responsive design with loading states
  * - Dynamic rounded rectangle nodes that resize to fit text
  * 
@@ -34,22 +55,39 @@
  * @since 2024
  */
 
-import React, { useCallback, useEffect, useRef } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { 
   forceSimulation, 
   forceLink, 
   forceManyBody, 
   forceCenter, 
   forceCollide,
+  ForceLink,
   SimulationNodeDatum,
   SimulationLinkDatum,
   Simulation
 } from 'd3-force';
 import { select, Selection } from 'd3-selection';
 import { drag } from 'd3-drag';
+import { zoom, zoomIdentity, ZoomBehavior, ZoomTransform } from 'd3-zoom';
+import 'd3-transition';
 import { useGraphStore } from '../store/graphStore';
-import { brainstormApi } from '../services/api';
-import type { Node as GraphNode, Edge as GraphEdge, PersonalityName } from '../../../shared/types';
+import type { PendingExpansion } from '../store/graphStore';
+import GraphImageExport from './GraphImageExport';
+import GraphMinimap, { MinimapNode, MinimapViewport } from './GraphMinimap';
+import LayoutSwitcher from './LayoutSwitcher';
+import { computeGraphLayout, loadLayoutPreference, saveLayoutPreference, GraphLayout } from '../utils/graphLayouts';
+import { resolvePersonaColor } from '../utils/personaColors';
+import { unescapeHtml } from '../utils/html';
+import { brainstormApi, getBranchErrorMessage } from '../services/api';
+import { createPositionSaver } from '../services/positionSaver';
+import { expansionQueue } from '../services/expansionQueue';
+import {
+  createDeleteCommand,
+  createEditCommand,
+  createMoveCommand
+} from '../services/historyCommands';
+import type { Node as GraphNode, Edge as GraphEdge, NodePositionUpdate, PersonalityName } from '../../../shared/types';
 
 // ===================================================================
 // D3 TYPES AND INTERFACES
@@ -65,6 +103,10 @@ interface D3Node extends SimulationNodeDatum {
   type: 'prompt' | 'response';
   persona?: PersonalityName;
   color?: string;
+  isFallback?: boolean;
+  stale?: boolean;
+  pinned?: boolean;
+  phantom?: PendingExpansion['status']; // Placeholder for a pending expansion
   width?: number;
   height?: number;
   radius?: number; // For collision detection
@@ -94,9 +136,30 @@ const FORCE_CONFIG = {
   NODE_PADDING: 16,
   ALPHA_DECAY: 0.02,
   VELOCITY_DECAY: 0.4,
-  BORDER_RADIUS: 12
+  BORDER_RADIUS: 12,
+  TEXT_UPDATE_ALPHA: 0.1,
+  STRUCTURE_UPDATE_ALPHA: 0.3,
+  SPAWN_JITTER: 40
 };
 
+/**
+ * Pan and zoom limits of the graph view
+ */
+const ZOOM_CONFIG = {
+  MIN_SCALE: 0.1,
+  MAX_SCALE: 2,
+  FIT_PADDING: 50,
+  FIT_MAX_SCALE: 1,
+  STEP: 1.3,
+  TRANSITION_MS: 400,
+  MINIMAP_INTERVAL_MS: 100
+};
+
+/**
+ * Duration of the animated move into a tree layout
+ */
+const LAYOUT_TRANSITION_MS = 600;
+
 // ===================================================================
 // UTILITY FUNCTIONS
 // ===================================================================
@@ -160,19 +223,124 @@ const calculateNodeDimensions = (text: string, isPrompt: boolean = false): { wid
 };
 
 /**
- * Converts internal graph nodes to D3 nodes with dynamic sizing
+ * Placeholder shown instead of the canned text of a failed response.
+ * Clicking the node opens the detail panel, which offers the retry.
+ */
+const FALLBACK_PLACEHOLDER = '⚠️ No response. Open to retry';
+
+/**
+ * Gets the text shown inside a node
+ */
+const getDisplayText = (node: { text: string, isFallback?: boolean }): string => {
+  return node.isFallback ? FALLBACK_PLACEHOLDER : node.text;
+};
+
+/**
+ * Checks whether a node has a position saved by the graph view
+ */
+const hasSavedPosition = (node: GraphNode): boolean => {
+  return !!node.position && (node.position.x !== 0 || node.position.y !== 0);
+};
+
+/**
+ * Placeholder child of a node whose expansion has not produced nodes yet
+ */
+type PhantomNode = GraphNode & { phantom: PendingExpansion['status'] };
+
+/**
+ * Text shown inside phantom nodes
+ */
+const PHANTOM_TEXT: Record<PendingExpansion['status'], string> = {
+  queued: 'Queued…',
+  running: 'Thinking…',
+  streaming: ''
+};
+
+/**
+ * Builds phantom children for the pending expansions of visible, expanded
+ * nodes: one per session persona, or a single prompt for a follow-up
+ * question. They are replaced as soon as the real branch nodes arrive.
+ */
+const getPhantomBranches = (
+  nodes: GraphNode[],
+  pendingExpansions: Record<string, PendingExpansion>,
+  sessionId: string | null,
+  visibleIds: Set<string>,
+  collapsedIds: Set<string>
+): { nodes: PhantomNode[], edges: GraphEdge[] } => {
+  // The session's personas, in the order they first answered
+  const personas = new Map<PersonalityName, string | undefined>();
+  nodes.forEach(node => {
+    if (node.type === 'response' && node.persona && !personas.has(node.persona)) personas.set(node.persona, node.color);
+  });
+  const responses: Array<Pick<GraphNode, 'type' | 'persona' | 'color'>> = personas.size > 0
+    ? Array.from(personas, ([persona, color]) => ({ type: 'response', persona, color }))
+    : [{ type: 'response' }];
+
+  const phantoms: { nodes: PhantomNode[], edges: GraphEdge[] } = { nodes: [], edges: [] };
+  Object.entries(pendingExpansions).forEach(([parentId, expansion]) => {
+    if (expansion.sessionId !== sessionId || expansion.status === 'streaming') return;
+    if (!visibleIds.has(parentId) || collapsedIds.has(parentId)) return;
+
+    const placeholders = expansion.isFollowUp ? [{ type: 'prompt' as const }] : responses;
+    placeholders.forEach((placeholder, index) => {
+      const id = `phantom:${parentId}:${index}`;
+      phantoms.nodes.push({ ...placeholder, id, text: PHANTOM_TEXT[expansion.status], parentId, position: { x: 0, y: 0 }, phantom: expansion.status });
+      phantoms.edges.push({ id: `${id}:edge`, source: parentId, target: id });
+    });
+  });
+
+  return phantoms;
+};
+
+/**
+ * Converts internal graph nodes to D3 nodes with dynamic sizing.
+ * Nodes already in the simulation (`existing`) are updated in place so they
+ * keep their coordinates and velocity; otherwise a node resumes its last
+ * position from `positions` or the position saved in the session. Other new
+ * nodes spawn next to their parent so streamed branches don't scatter the graph.
  */
-const convertToD3Nodes = (nodes: GraphNode[]): D3Node[] => {
+const convertToD3Nodes = (
+  nodes: Array<GraphNode | PhantomNode>,
+  existing: Map<string, D3Node>,
+  positions: Map<string, { x: number, y: number }>,
+  center: { x: number, y: number }
+): D3Node[] => {
+  const placed = new Map<string, D3Node>();
+
   return nodes.map(node => {
-    const dimensions = calculateNodeDimensions(node.text, node.type === 'prompt');
-    return {
-      ...node,
-      x: node.position.x || 0,
-      y: node.position.y || 0,
-      width: dimensions.width,
-      height: dimensions.height,
-      radius: dimensions.radius
-    };
+    const dimensions = calculateNodeDimensions(getDisplayText(node), node.type === 'prompt');
+    const previous = existing.get(node.id);
+    const d3Node = previous || ({} as D3Node);
+    const { x, y, vx, vy, fx, fy } = d3Node;
+
+    // Drop fields the node no longer has (e.g. `stale` after a regeneration)
+    Object.keys(d3Node).forEach(key => { delete (d3Node as unknown as Record<string, unknown>)[key]; });
+    Object.assign(d3Node, node, dimensions);
+
+    if (previous) {
+      Object.assign(d3Node, { x, y, vx, vy, fx, fy });
+    } else {
+      const parent = node.parentId ? placed.get(node.parentId) || positions.get(node.parentId) : undefined;
+      const position = positions.get(node.id)
+        || (hasSavedPosition(node) ? node.position : undefined)
+        || (parent && {
+          x: (parent.x || 0) + (Math.random() - 0.5) * FORCE_CONFIG.SPAWN_JITTER,
+          y: (parent.y || 0) + (Math.random() - 0.5) * FORCE_CONFIG.SPAWN_JITTER
+        })
+        || center;
+      d3Node.x = position.x;
+      d3Node.y = position.y;
+
+      // Pinned nodes stay where the user left them
+      if (node.pinned) {
+        d3Node.fx = position.x;
+        d3Node.fy = position.y;
+      }
+    }
+
+    placed.set(node.id, d3Node);
+    return d3Node;
   });
 };
 
@@ -188,21 +356,82 @@ const convertToD3Links = (edges: GraphEdge[]): D3Link[] => {
 };
 
 /**
- * Gets node color based on personality or type
+ * Gets node color from the node's persona color or type
  */
 const getNodeColor = (node: D3Node): string => {
+  if (node.phantom) return '#f1f5f9';
   if (node.type === 'prompt') return '#667eea';
-  
-  switch (node.persona) {
-    case 'optimist':
-      return '#10b981';
-    case 'pessimist':
-      return '#ef4444';
-    case 'realist':
-      return '#6b7280';
-    default:
-      return '#94a3b8';
+  return resolvePersonaColor(node.color);
+};
+
+/**
+ * Gets the node outline, highlighting the follow-up target and the node open in the detail panel,
+ * and marking stale nodes
+ */
+const getNodeStroke = (node: D3Node, highlightedIds: Array<string | null>): { color: string, width: number } => {
+  if (node.phantom) return { color: node.type === 'prompt' ? '#667eea' : resolvePersonaColor(node.color), width: 2 };
+  if (highlightedIds.includes(node.id)) return { color: '#1e293b', width: 4 };
+  return node.stale ? { color: '#f59e0b', width: 3 } : { color: '#fff', width: 2 };
+};
+
+/**
+ * Collects the IDs of a node and everything below it by following parent links
+ */
+const getSubtreeIds = (nodes: GraphNode[], nodeId: string): Set<string> => {
+  const subtree = new Set([nodeId]);
+  let added = true;
+
+  while (added) {
+    added = false;
+    nodes.forEach(node => {
+      if (node.parentId && subtree.has(node.parentId) && !subtree.has(node.id)) {
+        subtree.add(node.id);
+        added = true;
+      }
+    });
   }
+
+  return subtree;
+};
+
+/**
+ * Works out which nodes are shown when some subtrees are collapsed.
+ * Descendants of a collapsed node are hidden (and left out of the
+ * simulation); the collapsed node itself stays visible and reports how
+ * many nodes it hides.
+ */
+const getCollapsedView = (nodes: GraphNode[], edges: GraphEdge[], collapsedIds: Set<string>) => {
+  const children = new Map<string, string[]>();
+  nodes.forEach(node => {
+    if (!node.parentId) return;
+    if (!children.has(node.parentId)) children.set(node.parentId, []);
+    children.get(node.parentId)!.push(node.id);
+  });
+
+  const countDescendants = (nodeId: string): number => {
+    return (children.get(nodeId) || []).reduce((count, childId) => count + 1 + countDescendants(childId), 0);
+  };
+  const hide = (nodeId: string, hidden: Set<string>): void => {
+    (children.get(nodeId) || []).forEach(childId => {
+      hidden.add(childId);
+      hide(childId, hidden);
+    });
+  };
+
+  const hidden = new Set<string>();
+  collapsedIds.forEach(nodeId => hide(nodeId, hidden));
+
+  const hiddenCounts = new Map<string, number>();
+  collapsedIds.forEach(nodeId => {
+    if (!hidden.has(nodeId) && children.has(nodeId)) hiddenCounts.set(nodeId, countDescendants(nodeId));
+  });
+
+  return {
+    visibleNodes: nodes.filter(node => !hidden.has(node.id)),
+    visibleEdges: edges.filter(edge => !hidden.has(edge.source) && !hidden.has(edge.target)),
+    hiddenCounts,
+    childCounts: new Map(Array.from(children, ([nodeId, childIds]) => [nodeId, childIds.length]))
+  };
 };
 
 /**
@@ -246,6 +475,17 @@ const wrapText = (text: string, maxCharsPerLine: number = 30): string[] => {
 export const D3ForceGraph: React.FC = () => {
   const svgRef = useRef<SVGSVGElement>(null);
   const simulationRef = useRef<Simulation<D3Node, D3Link> | null>(null);
+  const positionsRef = useRef(new Map<string, { x: number, y: number }>());
+  const renderedTextRef = useRef(new Map<string, string>());
+  const zoomRef = useRef<ZoomBehavior<SVGSVGElement, unknown> | null>(null);
+  const transformRef = useRef<ZoomTransform>(zoomIdentity);
+  const pendingFitRef = useRef(false);
+  const minimapTimerRef = useRef<number | null>(null);
+  const layoutRef = useRef<GraphLayout>('force');
+  const renderPositionsRef = useRef<(() => void) | null>(null);
+  // Tree layouts: what the last computed layout was based on, and nodes moved by hand since
+  const treeLayoutKeyRef = useRef<string | null>(null);
+  const movedInTreeRef = useRef(new Set<string>());
   
   const {
     nodes: graphNodes,
@@ -253,43 +493,409 @@ export const D3ForceGraph: React.FC = () => {
     sessionId,
     isLoading,
     error,
-    addNodes,
-    setLoading,
+    streamingNodeIds,
+    selectedNodeId,
+    detailNodeId,
+    collapsedNodeIds,
+    pendingExpansions,
+    pendingRegenerations,
+    updateNodes,
+    setNodePositions,
+    removeNodes,
+    selectNode,
+    showNodeDetail,
+    toggleCollapsed,
+    recordCommand,
+    setPendingRegeneration,
+    clearPendingRegeneration,
     setError
   } = useGraphStore();
+  const [contextMenu, setContextMenu] = useState<{ nodeId: string, x: number, y: number } | null>(null);
+  const [editDraft, setEditDraft] = useState<string | null>(null);
+  const [minimap, setMinimap] = useState<{ nodes: MinimapNode[], viewport: MinimapViewport, scale: number } | null>(null);
+  const [layoutChoice, setLayoutChoice] = useState<{ sessionId: string | null, layout: GraphLayout } | null>(null);
+
+  // Nodes and edges left after hiding the descendants of collapsed nodes
+  const collapsedView = useMemo(() => {
+    const collapsedIds = new Set(sessionId ? collapsedNodeIds[sessionId] || [] : []);
+    return getCollapsedView(graphNodes, graphEdges, collapsedIds);
+  }, [graphNodes, graphEdges, sessionId, collapsedNodeIds]);
+
+  // Placeholder children of visible nodes whose expansion is queued or waiting for the server
+  const phantomBranches = useMemo(() => {
+    const collapsedIds = new Set(sessionId ? collapsedNodeIds[sessionId] || [] : []);
+    const visibleIds = new Set(collapsedView.visibleNodes.map(node => node.id));
+    return getPhantomBranches(graphNodes, pendingExpansions, sessionId, visibleIds, collapsedIds);
+  }, [graphNodes, pendingExpansions, sessionId, collapsedNodeIds, collapsedView]);
+
+  // Stale nodes of this session's branches that are being regenerated
+  const regeneratingIds = useMemo(() => {
+    const roots = Object.keys(pendingRegenerations).filter(nodeId => pendingRegenerations[nodeId] === sessionId);
+    const subtreeIds = new Set(roots.flatMap(nodeId => Array.from(getSubtreeIds(graphNodes, nodeId))));
+    return graphNodes.filter(node => node.stale && subtreeIds.has(node.id)).map(node => node.id);
+  }, [graphNodes, pendingRegenerations, sessionId]);
+
+  // The layout chosen for this session, or the stored one when the session was just opened
+  const storedLayout = useMemo(() => loadLayoutPreference(sessionId), [sessionId]);
+  const layout = layoutChoice && layoutChoice.sessionId === sessionId ? layoutChoice.layout : storedLayout;
 
   /**
-   * Handles node click events to expand personality responses.
+   * Switches the layout and remembers it for the session.
    */
-  const handleNodeClick = useCallback(async (event: MouseEvent, node: D3Node) => {
-    // Only allow clicking on personality response nodes (not prompt nodes)
-    if (node.type === 'prompt' || isLoading) return;
+  const handleLayoutChange = (nextLayout: GraphLayout) => {
+    if (nextLayout === layout) return;
 
-    console.info(`🎯 Expanding ${node.persona} response:`, node.text.substring(0, 100));
+    setLayoutChoice({ sessionId, layout: nextLayout });
+    if (sessionId) saveLayoutPreference(sessionId, nextLayout);
+    pendingFitRef.current = true;
+    console.info(`🗺️ Switched to the ${nextLayout} layout`);
+  };
+
+  /**
+   * Handles node click events to show the node in the detail panel.
+   */
+  const handleNodeClick = useCallback((event: MouseEvent, node: D3Node) => {
+    event.stopPropagation();
+    setContextMenu(null);
+    if (!node.phantom) showNodeDetail(node.id);
+  }, [showNodeDetail]);
+
+  /**
+   * Opens the node context menu at the pointer. Phantom nodes open the menu
+   * of the node being expanded, where the expansion can be cancelled.
+   */
+  const handleNodeContextMenu = useCallback((event: MouseEvent, node: D3Node) => {
+    event.preventDefault();
+    event.stopPropagation();
+    setEditDraft(null);
+    setContextMenu({ nodeId: node.phantom ? node.parentId! : node.id, x: event.clientX, y: event.clientY });
+  }, []);
+
+  /**
+   * Closes the context menu and any prompt edit in progress.
+   */
+  const closeContextMenu = useCallback(() => {
+    setContextMenu(null);
+    setEditDraft(null);
+  }, []);
+
+  /**
+   * Saves the edited text of the prompt node the context menu was opened on.
+   */
+  const handleSavePrompt = async (nodeId: string) => {
+    const text = editDraft?.trim();
+    const previousText = graphNodes.find(node => node.id === nodeId)?.text;
+    if (!sessionId || !text || previousText === undefined) return;
 
     try {
-      setLoading(true);
       setError(null);
+      const { node, staleNodeIds } = await brainstormApi.updateNode(sessionId, nodeId, text);
+      updateNodes([node], staleNodeIds);
+      recordCommand(createEditCommand(sessionId, nodeId, previousText, node.text));
+      closeContextMenu();
+      console.info(`✏️ Edited prompt ${nodeId}`);
+    } catch (err) {
+      console.error('❌ Failed to edit prompt:', err);
+      setError(getBranchErrorMessage(err, 'Failed to edit the prompt. Please try again.'));
+    }
+  };
 
-      if (!sessionId) {
-        throw new Error('No active session');
-      }
+  /**
+   * Deletes a node and everything below it after confirmation.
+   */
+  const handleDeleteNode = async (nodeId: string) => {
+    closeContextMenu();
+    if (!sessionId) return;
 
-      // Forum expansion always generates 3 personality responses
-      const response = await brainstormApi.expandNode(sessionId, node.id);
-      addNodes(response.newNodes, response.newEdges);
-      
-      console.info(`✅ Added ${response.newNodes.length} new nodes from personality expansion`);
+    const descendants = getSubtreeIds(graphNodes, nodeId).size - 1;
+    const message = descendants > 0
+      ? `Delete this node and the ${descendants} nodes below it?`
+      : 'Delete this node?';
+    if (!window.confirm(message)) return;
+
+    try {
+      setError(null);
+      const { deletedNodeIds } = await brainstormApi.deleteNode(sessionId, nodeId);
+      removeNodes(deletedNodeIds);
+      recordCommand(createDeleteCommand(sessionId, nodeId));
+      console.info(`🗑️ Deleted ${deletedNodeIds.length} nodes`);
     } catch (err) {
-      console.error('❌ Failed to expand node:', err);
-      setError('Failed to expand idea. Please try again.');
+      console.error('❌ Failed to delete node:', err);
+      setError(getBranchErrorMessage(err, 'Failed to delete the node. Please try again.'));
+    }
+  };
+
+  /**
+   * Regenerates the stale nodes below (and including) a node, top-down.
+   */
+  const handleRegenerateSubtree = async (nodeId: string) => {
+    closeContextMenu();
+    if (!sessionId || pendingRegenerations[nodeId]) return;
+
+    console.info(`🔄 Regenerating stale nodes below ${nodeId}`);
+
+    try {
+      setPendingRegeneration(nodeId, sessionId);
+      setError(null);
+      const { nodes, skippedNodeIds, staleNodeIds } = await brainstormApi.regenerateSubtree(sessionId, nodeId);
+      if (useGraphStore.getState().sessionId !== sessionId) return;
+
+      updateNodes(nodes, staleNodeIds);
+      if (skippedNodeIds.length > 0) {
+        setError(`${skippedNodeIds.length} stale nodes were left as they are because their persona no longer exists.`);
+      }
+    } catch (err) {
+      console.error('❌ Failed to regenerate subtree:', err);
+      if (useGraphStore.getState().sessionId === sessionId) {
+        setError(getBranchErrorMessage(err, 'Failed to regenerate the branch. Please try again.'));
+      }
     } finally {
-      setLoading(false);
+      clearPendingRegeneration(nodeId);
     }
-  }, [sessionId, isLoading, addNodes, setLoading, setError]);
+  };
+
+  // Escape closes the context menu
+  useEffect(() => {
+    if (!contextMenu) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') closeContextMenu();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [contextMenu, closeContextMenu]);
+
+  /**
+   * Handles node double-click events to expand personality responses.
+   * Expansions are queued, so several branches can generate at once.
+   */
+  const handleNodeDoubleClick = useCallback((event: MouseEvent, node: D3Node) => {
+    // Only allow expanding finished personality responses (not prompts, failed responses or placeholders)
+    if (node.type === 'prompt' || node.isFallback || node.phantom || !sessionId) return;
+    if (useGraphStore.getState().streamingNodeIds.includes(node.id)) return;
+
+    console.info(`🎯 Expanding ${node.persona} response:`, node.text.substring(0, 100));
+
+    // Forum expansion generates one response per session personality, streamed into the graph
+    setError(null);
+    expansionQueue.enqueue(sessionId, node.id);
+  }, [sessionId, setError]);
 
   /**
-   * Creates and manages the D3 force simulation with dynamic node sizing
+   * Cancels the expansion of a node, queued or in flight.
+   */
+  const handleCancelExpansion = (nodeId: string) => {
+    closeContextMenu();
+    expansionQueue.cancel(nodeId);
+  };
+
+  // Node positions are saved in batches; leaving the session or the page saves right away
+  const positionSaver = useMemo(() => createPositionSaver(() => {
+    setError('Could not save the graph layout. Your changes will be lost on reload.');
+  }), [setError]);
+
+  useEffect(() => () => { void positionSaver.flush(); }, [sessionId, positionSaver]);
+
+  useEffect(() => {
+    const handlePageHide = () => { void positionSaver.flush(); };
+
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, [positionSaver]);
+
+  /**
+   * Queues node positions for saving and records them in the store.
+   */
+  const savePositions = useCallback((updates: NodePositionUpdate[]) => {
+    const currentSessionId = useGraphStore.getState().sessionId;
+    if (!currentSessionId || updates.length === 0) return;
+
+    updates.forEach(update => positionSaver.queue(currentSessionId, update));
+    setNodePositions(updates);
+  }, [positionSaver, setNodePositions]);
+
+  /**
+   * Moves a node to a position, e.g. when a drag is undone.
+   */
+  const moveNode = useCallback((nodeId: string, position: { x: number, y: number }) => {
+    positionsRef.current.set(nodeId, position);
+
+    const simulation = simulationRef.current;
+    const d3Node = simulation?.nodes().find(candidate => candidate.id === nodeId);
+    if (!simulation || !d3Node) return;
+
+    d3Node.x = position.x;
+    d3Node.y = position.y;
+    d3Node.vx = 0;
+    d3Node.vy = 0;
+    if (layoutRef.current !== 'force') movedInTreeRef.current.add(nodeId);
+    if (d3Node.fx != null) {
+      d3Node.fx = position.x;
+      d3Node.fy = position.y;
+    }
+    savePositions([{ nodeId, x: Math.round(position.x), y: Math.round(position.y) }]);
+    if (layoutRef.current === 'force') {
+      simulation.alpha(FORCE_CONFIG.TEXT_UPDATE_ALPHA).restart();
+    } else {
+      renderPositionsRef.current?.();
+    }
+  }, [savePositions]);
+
+  /**
+   * Pins a node where it is, or lets the force layout move it again.
+   */
+  const handleTogglePin = (nodeId: string) => {
+    closeContextMenu();
+
+    const simulation = simulationRef.current;
+    const d3Node = simulation?.nodes().find(candidate => candidate.id === nodeId);
+    if (!simulation || !d3Node) return;
+
+    const pinned = !d3Node.pinned;
+    d3Node.fx = pinned ? d3Node.x : null;
+    d3Node.fy = pinned ? d3Node.y : null;
+    savePositions([{ nodeId, x: Math.round(d3Node.x || 0), y: Math.round(d3Node.y || 0), pinned }]);
+    if (!pinned && layoutRef.current === 'force') {
+      simulation.alpha(FORCE_CONFIG.TEXT_UPDATE_ALPHA).restart();
+    }
+    console.info(`📌 ${pinned ? 'Pinned' : 'Unpinned'} node ${nodeId}`);
+  };
+
+  /**
+   * Redraws the minimap from the current layout, at most every MINIMAP_INTERVAL_MS.
+   */
+  const scheduleMinimapUpdate = useCallback(() => {
+    if (minimapTimerRef.current !== null) return;
+
+    minimapTimerRef.current = window.setTimeout(() => {
+      minimapTimerRef.current = null;
+      const simulation = simulationRef.current;
+      if (!simulation) return;
+
+      const transform = transformRef.current;
+      setMinimap({
+        nodes: simulation.nodes().map(d => ({
+          id: d.id,
+          x: d.x || 0,
+          y: d.y || 0,
+          width: d.width || FORCE_CONFIG.MIN_NODE_WIDTH,
+          height: d.height || FORCE_CONFIG.NODE_HEIGHT,
+          color: getNodeColor(d)
+        })),
+        viewport: {
+          x: -transform.x / transform.k,
+          y: -transform.y / transform.k,
+          width: window.innerWidth / transform.k,
+          height: window.innerHeight / transform.k
+        },
+        scale: transform.k
+      });
+    }, ZOOM_CONFIG.MINIMAP_INTERVAL_MS);
+  }, []);
+
+  useEffect(() => () => {
+    if (minimapTimerRef.current !== null) window.clearTimeout(minimapTimerRef.current);
+  }, []);
+
+  /**
+   * Zooms the view in or out around the screen center.
+   */
+  const zoomBy = useCallback((factor: number) => {
+    if (!svgRef.current || !zoomRef.current) return;
+
+    select(svgRef.current)
+      .transition()
+      .duration(ZOOM_CONFIG.TRANSITION_MS)
+      .call(zoomRef.current.scaleBy, factor);
+  }, []);
+
+  /**
+   * Scales and pans the view so every node is visible.
+   */
+  const fitToView = useCallback(() => {
+    const nodes = simulationRef.current?.nodes() || [];
+    if (!svgRef.current || !zoomRef.current || nodes.length === 0) return;
+
+    const minX = Math.min(...nodes.map(d => (d.x || 0) - (d.width || FORCE_CONFIG.MIN_NODE_WIDTH) / 2));
+    const minY = Math.min(...nodes.map(d => (d.y || 0) - (d.height || FORCE_CONFIG.NODE_HEIGHT) / 2));
+    const maxX = Math.max(...nodes.map(d => (d.x || 0) + (d.width || FORCE_CONFIG.MIN_NODE_WIDTH) / 2));
+    const maxY = Math.max(...nodes.map(d => (d.y || 0) + (d.height || FORCE_CONFIG.NODE_HEIGHT) / 2));
+    const width = window.innerWidth;
+    const height = window.innerHeight;
+
+    const scale = Math.max(ZOOM_CONFIG.MIN_SCALE, Math.min(
+      ZOOM_CONFIG.FIT_MAX_SCALE,
+      (width - ZOOM_CONFIG.FIT_PADDING * 2) / (maxX - minX),
+      (height - ZOOM_CONFIG.FIT_PADDING * 2) / (maxY - minY)
+    ));
+    const transform = zoomIdentity
+      .translate(width / 2, height / 2)
+      .scale(scale)
+      .translate(-(minX + maxX) / 2, -(minY + maxY) / 2);
+
+    select(svgRef.current)
+      .transition()
+      .duration(ZOOM_CONFIG.TRANSITION_MS)
+      .call(zoomRef.current.transform, transform);
+  }, []);
+
+  /**
+   * Pans the view so a node is in the center of the screen.
+   *
+   * @param {string} nodeId - Node to center on
+   * @param {boolean} [onlyIfHidden=false] - Leave the view alone when the node is already on screen
+   */
+  const centerOnNode = useCallback((nodeId: string, onlyIfHidden: boolean = false) => {
+    const d3Node = simulationRef.current?.nodes().find(candidate => candidate.id === nodeId);
+    if (!svgRef.current || !zoomRef.current || !d3Node) return;
+
+    const [screenX, screenY] = transformRef.current.apply([d3Node.x || 0, d3Node.y || 0]);
+    const margin = ZOOM_CONFIG.FIT_PADDING;
+    const isVisible = screenX > margin && screenX < window.innerWidth - margin
+      && screenY > margin && screenY < window.innerHeight - margin;
+    if (onlyIfHidden && isVisible) return;
+
+    select(svgRef.current)
+      .transition()
+      .duration(ZOOM_CONFIG.TRANSITION_MS)
+      .call(zoomRef.current.translateTo, d3Node.x || 0, d3Node.y || 0);
+  }, []);
+
+  /**
+   * Centers the view on a point picked in the minimap.
+   */
+  const navigateTo = useCallback((point: { x: number, y: number }) => {
+    if (!svgRef.current || !zoomRef.current) return;
+
+    select(svgRef.current).call(zoomRef.current.translateTo, point.x, point.y);
+  }, []);
+
+  // Selecting a node (or opening it in the detail panel) brings it to the center
+  useEffect(() => {
+    const focusedNodeId = detailNodeId || selectedNodeId;
+    if (focusedNodeId) centerOnNode(focusedNodeId);
+  }, [selectedNodeId, detailNodeId, centerOnNode]);
+
+  /**
+   * Keeps the selection outline in sync without rebuilding the graph.
+   */
+  useEffect(() => {
+    if (!svgRef.current) return;
+    
+    const highlightedIds = [selectedNodeId, detailNodeId];
+    select(svgRef.current)
+      .selectAll<SVGRectElement, D3Node>('g.node rect')
+      .attr('stroke', (d) => getNodeStroke(d, highlightedIds).color)
+      .attr('stroke-width', (d) => getNodeStroke(d, highlightedIds).width);
+  }, [selectedNodeId, detailNodeId]);
+
+  /**
+   * Keeps the D3 force simulation and the SVG in sync with the graph.
+   *
+   * The simulation and container groups are created once per SVG element;
+   * each change then runs keyed enter/update/exit joins, so existing nodes
+   * keep their coordinates and only new or removed nodes reheat the layout.
    */
   useEffect(() => {
     if (!svgRef.current || graphNodes.length === 0) return;
@@ -298,82 +904,157 @@ export const D3ForceGraph: React.FC = () => {
     const width = window.innerWidth;
     const height = window.innerHeight;
 
-    // Clear previous content
-    svg.selectAll('*').remove();
+    // The SVG is remounted after the graph was empty; start a fresh simulation for it
+    let simulation = simulationRef.current;
+    let container = svg.select<SVGGElement>('g.graph-container');
+    if (!simulation || container.empty()) {
+      simulation?.stop();
+      svg.selectAll('*').remove();
+
+      container = svg.append('g').attr('class', 'graph-container');
+      container.append('g').attr('class', 'links');
+      container.append('g').attr('class', 'nodes');
+
+      simulation = forceSimulation<D3Node>()
+        .force('link', forceLink<D3Node, D3Link>()
+          .id((d) => d.id)
+          .distance(FORCE_CONFIG.LINK_DISTANCE)
+        )
+        .force('charge', forceManyBody().strength(FORCE_CONFIG.CHARGE_STRENGTH))
+        .force('center', forceCenter(width / 2, height / 2).strength(FORCE_CONFIG.CENTER_STRENGTH))
+        .force('collision', forceCollide<D3Node>().radius((d) => d.radius || FORCE_CONFIG.BASE_COLLISION_RADIUS))
+        .alphaDecay(FORCE_CONFIG.ALPHA_DECAY)
+        .velocityDecay(FORCE_CONFIG.VELOCITY_DECAY)
+        .stop();
+
+      simulationRef.current = simulation;
+      renderedTextRef.current.clear();
+      treeLayoutKeyRef.current = null;
+
+      // Pan and zoom move the container; double-click is reserved for expanding nodes
+      const graphContainer = container;
+      const zoomBehavior = zoom<SVGSVGElement, unknown>()
+        .scaleExtent([ZOOM_CONFIG.MIN_SCALE, ZOOM_CONFIG.MAX_SCALE])
+        .on('zoom', (event) => {
+          transformRef.current = event.transform;
+          graphContainer.attr('transform', event.transform.toString());
+          scheduleMinimapUpdate();
+        });
+      svg.call(zoomBehavior).on('dblclick.zoom', null);
+      svg.call(zoomBehavior.transform, transformRef.current);
+      zoomRef.current = zoomBehavior;
+    }
+    const activeSimulation = simulation;
+
+    // Convert data to D3 format, reusing the simulation's node objects
+    const positions = positionsRef.current;
+    const currentIds = new Set(graphNodes.map(node => node.id));
+    Array.from(positions.keys()).forEach(id => { if (!currentIds.has(id)) positions.delete(id); });
+
+    const previousNodes = new Map(simulation.nodes().map(node => [node.id, node]));
+    const previousSizes = new Map(simulation.nodes().map(node => [node.id, `${node.width}x${node.height}`]));
+    const { visibleNodes, visibleEdges, hiddenCounts, childCounts } = collapsedView;
+    const isKnownLayout = visibleNodes.every(node => positions.has(node.id));
+    const d3Nodes = convertToD3Nodes([...visibleNodes, ...phantomBranches.nodes], previousNodes, positions, { x: width / 2, y: height / 2 });
+    const d3Links = convertToD3Links([...visibleEdges, ...phantomBranches.edges]);
+    const streaming = new Set([...streamingNodeIds, ...regeneratingIds]);
+    const { selectedNodeId: currentSelection, detailNodeId: currentDetail } = useGraphStore.getState();
+    const highlightedIds = [currentSelection, currentDetail];
+
+    const addedNodes = d3Nodes.filter(node => !previousNodes.has(node.id));
+    const isStructureChange = d3Nodes.length !== previousNodes.size || addedNodes.length > 0;
+    const isNewLayout = !isKnownLayout && addedNodes.length === d3Nodes.length;
+    const isResized = d3Nodes.some(node => previousSizes.get(node.id) !== `${node.width}x${node.height}`);
+
+    simulation.nodes(d3Nodes);
+    simulation.force<ForceLink<D3Node, D3Link>>('link')!.links(d3Links);
 
-    // Convert data to D3 format
-    const d3Nodes = convertToD3Nodes(graphNodes);
-    const d3Links = convertToD3Links(graphEdges);
+    // Switching layouts lays every node out again
+    if (layoutRef.current !== layout) {
+      treeLayoutKeyRef.current = null;
+      movedInTreeRef.current.clear();
+    }
+
+    // Links: keyed by edge id
+    const links = container
+      .select<SVGGElement>('g.links')
+      .selectAll<SVGLineElement, D3Link>('line')
+      .data(d3Links, (d) => d.id)
+      .join(enter => enter
+        .append('line')
+        .attr('stroke', '#94a3b8')
+        .attr('stroke-width', 2)
+        .attr('stroke-opacity', 0.7)
+      )
+      .attr('data-source', (d) => typeof d.source === 'string' ? d.source : d.source.id)
+      .attr('data-target', (d) => typeof d.target === 'string' ? d.target : d.target.id);
 
-    // Create force simulation with dynamic collision detection
-    const simulation = forceSimulation<D3Node>(d3Nodes)
-      .force('link', forceLink<D3Node, D3Link>(d3Links)
-        .id((d) => d.id)
-        .distance(FORCE_CONFIG.LINK_DISTANCE)
+    // Nodes: keyed by node id, new groups get a rect and the static attributes
+    const nodeGroups = container
+      .select<SVGGElement>('g.nodes')
+      .selectAll<SVGGElement, D3Node>('g.node')
+      .data(d3Nodes, (d) => d.id)
+      .join(
+        enter => {
+          const group = enter
+            .append('g')
+            .attr('class', 'node')
+            .attr('data-node-id', (d) => d.id)
+            .style('cursor', 'pointer');
+          group
+            .append('rect')
+            .attr('rx', FORCE_CONFIG.BORDER_RADIUS)
+            .attr('ry', FORCE_CONFIG.BORDER_RADIUS);
+          return group;
+        },
+        update => update,
+        exit => exit.each(d => renderedTextRef.current.delete(d.id)).remove()
       )
-      .force('charge', forceManyBody().strength(FORCE_CONFIG.CHARGE_STRENGTH))
-      .force('center', forceCenter(width / 2, height / 2).strength(FORCE_CONFIG.CENTER_STRENGTH))
-      .force('collision', forceCollide<D3Node>().radius((d) => d.radius || FORCE_CONFIG.BASE_COLLISION_RADIUS))
-      .alphaDecay(FORCE_CONFIG.ALPHA_DECAY)
-      .velocityDecay(FORCE_CONFIG.VELOCITY_DECAY);
-
-    simulationRef.current = simulation;
-
-    // Create container groups
-    const container = svg.append('g').attr('class', 'graph-container');
-    const linksGroup = container.append('g').attr('class', 'links');
-    const nodesGroup = container.append('g').attr('class', 'nodes');
-
-    // Create links
-    const links = linksGroup
-      .selectAll('line')
-      .data(d3Links)
-      .enter()
-      .append('line')
-      .attr('stroke', '#94a3b8')
-      .attr('stroke-width', 2)
-      .attr('stroke-opacity', 0.7);
-
-    // Create node groups
-    const nodeGroups = nodesGroup
-      .selectAll('g')
-      .data(d3Nodes)
-      .enter()
-      .append('g')
-      .attr('class', 'node')
-      .style('cursor', (d) => d.type === 'response' ? 'pointer' : 'default');
-
-    // Add rounded rectangles to nodes
+      .attr('transform', (d) => `translate(${d.x},${d.y})`);
+
+    // Rounded rectangles follow the node's size, persona and state
     nodeGroups
-      .append('rect')
+      .select<SVGRectElement>('rect')
       .attr('width', (d) => d.width || FORCE_CONFIG.MIN_NODE_WIDTH)
       .attr('height', (d) => d.height || FORCE_CONFIG.NODE_HEIGHT)
       .attr('x', (d) => -(d.width || FORCE_CONFIG.MIN_NODE_WIDTH) / 2)
       .attr('y', (d) => -(d.height || FORCE_CONFIG.NODE_HEIGHT) / 2)
-      .attr('rx', FORCE_CONFIG.BORDER_RADIUS)
-      .attr('ry', FORCE_CONFIG.BORDER_RADIUS)
       .attr('fill', getNodeColor)
-      .attr('stroke', '#fff')
-      .attr('stroke-width', 2);
+      .attr('fill-opacity', (d) => d.isFallback ? 0.45 : 1)
+      .attr('stroke', (d) => getNodeStroke(d, highlightedIds).color)
+      .attr('stroke-width', (d) => getNodeStroke(d, highlightedIds).width)
+      .attr('stroke-dasharray', (d) => streaming.has(d.id) || d.phantom ? '6 4' : null);
 
-    // Add text to nodes with proper wrapping
+    // Text is only rebuilt for nodes whose visible text (or collapse state) changed
     nodeGroups.each(function(d) {
+      const lines = d.text ? wrapText(getDisplayText(d)) : ['…'];
+      const label = d.type === 'response' && d.persona
+        ? (d.stale ? `${d.persona.toUpperCase()} · STALE` : d.persona.toUpperCase())
+        : null;
+      const childCount = childCounts.get(d.id) || 0;
+      const hiddenCount = hiddenCounts.get(d.id);
+      const isMuted = d.isFallback || !!d.phantom;
+      const renderKey = JSON.stringify([label, lines, d.type, isMuted, !!d.pinned, childCount, hiddenCount]);
+      if (renderedTextRef.current.get(d.id) === renderKey) return;
+      renderedTextRef.current.set(d.id, renderKey);
+
       const nodeGroup = select(this);
-      const lines = wrapText(d.text);
+      nodeGroup.selectAll('text, g.collapse-toggle, g.phantom-spinner').remove();
+
       const lineHeight = 14;
       const startY = -(lines.length - 1) * lineHeight / 2;
       
       // Add persona label for response nodes
-      if (d.type === 'response' && d.persona) {
+      if (label) {
         nodeGroup
           .append('text')
           .attr('y', startY - 8)
           .attr('text-anchor', 'middle')
           .attr('font-size', '9px')
           .attr('font-weight', 'bold')
-          .attr('fill', 'rgba(255, 255, 255, 0.8)')
+          .attr('fill', isMuted ? '#475569' : 'rgba(255, 255, 255, 0.8)')
           .attr('pointer-events', 'none')
-          .text(d.persona.toUpperCase());
+          .text(label);
       }
       
       // Add main text lines
@@ -384,36 +1065,139 @@ export const D3ForceGraph: React.FC = () => {
           .attr('text-anchor', 'middle')
           .attr('font-size', '11px')
           .attr('font-weight', d.type === 'prompt' ? 'bold' : 'normal')
-          .attr('fill', 'white')
+          .attr('fill', isMuted ? '#1e293b' : 'white')
           .attr('pointer-events', 'none')
           .text(line);
       });
+
+      // Spinner in front of the text of phantom nodes
+      if (d.phantom) {
+        nodeGroup
+          .append('g')
+          .attr('class', 'phantom-spinner')
+          .attr('transform', `translate(${-(d.width || FORCE_CONFIG.MIN_NODE_WIDTH) / 2 + 18},${d.type === 'response' ? 8 : 0})`)
+          .attr('pointer-events', 'none')
+          .append('circle')
+          .attr('r', 6)
+          .attr('fill', 'none')
+          .attr('stroke', getNodeStroke(d, []).color)
+          .attr('stroke-width', 2)
+          .attr('stroke-dasharray', '28 10')
+          .append('animateTransform')
+          .attr('attributeName', 'transform')
+          .attr('type', 'rotate')
+          .attr('from', '0')
+          .attr('to', '360')
+          .attr('dur', '1s')
+          .attr('repeatCount', 'indefinite');
+      }
+
+      // Pin marker in the top-right corner
+      if (d.pinned) {
+        nodeGroup
+          .append('text')
+          .attr('x', (d.width || FORCE_CONFIG.MIN_NODE_WIDTH) / 2 - 12)
+          .attr('y', -(d.height || FORCE_CONFIG.NODE_HEIGHT) / 2 + 14)
+          .attr('text-anchor', 'middle')
+          .attr('font-size', '10px')
+          .attr('pointer-events', 'none')
+          .text('📌');
+      }
+
+      // Collapse toggle on the bottom edge; collapsed nodes show how many nodes they hide
+      if (childCount > 0) {
+        const badge = hiddenCount !== undefined ? `+${hiddenCount}` : '−';
+        const toggle = nodeGroup
+          .append('g')
+          .attr('class', 'collapse-toggle')
+          .attr('transform', `translate(0,${(d.height || FORCE_CONFIG.NODE_HEIGHT) / 2})`)
+          .style('cursor', 'pointer');
+        toggle
+          .append('circle')
+          .attr('r', Math.max(9, 4 + badge.length * 3.2))
+          .attr('fill', hiddenCount !== undefined ? '#334155' : 'white')
+          .attr('stroke', '#94a3b8')
+          .attr('stroke-width', 1.5);
+        toggle
+          .append('text')
+          .attr('text-anchor', 'middle')
+          .attr('dy', '0.35em')
+          .attr('font-size', '10px')
+          .attr('font-weight', 'bold')
+          .attr('fill', hiddenCount !== undefined ? 'white' : '#334155')
+          .text(badge)
+          .append('title')
+          .text(hiddenCount !== undefined ? `Expand (${hiddenCount} hidden nodes)` : 'Collapse');
+      }
     });
 
-    // Add drag behavior
+    // The toggle collapses or expands without opening or expanding the node
+    nodeGroups
+      .select<SVGGElement>('g.collapse-toggle')
+      .on('click', (event, d) => {
+        event.stopPropagation();
+        toggleCollapsed(d.id);
+      })
+      .on('dblclick', (event) => event.stopPropagation());
+
+    // Add drag behavior; each completed drag is recorded as a move.
+    // Tree layouts have no running simulation, so nodes are moved directly there.
+    let dragStart: { x: number, y: number } | null = null;
     const dragBehavior = drag<SVGGElement, D3Node>()
+      .filter((event, d) => !event.ctrlKey && !event.button && !d.phantom)
       .on('start', (event, d) => {
-        if (!event.active) simulation.alphaTarget(0.3).restart();
+        dragStart = { x: d.x || 0, y: d.y || 0 };
+        if (layoutRef.current !== 'force') return;
+        if (!event.active) activeSimulation.alphaTarget(0.3).restart();
         d.fx = d.x;
         d.fy = d.y;
       })
       .on('drag', (event, d) => {
+        if (layoutRef.current !== 'force') {
+          d.x = event.x;
+          d.y = event.y;
+          renderPositions();
+          return;
+        }
         d.fx = event.x;
         d.fy = event.y;
       })
       .on('end', (event, d) => {
-        if (!event.active) simulation.alphaTarget(0);
-        d.fx = null;
-        d.fy = null;
+        const isMoved = !!dragStart && (dragStart.x !== event.x || dragStart.y !== event.y);
+        if (layoutRef.current === 'force' && !event.active) activeSimulation.alphaTarget(0);
+
+        // In every layout a dropped node stays pinned where it was dropped; a plain click leaves it as it was
+        if (isMoved) {
+          d.fx = event.x;
+          d.fy = event.y;
+          if (layoutRef.current !== 'force') movedInTreeRef.current.add(d.id);
+          savePositions([{ nodeId: d.id, x: Math.round(event.x), y: Math.round(event.y), pinned: true }]);
+          recordCommand(createMoveCommand(d.id, dragStart!, { x: event.x, y: event.y }, moveNode));
+        } else if (layoutRef.current === 'force' && !d.pinned) {
+          d.fx = null;
+          d.fy = null;
+        }
+        dragStart = null;
       });
 
     nodeGroups.call(dragBehavior);
 
-    // Add click behavior for expansion
+    // Click opens the detail panel, double-click expands a response, right-click opens the menu
     nodeGroups.on('click', handleNodeClick);
+    nodeGroups.on('dblclick', handleNodeDoubleClick);
+    nodeGroups.on('contextmenu', handleNodeContextMenu);
+    
+    // Clicking the background clears the selection, closes the detail panel and the menu
+    svg.on('click', (event) => {
+      if (event.target === svgRef.current) {
+        selectNode(null);
+        showNodeDetail(null);
+        closeContextMenu();
+      }
+    });
 
     // Update positions on each tick
-    simulation.on('tick', () => {
+    const renderPositions = () => {
       links
         .attr('x1', (d: any) => d.source.x)
         .attr('y1', (d: any) => d.source.y)
@@ -422,15 +1206,126 @@ export const D3ForceGraph: React.FC = () => {
 
       nodeGroups
         .attr('transform', (d) => `translate(${d.x},${d.y})`);
+      
+      d3Nodes.forEach(d => positions.set(d.id, { x: d.x || 0, y: d.y || 0 }));
+      scheduleMinimapUpdate();
+    };
+    simulation.on('tick', renderPositions);
+    renderPositionsRef.current = renderPositions;
+
+    // A new session (or one just opened) is fitted to the screen once it settles
+    const fitIfPending = () => {
+      if (!pendingFitRef.current) return;
+      pendingFitRef.current = false;
+      fitToView();
+    };
+    if (isNewLayout) pendingFitRef.current = true;
+
+    // Once the force layout settles, positions that moved are saved with the session
+    const saveSettledPositions = () => {
+      const saved = new Map(useGraphStore.getState().nodes.map(node => [node.id, node.position]));
+      const moved = d3Nodes.filter(d => {
+        const position = saved.get(d.id);
+        return position && (Math.abs(position.x - (d.x || 0)) > 1 || Math.abs(position.y - (d.y || 0)) > 1);
+      });
+      savePositions(moved.map(d => ({ nodeId: d.id, x: Math.round(d.x || 0), y: Math.round(d.y || 0) })));
+    };
+    simulation.on('end', () => {
+      saveSettledPositions();
+      fitIfPending();
     });
 
-    // Cleanup function
-    return () => {
-      if (simulationRef.current) {
-        simulationRef.current.stop();
+    if (layout === 'force') {
+      // Unknown layouts settle from scratch (saved ones only need a nudge), added or removed
+      // nodes (or leaving a tree layout) need a moderate reheat and text-only updates
+      // (e.g. streamed chunks) just a gentle nudge
+      const alpha = isNewLayout
+        ? (visibleNodes.every(hasSavedPosition) ? FORCE_CONFIG.TEXT_UPDATE_ALPHA : 1)
+        : isStructureChange || layoutRef.current !== 'force'
+          ? FORCE_CONFIG.STRUCTURE_UPDATE_ALPHA
+          : isResized ? FORCE_CONFIG.TEXT_UPDATE_ALPHA : 0;
+      if (alpha > 0) {
+        simulation.alpha(Math.max(simulation.alpha(), alpha)).restart();
+      } else {
+        // Draw links that were re-bound without moving any node
+        renderPositions();
       }
-    };
-  }, [graphNodes, graphEdges, handleNodeClick]);
+    } else {
+      // Tree layouts are fixed: the root stays where it is and everything else moves into place.
+      // They are only recomputed when nodes are added, removed or resized, and nodes moved
+      // by hand stay where they were put.
+      simulation.stop();
+      renderPositions();
+
+      const layoutNodes = d3Nodes.map(d => ({
+        id: d.id,
+        parentId: d.parentId,
+        width: d.width || FORCE_CONFIG.MIN_NODE_WIDTH,
+        height: d.height || FORCE_CONFIG.NODE_HEIGHT
+      }));
+      const layoutKey = layoutNodes.map(d => `${d.id}>${d.parentId || ''}:${d.width}x${d.height}`).join('|');
+      const isLaidOut = treeLayoutKeyRef.current === layoutKey;
+      treeLayoutKeyRef.current = layoutKey;
+      const moved = movedInTreeRef.current;
+
+      const targets = isLaidOut ? new Map<string, { x: number, y: number }>() : computeGraphLayout(layoutNodes, layout);
+      const root = d3Nodes.find(node => !node.parentId || !currentIds.has(node.parentId));
+      const rootTarget = root && targets.get(root.id);
+      const offset = root && rootTarget
+        ? { x: (root.x || 0) - rootTarget.x, y: (root.y || 0) - rootTarget.y }
+        : { x: 0, y: 0 };
+      const starts = new Map(d3Nodes.map(d => [d.id, { x: d.x || 0, y: d.y || 0 }]));
+      const isInPlace = d3Nodes.every(d => {
+        const target = targets.get(d.id);
+        return !target || moved.has(d.id) || (Math.abs(target.x + offset.x - (d.x || 0)) < 0.5 && Math.abs(target.y + offset.y - (d.y || 0)) < 0.5);
+      });
+
+      if (isInPlace) {
+        fitIfPending();
+      } else {
+        svg
+          .transition('layout')
+          .duration(LAYOUT_TRANSITION_MS)
+          .tween('layout', () => (t: number) => {
+            d3Nodes.forEach(d => {
+              const start = starts.get(d.id)!;
+              const target = targets.get(d.id);
+              if (!target || moved.has(d.id)) return;
+              d.x = start.x + (target.x + offset.x - start.x) * t;
+              d.y = start.y + (target.y + offset.y - start.y) * t;
+              d.vx = 0;
+              d.vy = 0;
+            });
+            renderPositions();
+          })
+          .on('end', fitIfPending);
+      }
+    }
+    layoutRef.current = layout;
+    scheduleMinimapUpdate();
+
+    // Nodes created off screen are brought into view
+    if (!isNewLayout && addedNodes.length > 0) {
+      centerOnNode(addedNodes[addedNodes.length - 1].id, true);
+    }
+  }, [graphNodes, collapsedView, phantomBranches, streamingNodeIds, regeneratingIds, layout, handleNodeClick, handleNodeDoubleClick, handleNodeContextMenu, closeContextMenu, selectNode, showNodeDetail, toggleCollapsed, recordCommand, moveNode, savePositions, scheduleMinimapUpdate, fitToView, centerOnNode]);
+
+  /**
+   * Drops the simulation once the graph is empty (the SVG is unmounted)
+   * and stops it when the component unmounts.
+   */
+  useEffect(() => {
+    if (graphNodes.length > 0 || isLoading) return;
+
+    simulationRef.current?.stop();
+    simulationRef.current = null;
+    zoomRef.current = null;
+    setMinimap(null);
+  }, [graphNodes.length, isLoading]);
+
+  useEffect(() => () => {
+    simulationRef.current?.stop();
+  }, []);
 
   /**
    * Handle window resize
@@ -442,15 +1337,15 @@ export const D3ForceGraph: React.FC = () => {
         const height = window.innerHeight;
         
         simulationRef.current
-          .force('center', forceCenter(width / 2, height / 2).strength(FORCE_CONFIG.CENTER_STRENGTH))
-          .alpha(0.3)
-          .restart();
+          .force('center', forceCenter(width / 2, height / 2).strength(FORCE_CONFIG.CENTER_STRENGTH));
+        if (layoutRef.current === 'force') simulationRef.current.alpha(0.3).restart();
+        scheduleMinimapUpdate();
       }
     };
 
     window.addEventListener('resize', handleResize);
     return () => window.removeEventListener('resize', handleResize);
-  }, []);
+  }, [scheduleMinimapUpdate]);
 
   // ===================================================================
   // RENDER STATES
@@ -486,6 +1381,27 @@ export const D3ForceGraph: React.FC = () => {
     );
   }
 
+  const focusedNodeId = detailNodeId || selectedNodeId;
+  const branchNodeIds = focusedNodeId && graphNodes.some(node => node.id === focusedNodeId)
+    ? getSubtreeIds(graphNodes, focusedNodeId)
+    : null;
+  const contextMenuNode = contextMenu && graphNodes.find(node => node.id === contextMenu.nodeId);
+  const contextMenuSubtree = contextMenuNode ? getSubtreeIds(graphNodes, contextMenuNode.id) : new Set<string>();
+  const contextMenuHasStale = graphNodes.some(node => node.stale && contextMenuSubtree.has(node.id));
+  const contextMenuExpansion = contextMenuNode && pendingExpansions[contextMenuNode.id];
+  const contextMenuItemStyle: React.CSSProperties = {
+    display: 'block',
+    width: '100%',
+    padding: '8px 12px',
+    textAlign: 'left',
+    fontSize: '13px',
+    color: '#334155',
+    background: 'transparent',
+    border: 'none',
+    borderRadius: '6px',
+    cursor: 'pointer'
+  };
+
   /**
    * Renders the fullscreen D3 force graph interface.
    */
@@ -499,8 +1415,8 @@ export const D3ForceGraph: React.FC = () => {
       width: '100vw',
       height: '100vh'
     }}>
-      {/* Loading Overlay */}
-      {isLoading && (
+      {/* Loading Overlay (hidden once streamed nodes start filling in) */}
+      {isLoading && streamingNodeIds.length === 0 && (
         <div style={{ 
           position: 'absolute', 
           top: '0', 
@@ -547,6 +1463,139 @@ export const D3ForceGraph: React.FC = () => {
         </div>
       )}
       
+      {/* Node Context Menu */}
+      {contextMenuNode && (
+        <div
+          onContextMenu={(e) => e.preventDefault()}
+          style={{
+            position: 'fixed',
+            top: `${Math.min(contextMenu!.y, window.innerHeight - 260)}px`,
+            left: `${Math.min(contextMenu!.x, window.innerWidth - 260)}px`,
+            zIndex: 300,
+            minWidth: '180px',
+            padding: '6px',
+            background: 'white',
+            border: '1px solid #e2e8f0',
+            borderRadius: '10px',
+            boxShadow: '0 8px 25px rgba(0, 0, 0, 0.15)'
+          }}
+        >
+          {editDraft !== null ? (
+            <div style={{ width: '240px', padding: '4px' }}>
+              <textarea
+                autoFocus
+                value={editDraft}
+                maxLength={1000}
+                rows={3}
+                onChange={(e) => setEditDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault();
+                    handleSavePrompt(contextMenuNode.id);
+                  }
+                }}
+                style={{
+                  width: '100%',
+                  padding: '6px 8px',
+                  fontSize: '13px',
+                  fontFamily: 'inherit',
+                  border: '1px solid #667eea',
+                  borderRadius: '6px',
+                  outline: 'none',
+                  resize: 'vertical'
+                }}
+              />
+              <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '6px', marginTop: '6px' }}>
+                <button type="button" onClick={closeContextMenu} style={{ ...contextMenuItemStyle, width: 'auto' }}>
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleSavePrompt(contextMenuNode.id)}
+                  disabled={!editDraft.trim()}
+                  style={{ ...contextMenuItemStyle, width: 'auto', color: '#667eea', fontWeight: '600' }}
+                >
+                  Save
+                </button>
+              </div>
+            </div>
+          ) : (
+            <>
+              <button
+                type="button"
+                onClick={() => {
+                  showNodeDetail(contextMenuNode.id);
+                  closeContextMenu();
+                }}
+                style={contextMenuItemStyle}
+              >
+                📄 Open details
+              </button>
+              {contextMenuExpansion && (
+                <button
+                  type="button"
+                  onClick={() => handleCancelExpansion(contextMenuNode.id)}
+                  style={contextMenuItemStyle}
+                >
+                  ✖ {contextMenuExpansion.status === 'queued' ? 'Remove from queue' : `Cancel ${contextMenuExpansion.isFollowUp ? 'follow-up' : 'expansion'}`}
+                </button>
+              )}
+              {contextMenuNode.type === 'prompt' && (
+                <button
+                  type="button"
+                  onClick={() => setEditDraft(unescapeHtml(contextMenuNode.text))}
+                  disabled={isLoading}
+                  style={contextMenuItemStyle}
+                >
+                  ✏️ Edit prompt
+                </button>
+              )}
+              {collapsedView.childCounts.has(contextMenuNode.id) && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    toggleCollapsed(contextMenuNode.id);
+                    closeContextMenu();
+                  }}
+                  style={contextMenuItemStyle}
+                >
+                  {collapsedView.hiddenCounts.has(contextMenuNode.id)
+                    ? `▾ Expand branch (${collapsedView.hiddenCounts.get(contextMenuNode.id)} hidden)`
+                    : '▸ Collapse branch'}
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => handleTogglePin(contextMenuNode.id)}
+                style={contextMenuItemStyle}
+              >
+                📌 {contextMenuNode.pinned ? 'Unpin node' : 'Pin node here'}
+              </button>
+              {contextMenuHasStale && (
+                <button
+                  type="button"
+                  onClick={() => handleRegenerateSubtree(contextMenuNode.id)}
+                  disabled={isLoading || !!pendingRegenerations[contextMenuNode.id]}
+                  style={contextMenuItemStyle}
+                >
+                  {pendingRegenerations[contextMenuNode.id] ? '🔄 Regenerating…' : '🔄 Regenerate stale branch'}
+                </button>
+              )}
+              {contextMenuNode.parentId && (
+                <button
+                  type="button"
+                  onClick={() => handleDeleteNode(contextMenuNode.id)}
+                  disabled={isLoading}
+                  style={{ ...contextMenuItemStyle, color: '#dc2626' }}
+                >
+                  🗑 Delete branch
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      )}
+      
       {/* D3 SVG Canvas - Fullscreen */}
       <svg
         ref={svgRef}
@@ -558,6 +1607,21 @@ export const D3ForceGraph: React.FC = () => {
           background: '#f8fafc'
         }}
       />
+      
+      {/* SVG/PNG export */}
+      <GraphImageExport svgRef={svgRef} branchNodeIds={branchNodeIds} />
+      <LayoutSwitcher layout={layout} onChange={handleLayoutChange} />
+      {minimap && (
+        <GraphMinimap
+          nodes={minimap.nodes}
+          viewport={minimap.viewport}
+          scale={minimap.scale}
+          onNavigate={navigateTo}
+          onZoomIn={() => zoomBy(ZOOM_CONFIG.STEP)}
+          onZoomOut={() => zoomBy(1 / ZOOM_CONFIG.STEP)}
+          onFitToView={fitToView}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,183 @@
+/**
+ * ===================================================================
+ * GRAPH IMAGE EXPORT - Forum AI Brainstorming Application (Client)
+ * ===================================================================
+ *
+ * Floating control in the bottom-left corner of the graph that saves the
+ * rendered graph as a standalone SVG or PNG file.
+ *
+ * @author Forum Development Team
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import React, { useState } from 'react';
+import { useGraphStore } from '../store/graphStore';
+import { serializeGraphSvg, rasterizeGraphImage } from '../utils/graphImage';
+import { downloadBlob } from '../utils/download';
+
+/**
+ * PNG resolutions offered, as pixels per graph unit.
+ */
+const PNG_SCALES = [1, 2, 3, 4];
+
+/**
+ * Props for GraphImageExport.
+ */
+interface GraphImageExportProps {
+  /** The rendered graph */
+  svgRef: React.RefObject<SVGSVGElement | null>;
+
+  /** Nodes of the branch below the focused node, null when no node is focused */
+  branchNodeIds: Set<string> | null;
+}
+
+/**
+ * GraphImageExport component.
+ *
+ * Features:
+ * - SVG with inlined styles and the current layout
+ * - PNG at 1x-4x resolution
+ * - Optionally only the branch below the node open in the detail panel
+ *   (or chosen for a follow-up)
+ *
+ * @param {GraphImageExportProps} props - Graph element and focused branch
+ * @returns {JSX.Element} The toggle button and, when open, the export options
+ */
+const GraphImageExport: React.FC<GraphImageExportProps> = ({ svgRef, branchNodeIds }) => {
+  const { setError } = useGraphStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [format, setFormat] = useState<'svg' | 'png'>('svg');
+  const [scale, setScale] = useState(2);
+  const [onlyBranch, setOnlyBranch] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const exportsBranch = onlyBranch && !!branchNodeIds;
+
+  /**
+   * Serializes the graph and downloads it in the chosen format.
+   */
+  const handleExport = async () => {
+    if (!svgRef.current) return;
+
+    try {
+      setIsExporting(true);
+      const image = serializeGraphSvg(svgRef.current, exportsBranch ? branchNodeIds! : undefined);
+      const filename = exportsBranch ? 'forum-branch' : 'forum-graph';
+
+      if (format === 'svg') {
+        downloadBlob(new Blob([image.svg], { type: 'image/svg+xml' }), `${filename}.svg`);
+      } else {
+        downloadBlob(await rasterizeGraphImage(image, scale), `${filename}@${scale}x.png`);
+      }
+      console.info(`🖼️ Exported ${exportsBranch ? 'branch' : 'graph'} as ${format.toUpperCase()}`);
+      setIsOpen(false);
+    } catch (err) {
+      console.error('❌ Failed to export graph image:', err);
+      setError('Failed to export the graph image. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const optionStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    fontSize: '13px',
+    color: '#334155'
+  };
+
+  return (
+    <div style={{ position: 'fixed', left: '20px', bottom: '20px', zIndex: 200 }}>
+      {isOpen && (
+        <div
+          style={{
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '10px',
+            width: '220px',
+            marginBottom: '8px',
+            padding: '14px',
+            background: 'white',
+            border: '1px solid #e2e8f0',
+            borderRadius: '10px',
+            boxShadow: '0 8px 25px rgba(0, 0, 0, 0.15)'
+          }}
+        >
+          <div style={{ display: 'flex', gap: '12px' }}>
+            {(['svg', 'png'] as const).map(option => (
+              <label key={option} style={optionStyle}>
+                <input type="radio" checked={format === option} onChange={() => setFormat(option)} />
+                {option.toUpperCase()}
+              </label>
+            ))}
+          </div>
+
+          {format === 'png' && (
+            <label style={optionStyle}>
+              Resolution
+              <select value={scale} onChange={(e) => setScale(Number(e.target.value))}>
+                {PNG_SCALES.map(option => (
+                  <option key={option} value={option}>{option}x</option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          <label
+            style={{ ...optionStyle, color: branchNodeIds ? '#334155' : '#94a3b8' }}
+            title={branchNodeIds ? undefined : 'Open or select a node to export its branch'}
+          >
+            <input
+              type="checkbox"
+              checked={exportsBranch}
+              disabled={!branchNodeIds}
+              onChange={(e) => setOnlyBranch(e.target.checked)}
+            />
+            Only the selected branch
+          </label>
+
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={isExporting}
+            style={{
+              padding: '8px',
+              fontSize: '13px',
+              fontWeight: '600',
+              color: 'white',
+              background: '#667eea',
+              border: 'none',
+              borderRadius: '8px',
+              cursor: isExporting ? 'not-allowed' : 'pointer'
+            }}
+          >
+            {isExporting ? 'Exporting…' : 'Download'}
+          </button>
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        title={isOpen ? 'Hide image export' : 'Export the graph as an image'}
+        style={{
+          padding: '10px 14px',
+          fontSize: '14px',
+          fontWeight: '600',
+          color: '#334155',
+          background: 'rgba(255, 255, 255, 0.95)',
+          border: '1px solid #e2e8f0',
+          borderRadius: '10px',
+          boxShadow: '0 4px 12px rgba(0, 0, 0, 0.1)',
+          cursor: 'pointer'
+        }}
+      >
+        {isOpen ? '✕' : '🖼 Image'}
+      </button>
+    </div>
+  );
+};
+
+export default GraphImageExport;
@@ -0,0 +1,189 @@
+/**
+ * ===================================================================
+ * GRAPH MINIMAP - Forum AI Brainstorming Application (Client)
+ * ===================================================================
+ *
+ * Floating navigation panel in the bottom-right corner of the graph:
+ * zoom buttons, fit-to-content and a persona-colored overview of the
+ * whole session with the visible area outlined.
+ *
+ * @author Forum Development Team
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import React, { useRef } from 'react';
+
+/**
+ * Size of the overview, in pixels.
+ */
+const MINIMAP_WIDTH = 200;
+const MINIMAP_HEIGHT = 140;
+
+/**
+ * A node as drawn in the overview, in graph coordinates.
+ */
+export interface MinimapNode {
+  /** Node identifier */
+  id: string;
+
+  /** Center of the node */
+  x: number;
+  y: number;
+
+  /** Node size */
+  width: number;
+  height: number;
+
+  /** Fill color (persona color for responses) */
+  color: string;
+}
+
+/**
+ * A rectangle in graph coordinates.
+ */
+export interface MinimapViewport {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Props for GraphMinimap.
+ */
+interface GraphMinimapProps {
+  /** Nodes with their current layout */
+  nodes: MinimapNode[];
+
+  /** Area of the graph currently visible on screen */
+  viewport: MinimapViewport;
+
+  /** Current zoom scale, shown as a percentage */
+  scale: number;
+
+  /** Centers the view on a point in graph coordinates */
+  onNavigate: (point: { x: number, y: number }) => void;
+
+  /** Zoom buttons */
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+
+  /** Fits all nodes into the view */
+  onFitToView: () => void;
+}
+
+/**
+ * GraphMinimap component.
+ *
+ * Features:
+ * - Zoom in / out and fit-to-content buttons with the current zoom level
+ * - Overview of every node in its persona color
+ * - The visible area outlined; clicking or dragging in the overview pans there
+ *
+ * @param {GraphMinimapProps} props - Layout snapshot and navigation callbacks
+ * @returns {JSX.Element} The navigation panel
+ */
+const GraphMinimap: React.FC<GraphMinimapProps> = ({
+  nodes,
+  viewport,
+  scale,
+  onNavigate,
+  onZoomIn,
+  onZoomOut,
+  onFitToView
+}) => {
+  const minimapRef = useRef<SVGSVGElement>(null);
+
+  // Show the nodes and the visible area together
+  const minX = Math.min(viewport.x, ...nodes.map(node => node.x - node.width / 2));
+  const minY = Math.min(viewport.y, ...nodes.map(node => node.y - node.height / 2));
+  const maxX = Math.max(viewport.x + viewport.width, ...nodes.map(node => node.x + node.width / 2));
+  const maxY = Math.max(viewport.y + viewport.height, ...nodes.map(node => node.y + node.height / 2));
+  const viewBox = [minX, minY, maxX - minX, maxY - minY];
+
+  /**
+   * Pans the graph to the point under the pointer.
+   */
+  const navigateToPointer = (e: React.PointerEvent<SVGSVGElement>) => {
+    const matrix = minimapRef.current?.getScreenCTM();
+    if (!matrix) return;
+
+    const point = new DOMPoint(e.clientX, e.clientY).matrixTransform(matrix.inverse());
+    onNavigate({ x: point.x, y: point.y });
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    width: '32px',
+    height: '28px',
+    fontSize: '14px',
+    fontWeight: '600',
+    color: '#334155',
+    background: 'white',
+    border: '1px solid #e2e8f0',
+    borderRadius: '6px',
+    cursor: 'pointer'
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        right: '20px',
+        bottom: '20px',
+        zIndex: 200,
+        padding: '8px',
+        background: 'rgba(255, 255, 255, 0.95)',
+        border: '1px solid #e2e8f0',
+        borderRadius: '10px',
+        boxShadow: '0 4px 12px rgba(0, 0, 0, 0.1)'
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '8px' }}>
+        <button type="button" onClick={onZoomOut} title="Zoom out" style={buttonStyle}>−</button>
+        <button type="button" onClick={onZoomIn} title="Zoom in" style={buttonStyle}>+</button>
+        <button type="button" onClick={onFitToView} title="Fit the graph to the screen" style={buttonStyle}>⤢</button>
+        <span style={{ marginLeft: 'auto', fontSize: '12px', color: '#64748b' }}>{Math.round(scale * 100)}%</span>
+      </div>
+
+      <svg
+        ref={minimapRef}
+        width={MINIMAP_WIDTH}
+        height={MINIMAP_HEIGHT}
+        viewBox={viewBox.join(' ')}
+        style={{ display: 'block', background: '#f8fafc', borderRadius: '6px', cursor: 'crosshair' }}
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          navigateToPointer(e);
+        }}
+        onPointerMove={(e) => {
+          if (e.buttons === 1) navigateToPointer(e);
+        }}
+      >
+        {nodes.map(node => (
+          <rect
+            key={node.id}
+            x={node.x - node.width / 2}
+            y={node.y - node.height / 2}
+            width={node.width}
+            height={node.height}
+            rx={12}
+            fill={node.color}
+          />
+        ))}
+        <rect
+          x={viewport.x}
+          y={viewport.y}
+          width={viewport.width}
+          height={viewport.height}
+          fill="rgba(102, 126, 234, 0.08)"
+          stroke="#667eea"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+    </div>
+  );
+};
+
+export default GraphMinimap;
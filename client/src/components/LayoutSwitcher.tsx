@@ -0,0 +1,92 @@
+/**
+ * ===================================================================
+ * LAYOUT SWITCHER - Forum AI Brainstorming Application (Client)
+ * ===================================================================
+ *
+ * Segmented control at the top of the graph for choosing between the
+ * force layout and the hierarchical tree layouts.
+ *
+ * @author Forum Development Team
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import React from 'react';
+import type { GraphLayout } from '../utils/graphLayouts';
+
+/**
+ * Layouts in the order they are offered.
+ */
+const LAYOUT_OPTIONS: Array<{ layout: GraphLayout, label: string, description: string }> = [
+  { layout: 'force', label: 'Force', description: 'Physics-based layout, nodes can be dragged freely' },
+  { layout: 'radial', label: 'Radial', description: 'Root in the center, each generation on a ring' },
+  { layout: 'tree', label: 'Tree', description: 'Top-down tree, each generation on a row' }
+];
+
+/**
+ * Props for LayoutSwitcher.
+ */
+interface LayoutSwitcherProps {
+  /** Active layout */
+  layout: GraphLayout;
+
+  /** Called with the layout the user picked */
+  onChange: (layout: GraphLayout) => void;
+}
+
+/**
+ * LayoutSwitcher component.
+ *
+ * @param {LayoutSwitcherProps} props - Active layout and change handler
+ * @returns {JSX.Element} One button per layout
+ */
+const LayoutSwitcher: React.FC<LayoutSwitcherProps> = ({ layout, onChange }) => {
+  return (
+    <div
+      role="radiogroup"
+      aria-label="Graph layout"
+      style={{
+        position: 'fixed',
+        top: '20px',
+        left: '50%',
+        transform: 'translateX(-50%)',
+        zIndex: 200,
+        display: 'flex',
+        gap: '4px',
+        padding: '4px',
+        background: 'rgba(255, 255, 255, 0.95)',
+        border: '1px solid #e2e8f0',
+        borderRadius: '10px',
+        boxShadow: '0 4px 12px rgba(0, 0, 0, 0.1)'
+      }}
+    >
+      {LAYOUT_OPTIONS.map(option => {
+        const isActive = option.layout === layout;
+        return (
+          <button
+            key={option.layout}
+            type="button"
+            role="radio"
+            aria-checked={isActive}
+            title={option.description}
+            onClick={() => onChange(option.layout)}
+            style={{
+              padding: '6px 14px',
+              fontSize: '13px',
+              fontWeight: '600',
+              color: isActive ? 'white' : '#334155',
+              background: isActive ? '#667eea' : 'transparent',
+              border: 'none',
+              borderRadius: '7px',
+              cursor: 'pointer'
+            }}
+          >
+            {option.label}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default LayoutSwitcher;
@@ -0,0 +1,557 @@
+/**
+ * ===================================================================
+ * NODE DETAIL PANEL - Forum AI Brainstorming Application (Client)
+ * ===================================================================
+ *
+ * Side panel showing the complete text of the node opened in the graph.
+ * Graph nodes only fit a few short lines, so this is where persona
+ * answers are read in full, rendered as sanitized Markdown.
+ *
+ * @author Forum Development Team
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { marked } from 'marked';
+import DOMPurify from 'dompurify';
+import { useGraphStore } from '../store/graphStore';
+import { brainstormApi, getBranchErrorMessage } from '../services/api';
+import { expansionQueue } from '../services/expansionQueue';
+import { resolvePersonaColor } from '../utils/personaColors';
+import type { Node as GraphNode } from '../../../shared/types';
+
+/**
+ * Renders Markdown to HTML that is safe to inject into the page.
+ * Model output is untrusted, so raw HTML in it is sanitized away.
+ *
+ * @param {string} text - Markdown text
+ * @returns {string} Sanitized HTML
+ */
+const renderMarkdown = (text: string): string => {
+  return DOMPurify.sanitize(marked.parse(text, { async: false, gfm: true, breaks: true }));
+};
+
+/**
+ * Shortens text for breadcrumb entries.
+ *
+ * @param {string} text - Text to shorten
+ * @param {number} [maxLength=28] - Maximum number of characters
+ * @returns {string} Shortened text
+ */
+const shorten = (text: string, maxLength: number = 28): string => {
+  return text.length > maxLength ? `${text.substring(0, maxLength - 1)}…` : text;
+};
+
+/**
+ * NodeDetailPanel component.
+ *
+ * Features:
+ * - Full node text rendered as sanitized Markdown
+ * - Loads the untruncated text from the server when the session response was shortened
+ * - Persona, creation time and a clickable breadcrumb of parent nodes
+ * - Actions: expand (or cancel a pending expansion), follow up, regenerate and copy
+ * - Failed responses show the failure reason and a retry button instead of fallback text
+ * - Regenerated responses can be browsed version by version and any version made active
+ * - Stale nodes explain why and offer to regenerate the branch from there
+ * - Escape or ✕ closes the panel
+ *
+ * @returns {JSX.Element | null} The panel, or null when no node is open
+ */
+const NodeDetailPanel = () => {
+  const {
+    nodes,
+    personas,
+    sessionId,
+    detailNodeId,
+    selectedNodeId,
+    streamingNodeIds,
+    pendingExpansions,
+    pendingRegenerations,
+    updateNodes,
+    showNodeDetail,
+    selectNode,
+    setPendingRegeneration,
+    clearPendingRegeneration,
+    setError
+  } = useGraphStore();
+  const [fullText, setFullText] = useState<{ nodeId: string, text: string } | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+  const [regeneratingId, setRegeneratingId] = useState<string | null>(null);
+  const [viewed, setViewed] = useState<{ nodeId: string, version: number } | null>(null);
+
+  const node = nodes.find(candidate => candidate.id === detailNodeId);
+
+  // Walk parent links to build the breadcrumb from the root prompt
+  const ancestors = useMemo(() => {
+    const path: GraphNode[] = [];
+    const visited = new Set<string>();
+    let parentId = node?.parentId;
+
+    while (parentId && !visited.has(parentId)) {
+      visited.add(parentId);
+      const parent = nodes.find(candidate => candidate.id === parentId);
+      if (!parent) break;
+      path.unshift(parent);
+      parentId = parent.parentId;
+    }
+
+    return path;
+  }, [nodes, node?.parentId]);
+
+  // Fetch the complete text when the server shortened this node's text
+  useEffect(() => {
+    if (!node?.truncated || !sessionId) return;
+
+    let cancelled = false;
+    brainstormApi.getNodeDetail(sessionId, node.id)
+      .then(detail => {
+        if (!cancelled) setFullText({ nodeId: detail.node.id, text: detail.node.text });
+      })
+      .catch(error => console.error('Failed to load full node text:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, node?.id, node?.truncated]);
+
+  // Escape closes the panel
+  useEffect(() => {
+    if (!detailNodeId) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') showNodeDetail(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [detailNodeId, showNodeDetail]);
+
+  useEffect(() => {
+    setCopied(false);
+  }, [detailNodeId]);
+
+  // A version other than the active one can be previewed before making it active
+  const viewedIndex = viewed && viewed.nodeId === node?.id ? viewed.version : node?.activeVersion;
+  const previewVersion = node?.versions && viewedIndex !== node.activeVersion ? node.versions[viewedIndex ?? -1] : undefined;
+  const activeText = node && fullText?.nodeId === node.id ? fullText.text : node?.text || '';
+  const text = previewVersion ? previewVersion.text : activeText;
+  const isFallback = previewVersion ? !!previewVersion.isFallback : !!node?.isFallback;
+  const html = useMemo(() => renderMarkdown(text), [text]);
+
+  if (!node) {
+    return null;
+  }
+
+  const persona = personas.find(candidate => candidate.name === node.persona);
+  const title = node.type === 'prompt' ? 'Prompt' : persona?.label || node.persona || 'Response';
+  const accent = node.type === 'prompt' ? '#667eea' : resolvePersonaColor(node.color);
+  const isStreaming = streamingNodeIds.includes(node.id);
+  const isRetrying = retryingId === node.id;
+  const isRegenerating = regeneratingId === node.id;
+  const isRegeneratingBranch = !!pendingRegenerations[node.id];
+  const pendingExpansion = pendingExpansions[node.id];
+  const canBranch = node.type === 'response' && !!sessionId && !isStreaming && !node.isFallback && !pendingExpansion;
+  const canRegenerate = node.type === 'response' && !!sessionId && !isStreaming && !isRetrying && !isRegenerating;
+
+  /**
+   * Queues an expansion of the node with one new response per session personality.
+   */
+  const handleExpand = () => {
+    if (!sessionId || !canBranch) return;
+
+    console.info(`🎯 Expanding ${node.persona} response from the detail panel`);
+    setError(null);
+    expansionQueue.enqueue(sessionId, node.id);
+  };
+
+  /**
+   * Regenerates a failed response in place.
+   */
+  const handleRetry = async () => {
+    if (!sessionId || isRetrying) return;
+
+    console.info(`🔁 Retrying failed ${node.persona} response ${node.id}`);
+
+    try {
+      setRetryingId(node.id);
+      setError(null);
+      const { node: updated, staleNodeIds } = await brainstormApi.retryNode(sessionId, node.id);
+      updateNodes([updated], staleNodeIds);
+      if (updated.isFallback) {
+        setError(`${title} still couldn't answer: ${updated.error || 'unknown error'}`);
+      }
+    } catch (err) {
+      console.error('❌ Failed to retry node:', err);
+      setError(getBranchErrorMessage(err, 'Failed to retry the response. Please try again.'));
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  /**
+   * Re-runs the node's persona; the new text becomes the active version.
+   */
+  const handleRegenerate = async () => {
+    if (!sessionId || !canRegenerate) return;
+
+    console.info(`🔄 Regenerating ${node.persona} response ${node.id}`);
+
+    try {
+      setRegeneratingId(node.id);
+      setError(null);
+      const { node: updated, staleNodeIds } = await brainstormApi.regenerateNode(sessionId, node.id);
+      updateNodes([updated], staleNodeIds);
+      setViewed(null);
+    } catch (err) {
+      console.error('❌ Failed to regenerate node:', err);
+      setError(getBranchErrorMessage(err, 'Failed to regenerate the response. Please try again.'));
+    } finally {
+      setRegeneratingId(null);
+    }
+  };
+
+  /**
+   * Regenerates this node (if stale) and the stale nodes below it, top-down.
+   */
+  const handleRegenerateSubtree = async () => {
+    if (!sessionId || isRegeneratingBranch) return;
+
+    console.info(`🔄 Regenerating stale branch from ${node.id}`);
+
+    try {
+      setPendingRegeneration(node.id, sessionId);
+      setError(null);
+      const { nodes: updated, skippedNodeIds, staleNodeIds } = await brainstormApi.regenerateSubtree(sessionId, node.id);
+      if (useGraphStore.getState().sessionId !== sessionId) return;
+
+      updateNodes(updated, staleNodeIds);
+      setViewed(null);
+      if (skippedNodeIds.length > 0) {
+        setError(`${skippedNodeIds.length} stale nodes were left as they are because their persona no longer exists.`);
+      }
+    } catch (err) {
+      console.error('❌ Failed to regenerate subtree:', err);
+      if (useGraphStore.getState().sessionId === sessionId) {
+        setError(getBranchErrorMessage(err, 'Failed to regenerate the branch. Please try again.'));
+      }
+    } finally {
+      clearPendingRegeneration(node.id);
+    }
+  };
+
+  /**
+   * Makes the previewed version the node's active version.
+   */
+  const handleActivateVersion = async (version: number) => {
+    if (!sessionId) return;
+
+    try {
+      setError(null);
+      const { node: updated, staleNodeIds } = await brainstormApi.setActiveVersion(sessionId, node.id, version);
+      updateNodes([updated], staleNodeIds);
+      setViewed(null);
+    } catch (err) {
+      console.error('❌ Failed to change version:', err);
+      setError(getBranchErrorMessage(err, 'Failed to switch versions. Please try again.'));
+    }
+  };
+
+  /**
+   * Makes the node the follow-up target and moves focus to the prompt input.
+   */
+  const handleFollowUp = () => {
+    if (selectedNodeId !== node.id) {
+      selectNode(node.id);
+    }
+    (document.querySelector('input[type="text"]') as HTMLInputElement | null)?.focus();
+  };
+
+  /**
+   * Copies the node's full text to the clipboard.
+   */
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+    } catch (error) {
+      console.error('Failed to copy node text:', error);
+      setError('Could not copy to the clipboard.');
+    }
+  };
+
+  const actionStyle = (enabled: boolean): React.CSSProperties => ({
+    padding: '8px 14px',
+    fontSize: '13px',
+    fontWeight: '600',
+    borderRadius: '8px',
+    border: `1px solid ${enabled ? accent : '#cbd5e1'}`,
+    background: 'transparent',
+    color: enabled ? accent : '#94a3b8',
+    cursor: enabled ? 'pointer' : 'not-allowed'
+  });
+
+  return (
+    <aside
+      className="node-detail-panel"
+      style={{
+        position: 'fixed',
+        top: '20px',
+        right: '20px',
+        bottom: '20px',
+        zIndex: 250,
+        width: '380px',
+        maxWidth: 'calc(100vw - 40px)',
+        display: 'flex',
+        flexDirection: 'column',
+        background: 'rgba(255, 255, 255, 0.97)',
+        backdropFilter: 'blur(12px)',
+        borderRadius: '16px',
+        borderTop: `4px solid ${accent}`,
+        boxShadow: '0 8px 32px rgba(0, 0, 0, 0.15)',
+        overflow: 'hidden'
+      }}
+    >
+      {/* Header: persona, time and close button */}
+      <div style={{ padding: '16px 20px 12px', borderBottom: '1px solid #e2e8f0' }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+          <span style={{ flex: '1', fontWeight: '700', fontSize: '16px', color: accent }}>
+            {node.type === 'prompt' ? '💬' : '🎭'} {title}
+          </span>
+          <button
+            type="button"
+            onClick={() => showNodeDetail(null)}
+            title="Close (Esc)"
+            style={{ border: 'none', background: 'transparent', fontSize: '16px', color: '#64748b', cursor: 'pointer' }}
+          >
+            ✕
+          </button>
+        </div>
+
+        {node.createdAt && (
+          <div style={{ marginTop: '4px', fontSize: '12px', color: '#94a3b8' }}>
+            {new Date(node.createdAt).toLocaleString()}
+            {node.model && ` • ${node.model}`}
+          </div>
+        )}
+
+        {/* Version switcher for regenerated responses */}
+        {node.versions && node.versions.length > 1 && viewedIndex !== undefined && (
+          <div style={{ marginTop: '10px', display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px', color: '#64748b' }}>
+            <button
+              type="button"
+              onClick={() => setViewed({ nodeId: node.id, version: viewedIndex - 1 })}
+              disabled={viewedIndex === 0}
+              title="Previous version"
+              style={{ border: 'none', background: 'transparent', cursor: viewedIndex === 0 ? 'not-allowed' : 'pointer', color: '#667eea' }}
+            >
+              ‹
+            </button>
+            <span>
+              Version {viewedIndex + 1} of {node.versions.length}
+              {viewedIndex === node.activeVersion ? ' (active)' : ''}
+            </span>
+            <button
+              type="button"
+              onClick={() => setViewed({ nodeId: node.id, version: viewedIndex + 1 })}
+              disabled={viewedIndex === node.versions.length - 1}
+              title="Next version"
+              style={{
+                border: 'none',
+                background: 'transparent',
+                cursor: viewedIndex === node.versions.length - 1 ? 'not-allowed' : 'pointer',
+                color: '#667eea'
+              }}
+            >
+              ›
+            </button>
+            <span style={{ flex: '1', color: '#94a3b8', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+              {new Date(node.versions[viewedIndex].createdAt).toLocaleString()}
+              {node.versions[viewedIndex].model && ` • ${node.versions[viewedIndex].model}`}
+            </span>
+            {previewVersion && (
+              <button
+                type="button"
+                onClick={() => handleActivateVersion(viewedIndex)}
+                disabled={isStreaming}
+                style={{ ...actionStyle(!isStreaming), padding: '4px 8px', fontSize: '12px' }}
+              >
+                Use this version
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Breadcrumb of the conversation leading to this node */}
+        {ancestors.length > 0 && (
+          <nav style={{ marginTop: '10px', display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '4px', fontSize: '12px' }}>
+            {ancestors.map(ancestor => (
+              <React.Fragment key={ancestor.id}>
+                <button
+                  type="button"
+                  onClick={() => showNodeDetail(ancestor.id)}
+                  title={ancestor.text}
+                  style={{ border: 'none', background: 'transparent', padding: '0', color: '#667eea', cursor: 'pointer', fontSize: '12px' }}
+                >
+                  {ancestor.type === 'prompt'
+                    ? shorten(ancestor.text)
+                    : personas.find(candidate => candidate.name === ancestor.persona)?.label || ancestor.persona}
+                </button>
+                <span style={{ color: '#cbd5e1' }}>›</span>
+              </React.Fragment>
+            ))}
+            <span style={{ color: '#64748b' }}>{node.type === 'prompt' ? shorten(node.text) : title}</span>
+          </nav>
+        )}
+      </div>
+
+      {/* Full text rendered as Markdown */}
+      <div
+        className="node-detail-markdown"
+        style={{ flex: '1', overflowY: 'auto', padding: '16px 20px', fontSize: '14px', lineHeight: '1.6', color: '#1e293b' }}
+      >
+        {node.stale && (
+          <div style={{
+            marginBottom: '12px',
+            padding: '12px',
+            borderRadius: '10px',
+            background: '#fffbeb',
+            border: '1px solid #fcd34d',
+            color: '#92400e',
+            fontSize: '13px'
+          }}>
+            <p>⟳ Out of date: an earlier message in this conversation changed after this was written.</p>
+            <button
+              type="button"
+              onClick={handleRegenerateSubtree}
+              disabled={isRegeneratingBranch || isStreaming}
+              style={{ ...actionStyle(!isRegeneratingBranch && !isStreaming), marginTop: '8px', padding: '6px 10px', fontSize: '12px' }}
+            >
+              {isRegeneratingBranch ? 'Regenerating…' : '🔄 Regenerate from here'}
+            </button>
+          </div>
+        )}
+        {isFallback ? (
+          <div style={{
+            padding: '16px',
+            borderRadius: '10px',
+            background: '#fff7ed',
+            border: '1px solid #fed7aa',
+            color: '#9a3412'
+          }}>
+            <p style={{ fontWeight: '600' }}>⚠️ {title} couldn't answer</p>
+            <p style={{ marginTop: '4px', fontSize: '13px' }}>
+              {(previewVersion ? previewVersion.error : node.error) || 'The response could not be generated.'}
+            </p>
+            {!previewVersion && (
+              <button
+                type="button"
+                onClick={handleRetry}
+                disabled={isRetrying || isRegenerating}
+                style={{ ...actionStyle(!isRetrying && !isRegenerating), marginTop: '12px' }}
+              >
+                {isRetrying ? 'Retrying…' : '↻ Retry'}
+              </button>
+            )}
+          </div>
+        ) : text ? (
+          <div dangerouslySetInnerHTML={{ __html: html }} />
+        ) : (
+          <p style={{ color: '#94a3b8' }}>…</p>
+        )}
+        {isStreaming && (
+          <p style={{ marginTop: '8px', fontSize: '12px', color: '#94a3b8' }}>Still generating…</p>
+        )}
+      </div>
+
+      {/* Actions */}
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', padding: '12px 20px 16px', borderTop: '1px solid #e2e8f0' }}>
+        {node.type === 'response' && (
+          <>
+            {pendingExpansion ? (
+              <button
+                type="button"
+                onClick={() => expansionQueue.cancel(node.id)}
+                title={pendingExpansion.status === 'queued' ? 'Waiting for other expansions to finish' : 'Stop generating this branch'}
+                style={actionStyle(true)}
+              >
+                {pendingExpansion.status === 'queued' ? '⏳ Queued · ✖ Cancel' : '⏳ Expanding · ✖ Cancel'}
+              </button>
+            ) : (
+              <button type="button" onClick={handleExpand} disabled={!canBranch} style={actionStyle(canBranch)}>
+                🔍 Expand
+              </button>
+            )}
+            <button type="button" onClick={handleFollowUp} disabled={!canBranch} style={actionStyle(canBranch)}>
+              ↪ Follow up
+            </button>
+            <button
+              type="button"
+              onClick={handleRegenerate}
+              disabled={!canRegenerate}
+              title="Ask this persona again; the current answer is kept as a version"
+              style={actionStyle(canRegenerate)}
+            >
+              {isRegenerating ? 'Regenerating…' : '🔄 Regenerate'}
+            </button>
+          </>
+        )}
+        <button type="button" onClick={handleCopy} disabled={!text || isFallback} style={actionStyle(!!text && !isFallback)}>
+          {copied ? '✓ Copied' : '📋 Copy'}
+        </button>
+      </div>
+
+      {/* Markdown content styles */}
+      <style>{`
+        .node-detail-markdown h1,
+        .node-detail-markdown h2,
+        .node-detail-markdown h3,
+        .node-detail-markdown h4 {
+          margin: 16px 0 8px;
+          font-size: 15px;
+          color: #0f172a;
+        }
+
+        .node-detail-markdown p,
+        .node-detail-markdown ul,
+        .node-detail-markdown ol,
+        .node-detail-markdown pre,
+        .node-detail-markdown blockquote {
+          margin: 0 0 10px;
+        }
+
+        .node-detail-markdown ul,
+        .node-detail-markdown ol {
+          padding-left: 20px;
+        }
+
+        .node-detail-markdown code {
+          padding: 1px 4px;
+          border-radius: 4px;
+          background: #f1f5f9;
+          font-size: 13px;
+        }
+
+        .node-detail-markdown pre {
+          padding: 10px;
+          border-radius: 8px;
+          background: #f1f5f9;
+          overflow-x: auto;
+        }
+
+        .node-detail-markdown blockquote {
+          padding-left: 12px;
+          border-left: 3px solid #cbd5e1;
+          color: #475569;
+        }
+
+        .node-detail-markdown a {
+          color: #667eea;
+        }
+      `}</style>
+    </aside>
+  );
+};
+
+export default NodeDetailPanel;
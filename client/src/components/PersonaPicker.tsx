@@ -0,0 +1,78 @@
+/**
+ * ===================================================================
+ * PERSONA PICKER - Forum AI Brainstorming Application (Client)
+ * ===================================================================
+ *
+ * Row of toggleable persona chips shown above the prompt input.
+ * Loads the persona registry on mount and lets the user choose which
+ * personalities participate in the next session.
+ *
+ * @author Forum Development Team
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import React, { useEffect } from 'react';
+import { useGraphStore } from '../store/graphStore';
+import { brainstormApi } from '../services/api';
+import { resolvePersonaColor } from '../utils/personaColors';
+
+/**
+ * PersonaPicker component.
+ *
+ * Features:
+ * - Fetches registered personas from the server on mount
+ * - One chip per persona, colored like its graph nodes
+ * - At least one persona always stays selected
+ * - Disabled while a session is being generated
+ *
+ * @returns {JSX.Element | null} The persona chips, or null until personas load
+ */
+const PersonaPicker = () => {
+  const { personas, selectedPersonas, setPersonas, togglePersona, isLoading } = useGraphStore();
+
+  // Load the persona registry once
+  useEffect(() => {
+    brainstormApi.listPersonas()
+      .then(setPersonas)
+      .catch(error => console.error('Failed to load personas:', error));
+  }, [setPersonas]);
+
+  if (personas.length === 0) {
+    return null;
+  }
+
+  return (
+    <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', marginBottom: '12px' }}>
+      {personas.map(persona => {
+        const selected = selectedPersonas.includes(persona.name);
+        const color = resolvePersonaColor(persona.color);
+
+        return (
+          <button
+            key={persona.name}
+            type="button"
+            onClick={() => togglePersona(persona.name)}
+            disabled={isLoading}
+            title={persona.systemPrompt}
+            style={{
+              padding: '6px 12px',
+              fontSize: '13px',
+              fontWeight: '600',
+              borderRadius: '999px',
+              border: `2px solid ${color}`,
+              background: selected ? color : 'transparent',
+              color: selected ? 'white' : color,
+              cursor: isLoading ? 'not-allowed' : 'pointer',
+              transition: 'all 0.2s ease-in-out'
+            }}
+          >
+            {persona.label}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PersonaPicker;
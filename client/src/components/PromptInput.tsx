@@ -14,6 +14,8 @@
 import React, { useState, useEffect } from 'react';
 import { useGraphStore } from '../store/graphStore';
 import { brainstormApi } from '../services/api';
+import { expansionQueue } from '../services/expansionQueue';
+import PersonaPicker from './PersonaPicker';
 
 /**
  * Floating PromptInput overlay component.
@@ -22,6 +24,11 @@ import { brainstormApi } from '../services/api';
  * - Fixed position at bottom center of screen
  * - Enter key submission support
  * - Loading animation with spinner
+ * - Streams personality responses into the graph as they are generated
+ * - Persona selection for the next session
+ * - "Follow-up to …" mode when a response node is chosen in the detail panel;
+ *   follow-ups are queued, so the input is free again right away
+ * - Escape key cancels follow-up mode
  * - Simplified minimal interface
  * - Auto-focus on page load
  * 
@@ -29,7 +36,31 @@ import { brainstormApi } from '../services/api';
  */
 const PromptInput = () => {
   const [prompt, setPrompt] = useState('');
-  const { setGraph, setLoading, setError, isLoading } = useGraphStore();
+  const { 
+    applyStreamEvent, 
+    setLoading, 
+    setError, 
+    selectNode, 
+    isLoading, 
+    personas, 
+    selectedPersonas, 
+    sessionId, 
+    nodes, 
+    selectedNodeId 
+  } = useGraphStore();
+  
+  // Follow-up mode targets the selected response node
+  const followUpNode = sessionId ? nodes.find(node => node.id === selectedNodeId) : undefined;
+  const followUpLabel = followUpNode
+    ? personas.find(persona => persona.name === followUpNode.persona)?.label || followUpNode.persona || 'response'
+    : null;
+  
+  const selectedLabels = personas
+    .filter(persona => selectedPersonas.includes(persona.name))
+    .map(persona => persona.label);
+  const personaHint = selectedLabels.length > 1
+    ? `${selectedLabels.slice(0, -1).join(', ')} & ${selectedLabels[selectedLabels.length - 1]}`
+    : selectedLabels[0] || 'Optimist, Pessimist & Realist';
 
   /**
    * Handles form submission and Enter key presses.
@@ -38,19 +69,36 @@ const PromptInput = () => {
     e.preventDefault();
     
     if (!prompt.trim()) {
-      setError('Please enter a topic to explore');
+      setError(followUpNode ? 'Please enter a follow-up question' : 'Please enter a topic to explore');
       return;
     }
 
-    setLoading(true);
     setError(null);
 
+    if (followUpNode && sessionId) {
+      console.info(`↪️ Sending follow-up to node ${followUpNode.id}: "${prompt.trim()}"`);
+      // The follow-up becomes a prompt node under the selected response
+      if (expansionQueue.enqueue(sessionId, followUpNode.id, prompt.trim())) {
+        setPrompt('');
+        selectNode(null);
+      } else {
+        setError('This response is still being expanded. Try again when it is done.');
+      }
+      return;
+    }
+
+    setLoading(true);
+
     try {
       console.info(`🎭 Starting Forum exploration for: "${prompt.trim()}"`);
-      const response = await brainstormApi.createSession(prompt.trim());
-      setGraph(response.nodes, response.edges, response.sessionId);
+      // Nodes appear on the first event and fill in as each personality streams
+      await brainstormApi.streamSession(
+        prompt.trim(), 
+        applyStreamEvent, 
+        selectedPersonas.length > 0 ? selectedPersonas : undefined
+      );
       setPrompt(''); // Clear input after successful submission
-      console.info(`✅ Forum session created with ${response.nodes.length} nodes`);
+      console.info(`✅ Forum session created with ${useGraphStore.getState().nodes.length} nodes`);
     } catch (error) {
       console.error('Failed to create Forum session:', error);
       setError('Failed to generate personality perspectives. Please try again.');
@@ -59,6 +107,15 @@ const PromptInput = () => {
     }
   };
 
+  /**
+   * Handles Escape key press to leave follow-up mode.
+   */
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape' && followUpNode) {
+      selectNode(null);
+    }
+  };
+
   /**
    * Handles Enter key press for submission.
    */
@@ -69,13 +126,13 @@ const PromptInput = () => {
     }
   };
 
-  // Auto-focus the input when component mounts and not loading
+  // Auto-focus the input when component mounts, loading ends or a node is selected
   useEffect(() => {
     const input = document.querySelector('input[type="text"]') as HTMLInputElement;
     if (input && !isLoading) {
       input.focus();
     }
-  }, [isLoading]);
+  }, [isLoading, selectedNodeId]);
 
   return (
     <div style={{ 
@@ -94,13 +151,50 @@ const PromptInput = () => {
       padding: '20px'
     }}>
       <form onSubmit={handleSubmit}>
+        {followUpNode ? (
+          <div style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '8px',
+            marginBottom: '12px',
+            fontSize: '13px',
+            color: '#334155'
+          }}>
+            <span style={{ flex: '1', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+              ↪ Follow-up to <strong>{followUpLabel}</strong>: “{followUpNode.text}”
+            </span>
+            <button
+              type="button"
+              onClick={() => selectNode(null)}
+              disabled={isLoading}
+              title="Start a new exploration instead (Esc)"
+              style={{
+                padding: '4px 10px',
+                fontSize: '12px',
+                border: '1px solid #cbd5e1',
+                borderRadius: '999px',
+                background: 'transparent',
+                color: '#64748b',
+                cursor: isLoading ? 'not-allowed' : 'pointer'
+              }}
+            >
+              ✕ Cancel
+            </button>
+          </div>
+        ) : (
+          <PersonaPicker />
+        )}
+        
         <div style={{ display: 'flex', gap: '12px', alignItems: 'center' }}>
           <input
             type="text"
             value={prompt}
             onChange={(e) => setPrompt(e.target.value)}
             onKeyPress={handleKeyPress}
-            placeholder="Enter any topic to explore with AI personalities..."
+            onKeyDown={handleKeyDown}
+            placeholder={followUpNode 
+              ? `Ask a follow-up about the ${followUpLabel} response...` 
+              : 'Enter any topic to explore with AI personalities...'}
             style={{
               flex: '1',
               padding: '16px 20px',
@@ -162,6 +256,8 @@ const PromptInput = () => {
                 }}></div>
                 Exploring...
               </>
+            ) : followUpNode ? (
+              <>↪ Ask</>
             ) : (
               <>🎭 Explore</>
             )}
@@ -176,7 +272,9 @@ const PromptInput = () => {
           color: '#64748b',
           opacity: 0.8
         }}>
-          Press Enter or click Explore • Get instant perspectives from Optimist, Pessimist & Realist
+          {followUpNode
+            ? 'Press Enter or click Ask • Esc to start a new exploration instead'
+            : `Press Enter or click Explore • Get instant perspectives from ${personaHint}`}
         </div>
       </form>
       
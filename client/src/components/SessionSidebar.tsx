@@ -0,0 +1,452 @@
+/**
+ * ===================================================================
+ * SESSION SIDEBAR - Forum AI Brainstorming Application (Client)
+ * ===================================================================
+ *
+ * Collapsible history of past brainstorms on the left of the screen.
+ * Lists sessions from the server newest first and lets the user reopen,
+ * rename, export and delete them, and starts sessions from imported
+ * outlines.
+ *
+ * @author Forum Development Team
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useGraphStore } from '../store/graphStore';
+import { brainstormApi, getBranchErrorMessage } from '../services/api';
+import { downloadBlob } from '../utils/download';
+import type { ExportFormat, ImportFormat, SessionSummary } from '../../../shared/types';
+
+/**
+ * Number of sessions loaded per page.
+ */
+const PAGE_SIZE = 20;
+
+/**
+ * Export formats offered for download, with their button labels.
+ */
+const EXPORT_OPTIONS: Array<{ format: ExportFormat, label: string, title: string }> = [
+  { format: 'markdown', label: 'Markdown', title: 'Indented outline for docs' },
+  { format: 'opml', label: 'OPML', title: 'Outline for mind-map apps' },
+  { format: 'mermaid', label: 'Mermaid', title: 'Flowchart definition' },
+  { format: 'graphml', label: 'GraphML', title: 'Graph for yEd, Gephi and similar tools' },
+  { format: 'dot', label: 'DOT', title: 'Graphviz source' },
+  { format: 'json', label: 'JSON', title: 'Forum export (re-importable)' }
+];
+
+/**
+ * Import format implied by a file extension; other files are detected by the server.
+ */
+const IMPORT_EXTENSIONS: Record<string, ImportFormat> = {
+  md: 'markdown',
+  markdown: 'markdown',
+  txt: 'markdown',
+  opml: 'opml',
+  xml: 'opml',
+  json: 'json'
+};
+
+/**
+ * SessionSidebar component.
+ *
+ * Features:
+ * - Toggle button in the top-left corner
+ * - Paged session list with "Load more"
+ * - Reloads when opened and whenever a new session starts
+ * - Click a session to reopen it in the graph
+ * - Inline rename (Enter saves, Esc cancels, empty restores the generated title)
+ * - Download a session as Markdown, OPML, Mermaid, GraphML, DOT or JSON
+ * - Import a Markdown outline, OPML file or Forum JSON export as a new session
+ * - Delete with confirmation; deleting the open session clears the graph
+ *
+ * @returns {JSX.Element} The toggle button and, when open, the sidebar
+ */
+const SessionSidebar = () => {
+  const { sessionId, isLoading, setGraph, clearGraph, setLoading, setError } = useGraphStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [isFetching, setIsFetching] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [exportingId, setExportingId] = useState<string | null>(null);
+  const cancelRenameRef = useRef(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  /**
+   * Loads a page of sessions, replacing the list for the first page.
+   */
+  const loadSessions = useCallback(async (pageToLoad: number) => {
+    setIsFetching(true);
+    try {
+      const result = await brainstormApi.listSessions(pageToLoad, PAGE_SIZE);
+      setSessions(previous => pageToLoad === 1 ? result.sessions : [...previous, ...result.sessions]);
+      setTotal(result.total);
+      setPage(pageToLoad);
+    } catch (error) {
+      console.error('Failed to load sessions:', error);
+      setError('Failed to load past sessions.');
+    } finally {
+      setIsFetching(false);
+    }
+  }, [setError]);
+
+  // Refresh when the sidebar opens and when a new session is created
+  useEffect(() => {
+    if (isOpen) {
+      loadSessions(1);
+    }
+  }, [isOpen, sessionId, loadSessions]);
+
+  /**
+   * Reopens a past session in the graph.
+   */
+  const handleOpen = async (summary: SessionSummary) => {
+    if (isLoading || summary.id === sessionId) return;
+
+    try {
+      setLoading(true);
+      const session = await brainstormApi.getSession(summary.id);
+      setGraph(session.nodes, session.edges, session.sessionId);
+      console.info(`📂 Reopened Forum session ${summary.id}`);
+    } catch (error) {
+      console.error('Failed to open session:', error);
+      const status = (error as { status?: number }).status;
+      if (status === 404 || status === 410) {
+        setSessions(previous => previous.filter(session => session.id !== summary.id));
+        setTotal(previous => Math.max(0, previous - 1));
+        setError('This session no longer exists.');
+      } else {
+        setError('Failed to open the session. Please try again.');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Saves the title being edited when the rename input loses focus.
+   */
+  const handleRename = async (summary: SessionSummary) => {
+    setRenamingId(null);
+    if (cancelRenameRef.current) {
+      cancelRenameRef.current = false;
+      return;
+    }
+    if (draftTitle.trim() === (summary.hasCustomTitle ? summary.title : '')) return;
+
+    try {
+      const updated = await brainstormApi.renameSession(summary.id, draftTitle);
+      setSessions(previous => previous.map(session => session.id === updated.id ? updated : session));
+    } catch (error) {
+      console.error('Failed to rename session:', error);
+      setError('Failed to rename the session.');
+    }
+  };
+
+  /**
+   * Downloads a session in the chosen export format.
+   */
+  const handleExport = async (summary: SessionSummary, format: ExportFormat) => {
+    try {
+      const { blob, filename } = await brainstormApi.exportSession(summary.id, format);
+      downloadBlob(blob, filename);
+      setExportingId(null);
+    } catch (error) {
+      console.error('Failed to export session:', error);
+      setError(getBranchErrorMessage(error, 'Failed to export the session.'));
+    }
+  };
+
+  /**
+   * Starts a session from the chosen outline or export file.
+   */
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || isLoading) return;
+
+    try {
+      setLoading(true);
+      const extension = file.name.split('.').pop()?.toLowerCase() || '';
+      const session = await brainstormApi.importSession(await file.text(), IMPORT_EXTENSIONS[extension]);
+      setGraph(session.nodes, session.edges, session.sessionId);
+      console.info(`📥 Imported ${file.name} as Forum session ${session.sessionId}`);
+    } catch (error) {
+      console.error('Failed to import session:', error);
+      const status = (error as { status?: number }).status;
+      setError(status === 400
+        ? `Could not import ${file.name}: ${(error as Error).message}`
+        : getBranchErrorMessage(error, 'Failed to import the file. Please try again.'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Deletes a session after confirmation.
+   */
+  const handleDelete = async (summary: SessionSummary) => {
+    if (!window.confirm(`Delete "${summary.title}"? This cannot be undone.`)) return;
+
+    try {
+      await brainstormApi.deleteSession(summary.id);
+    } catch (error) {
+      // Already gone (deleted or expired) counts as deleted
+      if (![404, 410].includes((error as { status?: number }).status ?? 0)) {
+        console.error('Failed to delete session:', error);
+        setError('Failed to delete the session.');
+        return;
+      }
+    }
+
+    setSessions(previous => previous.filter(session => session.id !== summary.id));
+    setTotal(previous => Math.max(0, previous - 1));
+    if (summary.id === sessionId) {
+      clearGraph();
+    }
+  };
+
+  const iconButtonStyle: React.CSSProperties = {
+    border: 'none',
+    background: 'transparent',
+    color: '#94a3b8',
+    fontSize: '13px',
+    cursor: 'pointer',
+    padding: '2px 4px'
+  };
+
+  return (
+    <>
+      {/* Toggle Button */}
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        title={isOpen ? 'Hide past sessions' : 'Show past sessions'}
+        style={{
+          position: 'fixed',
+          top: '20px',
+          left: isOpen ? '340px' : '20px',
+          zIndex: 260,
+          padding: '10px 14px',
+          fontSize: '14px',
+          fontWeight: '600',
+          color: '#334155',
+          background: 'rgba(255, 255, 255, 0.95)',
+          border: '1px solid #e2e8f0',
+          borderRadius: '10px',
+          boxShadow: '0 4px 12px rgba(0, 0, 0, 0.1)',
+          cursor: 'pointer',
+          transition: 'left 0.2s ease-in-out'
+        }}
+      >
+        {isOpen ? '✕' : '🗂 History'}
+      </button>
+
+      {isOpen && (
+        <aside
+          style={{
+            position: 'fixed',
+            top: '0',
+            left: '0',
+            bottom: '0',
+            zIndex: 260,
+            width: '320px',
+            display: 'flex',
+            flexDirection: 'column',
+            background: 'rgba(255, 255, 255, 0.97)',
+            backdropFilter: 'blur(12px)',
+            boxShadow: '4px 0 24px rgba(0, 0, 0, 0.12)'
+          }}
+        >
+          <div style={{ padding: '24px 20px 12px', borderBottom: '1px solid #e2e8f0' }}>
+            <h3 style={{ fontSize: '16px', fontWeight: '700', color: '#334155' }}>🗂 Past sessions</h3>
+            <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginTop: '4px' }}>
+              <p style={{ fontSize: '12px', color: '#94a3b8' }}>
+                {total === 1 ? '1 session' : `${total} sessions`}
+              </p>
+              <button
+                type="button"
+                onClick={() => importInputRef.current?.click()}
+                disabled={isLoading}
+                title="Start a session from a Markdown outline, OPML file or Forum JSON export"
+                style={{
+                  padding: '4px 10px',
+                  fontSize: '12px',
+                  fontWeight: '600',
+                  color: '#667eea',
+                  background: 'transparent',
+                  border: '1px solid #c7d2fe',
+                  borderRadius: '6px',
+                  cursor: isLoading ? 'not-allowed' : 'pointer'
+                }}
+              >
+                ⬆ Import
+              </button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".md,.markdown,.txt,.opml,.xml,.json"
+                onChange={handleImport}
+                style={{ display: 'none' }}
+              />
+            </div>
+          </div>
+
+          <ul style={{ flex: '1', overflowY: 'auto', listStyle: 'none', padding: '8px' }}>
+            {sessions.map(summary => {
+              const isCurrent = summary.id === sessionId;
+
+              return (
+                <li
+                  key={summary.id}
+                  style={{
+                    marginBottom: '4px',
+                    padding: '10px 12px',
+                    borderRadius: '10px',
+                    background: isCurrent ? '#eef2ff' : 'transparent',
+                    border: `1px solid ${isCurrent ? '#c7d2fe' : 'transparent'}`
+                  }}
+                >
+                  {renamingId === summary.id ? (
+                    <input
+                      type="text"
+                      autoFocus
+                      value={draftTitle}
+                      maxLength={100}
+                      placeholder="Leave empty to use the prompt"
+                      onChange={(e) => setDraftTitle(e.target.value)}
+                      onBlur={() => handleRename(summary)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Escape') cancelRenameRef.current = true;
+                        if (e.key === 'Enter' || e.key === 'Escape') e.currentTarget.blur();
+                      }}
+                      style={{
+                        width: '100%',
+                        padding: '6px 8px',
+                        fontSize: '14px',
+                        border: '1px solid #667eea',
+                        borderRadius: '6px',
+                        outline: 'none'
+                      }}
+                    />
+                  ) : (
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                      <button
+                        type="button"
+                        onClick={() => handleOpen(summary)}
+                        disabled={isLoading}
+                        title={summary.title}
+                        style={{
+                          flex: '1',
+                          minWidth: '0',
+                          textAlign: 'left',
+                          border: 'none',
+                          background: 'transparent',
+                          fontSize: '14px',
+                          fontWeight: isCurrent ? '700' : '500',
+                          color: '#1e293b',
+                          overflow: 'hidden',
+                          textOverflow: 'ellipsis',
+                          whiteSpace: 'nowrap',
+                          cursor: isLoading ? 'not-allowed' : 'pointer'
+                        }}
+                      >
+                        {summary.title}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setDraftTitle(summary.hasCustomTitle ? summary.title : '');
+                          setRenamingId(summary.id);
+                        }}
+                        title="Rename"
+                        style={iconButtonStyle}
+                      >
+                        ✎
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setExportingId(current => current === summary.id ? null : summary.id)}
+                        title="Export"
+                        style={iconButtonStyle}
+                      >
+                        ⬇
+                      </button>
+                      <button type="button" onClick={() => handleDelete(summary)} title="Delete" style={iconButtonStyle}>
+                        🗑
+                      </button>
+                    </div>
+                  )}
+
+                  <div style={{ marginTop: '2px', fontSize: '12px', color: '#94a3b8' }}>
+                    {new Date(summary.createdAt).toLocaleString()} • {summary.nodeCount} nodes
+                  </div>
+
+                  {exportingId === summary.id && (
+                    <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px', marginTop: '8px' }}>
+                      {EXPORT_OPTIONS.map(option => (
+                        <button
+                          key={option.format}
+                          type="button"
+                          onClick={() => handleExport(summary, option.format)}
+                          title={option.title}
+                          style={{
+                            padding: '4px 8px',
+                            fontSize: '12px',
+                            fontWeight: '600',
+                            color: '#667eea',
+                            background: 'white',
+                            border: '1px solid #c7d2fe',
+                            borderRadius: '6px',
+                            cursor: 'pointer'
+                          }}
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+
+            {!isFetching && sessions.length === 0 && (
+              <li style={{ padding: '20px 12px', fontSize: '13px', color: '#94a3b8', textAlign: 'center' }}>
+                No sessions yet. Explore a topic to start one.
+              </li>
+            )}
+          </ul>
+
+          {sessions.length < total && (
+            <div style={{ padding: '12px 20px 20px', borderTop: '1px solid #e2e8f0' }}>
+              <button
+                type="button"
+                onClick={() => loadSessions(page + 1)}
+                disabled={isFetching}
+                style={{
+                  width: '100%',
+                  padding: '10px',
+                  fontSize: '13px',
+                  fontWeight: '600',
+                  color: '#667eea',
+                  background: 'transparent',
+                  border: '1px solid #c7d2fe',
+                  borderRadius: '8px',
+                  cursor: isFetching ? 'not-allowed' : 'pointer'
+                }}
+              >
+                {isFetching ? 'Loading…' : 'Load more'}
+              </button>
+            </div>
+          )}
+        </aside>
+      )}
+    </>
+  );
+};
+
+export default SessionSidebar;
@@ -0,0 +1,130 @@
+/**
+ * ===================================================================
+ * GENERATION JOBS HOOK - Forum AI Brainstorming Application (Client)
+ * ===================================================================
+ *
+ * Picks up responses that are still being generated when a session is
+ * opened, e.g. after a reload or a dropped connection interrupted a
+ * stream. The server keeps generating and committing those responses;
+ * this hook looks up the session's jobs and polls the unfinished ones
+ * until they are done.
+ *
+ * Responses this tab is already streaming are left to their stream.
+ *
+ * @author Forum Development Team
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { useEffect } from 'react';
+import { useGraphStore } from '../store/graphStore';
+import { brainstormApi } from '../services/api';
+import type { GenerationJob, JobPersonaProgress } from '../../../shared/types';
+
+/**
+ * Delay between two progress checks, in milliseconds.
+ * Keeps polling well within the API rate limit.
+ */
+const JOB_POLL_INTERVAL_MS = 2000;
+
+/**
+ * Checks whether a persona is still generating.
+ *
+ * @param {JobPersonaProgress} entry - Persona progress
+ * @returns {boolean} True while the response is pending or generating
+ */
+const isUnfinished = (entry: JobPersonaProgress): boolean => {
+  return entry.status === 'pending' || entry.status === 'generating';
+};
+
+/**
+ * Fetches generation jobs by ID, leaving out the ones that are gone
+ * (e.g. after a server restart).
+ *
+ * @param {Iterable<string>} jobIds - Jobs to fetch
+ * @returns {Promise<GenerationJob[]>} The jobs that still exist
+ */
+const fetchJobs = async (jobIds: Iterable<string>): Promise<GenerationJob[]> => {
+  const jobs = await Promise.all(Array.from(jobIds, jobId => brainstormApi.getJob(jobId).catch(error => {
+    if ((error as { status?: number })?.status === 404) return undefined;
+    throw error;
+  })));
+  return jobs.filter((job): job is GenerationJob => !!job);
+};
+
+/**
+ * Hook that resumes the open session's unfinished generation jobs.
+ *
+ * Behavior:
+ * - When a session is opened, its jobs are fetched once
+ * - Unfinished responses not streamed by this tab are followed: their text
+ *   so far is shown, and their jobs are polled by ID every JOB_POLL_INTERVAL_MS
+ * - Polling stops once every followed response is done or the session changes;
+ *   responses whose job is gone (e.g. after a server restart) count as done
+ *
+ * @example
+ * function App() {
+ *   useGenerationJobs();
+ *   ...
+ * }
+ */
+export const useGenerationJobs = (): void => {
+  const sessionId = useGraphStore(state => state.sessionId);
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    let cancelled = false;
+    let timer: number | undefined;
+    // Followed node IDs, mapped to the job generating them
+    const followed = new Map<string, string>();
+
+    const poll = async () => {
+      try {
+        const resuming = followed.size === 0;
+        const jobs = resuming
+          ? (await brainstormApi.getSessionJobs(sessionId)).jobs
+          : await fetchJobs(new Set(followed.values()));
+        const store = useGraphStore.getState();
+        if (cancelled || store.sessionId !== sessionId) return;
+
+        const entries = jobs.flatMap(job => job.personas.map(entry => ({ ...entry, jobId: job.id })));
+        const progress = entries.filter(entry => followed.has(entry.nodeId)
+          || (resuming && isUnfinished(entry) && !store.streamingNodeIds.includes(entry.nodeId)));
+
+        // Jobs lost to a server restart never finish; stop showing them as generating
+        Array.from(followed)
+          .filter(([nodeId]) => !entries.some(entry => entry.nodeId === nodeId))
+          .forEach(([nodeId, jobId]) => {
+            const text = store.nodes.find(node => node.id === nodeId)?.text ?? '';
+            progress.push({ persona: '', nodeId, status: 'failed', text, jobId });
+          });
+        if (progress.length === 0) return;
+
+        if (resuming) {
+          console.info(`🧵 Resuming ${progress.length} responses that are still being generated`);
+        }
+        store.applyJobProgress(progress);
+        progress.forEach(entry => {
+          if (isUnfinished(entry)) {
+            followed.set(entry.nodeId, entry.jobId);
+          } else {
+            followed.delete(entry.nodeId);
+          }
+        });
+
+        if (followed.size > 0) {
+          timer = window.setTimeout(poll, JOB_POLL_INTERVAL_MS);
+        }
+      } catch (error) {
+        console.warn('Could not check for running generation jobs:', error);
+      }
+    };
+
+    void poll();
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [sessionId]);
+};
@@ -0,0 +1,65 @@
+/**
+ * ===================================================================
+ * HISTORY SHORTCUTS HOOK - Forum AI Brainstorming Application (Client)
+ * ===================================================================
+ *
+ * Keyboard shortcuts for the graph store's undo/redo history.
+ *
+ * Shortcuts:
+ * - Ctrl/Cmd+Z: Undo
+ * - Ctrl/Cmd+Shift+Z or Ctrl+Y: Redo
+ *
+ * Shortcuts are ignored while typing in a text field so the browser's
+ * own text undo keeps working there.
+ *
+ * @author Forum Development Team
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { useEffect } from 'react';
+import { useGraphStore } from '../store/graphStore';
+
+/**
+ * Checks whether a keyboard event comes from a text input.
+ *
+ * @param {EventTarget | null} target - The event target
+ * @returns {boolean} True for inputs, textareas and editable content
+ */
+const isTextInput = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+/**
+ * Hook that binds the undo/redo shortcuts to the window.
+ *
+ * @example
+ * function App() {
+ *   useHistoryShortcuts();
+ *   ...
+ * }
+ */
+export const useHistoryShortcuts = (): void => {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextInput(e.target)) return;
+
+      const key = e.key.toLowerCase();
+      const isUndo = key === 'z' && !e.shiftKey;
+      const isRedo = (key === 'z' && e.shiftKey) || (key === 'y' && e.ctrlKey && !e.shiftKey);
+      if (!isUndo && !isRedo) return;
+
+      e.preventDefault();
+      const { undo, redo } = useGraphStore.getState();
+      if (isUndo) {
+        undo();
+      } else {
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+};
@@ -0,0 +1,158 @@
+/**
+ * ===================================================================
+ * SESSION ROUTE HOOK - Forum AI Brainstorming Application (Client)
+ * ===================================================================
+ *
+ * Keeps the browser URL and the graph store in sync so sessions can be
+ * bookmarked, shared and restored after a refresh.
+ *
+ * URL Scheme:
+ * - /                      No session (start a new exploration)
+ * - /s/:sessionId          A session's graph
+ * - /s/:sessionId/n/:nodeId A session with a node open in the detail panel
+ *
+ * Uses the History API directly; the dev server falls back to
+ * index.html for these paths.
+ *
+ * @author Forum Development Team
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { useEffect } from 'react';
+import { useGraphStore } from '../store/graphStore';
+import { brainstormApi, getBranchErrorMessage } from '../services/api';
+
+/**
+ * Session and node referenced by a URL.
+ */
+export interface SessionRoute {
+  sessionId: string;
+  nodeId?: string;
+}
+
+/**
+ * Matches /s/:sessionId and /s/:sessionId/n/:nodeId (UUIDs).
+ */
+const SESSION_PATH_PATTERN = /^\/s\/([0-9a-f-]{36})(?:\/n\/([0-9a-f-]{36}))?\/?$/i;
+
+/**
+ * Parses a URL path into a session route.
+ *
+ * @param {string} pathname - Path from window.location
+ * @returns {SessionRoute | null} The referenced session, or null for any other path
+ */
+export const parseSessionPath = (pathname: string): SessionRoute | null => {
+  const match = SESSION_PATH_PATTERN.exec(pathname);
+  return match ? { sessionId: match[1], nodeId: match[2] } : null;
+};
+
+/**
+ * Builds the URL path for a session and optional node.
+ *
+ * @param {string | null} sessionId - Current session, null for none
+ * @param {string | null} [nodeId] - Node open in the detail panel
+ * @returns {string} URL path
+ */
+export const buildSessionPath = (sessionId: string | null, nodeId?: string | null): string => {
+  if (!sessionId) return '/';
+  return nodeId ? `/s/${sessionId}/n/${nodeId}` : `/s/${sessionId}`;
+};
+
+/**
+ * True while the store is being updated from the URL, so those updates
+ * aren't written back to the history as new entries.
+ */
+let isRestoring = false;
+
+/**
+ * Loads the session referenced by a route into the graph store and
+ * opens the referenced node. A null route clears the graph.
+ *
+ * @param {SessionRoute | null} route - Route to restore
+ */
+const restoreRoute = async (route: SessionRoute | null): Promise<void> => {
+  const store = useGraphStore.getState();
+  isRestoring = true;
+
+  try {
+    if (!route) {
+      if (store.sessionId) store.clearGraph();
+      return;
+    }
+
+    if (route.sessionId !== store.sessionId) {
+      store.setLoading(true);
+      try {
+        const session = await brainstormApi.getSession(route.sessionId);
+        store.setGraph(session.nodes, session.edges, session.sessionId);
+        console.info(`🔗 Restored Forum session ${route.sessionId} from the URL`);
+      } catch (error) {
+        console.error('Failed to restore session from URL:', error);
+        store.clearGraph();
+        store.setError((error as { status?: number }).status === 404
+          ? 'This session link is invalid or the session was deleted.'
+          : getBranchErrorMessage(error, 'Failed to load the shared session. Please try again.'));
+        window.history.replaceState(null, '', '/');
+        return;
+      } finally {
+        store.setLoading(false);
+      }
+    }
+
+    // Focus the referenced node if it exists, and drop it from the URL otherwise
+    const { nodes, showNodeDetail } = useGraphStore.getState();
+    const nodeId = route.nodeId && nodes.some(node => node.id === route.nodeId) ? route.nodeId : null;
+    showNodeDetail(nodeId);
+    window.history.replaceState(null, '', buildSessionPath(route.sessionId, nodeId));
+  } finally {
+    isRestoring = false;
+  }
+};
+
+/**
+ * Hook that binds the graph store to the URL.
+ *
+ * Behavior:
+ * - On mount, restores the session (and node) referenced by the URL
+ * - A new session pushes a history entry; opening or closing a node replaces it
+ * - Back/forward navigation restores the referenced session and node
+ *
+ * @example
+ * function App() {
+ *   useSessionRoute();
+ *   ...
+ * }
+ */
+export const useSessionRoute = (): void => {
+  useEffect(() => {
+    const route = parseSessionPath(window.location.pathname);
+    if (route) {
+      restoreRoute(route);
+    }
+
+    const handlePopState = () => {
+      restoreRoute(parseSessionPath(window.location.pathname));
+    };
+
+    const unsubscribe = useGraphStore.subscribe((state, previous) => {
+      if (isRestoring) return;
+      if (state.sessionId === previous.sessionId && state.detailNodeId === previous.detailNodeId) return;
+
+      const path = buildSessionPath(state.sessionId, state.detailNodeId);
+      if (path === window.location.pathname) return;
+
+      if (state.sessionId !== previous.sessionId) {
+        window.history.pushState(null, '', path);
+      } else {
+        window.history.replaceState(null, '', path);
+      }
+    });
+
+    window.addEventListener('popstate', handlePopState);
+    return () => {
+      window.removeEventListener('popstate', handlePopState);
+      unsubscribe();
+    };
+  }, []);
+};
@@ -16,17 +16,26 @@
  * - Comprehensive error handling for network requests
  * - Session management for conversation persistence
  * - Real-time conversation branching support
+ * - Token-by-token streaming of personality responses (SSE), cancellable via AbortSignal
+ * - Persona registry management and per-session persona selection
  * - Server statistics and monitoring
  * 
  * API Endpoints:
  * - POST /api/brainstorm - Create new brainstorming session
+ * - POST /api/brainstorm/stream - Create session, streaming responses
  * - POST /api/branch - Branch existing conversation
+ * - POST /api/branch/stream - Branch conversation, streaming responses
+ * - GET /api/jobs/:id, GET /api/session/:id/jobs - Generation job progress
+ * - DELETE /api/jobs/:id - Cancel a generation job
  * - GET /api/session/:id - Retrieve session data
+ * - GET/POST /api/personas - List or register personas
+ * - PATCH/DELETE /api/personas/:name - Update or delete a persona
  * - GET /api/stats - Server statistics
  * 
  * Error Handling:
  * - Network errors are propagated as Error objects
  * - HTTP status codes are checked for successful responses
+ * - Streaming errors carry the HTTP status and the server's error message
  * - Response validation through TypeScript interfaces
  * 
  * Dependencies:
@@ -39,7 +48,39 @@
  * @since 2024
  */
 
-import type { BrainstormRequest, BrainstormResponse, BranchRequest, BranchResponse } from '../../../shared/types';
+import type { 
+  BrainstormRequest, 
+  BrainstormResponse, 
+  BranchRequest, 
+  BranchResponse, 
+  ExportFormat,
+  GenerationJob,
+  ImportFormat,
+  JobCancelResponse,
+  NodeDeleteResponse,
+  NodeDetailResponse,
+  NodePositionsRequest,
+  NodePositionsResponse,
+  NodePositionUpdate,
+  NodeRetryResponse,
+  NodeActiveVersionRequest,
+  NodeRegenerateRequest,
+  NodeRestoreResponse,
+  NodeUpdateRequest,
+  NodeUpdateResponse,
+  NodeVersionResponse,
+  Persona,
+  PersonaCreateRequest,
+  PersonaUpdateRequest,
+  PersonalityName,
+  PersonaStreamEvent,
+  SessionImportRequest,
+  SessionJobsResponse,
+  SessionListResponse,
+  SessionSummary,
+  SessionUpdateRequest,
+  SubtreeRegenerateResponse 
+} from '../../../shared/types';
 
 // ===================================================================
 // API CONFIGURATION
@@ -51,6 +92,109 @@ import type { BrainstormRequest, BrainstormResponse, BranchRequest, BranchRespon
  */
 const API_BASE = '/api';
 
+// ===================================================================
+// SERVER-SENT EVENTS SUPPORT
+// ===================================================================
+
+/**
+ * Builds the error thrown for a non-2xx response, keeping the HTTP
+ * status so callers can react to specific failures (e.g. 410 expired
+ * sessions, 413 full sessions).
+ * 
+ * @param {Response} response - The failed response
+ * @returns {Promise<Error & { status: number }>} Error carrying the status
+ */
+const toHttpError = async (response: Response): Promise<Error & { status: number }> => {
+  const body = await response.json().catch(() => null);
+  const message = body?.error || `HTTP error! status: ${response.status}`;
+  return Object.assign(new Error(message), { status: response.status });
+};
+
+/**
+ * Returns a user-facing message for a failed branch request, explaining
+ * conflicts (409, with the server's message), expired (410) and full (413) sessions.
+ * 
+ * @param {unknown} error - Error thrown by a branch request
+ * @param {string} fallback - Message for any other failure
+ * @returns {string} Message to show to the user
+ */
+export const getBranchErrorMessage = (error: unknown, fallback: string): string => {
+  switch ((error as { status?: number })?.status) {
+    case 409:
+      return (error as Error).message || fallback;
+    case 410:
+      return 'This session has expired. Start a new exploration to continue.';
+    case 413:
+      return 'This session is full. Start a new exploration to keep going.';
+    default:
+      return fallback;
+  }
+};
+
+/**
+ * Callback invoked for every event received from a streaming endpoint.
+ */
+export type StreamEventHandler = (event: PersonaStreamEvent) => void;
+
+/**
+ * POSTs a JSON body to a streaming endpoint and dispatches each
+ * Server-Sent Event to the handler until the server closes the stream.
+ * 
+ * EventSource only supports GET, so the stream is read manually from
+ * the fetch response body.
+ * 
+ * @param {string} path - API path relative to API_BASE
+ * @param {unknown} body - JSON request body
+ * @param {StreamEventHandler} onEvent - Handler for each parsed event
+ * @param {AbortSignal} [signal] - Stops reading the stream when aborted
+ * @returns {Promise<void>} Resolves when the stream ends
+ * 
+ * @throws {Error} If the HTTP request fails or returns non-2xx status (with a `status` property)
+ * @throws {DOMException} An 'AbortError' when the signal is aborted
+ */
+const postEventStream = async (path: string, body: unknown, onEvent: StreamEventHandler, signal?: AbortSignal): Promise<void> => {
+  const response = await fetch(`${API_BASE}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'text/event-stream',
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    throw await toHttpError(response);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line; keep any partial event for the next read
+    const events = buffer.split('\n\n');
+    buffer = events.pop() ?? '';
+
+    for (const rawEvent of events) {
+      const data = rawEvent
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice('data:'.length).trim())
+        .join('\n');
+
+      if (data) {
+        onEvent(JSON.parse(data) as PersonaStreamEvent);
+      }
+    }
+  }
+};
+
 // ===================================================================
 // MAIN API SERVICE
 // ===================================================================
@@ -147,6 +291,112 @@ export const brainstormApi = {
     return response.json();
   },
 
+  /**
+   * Creates a new brainstorming session and streams the personality
+   * responses as they are generated.
+   * 
+   * The first 'node-created' event carries the new session ID and the
+   * root prompt node; one 'node-created' event per personality follows,
+   * then interleaved 'delta' events and a 'done' event per personality.
+   * 
+   * @param {string} prompt - The user's topic or question to explore
+   * @param {StreamEventHandler} onEvent - Handler for each stream event
+   * @param {PersonalityName[]} [personas] - Optional participating personas (default: built-in three)
+   * @param {AbortSignal} [signal] - Optional signal to stop listening to the stream
+   * @returns {Promise<void>} Resolves when all personalities are done
+   * 
+   * @throws {Error} If the HTTP request fails or returns non-2xx status
+   * 
+   * @example
+   * await brainstormApi.streamSession("Starting a tech startup", (event) => {
+   *   if (event.type === 'delta') console.log(event.nodeId, event.delta);
+   * });
+   */
+  async streamSession(prompt: string, onEvent: StreamEventHandler, personas?: PersonalityName[], signal?: AbortSignal): Promise<void> {
+    return postEventStream('/brainstorm/stream', { prompt, personas } as BrainstormRequest, onEvent, signal);
+  },
+
+  /**
+   * Expands a conversation node, streaming the new personality responses.
+   * 
+   * @param {string} sessionId - The UUID of the session to expand
+   * @param {string} nodeId - The UUID of the node to branch from
+   * @param {string | undefined} followUpPrompt - Optional follow-up question
+   * @param {StreamEventHandler} onEvent - Handler for each stream event
+   * @param {AbortSignal} [signal] - Optional signal to stop listening to the stream
+   * @returns {Promise<void>} Resolves when all personalities are done
+   * 
+   * @throws {Error} If the HTTP request fails or returns non-2xx status
+   * @throws {DOMException} An 'AbortError' when the signal is aborted
+   * 
+   * @example
+   * const controller = new AbortController();
+   * const expansion = brainstormApi.streamExpandNode(sessionId, nodeId, undefined, onEvent, controller.signal);
+   * controller.abort(); // expansion rejects with an AbortError
+   */
+  async streamExpandNode(sessionId: string, nodeId: string, followUpPrompt: string | undefined, onEvent: StreamEventHandler, signal?: AbortSignal): Promise<void> {
+    return postEventStream('/branch/stream', { 
+      sessionId, 
+      nodeId, 
+      prompt: followUpPrompt 
+    } as BranchRequest, onEvent, signal);
+  },
+
+  /**
+   * Retrieves a generation job's per-persona progress.
+   * 
+   * @param {string} jobId - The UUID of the job
+   * @returns {Promise<GenerationJob>} The job
+   * 
+   * @throws {Error} If the HTTP request fails or the job is unknown (with the status attached)
+   */
+  async getJob(jobId: string): Promise<GenerationJob> {
+    const response = await fetch(`${API_BASE}/jobs/${jobId}`);
+
+    if (!response.ok) {
+      throw await toHttpError(response);
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Cancels a running generation job. A branch job's nodes are deleted.
+   * 
+   * @param {string} jobId - The UUID of the job
+   * @returns {Promise<JobCancelResponse>} The cancelled job and the deleted node IDs
+   * 
+   * @throws {Error} If the HTTP request fails, or the job is unknown or already finished (with the status attached)
+   */
+  async cancelJob(jobId: string): Promise<JobCancelResponse> {
+    const response = await fetch(`${API_BASE}/jobs/${jobId}`, { method: 'DELETE' });
+
+    if (!response.ok) {
+      throw await toHttpError(response);
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Lists a session's running and recently finished generation jobs,
+   * including the ones behind streaming requests.
+   * 
+   * @param {string} sessionId - The UUID of the session
+   * @returns {Promise<SessionJobsResponse>} The session's jobs, oldest first
+   * 
+   * @throws {Error} If the HTTP request fails or returns non-2xx status (with the status attached)
+   */
+  async getSessionJobs(sessionId: string): Promise<SessionJobsResponse> {
+    const response = await fetch(`${API_BASE}/session/${sessionId}/jobs`);
+
+    if (!response.ok) {
+      throw await toHttpError(response);
+    }
+
+    return response.json();
+  },
+
   /**
    * Retrieves an existing session's complete graph data.
    * 
@@ -156,7 +406,7 @@ export const brainstormApi = {
    * @param {string} sessionId - The UUID of the session to retrieve
    * @returns {Promise<BrainstormResponse>} Complete session data
    * 
-   * @throws {Error} If the HTTP request fails, session not found, or returns non-2xx status
+   * @throws {Error} If the HTTP request fails, session not found, or returns non-2xx status (with the status attached)
    * 
    * @example
    * const session = await brainstormApi.getSession("session-uuid");
@@ -165,6 +415,378 @@ export const brainstormApi = {
   async getSession(sessionId: string): Promise<BrainstormResponse> {
     const response = await fetch(`${API_BASE}/session/${sessionId}`);
 
+    if (!response.ok) {
+      throw await toHttpError(response);
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Starts a session from a Markdown outline, OPML document or Forum JSON export.
+   * 
+   * @param {string} content - The document to import
+   * @param {ImportFormat} [format] - Document format (detected by the server when absent)
+   * @returns {Promise<BrainstormResponse>} The new session
+   * 
+   * @throws {Error} If the HTTP request fails or returns non-2xx status (with the status attached)
+   */
+  async importSession(content: string, format?: ImportFormat): Promise<BrainstormResponse> {
+    const response = await fetch(`${API_BASE}/import`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ content, format } as SessionImportRequest)
+    });
+
+    if (!response.ok) {
+      throw await toHttpError(response);
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Downloads a session rendered in an export format.
+   * 
+   * @param {string} sessionId - The UUID of the session to export
+   * @param {ExportFormat} format - markdown, opml, mermaid, graphml, dot or json
+   * @returns {Promise<{ blob: Blob, filename: string }>} The file and the name suggested by the server
+   * 
+   * @throws {Error} If the HTTP request fails or returns non-2xx status (with the status attached)
+   */
+  async exportSession(sessionId: string, format: ExportFormat): Promise<{ blob: Blob, filename: string }> {
+    const response = await fetch(`${API_BASE}/session/${sessionId}/export?format=${format}`);
+
+    if (!response.ok) {
+      throw await toHttpError(response);
+    }
+
+    const disposition = response.headers.get('Content-Disposition') || '';
+    const filename = /filename="([^"]+)"/.exec(disposition)?.[1] || `forum-session.${format}`;
+    return { blob: await response.blob(), filename };
+  },
+
+  /**
+   * Regenerates a response node whose generation failed.
+   * 
+   * @param {string} sessionId - The UUID of the session
+   * @param {string} nodeId - The UUID of the failed response node
+   * @returns {Promise<NodeRetryResponse>} The updated node (still flagged if it failed again)
+   * 
+   * @throws {Error} If the HTTP request fails or returns non-2xx status (with the status attached)
+   */
+  async retryNode(sessionId: string, nodeId: string): Promise<NodeRetryResponse> {
+    const response = await fetch(`${API_BASE}/session/${sessionId}/node/${nodeId}/retry`, { method: 'POST' });
+
+    if (!response.ok) {
+      throw await toHttpError(response);
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Edits the text of a prompt node.
+   * 
+   * @param {string} sessionId - The UUID of the session
+   * @param {string} nodeId - The UUID of the prompt node
+   * @param {string} text - The new prompt text
+   * @returns {Promise<NodeUpdateResponse>} The edited node
+   * 
+   * @throws {Error} If the HTTP request fails or returns non-2xx status (with the status attached)
+   */
+  async updateNode(sessionId: string, nodeId: string, text: string): Promise<NodeUpdateResponse> {
+    const response = await fetch(`${API_BASE}/session/${sessionId}/node/${nodeId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text } as NodeUpdateRequest)
+    });
+
+    if (!response.ok) {
+      throw await toHttpError(response);
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Saves a batch of node positions and pin states.
+   * Sent with keepalive so a save started while the page closes still arrives.
+   * 
+   * @param {string} sessionId - The UUID of the session
+   * @param {NodePositionUpdate[]} positions - Node centers in graph coordinates
+   * @returns {Promise<NodePositionsResponse>} IDs of the nodes that were saved
+   * 
+   * @throws {Error} If the HTTP request fails or returns non-2xx status (with the status attached)
+   */
+  async saveNodePositions(sessionId: string, positions: NodePositionUpdate[]): Promise<NodePositionsResponse> {
+    const response = await fetch(`${API_BASE}/session/${sessionId}/positions`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ positions } as NodePositionsRequest),
+      keepalive: true
+    });
+
+    if (!response.ok) {
+      throw await toHttpError(response);
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Deletes a node together with all of its descendants.
+   * 
+   * @param {string} sessionId - The UUID of the session
+   * @param {string} nodeId - The UUID of the node
+   * @returns {Promise<NodeDeleteResponse>} IDs of the deleted nodes and edges
+   * 
+   * @throws {Error} If the HTTP request fails or returns non-2xx status (with the status attached)
+   */
+  async deleteNode(sessionId: string, nodeId: string): Promise<NodeDeleteResponse> {
+    const response = await fetch(`${API_BASE}/session/${sessionId}/node/${nodeId}`, { method: 'DELETE' });
+
+    if (!response.ok) {
+      throw await toHttpError(response);
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Restores a subtree removed by deleteNode.
+   * 
+   * @param {string} sessionId - The UUID of the session
+   * @param {string} nodeId - The UUID of the deleted subtree's root node
+   * @returns {Promise<NodeRestoreResponse>} The restored nodes and edges
+   * 
+   * @throws {Error} If the HTTP request fails or returns non-2xx status (with the status attached)
+   */
+  async restoreNode(sessionId: string, nodeId: string): Promise<NodeRestoreResponse> {
+    const response = await fetch(`${API_BASE}/session/${sessionId}/node/${nodeId}/restore`, { method: 'POST' });
+
+    if (!response.ok) {
+      throw await toHttpError(response);
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Re-runs a response node's persona. The new text becomes the node's
+   * active version; earlier texts are kept in `versions`.
+   * 
+   * @param {string} sessionId - The UUID of the session
+   * @param {string} nodeId - The UUID of the response node
+   * @returns {Promise<NodeVersionResponse>} The updated node
+   * 
+   * @throws {Error} If the HTTP request fails or returns non-2xx status (with the status attached)
+   */
+  async regenerateNode(sessionId: string, nodeId: string): Promise<NodeVersionResponse> {
+    const response = await fetch(`${API_BASE}/node/${nodeId}/regenerate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sessionId } as NodeRegenerateRequest)
+    });
+
+    if (!response.ok) {
+      throw await toHttpError(response);
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Regenerates the stale nodes of a subtree, top-down.
+   * 
+   * @param {string} sessionId - The UUID of the session
+   * @param {string} nodeId - The UUID of the subtree's root node
+   * @returns {Promise<SubtreeRegenerateResponse>} The updated nodes and the remaining stale node IDs
+   * 
+   * @throws {Error} If the HTTP request fails or returns non-2xx status (with the status attached)
+   */
+  async regenerateSubtree(sessionId: string, nodeId: string): Promise<SubtreeRegenerateResponse> {
+    const response = await fetch(`${API_BASE}/session/${sessionId}/node/${nodeId}/regenerate-subtree`, { method: 'POST' });
+
+    if (!response.ok) {
+      throw await toHttpError(response);
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Chooses which version of a response node is shown.
+   * 
+   * @param {string} sessionId - The UUID of the session
+   * @param {string} nodeId - The UUID of the response node
+   * @param {number} version - Index into the node's versions
+   * @returns {Promise<NodeVersionResponse>} The updated node
+   * 
+   * @throws {Error} If the HTTP request fails or returns non-2xx status (with the status attached)
+   */
+  async setActiveVersion(sessionId: string, nodeId: string, version: number): Promise<NodeVersionResponse> {
+    const response = await fetch(`${API_BASE}/node/${nodeId}/active-version`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sessionId, version } as NodeActiveVersionRequest)
+    });
+
+    if (!response.ok) {
+      throw await toHttpError(response);
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Lists past sessions for the session history, newest first.
+   * 
+   * @param {number} [page=1] - 1-based page number
+   * @param {number} [pageSize=20] - Sessions per page
+   * @returns {Promise<SessionListResponse>} One page of session summaries and the total count
+   * 
+   * @throws {Error} If the HTTP request fails or returns non-2xx status
+   * 
+   * @example
+   * const { sessions, total } = await brainstormApi.listSessions(1, 20);
+   */
+  async listSessions(page: number = 1, pageSize: number = 20): Promise<SessionListResponse> {
+    const params = new URLSearchParams({ page: String(page), pageSize: String(pageSize), order: 'desc' });
+    const response = await fetch(`${API_BASE}/sessions?${params}`);
+
+    if (!response.ok) {
+      throw await toHttpError(response);
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Renames a session. An empty title restores the generated title.
+   * 
+   * @param {string} sessionId - The UUID of the session
+   * @param {string} title - New title
+   * @returns {Promise<SessionSummary>} The updated session summary
+   * 
+   * @throws {Error} If the HTTP request fails or returns non-2xx status (with the status attached)
+   */
+  async renameSession(sessionId: string, title: string): Promise<SessionSummary> {
+    const response = await fetch(`${API_BASE}/session/${sessionId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ title } as SessionUpdateRequest)
+    });
+
+    if (!response.ok) {
+      throw await toHttpError(response);
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Permanently deletes a session.
+   * 
+   * @param {string} sessionId - The UUID of the session
+   * 
+   * @throws {Error} If the HTTP request fails or returns non-2xx status (with the status attached)
+   */
+  async deleteSession(sessionId: string): Promise<void> {
+    const response = await fetch(`${API_BASE}/session/${sessionId}`, { method: 'DELETE' });
+
+    if (!response.ok) {
+      throw await toHttpError(response);
+    }
+  },
+
+  /**
+   * Retrieves a single node with its complete text and its ancestors.
+   * Session responses may shorten long node text; this never does.
+   * 
+   * @param {string} sessionId - The UUID of the session
+   * @param {string} nodeId - The UUID of the node
+   * @returns {Promise<NodeDetailResponse>} The node and the conversation leading to it
+   * 
+   * @throws {Error} If the HTTP request fails or returns non-2xx status (with the status attached)
+   */
+  async getNodeDetail(sessionId: string, nodeId: string): Promise<NodeDetailResponse> {
+    const response = await fetch(`${API_BASE}/session/${sessionId}/node/${nodeId}`);
+
+    if (!response.ok) {
+      throw await toHttpError(response);
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Lists every personality in the persona registry, built-ins first.
+   * 
+   * @returns {Promise<Persona[]>} Registered personas
+   * 
+   * @throws {Error} If the HTTP request fails or returns non-2xx status
+   */
+  async listPersonas(): Promise<Persona[]> {
+    const response = await fetch(`${API_BASE}/personas`);
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const { personas } = await response.json();
+    return personas;
+  },
+
+  /**
+   * Registers a new personality.
+   * 
+   * @param {PersonaCreateRequest} persona - Persona definition
+   * @returns {Promise<Persona>} The created persona
+   * 
+   * @throws {Error} If the HTTP request fails (409 when the name is taken)
+   * 
+   * @example
+   * await brainstormApi.createPersona({
+   *   name: 'customer',
+   *   systemPrompt: 'You are a demanding customer.',
+   *   color: 'purple'
+   * });
+   */
+  async createPersona(persona: PersonaCreateRequest): Promise<Persona> {
+    const response = await fetch(`${API_BASE}/personas`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(persona),
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Updates an existing personality.
+   * 
+   * @param {PersonalityName} name - Persona to update
+   * @param {PersonaUpdateRequest} updates - Fields to change
+   * @returns {Promise<Persona>} The updated persona
+   * 
+   * @throws {Error} If the HTTP request fails or returns non-2xx status
+   */
+  async updatePersona(name: PersonalityName, updates: PersonaUpdateRequest): Promise<Persona> {
+    const response = await fetch(`${API_BASE}/personas/${encodeURIComponent(name)}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(updates),
+    });
+
     if (!response.ok) {
       throw new Error(`HTTP error! status: ${response.status}`);
     }
@@ -172,6 +794,24 @@ export const brainstormApi = {
     return response.json();
   },
 
+  /**
+   * Deletes a custom personality. Built-in personalities cannot be deleted.
+   * 
+   * @param {PersonalityName} name - Persona to delete
+   * @returns {Promise<void>} Resolves once deleted
+   * 
+   * @throws {Error} If the HTTP request fails or returns non-2xx status
+   */
+  async deletePersona(name: PersonalityName): Promise<void> {
+    const response = await fetch(`${API_BASE}/personas/${encodeURIComponent(name)}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+  },
+
   /**
    * Retrieves server statistics for monitoring and analytics.
    * 
@@ -0,0 +1,203 @@
+/**
+ * ===================================================================
+ * EXPANSION QUEUE - Forum AI Brainstorming Application (Client)
+ * ===================================================================
+ *
+ * Runs node expansions and follow-up questions side by side, so users can
+ * expand several branches at once and keep reading while they generate.
+ * Each expanded node has at most one expansion pending; its progress is
+ * kept in the graph store's `pendingExpansions` for the views to show.
+ *
+ * Queue:
+ * - Up to MAX_CONCURRENT_EXPANSIONS requests are in flight, the rest wait
+ *   in the order they were queued
+ * - Each request has its own AbortController, so one expansion can be
+ *   cancelled without touching the others
+ * - Cancelling a running expansion cancels its generation job on the
+ *   server, which stops generating and deletes the branch; one still
+ *   waiting in the queue is simply dropped
+ * - Streams of a session that is no longer open keep running in the
+ *   background, but their events are not applied to the open graph
+ *
+ * Finished expansions are recorded in the undo history.
+ *
+ * @author Forum Development Team
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { useGraphStore } from '../store/graphStore';
+import type { HistoryCommand } from '../store/graphStore';
+import { brainstormApi, getBranchErrorMessage } from './api';
+import { createBranchCommand, trackCreatedNodes } from './historyCommands';
+
+/**
+ * Maximum number of expansions streaming at the same time.
+ */
+const MAX_CONCURRENT_EXPANSIONS = 3;
+
+/**
+ * An expansion waiting in or taken from the queue.
+ */
+interface QueuedExpansion {
+  sessionId: string;
+  nodeId: string;
+  followUpPrompt?: string;
+  controller: AbortController;
+
+  /** Server job generating the branch, known once its nodes are created */
+  jobId?: string;
+
+  /** Whether the expansion was cancelled while running */
+  cancelled: boolean;
+}
+
+/**
+ * A queue of expansions.
+ */
+export interface ExpansionQueue {
+  /** Queues an expansion; returns false when the node already has one pending */
+  enqueue: (sessionId: string, nodeId: string, followUpPrompt?: string) => boolean;
+
+  /** Cancels the pending expansion of a node */
+  cancel: (nodeId: string) => void;
+}
+
+/**
+ * Creates an expansion queue.
+ *
+ * @param {number} maxConcurrent - Maximum number of requests in flight
+ * @returns {ExpansionQueue} The queue
+ *
+ * @example
+ * const queue = createExpansionQueue(3);
+ * queue.enqueue(sessionId, nodeId);                        // expand
+ * queue.enqueue(sessionId, otherNodeId, 'What about cost?'); // follow-up
+ * queue.cancel(nodeId);
+ */
+export const createExpansionQueue = (maxConcurrent: number): ExpansionQueue => {
+  const waiting: QueuedExpansion[] = [];
+  const running = new Map<string, QueuedExpansion>();
+
+  /**
+   * Discards a cancelled expansion. The server job is cancelled, which
+   * deletes its branch; if the job finished first, the branch is deleted
+   * like an undo.
+   */
+  const discard = async (expansion: QueuedExpansion, command: HistoryCommand | null): Promise<void> => {
+    try {
+      if (expansion.jobId) {
+        try {
+          const { deletedNodeIds } = await brainstormApi.cancelJob(expansion.jobId);
+          useGraphStore.getState().removeNodes(deletedNodeIds);
+          return;
+        } catch (err) {
+          if ((err as { status?: number })?.status !== 409) throw err;
+        }
+      }
+      await command?.undo();
+    } catch (err) {
+      console.error('❌ Failed to discard cancelled branch:', err);
+    }
+  };
+
+  const run = async (expansion: QueuedExpansion): Promise<void> => {
+    const { sessionId, nodeId, followUpPrompt, controller } = expansion;
+    const isFollowUp = !!followUpPrompt;
+    const store = useGraphStore.getState;
+    let failure: string | null = null;
+
+    store().setPendingExpansion(nodeId, { sessionId, status: 'running', isFollowUp });
+
+    const tracker = trackCreatedNodes((event) => {
+      if (event.type === 'node-created' && event.jobId && !expansion.jobId) {
+        expansion.jobId = event.jobId;
+        // A cancel that came before the job was known can reach the server now
+        if (expansion.cancelled) controller.abort();
+      }
+      if (expansion.cancelled || store().sessionId !== sessionId) return;
+
+      if (event.type === 'node-created' && store().pendingExpansions[nodeId]?.status === 'running') {
+        store().setPendingExpansion(nodeId, { sessionId, status: 'streaming', isFollowUp });
+      }
+
+      // A failed branch ends this stream only; other expansions keep streaming
+      if (event.type === 'error' && !event.nodeId) {
+        failure = event.message;
+        return;
+      }
+      store().applyStreamEvent(event);
+    });
+
+    try {
+      console.info(`📡 Streaming ${isFollowUp ? 'follow-up' : 'expansion'} of node ${nodeId}`);
+      await brainstormApi.streamExpandNode(sessionId, nodeId, followUpPrompt, tracker.onEvent, controller.signal);
+      console.info(`✅ Finished streaming ${isFollowUp ? 'follow-up' : 'expansion'} of node ${nodeId}`);
+    } catch (err) {
+      if (!expansion.cancelled) {
+        console.error(`❌ Failed to ${isFollowUp ? 'send follow-up' : 'expand node'}:`, err);
+        failure = getBranchErrorMessage(err, isFollowUp
+          ? 'Failed to send follow-up. Please try again.'
+          : 'Failed to expand idea. Please try again.');
+      }
+    } finally {
+      store().clearPendingExpansion(nodeId, tracker.createdNodes.map(node => node.id));
+
+      // Nodes created before a failure can be undone too; a cancelled branch is discarded
+      const command = createBranchCommand(sessionId, nodeId, tracker.createdNodes, isFollowUp);
+      if (expansion.cancelled) {
+        await discard(expansion, command);
+      } else if (command && store().sessionId === sessionId) {
+        store().recordCommand(command);
+      }
+      if (failure && store().sessionId === sessionId) store().setError(failure);
+
+      running.delete(nodeId);
+      startNext();
+    }
+  };
+
+  const startNext = (): void => {
+    while (running.size < maxConcurrent && waiting.length > 0) {
+      const expansion = waiting.shift()!;
+      running.set(expansion.nodeId, expansion);
+      void run(expansion);
+    }
+  };
+
+  const enqueue = (sessionId: string, nodeId: string, followUpPrompt?: string): boolean => {
+    if (running.has(nodeId) || waiting.some(expansion => expansion.nodeId === nodeId)) return false;
+
+    waiting.push({ sessionId, nodeId, followUpPrompt, controller: new AbortController(), cancelled: false });
+    useGraphStore.getState().setPendingExpansion(nodeId, { sessionId, status: 'queued', isFollowUp: !!followUpPrompt });
+    startNext();
+    return true;
+  };
+
+  const cancel = (nodeId: string): void => {
+    const index = waiting.findIndex(expansion => expansion.nodeId === nodeId);
+    if (index >= 0) {
+      waiting.splice(index, 1);
+      useGraphStore.getState().clearPendingExpansion(nodeId, []);
+      console.info(`✖️ Removed queued expansion of node ${nodeId}`);
+      return;
+    }
+
+    const expansion = running.get(nodeId);
+    if (expansion && !expansion.cancelled) {
+      expansion.cancelled = true;
+      useGraphStore.getState().clearPendingExpansion(nodeId, []);
+
+      // The server job can only be cancelled once it is known; until then the stream stays open
+      if (expansion.jobId) expansion.controller.abort();
+      console.info(`✖️ Cancelled expansion of node ${nodeId}`);
+    }
+  };
+
+  return { enqueue, cancel };
+};
+
+/**
+ * The queue shared by the graph, the detail panel and the prompt input.
+ */
+export const expansionQueue = createExpansionQueue(MAX_CONCURRENT_EXPANSIONS);
@@ -0,0 +1,175 @@
+/**
+ * ===================================================================
+ * HISTORY COMMANDS - Forum AI Brainstorming Application (Client)
+ * ===================================================================
+ *
+ * Factories for the undoable commands recorded in the graph store's
+ * history. Each command knows how to revert and re-apply one graph
+ * mutation, calling the server so the stored session matches what the
+ * user sees.
+ *
+ * Commands:
+ * - Expand / follow-up: undo deletes the new branch, redo restores it
+ * - Edit: undo and redo save the previous or new prompt text exactly as stored
+ * - Delete: undo restores the deleted subtree, redo deletes it again
+ * - Move: undo and redo put a dragged node back (saved with the next position batch)
+ *
+ * @author Forum Development Team
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { useGraphStore } from '../store/graphStore';
+import type { HistoryCommand } from '../store/graphStore';
+import { brainstormApi } from './api';
+import type { StreamEventHandler } from './api';
+import type { Node } from '../../../shared/types';
+
+// ===================================================================
+// SERVER-BACKED GRAPH MUTATIONS
+// ===================================================================
+
+/**
+ * Deletes subtrees on the server and removes them from the graph.
+ *
+ * @param {string} sessionId - The UUID of the session
+ * @param {string[]} nodeIds - Roots of the subtrees to delete
+ */
+const deleteSubtrees = async (sessionId: string, nodeIds: string[]): Promise<void> => {
+  for (const nodeId of nodeIds) {
+    const { deletedNodeIds } = await brainstormApi.deleteNode(sessionId, nodeId);
+    useGraphStore.getState().removeNodes(deletedNodeIds);
+  }
+};
+
+/**
+ * Restores deleted subtrees on the server and adds them back to the graph.
+ *
+ * @param {string} sessionId - The UUID of the session
+ * @param {string[]} nodeIds - Roots of the deleted subtrees
+ */
+const restoreSubtrees = async (sessionId: string, nodeIds: string[]): Promise<void> => {
+  for (const nodeId of nodeIds) {
+    const { nodes, edges, staleNodeIds } = await brainstormApi.restoreNode(sessionId, nodeId);
+    const { addNodes, updateNodes } = useGraphStore.getState();
+    addNodes(nodes, edges);
+    updateNodes([], staleNodeIds);
+  }
+};
+
+/**
+ * Saves a prompt's text on the server and applies it to the graph.
+ *
+ * @param {string} sessionId - The UUID of the session
+ * @param {string} nodeId - The UUID of the prompt node
+ * @param {string} text - Text to save
+ */
+const savePromptText = async (sessionId: string, nodeId: string, text: string): Promise<void> => {
+  const { node, staleNodeIds } = await brainstormApi.updateNode(sessionId, nodeId, text);
+  useGraphStore.getState().updateNodes([node], staleNodeIds);
+};
+
+// ===================================================================
+// COMMAND FACTORIES
+// ===================================================================
+
+/**
+ * Wraps a stream event handler to collect the nodes a stream creates.
+ *
+ * @param {StreamEventHandler} onEvent - Handler to forward events to
+ * @returns {{ onEvent: StreamEventHandler, createdNodes: Node[] }} The wrapped handler and the nodes seen so far
+ *
+ * @example
+ * const tracker = trackCreatedNodes(applyStreamEvent);
+ * await brainstormApi.streamExpandNode(sessionId, nodeId, undefined, tracker.onEvent);
+ * recordCommand(createBranchCommand(sessionId, nodeId, tracker.createdNodes, false));
+ */
+export const trackCreatedNodes = (onEvent: StreamEventHandler): { onEvent: StreamEventHandler, createdNodes: Node[] } => {
+  const createdNodes: Node[] = [];
+
+  return {
+    createdNodes,
+    onEvent: (event) => {
+      if (event.type === 'node-created') {
+        createdNodes.push(event.node);
+      }
+      onEvent(event);
+    }
+  };
+};
+
+/**
+ * Creates the command for an expansion or follow-up question.
+ *
+ * @param {string} sessionId - The UUID of the session
+ * @param {string} parentId - The node that was expanded
+ * @param {Node[]} createdNodes - Nodes the branch request created
+ * @param {boolean} isFollowUp - Whether the branch was a follow-up question
+ * @returns {HistoryCommand | null} The command, or null when nothing was created
+ */
+export const createBranchCommand = (sessionId: string, parentId: string, createdNodes: Node[], isFollowUp: boolean): HistoryCommand | null => {
+  const branchRootIds = createdNodes.filter(node => node.parentId === parentId).map(node => node.id);
+  if (branchRootIds.length === 0) return null;
+
+  return {
+    type: isFollowUp ? 'follow-up' : 'expand',
+    label: isFollowUp ? 'the follow-up question' : 'the expansion',
+    undo: () => deleteSubtrees(sessionId, branchRootIds),
+    redo: () => restoreSubtrees(sessionId, branchRootIds)
+  };
+};
+
+/**
+ * Creates the command for a prompt edit. Pass both texts as the server
+ * stored them; the edit endpoint saves text unchanged, so undo and redo
+ * put back exactly the text that was there.
+ *
+ * @param {string} sessionId - The UUID of the session
+ * @param {string} nodeId - The UUID of the prompt node
+ * @param {string} previousText - Stored text before the edit
+ * @param {string} text - Stored text after the edit
+ * @returns {HistoryCommand} The command
+ */
+export const createEditCommand = (sessionId: string, nodeId: string, previousText: string, text: string): HistoryCommand => ({
+  type: 'edit',
+  label: 'the prompt edit',
+  undo: () => savePromptText(sessionId, nodeId, previousText),
+  redo: () => savePromptText(sessionId, nodeId, text)
+});
+
+/**
+ * Creates the command for a subtree deletion.
+ *
+ * @param {string} sessionId - The UUID of the session
+ * @param {string} nodeId - The UUID of the deleted subtree's root
+ * @returns {HistoryCommand} The command
+ */
+export const createDeleteCommand = (sessionId: string, nodeId: string): HistoryCommand => ({
+  type: 'delete',
+  label: 'the deletion',
+  undo: () => restoreSubtrees(sessionId, [nodeId]),
+  redo: () => deleteSubtrees(sessionId, [nodeId])
+});
+
+/**
+ * Creates the command for dragging a node. The view knows where its nodes
+ * are drawn, so it supplies the function that moves the node and saves the
+ * new position with the session.
+ *
+ * @param {string} nodeId - The UUID of the dragged node
+ * @param {{ x: number, y: number }} from - Position before the drag
+ * @param {{ x: number, y: number }} to - Position after the drag
+ * @param {Function} moveNode - Moves a node to a position in the view
+ * @returns {HistoryCommand} The command
+ */
+export const createMoveCommand = (
+  nodeId: string,
+  from: { x: number, y: number },
+  to: { x: number, y: number },
+  moveNode: (nodeId: string, position: { x: number, y: number }) => void
+): HistoryCommand => ({
+  type: 'move',
+  label: 'the move',
+  undo: () => moveNode(nodeId, from),
+  redo: () => moveNode(nodeId, to)
+});
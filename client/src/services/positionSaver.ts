@@ -0,0 +1,97 @@
+/**
+ * ===================================================================
+ * POSITION SAVER - Forum AI Brainstorming Application (Client)
+ * ===================================================================
+ *
+ * Collects node positions from the graph view and saves them to the
+ * server in batches, so dragging nodes around or letting the layout
+ * settle doesn't send one request per node.
+ *
+ * Batching:
+ * - Updates are saved SAVE_DELAY_MS after the last change
+ * - Several updates of the same node are merged (the latest position wins,
+ *   an earlier pin or unpin is kept)
+ * - Large batches are split to stay within the request limits
+ * - Pending updates can be flushed right away, e.g. when leaving a session
+ *
+ * @author Forum Development Team
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { brainstormApi } from './api';
+import type { NodePositionUpdate } from '../../../shared/types';
+
+/**
+ * Delay between the last change and the save, in milliseconds.
+ */
+const SAVE_DELAY_MS = 1000;
+
+/**
+ * Maximum number of positions per request (keeps keepalive requests small).
+ */
+const MAX_BATCH_SIZE = 250;
+
+/**
+ * A batching position saver.
+ */
+export interface PositionSaver {
+  /** Queues a position for saving */
+  queue: (sessionId: string, update: NodePositionUpdate) => void;
+
+  /** Saves everything queued right away */
+  flush: () => Promise<void>;
+}
+
+/**
+ * Creates a position saver.
+ *
+ * @param {Function} onError - Called when a batch could not be saved
+ * @returns {PositionSaver} The saver
+ *
+ * @example
+ * const saver = createPositionSaver(() => setError('Could not save the layout.'));
+ * saver.queue(sessionId, { nodeId, x: 420, y: 180, pinned: true });
+ */
+export const createPositionSaver = (onError: (error: unknown) => void): PositionSaver => {
+  let pending = new Map<string, Map<string, NodePositionUpdate>>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = async (): Promise<void> => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+
+    const batches = pending;
+    pending = new Map();
+
+    for (const [sessionId, updates] of batches) {
+      const positions = Array.from(updates.values());
+      for (let start = 0; start < positions.length; start += MAX_BATCH_SIZE) {
+        const batch = positions.slice(start, start + MAX_BATCH_SIZE);
+        try {
+          await brainstormApi.saveNodePositions(sessionId, batch);
+          console.info(`📌 Saved ${batch.length} node positions`);
+        } catch (err) {
+          console.error('❌ Failed to save node positions:', err);
+          onError(err);
+        }
+      }
+    }
+  };
+
+  const queue = (sessionId: string, update: NodePositionUpdate): void => {
+    const updates = pending.get(sessionId) || new Map<string, NodePositionUpdate>();
+    const previous = updates.get(update.nodeId);
+    const pinned = update.pinned ?? previous?.pinned;
+
+    updates.set(update.nodeId, pinned === undefined ? update : { ...update, pinned });
+    pending.set(sessionId, updates);
+
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => { void flush(); }, SAVE_DELAY_MS);
+  };
+
+  return { queue, flush };
+};
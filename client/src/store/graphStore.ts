@@ -16,12 +16,22 @@
  * - Session identification
  * - Loading states for async operations
  * - Error states for user feedback
+ * - Available and selected personas for new sessions
+ * - Node selection for follow-up questions
+ * - The node shown in the detail panel
+ * - Collapsed subtrees per session
+ * - Expansions queued or in flight, per node
+ * - Stale-branch regenerations in flight, per node
  * - Graph manipulation operations
  * 
  * Key Features:
  * - Immutable state updates
  * - Automatic error clearing on successful operations
  * - Incremental graph updates for branching
+ * - Node edits and subtree removal
+ * - Undo/redo history of graph mutations
+ * - Live node updates from streamed personality responses
+ * - Progress of background generation jobs picked up after reconnecting
  * - Session persistence support
  * - Loading state management
  * 
@@ -35,12 +45,62 @@
  */
 
 import { create } from 'zustand';
-import type { Node, Edge } from '../../../shared/types';
+import type { Node, Edge, Persona, PersonalityName, PersonaStreamEvent, NodePositionUpdate, JobPersonaProgress } from '../../../shared/types';
 
 // ===================================================================
 // GRAPH STATE INTERFACE
 // ===================================================================
 
+/**
+ * Kind of graph mutation recorded in the undo history.
+ */
+export type HistoryCommandType = 'expand' | 'follow-up' | 'edit' | 'delete' | 'move';
+
+/**
+ * A reversible graph mutation. Commands carry their own undo and redo
+ * steps, which keep the server's copy of the session in sync.
+ */
+export interface HistoryCommand {
+  /** Kind of mutation */
+  type: HistoryCommandType;
+  
+  /** Short description for messages, e.g. "expansion of Optimist" */
+  label: string;
+  
+  /** Reverts the mutation */
+  undo: () => Promise<void> | void;
+  
+  /** Applies the mutation again after it was undone */
+  redo: () => Promise<void> | void;
+}
+
+/**
+ * Progress of a queued expansion:
+ * - 'queued': waiting for a free request slot
+ * - 'running': request sent, no branch nodes received yet
+ * - 'streaming': branch nodes created, responses streaming in
+ */
+export type ExpansionStatus = 'queued' | 'running' | 'streaming';
+
+/**
+ * An expansion or follow-up question that has not finished yet.
+ */
+export interface PendingExpansion {
+  /** Session the expanded node belongs to */
+  sessionId: string;
+  
+  /** Progress of the request */
+  status: ExpansionStatus;
+  
+  /** Whether the branch starts with a follow-up question */
+  isFollowUp: boolean;
+}
+
+/**
+ * Maximum number of commands kept in the undo history.
+ */
+const MAX_HISTORY = 50;
+
 /**
  * Interface defining the complete graph state structure.
  * Includes all data and operations needed for graph management.
@@ -59,11 +119,44 @@ interface GraphState {
   /** UUID of the current session, null if no session is active */
   sessionId: string | null;
   
-  /** Boolean indicating if an async operation is in progress */
+  /** Boolean indicating if a session-level operation (creating, loading, importing) is in progress */
   isLoading: boolean;
   
   /** Error message string, null if no error occurred */
   error: string | null;
+  
+  /** IDs of response nodes whose text is still being streamed */
+  streamingNodeIds: string[];
+
+  /** Personas available in the server's persona registry */
+  personas: Persona[];
+  
+  /** Names of the personas that participate in the next session */
+  selectedPersonas: PersonalityName[];
+  
+  /** ID of the response node selected for a follow-up question, null if none */
+  selectedNodeId: string | null;
+  
+  /** ID of the node shown in the detail panel, null when the panel is closed */
+  detailNodeId: string | null;
+  
+  /** Commands that can be undone, most recent last */
+  undoStack: HistoryCommand[];
+  
+  /** Undone commands that can be redone, most recently undone last */
+  redoStack: HistoryCommand[];
+  
+  /** True while an undo or redo is being applied */
+  isReplayingHistory: boolean;
+  
+  /** Nodes whose descendants are hidden in the graph view, by session ID */
+  collapsedNodeIds: Record<string, string[]>;
+  
+  /** Expansions that are queued or in flight, by the ID of the expanded node */
+  pendingExpansions: Record<string, PendingExpansion>;
+  
+  /** Stale-branch regenerations in flight: session ID by the node the branch starts at */
+  pendingRegenerations: Record<string, string>;
 
   // ===================================================================
   // STATE ACTIONS
@@ -88,6 +181,50 @@ interface GraphState {
    */
   addNodes: (newNodes: Node[], newEdges: Edge[]) => void;
   
+  /**
+   * Replaces existing nodes with updated copies from the server.
+   * Used after responses have been retried or regenerated, or a prompt edited.
+   * Text changes can make other nodes stale, so the server's list of
+   * stale nodes is applied to the whole graph when given.
+   * 
+   * @param {Node[]} nodes - The updated nodes
+   * @param {string[]} [staleNodeIds] - IDs of every stale node in the session
+   */
+  updateNodes: (nodes: Node[], staleNodeIds?: string[]) => void;
+  
+  /**
+   * Records node positions and pin states saved from the graph view.
+   * 
+   * @param {NodePositionUpdate[]} updates - New positions; pin state kept when absent
+   */
+  setNodePositions: (updates: NodePositionUpdate[]) => void;
+  
+  /**
+   * Removes nodes and every edge that touches them.
+   * Used after a subtree has been deleted on the server.
+   * 
+   * @param {string[]} nodeIds - Nodes to remove
+   */
+  removeNodes: (nodeIds: string[]) => void;
+  
+  /**
+   * Applies a streaming event from the brainstorm or branch stream.
+   * Creates nodes, appends text deltas and finalizes nodes as they complete.
+   * A 'node-created' event for a different session replaces the graph.
+   * 
+   * @param {PersonaStreamEvent} event - Event received from the server
+   */
+  applyStreamEvent: (event: PersonaStreamEvent) => void;
+  
+  /**
+   * Applies the progress of background generation jobs: unfinished
+   * responses show the text generated so far and are marked as streaming,
+   * finished ones are replaced by the committed node.
+   * 
+   * @param {JobPersonaProgress[]} progress - Per-persona job progress
+   */
+  applyJobProgress: (progress: JobPersonaProgress[]) => void;
+  
   /**
    * Sets the loading state for the graph.
    * Used to show/hide loading indicators during async operations.
@@ -104,6 +241,98 @@ interface GraphState {
    */
   setError: (error: string | null) => void;
   
+  /**
+   * Selects a node as the target of the next follow-up question.
+   * Passing null (or the already selected node) clears the selection.
+   * 
+   * @param {string | null} nodeId - Node to select
+   */
+  selectNode: (nodeId: string | null) => void;
+  
+  /**
+   * Opens the detail panel for a node, or closes it when passed null.
+   * 
+   * @param {string | null} nodeId - Node to show
+   */
+  showNodeDetail: (nodeId: string | null) => void;
+  
+  /**
+   * Collapses a node of the current session (hiding its descendants in the
+   * graph view) or expands it again.
+   * 
+   * @param {string} nodeId - Node to toggle
+   */
+  toggleCollapsed: (nodeId: string) => void;
+  
+  /**
+   * Records that an expansion of a node was queued or made progress.
+   * 
+   * @param {string} nodeId - The expanded node
+   * @param {PendingExpansion} expansion - The expansion's current state
+   */
+  setPendingExpansion: (nodeId: string, expansion: PendingExpansion) => void;
+  
+  /**
+   * Forgets a finished, failed or cancelled expansion. Nodes it created stop
+   * being shown as streaming, even if the stream ended early.
+   * 
+   * @param {string} nodeId - The expanded node
+   * @param {string[]} createdNodeIds - Nodes the expansion created
+   */
+  clearPendingExpansion: (nodeId: string, createdNodeIds: string[]) => void;
+  
+  /**
+   * Records that the stale branch starting at a node is being regenerated.
+   * 
+   * @param {string} nodeId - The node the branch starts at
+   * @param {string} sessionId - Session the node belongs to
+   */
+  setPendingRegeneration: (nodeId: string, sessionId: string) => void;
+  
+  /**
+   * Forgets a finished or failed branch regeneration.
+   * 
+   * @param {string} nodeId - The node the branch starts at
+   */
+  clearPendingRegeneration: (nodeId: string) => void;
+  
+  /**
+   * Replaces the list of available personas.
+   * Selected personas that no longer exist are dropped; when nothing
+   * remains selected, the built-in personas are selected.
+   * 
+   * @param {Persona[]} personas - Personas from the registry
+   */
+  setPersonas: (personas: Persona[]) => void;
+  
+  /**
+   * Adds or removes a persona from the selection for the next session.
+   * The last selected persona cannot be removed.
+   * 
+   * @param {PersonalityName} name - Persona to toggle
+   */
+  togglePersona: (name: PersonalityName) => void;
+  
+  /**
+   * Records a mutation that has just been applied so it can be undone.
+   * Clears the redo history.
+   * 
+   * @param {HistoryCommand} command - The applied mutation
+   */
+  recordCommand: (command: HistoryCommand) => void;
+  
+  /**
+   * Reverts the most recent command. A command that fails to revert is
+   * dropped from the history and reported as an error.
+   */
+  undo: () => Promise<void>;
+  
+  /**
+   * Re-applies the most recently undone command. A command that fails
+   * is dropped from the history and reported as an error.
+   */
+  redo: () => Promise<void>;
+  
   /**
    * Clears all graph data and resets state.
    * Used when starting a new session or resetting the application.
@@ -139,7 +368,7 @@ interface GraphState {
  * // Show loading state
  * setLoading(true);
  */
-export const useGraphStore = create<GraphState>((set) => ({
+export const useGraphStore = create<GraphState>((set, get) => ({
   // ===================================================================
   // INITIAL STATE
   // ===================================================================
@@ -149,6 +378,17 @@ export const useGraphStore = create<GraphState>((set) => ({
   sessionId: null,
   isLoading: false,
   error: null,
+  streamingNodeIds: [],
+  personas: [],
+  selectedPersonas: [],
+  selectedNodeId: null,
+  detailNodeId: null,
+  undoStack: [],
+  redoStack: [],
+  isReplayingHistory: false,
+  collapsedNodeIds: {},
+  pendingExpansions: {},
+  pendingRegenerations: {},
   
   // ===================================================================
   // STATE ACTIONS IMPLEMENTATION
@@ -166,6 +406,10 @@ export const useGraphStore = create<GraphState>((set) => ({
     nodes, 
     edges, 
     sessionId: sessionId || null,
+    selectedNodeId: null,
+    detailNodeId: null,
+    undoStack: [],
+    redoStack: [],
     error: null 
   }),
   
@@ -183,6 +427,141 @@ export const useGraphStore = create<GraphState>((set) => ({
     error: null
   })),
   
+  /**
+   * Replaces nodes with the same IDs and syncs stale markers.
+   * Nodes whose stale marker is unchanged keep their identity.
+   * 
+   * @param {Node[]} nodes - The updated nodes
+   * @param {string[]} [staleNodeIds] - IDs of every stale node in the session
+   */
+  updateNodes: (nodes, staleNodeIds) => set((state) => {
+    const updated = new Map(nodes.map(node => [node.id, node]));
+    const stale = staleNodeIds && new Set(staleNodeIds);
+    
+    return {
+      nodes: state.nodes.map(existing => {
+        const node = updated.get(existing.id) || existing;
+        if (!stale || !!node.stale === stale.has(node.id)) return node;
+        
+        const { stale: _previous, ...rest } = node;
+        return stale.has(node.id) ? { ...rest, stale: true } : rest;
+      })
+    };
+  }),
+  
+  /**
+   * Records node positions and pin states saved from the graph view.
+   * 
+   * @param {NodePositionUpdate[]} updates - New positions; pin state kept when absent
+   */
+  setNodePositions: (updates) => set((state) => {
+    const updated = new Map(updates.map(update => [update.nodeId, update]));
+    
+    return {
+      nodes: state.nodes.map(node => {
+        const update = updated.get(node.id);
+        if (!update) return node;
+        
+        const { pinned: _previous, ...rest } = node;
+        const pinned = update.pinned ?? node.pinned;
+        return { ...rest, position: { x: update.x, y: update.y }, ...(pinned ? { pinned: true } : {}) };
+      })
+    };
+  }),
+  
+  /**
+   * Removes nodes and their edges, dropping a selection or open detail
+   * panel that pointed at a removed node.
+   * 
+   * @param {string[]} nodeIds - Nodes to remove
+   */
+  removeNodes: (nodeIds) => set((state) => {
+    const removed = new Set(nodeIds);
+    
+    return {
+      nodes: state.nodes.filter(node => !removed.has(node.id)),
+      edges: state.edges.filter(edge => !removed.has(edge.source) && !removed.has(edge.target)),
+      streamingNodeIds: state.streamingNodeIds.filter(id => !removed.has(id)),
+      selectedNodeId: state.selectedNodeId && removed.has(state.selectedNodeId) ? null : state.selectedNodeId,
+      detailNodeId: state.detailNodeId && removed.has(state.detailNodeId) ? null : state.detailNodeId
+    };
+  }),
+  
+  /**
+   * Applies a streaming event to the graph.
+   * Node text is updated immutably so subscribers re-render per chunk.
+   * 
+   * @param {PersonaStreamEvent} event - Event received from the server
+   */
+  applyStreamEvent: (event) => set((state) => {
+    switch (event.type) {
+      case 'node-created': {
+        const isNewSession = state.sessionId !== event.sessionId;
+        const streamingNodeIds = event.node.type === 'response' ? [event.node.id] : [];
+        
+        return {
+          sessionId: event.sessionId,
+          nodes: isNewSession ? [event.node] : [...state.nodes, event.node],
+          edges: [...(isNewSession ? [] : state.edges), ...(event.edge ? [event.edge] : [])],
+          streamingNodeIds: isNewSession ? streamingNodeIds : [...state.streamingNodeIds, ...streamingNodeIds],
+          selectedNodeId: isNewSession ? null : state.selectedNodeId,
+          detailNodeId: isNewSession ? null : state.detailNodeId,
+          undoStack: isNewSession ? [] : state.undoStack,
+          redoStack: isNewSession ? [] : state.redoStack,
+          error: null
+        };
+      }
+      
+      case 'delta':
+        return {
+          nodes: state.nodes.map(node => 
+            node.id === event.nodeId ? { ...node, text: node.text + event.delta } : node
+          )
+        };
+      
+      case 'done':
+        return {
+          nodes: state.nodes.map(node => node.id === event.node.id ? event.node : node),
+          streamingNodeIds: state.streamingNodeIds.filter(id => id !== event.node.id)
+        };
+      
+      case 'error':
+        // Persona-level errors are followed by a fallback 'done' event
+        if (event.nodeId) {
+          console.warn(`Stream error for node ${event.nodeId}: ${event.message}`);
+          return {};
+        }
+        return { error: event.message, streamingNodeIds: [] };
+    }
+  }),
+  
+  /**
+   * Applies job progress to the nodes it belongs to.
+   * Nodes whose text is unchanged keep their identity.
+   * 
+   * @param {JobPersonaProgress[]} progress - Per-persona job progress
+   */
+  applyJobProgress: (progress) => set((state) => {
+    const byNodeId = new Map(progress.map(entry => [entry.nodeId, entry]));
+    const isFinished = (entry: JobPersonaProgress) => entry.status === 'done' || entry.status === 'failed';
+    const unfinishedIds = state.nodes
+      .filter(node => byNodeId.has(node.id) && !isFinished(byNodeId.get(node.id)!))
+      .map(node => node.id);
+    
+    return {
+      nodes: state.nodes.map(node => {
+        const entry = byNodeId.get(node.id);
+        if (!entry) return node;
+        if (entry.node) return entry.node;
+        return entry.text === node.text ? node : { ...node, text: entry.text };
+      }),
+      streamingNodeIds: [
+        ...state.streamingNodeIds.filter(id => !byNodeId.has(id) || !isFinished(byNodeId.get(id)!)),
+        ...unfinishedIds.filter(id => !state.streamingNodeIds.includes(id))
+      ]
+    };
+  }),
+  
   /**
    * Sets the loading state for the graph.
    * Used to show/hide loading indicators during async operations.
@@ -199,6 +578,188 @@ export const useGraphStore = create<GraphState>((set) => ({
    */
   setError: (error) => set({ error, isLoading: false }),
   
+  /**
+   * Toggles the selected node.
+   * 
+   * @param {string | null} nodeId - Node to select, or null to clear
+   */
+  selectNode: (nodeId) => set((state) => ({
+    selectedNodeId: nodeId === state.selectedNodeId ? null : nodeId
+  })),
+  
+  /**
+   * Sets the node shown in the detail panel.
+   * 
+   * @param {string | null} nodeId - Node to show, or null to close the panel
+   */
+  showNodeDetail: (nodeId) => set({ detailNodeId: nodeId }),
+  
+  /**
+   * Collapses or expands a node of the current session.
+   * 
+   * @param {string} nodeId - Node to toggle
+   */
+  toggleCollapsed: (nodeId) => set((state) => {
+    if (!state.sessionId) return {};
+    
+    const collapsed = state.collapsedNodeIds[state.sessionId] || [];
+    return {
+      collapsedNodeIds: {
+        ...state.collapsedNodeIds,
+        [state.sessionId]: collapsed.includes(nodeId)
+          ? collapsed.filter(id => id !== nodeId)
+          : [...collapsed, nodeId]
+      }
+    };
+  }),
+  
+  /**
+   * Adds or updates a pending expansion.
+   * 
+   * @param {string} nodeId - The expanded node
+   * @param {PendingExpansion} expansion - The expansion's current state
+   */
+  setPendingExpansion: (nodeId, expansion) => set((state) => ({
+    pendingExpansions: { ...state.pendingExpansions, [nodeId]: expansion }
+  })),
+  
+  /**
+   * Removes a pending expansion and the streaming markers of its nodes.
+   * 
+   * @param {string} nodeId - The expanded node
+   * @param {string[]} createdNodeIds - Nodes the expansion created
+   */
+  clearPendingExpansion: (nodeId, createdNodeIds) => set((state) => {
+    const { [nodeId]: _finished, ...pendingExpansions } = state.pendingExpansions;
+    const created = new Set(createdNodeIds);
+    
+    return {
+      pendingExpansions,
+      streamingNodeIds: state.streamingNodeIds.filter(id => !created.has(id))
+    };
+  }),
+  
+  /**
+   * Adds a pending branch regeneration.
+   * 
+   * @param {string} nodeId - The node the branch starts at
+   * @param {string} sessionId - Session the node belongs to
+   */
+  setPendingRegeneration: (nodeId, sessionId) => set((state) => ({
+    pendingRegenerations: { ...state.pendingRegenerations, [nodeId]: sessionId }
+  })),
+  
+  /**
+   * Removes a pending branch regeneration.
+   * 
+   * @param {string} nodeId - The node the branch starts at
+   */
+  clearPendingRegeneration: (nodeId) => set((state) => {
+    const { [nodeId]: _finished, ...pendingRegenerations } = state.pendingRegenerations;
+    return { pendingRegenerations };
+  }),
+  
+  /**
+   * Replaces the list of available personas and prunes the selection.
+   * 
+   * @param {Persona[]} personas - Personas from the registry
+   */
+  setPersonas: (personas) => set((state) => {
+    const names = personas.map(persona => persona.name);
+    const selectedPersonas = state.selectedPersonas.filter(name => names.includes(name));
+    
+    return {
+      personas,
+      selectedPersonas: selectedPersonas.length > 0
+        ? selectedPersonas
+        : personas.filter(persona => persona.builtIn).map(persona => persona.name)
+    };
+  }),
+  
+  /**
+   * Toggles a persona, keeping at least one persona selected.
+   * Selection order follows the registry order.
+   * 
+   * @param {PersonalityName} name - Persona to toggle
+   */
+  togglePersona: (name) => set((state) => {
+    if (state.selectedPersonas.includes(name)) {
+      if (state.selectedPersonas.length === 1) return {};
+      return { selectedPersonas: state.selectedPersonas.filter(selected => selected !== name) };
+    }
+    
+    const selected = [...state.selectedPersonas, name];
+    return {
+      selectedPersonas: state.personas
+        .map(persona => persona.name)
+        .filter(personaName => selected.includes(personaName))
+    };
+  }),
+  
+  /**
+   * Pushes a command onto the undo history, dropping the oldest beyond the limit.
+   * 
+   * @param {HistoryCommand} command - The applied mutation
+   */
+  recordCommand: (command) => set((state) => ({
+    undoStack: [...state.undoStack, command].slice(-MAX_HISTORY),
+    redoStack: []
+  })),
+  
+  /**
+   * Undoes the most recent command.
+   */
+  undo: async () => {
+    const { undoStack, isReplayingHistory } = get();
+    const command = undoStack[undoStack.length - 1];
+    if (!command || isReplayingHistory) return;
+    
+    set({ isReplayingHistory: true, error: null });
+    try {
+      await command.undo();
+      set((state) => ({
+        undoStack: state.undoStack.filter(candidate => candidate !== command),
+        redoStack: [...state.redoStack, command]
+      }));
+      console.info(`↩️ Undid ${command.label}`);
+    } catch (error) {
+      console.error(`Failed to undo ${command.label}:`, error);
+      set((state) => ({
+        undoStack: state.undoStack.filter(candidate => candidate !== command),
+        error: `Could not undo ${command.label}.`
+      }));
+    } finally {
+      set({ isReplayingHistory: false });
+    }
+  },
+  
+  /**
+   * Redoes the most recently undone command.
+   */
+  redo: async () => {
+    const { redoStack, isReplayingHistory } = get();
+    const command = redoStack[redoStack.length - 1];
+    if (!command || isReplayingHistory) return;
+    
+    set({ isReplayingHistory: true, error: null });
+    try {
+      await command.redo();
+      set((state) => ({
+        redoStack: state.redoStack.filter(candidate => candidate !== command),
+        undoStack: [...state.undoStack, command].slice(-MAX_HISTORY)
+      }));
+      console.info(`↪️ Redid ${command.label}`);
+    } catch (error) {
+      console.error(`Failed to redo ${command.label}:`, error);
+      set((state) => ({
+        redoStack: state.redoStack.filter(candidate => candidate !== command),
+        error: `Could not redo ${command.label}.`
+      }));
+    } finally {
+      set({ isReplayingHistory: false });
+    }
+  },
+  
   /**
    * Clears all graph data and resets state to initial values.
    * Used when starting a new session or resetting the application.
@@ -208,6 +769,11 @@ export const useGraphStore = create<GraphState>((set) => ({
     edges: [], 
     sessionId: null, 
     error: null,
-    isLoading: false 
+    isLoading: false,
+    streamingNodeIds: [],
+    selectedNodeId: null,
+    detailNodeId: null,
+    undoStack: [],
+    redoStack: []
   })
 }));
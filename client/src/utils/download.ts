@@ -0,0 +1,34 @@
+/**
+ * ===================================================================
+ * DOWNLOAD HELPERS - Forum AI Brainstorming Application (Client)
+ * ===================================================================
+ *
+ * Saves generated files (session exports, rendered graphs) through the
+ * browser's download mechanism.
+ *
+ * @author Forum Development Team
+ * @version 1.0.0
+ * @since 2025
+ */
+
+/**
+ * Starts a browser download of a blob.
+ *
+ * @param {Blob} blob - File contents
+ * @param {string} filename - Suggested file name
+ *
+ * @example
+ * downloadBlob(new Blob(['# Ideas'], { type: 'text/markdown' }), 'ideas.md');
+ */
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  // Revoke after the click has been handled so the download can start
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,218 @@
+/**
+ * ===================================================================
+ * GRAPH IMAGE EXPORT - Forum AI Brainstorming Application (Client)
+ * ===================================================================
+ *
+ * Turns the rendered graph SVG into standalone image files for slide
+ * decks and documents.
+ *
+ * Export Features:
+ * - Self-contained SVG: computed styles (persona colors, fonts, outlines)
+ *   are inlined so the file looks the same outside the app
+ * - Keeps the current layout, cropped to the exported nodes
+ * - Optional subset of nodes (e.g. a selected subtree)
+ * - PNG rasterization at a chosen scale
+ *
+ * The graph view marks node groups with `data-node-id` and links with
+ * `data-source` / `data-target` so subsets can be cut out of the SVG.
+ *
+ * @author Forum Development Team
+ * @version 1.0.0
+ * @since 2025
+ */
+
+// ===================================================================
+// EXPORT CONFIGURATION
+// ===================================================================
+
+/**
+ * Space around the exported nodes, in SVG units.
+ */
+const IMAGE_PADDING = 40;
+
+/**
+ * Background of exported images, matching the graph canvas.
+ */
+const IMAGE_BACKGROUND = '#f8fafc';
+
+/**
+ * Style properties copied from the rendered graph into the exported SVG.
+ */
+const INLINED_STYLE_PROPERTIES = [
+  'fill',
+  'fill-opacity',
+  'stroke',
+  'stroke-width',
+  'stroke-opacity',
+  'stroke-dasharray',
+  'font-family',
+  'font-size',
+  'font-weight',
+  'text-anchor',
+  'opacity'
+];
+
+/**
+ * A serialized SVG image with its size.
+ */
+export interface GraphImage {
+  /** SVG document */
+  svg: string;
+
+  /** Image width in SVG units (pixels at scale 1) */
+  width: number;
+
+  /** Image height in SVG units (pixels at scale 1) */
+  height: number;
+}
+
+// ===================================================================
+// SVG SERIALIZATION
+// ===================================================================
+
+/**
+ * Copies the computed styles of an element tree onto a structurally
+ * identical clone, so the clone no longer depends on page CSS.
+ *
+ * @param {Element} source - Rendered element
+ * @param {Element} target - Its clone
+ */
+const inlineStyles = (source: Element, target: Element): void => {
+  const computed = window.getComputedStyle(source);
+  const declarations = INLINED_STYLE_PROPERTIES
+    .map(property => [property, computed.getPropertyValue(property)])
+    .filter(([, value]) => value && value !== 'none' && value !== 'normal')
+    .map(([property, value]) => `${property}: ${value}`);
+
+  if (declarations.length > 0) {
+    target.setAttribute('style', declarations.join('; '));
+  }
+
+  Array.from(source.children).forEach((child, index) => {
+    const clonedChild = target.children[index];
+    if (clonedChild) inlineStyles(child, clonedChild);
+  });
+};
+
+/**
+ * Reads the translation of a node group's transform attribute.
+ *
+ * @param {Element} element - Node group
+ * @returns {{ x: number, y: number }} Translation, 0/0 if absent
+ */
+const getTranslation = (element: Element): { x: number, y: number } => {
+  const match = /translate\(\s*([-\d.e]+)[ ,]+([-\d.e]+)\s*\)/.exec(element.getAttribute('transform') || '');
+  return match ? { x: parseFloat(match[1]), y: parseFloat(match[2]) } : { x: 0, y: 0 };
+};
+
+/**
+ * Serializes the graph SVG into a standalone document cropped to the
+ * exported nodes.
+ *
+ * @param {SVGSVGElement} svg - The rendered graph
+ * @param {Set<string>} [nodeIds] - Nodes to include (all when absent)
+ * @returns {GraphImage} The SVG document and its size
+ * @throws {Error} If none of the requested nodes are rendered
+ *
+ * @example
+ * const { svg, width, height } = serializeGraphSvg(svgRef.current, getSubtreeIds(nodes, nodeId));
+ */
+export const serializeGraphSvg = (svg: SVGSVGElement, nodeIds?: Set<string>): GraphImage => {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  inlineStyles(svg, clone);
+
+  // Drop everything outside the exported subset
+  clone.querySelectorAll('[data-node-id]').forEach(element => {
+    if (nodeIds && !nodeIds.has(element.getAttribute('data-node-id') || '')) element.remove();
+  });
+  clone.querySelectorAll('[data-source]').forEach(element => {
+    const isInside = !nodeIds || (
+      nodeIds.has(element.getAttribute('data-source') || '') && nodeIds.has(element.getAttribute('data-target') || '')
+    );
+    if (!isInside) element.remove();
+  });
+
+  // Crop to the remaining nodes in graph coordinates
+  const nodes = Array.from(clone.querySelectorAll('[data-node-id]'));
+  if (nodes.length === 0) {
+    throw new Error('Nothing to export');
+  }
+
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  nodes.forEach(node => {
+    const { x, y } = getTranslation(node);
+    const rect = node.querySelector('rect');
+    const width = parseFloat(rect?.getAttribute('width') || '0');
+    const height = parseFloat(rect?.getAttribute('height') || '0');
+    minX = Math.min(minX, x - width / 2);
+    minY = Math.min(minY, y - height / 2);
+    maxX = Math.max(maxX, x + width / 2);
+    maxY = Math.max(maxY, y + height / 2);
+  });
+
+  const width = Math.ceil(maxX - minX + IMAGE_PADDING * 2);
+  const height = Math.ceil(maxY - minY + IMAGE_PADDING * 2);
+  const viewBox = [minX - IMAGE_PADDING, minY - IMAGE_PADDING, width, height].map(value => Math.round(value));
+
+  // Pan and zoom of the view don't apply to the exported image
+  clone.querySelectorAll('.graph-container').forEach(container => container.removeAttribute('transform'));
+
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  clone.setAttribute('viewBox', viewBox.join(' '));
+  clone.removeAttribute('style');
+
+  const background = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+  background.setAttribute('x', String(viewBox[0]));
+  background.setAttribute('y', String(viewBox[1]));
+  background.setAttribute('width', String(width));
+  background.setAttribute('height', String(height));
+  background.setAttribute('fill', IMAGE_BACKGROUND);
+  clone.insertBefore(background, clone.firstChild);
+
+  const markup = new XMLSerializer().serializeToString(clone);
+  return { svg: `<?xml version="1.0" encoding="UTF-8"?>\n${markup}`, width, height };
+};
+
+// ===================================================================
+// PNG RASTERIZATION
+// ===================================================================
+
+/**
+ * Renders a serialized graph image into a PNG.
+ *
+ * @param {GraphImage} image - The SVG document and its size
+ * @param {number} scale - Pixels per SVG unit (e.g. 2 for high-DPI slides)
+ * @returns {Promise<Blob>} PNG file contents
+ * @throws {Error} If the browser can't render the image
+ */
+export const rasterizeGraphImage = (image: GraphImage, scale: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([image.svg], { type: 'image/svg+xml' }));
+    const img = new Image();
+
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas rendering is not available'));
+        return;
+      }
+
+      context.drawImage(img, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('PNG encoding failed')), 'image/png');
+    };
+
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('The graph image could not be rendered'));
+    };
+
+    img.src = url;
+  });
+};
@@ -0,0 +1,215 @@
+/**
+ * ===================================================================
+ * GRAPH LAYOUTS - Forum AI Brainstorming Application (Client)
+ * ===================================================================
+ *
+ * Hierarchical alternatives to the force layout. Both are computed from
+ * the nodes' `parentId`, so deep conversations read as trees:
+ *
+ * - Radial tree: the root in the middle, each generation on a ring
+ * - Tidy tree: top-down, each generation on a row, siblings side by side
+ *
+ * The layout chosen for a session is remembered in localStorage.
+ *
+ * @author Forum Development Team
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { stratify, tree, HierarchyPointNode } from 'd3-hierarchy';
+
+// ===================================================================
+// LAYOUT CONFIGURATION
+// ===================================================================
+
+/**
+ * Layouts offered by the graph view.
+ */
+export type GraphLayout = 'force' | 'radial' | 'tree';
+
+/**
+ * Spacing of the hierarchical layouts, in graph units.
+ */
+const LAYOUT_CONFIG = {
+  SIBLING_GAP: 40,
+  LEVEL_GAP: 90,
+  RADIAL_RING_DISTANCE: 280,
+  RADIAL_MIN_ARC: 220
+};
+
+/**
+ * Parent of all top-level nodes when a graph has more than one root.
+ */
+const VIRTUAL_ROOT_ID = '__layout-root__';
+
+const STORAGE_PREFIX = 'forum.layout.';
+
+/**
+ * A node as the layouts see it.
+ */
+export interface LayoutNode {
+  id: string;
+  parentId?: string;
+  width: number;
+  height: number;
+}
+
+// ===================================================================
+// HIERARCHY CONSTRUCTION
+// ===================================================================
+
+/**
+ * Builds the hierarchy of the nodes. Nodes whose parent is missing count
+ * as top-level nodes; several top-level nodes share a virtual root.
+ *
+ * @param {LayoutNode[]} nodes - Nodes to arrange
+ * @returns The stratified hierarchy
+ */
+const buildHierarchy = (nodes: LayoutNode[]) => {
+  const ids = new Set(nodes.map(node => node.id));
+  const topLevel = nodes.filter(node => !node.parentId || !ids.has(node.parentId));
+  const hasVirtualRoot = topLevel.length !== 1;
+
+  const entries: LayoutNode[] = nodes.map(node => ({
+    ...node,
+    parentId: node.parentId && ids.has(node.parentId)
+      ? node.parentId
+      : hasVirtualRoot ? VIRTUAL_ROOT_ID : undefined
+  }));
+  if (hasVirtualRoot) {
+    entries.unshift({ id: VIRTUAL_ROOT_ID, width: 0, height: 0 });
+  }
+
+  return stratify<LayoutNode>()
+    .id(node => node.id)
+    .parentId(node => node.parentId)(entries);
+};
+
+/**
+ * Collects the laid out positions, leaving out the virtual root.
+ */
+const collectPositions = (
+  root: HierarchyPointNode<LayoutNode>,
+  toPosition: (node: HierarchyPointNode<LayoutNode>) => { x: number, y: number }
+): Map<string, { x: number, y: number }> => {
+  const positions = new Map<string, { x: number, y: number }>();
+  root.each(node => {
+    if (node.data.id !== VIRTUAL_ROOT_ID) positions.set(node.data.id, toPosition(node));
+  });
+  return positions;
+};
+
+// ===================================================================
+// LAYOUTS
+// ===================================================================
+
+/**
+ * Top-down tidy tree. Rows are as tall as their tallest node and siblings
+ * are spaced by their actual widths.
+ *
+ * @param {LayoutNode[]} nodes - Nodes to arrange
+ * @returns {Map<string, { x: number, y: number }>} Node centers, the root at 0/0
+ */
+export const computeTidyTreeLayout = (nodes: LayoutNode[]): Map<string, { x: number, y: number }> => {
+  if (nodes.length === 0) return new Map();
+
+  const root = tree<LayoutNode>()
+    .nodeSize([1, 1])
+    .separation((a, b) => (a.data.width + b.data.width) / 2 + LAYOUT_CONFIG.SIBLING_GAP * (a.parent === b.parent ? 1 : 2))(
+      buildHierarchy(nodes)
+    );
+
+  // Row offsets from the tallest node of each generation
+  const rowHeights: number[] = [];
+  root.each(node => {
+    rowHeights[node.depth] = Math.max(rowHeights[node.depth] || 0, node.data.height);
+  });
+  const rowOffsets = rowHeights.reduce<number[]>((offsets, height, depth) => {
+    offsets.push(depth === 0 ? 0 : offsets[depth - 1] + (rowHeights[depth - 1] + height) / 2 + LAYOUT_CONFIG.LEVEL_GAP);
+    return offsets;
+  }, []);
+
+  return collectPositions(root, node => ({ x: node.x, y: rowOffsets[node.depth] }));
+};
+
+/**
+ * Radial tree with the root in the center. Rings grow apart when the outer
+ * generation needs more room than the default ring distance gives it.
+ *
+ * @param {LayoutNode[]} nodes - Nodes to arrange
+ * @returns {Map<string, { x: number, y: number }>} Node centers, the root at 0/0
+ */
+export const computeRadialLayout = (nodes: LayoutNode[]): Map<string, { x: number, y: number }> => {
+  if (nodes.length === 0) return new Map();
+
+  const root = tree<LayoutNode>()
+    .size([2 * Math.PI, 1])
+    .separation((a, b) => (a.parent === b.parent ? 1 : 2) / Math.max(a.depth, 1))(
+      buildHierarchy(nodes)
+    );
+
+  const maxDepth = Math.max(root.height, 1);
+  const ringDistance = Math.max(
+    LAYOUT_CONFIG.RADIAL_RING_DISTANCE,
+    (root.leaves().length * LAYOUT_CONFIG.RADIAL_MIN_ARC) / (2 * Math.PI * maxDepth)
+  );
+
+  return collectPositions(root, node => ({
+    x: node.depth * ringDistance * Math.sin(node.x),
+    y: -node.depth * ringDistance * Math.cos(node.x)
+  }));
+};
+
+/**
+ * Computes a hierarchical layout.
+ *
+ * @param {LayoutNode[]} nodes - Nodes to arrange
+ * @param {GraphLayout} layout - 'radial' or 'tree'
+ * @returns {Map<string, { x: number, y: number }>} Node centers; empty for the force layout
+ */
+export const computeGraphLayout = (nodes: LayoutNode[], layout: GraphLayout): Map<string, { x: number, y: number }> => {
+  switch (layout) {
+    case 'radial': return computeRadialLayout(nodes);
+    case 'tree': return computeTidyTreeLayout(nodes);
+    default: return new Map();
+  }
+};
+
+// ===================================================================
+// LAYOUT PREFERENCE
+// ===================================================================
+
+/**
+ * Reads the layout chosen for a session.
+ *
+ * @param {string | null} sessionId - Session
+ * @returns {GraphLayout} The stored layout, 'force' when none was chosen
+ */
+export const loadLayoutPreference = (sessionId: string | null): GraphLayout => {
+  if (!sessionId) return 'force';
+
+  try {
+    const stored = window.localStorage.getItem(`${STORAGE_PREFIX}${sessionId}`);
+    return stored === 'radial' || stored === 'tree' ? stored : 'force';
+  } catch {
+    return 'force';
+  }
+};
+
+/**
+ * Remembers the layout chosen for a session.
+ *
+ * @param {string} sessionId - Session
+ * @param {GraphLayout} layout - Chosen layout
+ */
+export const saveLayoutPreference = (sessionId: string, layout: GraphLayout): void => {
+  try {
+    if (layout === 'force') {
+      window.localStorage.removeItem(`${STORAGE_PREFIX}${sessionId}`);
+    } else {
+      window.localStorage.setItem(`${STORAGE_PREFIX}${sessionId}`, layout);
+    }
+  } catch {
+    // Storage may be unavailable (private mode); the choice then lasts until reload
+  }
+};
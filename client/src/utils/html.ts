@@ -0,0 +1,41 @@
+/**
+ * ===================================================================
+ * HTML TEXT HELPERS - Forum AI Brainstorming Application (Client)
+ * ===================================================================
+ *
+ * Prompts typed into a new session or follow-up are HTML-escaped by the
+ * server before they are stored. These helpers turn such stored text back
+ * into what the user typed, e.g. to edit it.
+ *
+ * @author Forum Development Team
+ * @version 1.0.0
+ * @since 2025
+ */
+
+/**
+ * Characters for the entities the server's input escaping produces.
+ */
+const ESCAPED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  quot: '"',
+  '#x27': "'",
+  lt: '<',
+  gt: '>',
+  '#x2F': '/',
+  '#x5C': '\\',
+  '#96': '`'
+};
+
+/**
+ * Reverses the server's HTML escaping of a stored prompt. Each entity is
+ * replaced once, so text that was escaped a single time comes back exactly.
+ *
+ * @param {string} text - Stored text
+ * @returns {string} The text as typed
+ *
+ * @example
+ * unescapeHtml('What&#x27;s next?'); // "What's next?"
+ */
+export const unescapeHtml = (text: string): string => {
+  return text.replace(/&(amp|quot|#x27|lt|gt|#x2F|#x5C|#96);/g, (_entity, name: string) => ESCAPED_ENTITIES[name]);
+};
@@ -0,0 +1,44 @@
+/**
+ * ===================================================================
+ * PERSONA COLORS - Forum AI Brainstorming Application (Client)
+ * ===================================================================
+ *
+ * Maps persona colors to the graph palette, so the graph, the detail
+ * panel and the persona picker show each persona in the same color.
+ *
+ * @author Forum Development Team
+ * @version 1.0.0
+ * @since 2025
+ */
+
+/**
+ * Named persona colors mapped to the graph palette.
+ * Persona colors that are not listed here are used as CSS colors directly.
+ */
+const PERSONA_PALETTE: Record<string, string> = {
+  green: '#10b981',
+  red: '#ef4444',
+  grey: '#6b7280',
+  gray: '#6b7280',
+  blue: '#3b82f6',
+  purple: '#8b5cf6',
+  orange: '#f97316',
+  yellow: '#eab308',
+  teal: '#14b8a6',
+  pink: '#ec4899'
+};
+
+/**
+ * Resolves a persona color (palette name or CSS color) to a CSS color.
+ *
+ * @param {string} [color] - Persona color
+ * @returns {string} CSS color, grey when the persona has none
+ *
+ * @example
+ * resolvePersonaColor('green');   // '#10b981'
+ * resolvePersonaColor('#123456'); // '#123456'
+ */
+export const resolvePersonaColor = (color?: string): string => {
+  if (!color) return '#94a3b8';
+  return PERSONA_PALETTE[color.toLowerCase()] || color;
+};
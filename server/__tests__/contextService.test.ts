@@ -0,0 +1,112 @@
+import { describe, test, expect, afterEach } from '@jest/globals';
+import { buildBranchTranscript, estimateTokens } from '../services/contextService';
+import { createSession, addBranch, getAncestorPath } from '../services/graphService';
+import { generatePersonalityBranch } from '../services/personalityService';
+import { setLLMProvider, resetLLMProvider } from '../services/llmProvider';
+import { createMockProvider } from '../services/providers/mockProvider';
+import { getPersona } from '../services/personaRegistry';
+import type { LLMRequest } from '../services/llmProvider';
+import type { Node, Persona } from '../../shared/types';
+
+const realist = getPersona('realist') as Persona;
+
+const responses = [
+  { persona: 'optimist', text: 'A podcast could build a loyal audience quickly. Sponsors follow.', color: 'green' },
+  { persona: 'realist', text: 'A podcast takes steady weekly effort. Growth is slow at first.', color: 'grey' }
+];
+
+/**
+ * Builds a session three levels deep and returns the deepest response node.
+ */
+const createDeepSession = async () => {
+  const session = await createSession('Should we launch a podcast?', responses);
+  const optimistNode = session.nodes.find(node => node.persona === 'optimist')!;
+  const first = await addBranch(session.id, optimistNode.id, responses, 'How do we find sponsors?');
+  const realistNode = first.newNodes.find(node => node.persona === 'realist')!;
+  const second = await addBranch(session.id, realistNode.id, responses, 'What budget do we need?');
+  const deepNode = second.newNodes.find(node => node.persona === 'optimist')!;
+
+  return { session, deepNode };
+};
+
+describe('Forum ContextService', () => {
+  afterEach(() => {
+    resetLLMProvider();
+  });
+
+  describe('Ancestor path', () => {
+    test('should walk parent links back to the root prompt', async () => {
+      const { session, deepNode } = await createDeepSession();
+
+      const path = await getAncestorPath(session.id, deepNode.id);
+
+      expect(path[0].text).toBe('Should we launch a podcast?');
+      expect(path.map(node => node.type)).toEqual(['prompt', 'response', 'prompt', 'response', 'prompt', 'response']);
+      expect(path[path.length - 1].id).toBe(deepNode.id);
+    });
+
+    test('should throw for unknown nodes', async () => {
+      const { session } = await createDeepSession();
+
+      await expect(getAncestorPath(session.id, 'missing')).rejects.toThrow('Node not found');
+    });
+  });
+
+  describe('Branch transcript', () => {
+    test('should include the root prompt and the persona\'s own turns as assistant turns', async () => {
+      const { session, deepNode } = await createDeepSession();
+
+      const messages = buildBranchTranscript(await getAncestorPath(session.id, deepNode.id), realist, 'Any risks?');
+
+      expect(messages[0].role).toBe('user');
+      expect(messages[0].content).toContain('User prompt: "Should we launch a podcast?"');
+      expect(messages.some(m => m.role === 'assistant' && m.content.includes('steady weekly effort'))).toBe(true);
+      expect(messages[messages.length - 1].role).toBe('user');
+      expect(messages[messages.length - 1].content).toContain('Follow-up question: "Any risks?"');
+      messages.slice(1).forEach((message, i) => expect(message.role).not.toBe(messages[i].role));
+    });
+
+    test('should summarize older turns when over the token budget', () => {
+      const longText = 'This is a long earlier point. '.repeat(40);
+      const ancestors: Node[] = [
+        { id: 'root', text: 'Original question?', type: 'prompt', position: { x: 0, y: 0 } },
+        { id: 'a', parentId: 'root', text: longText, type: 'response', persona: 'optimist', position: { x: 0, y: 0 } },
+        { id: 'b', parentId: 'a', text: 'Middle follow-up?', type: 'prompt', position: { x: 0, y: 0 } },
+        { id: 'c', parentId: 'b', text: 'Latest realist answer.', type: 'response', persona: 'realist', position: { x: 0, y: 0 } }
+      ];
+
+      const messages = buildBranchTranscript(ancestors, realist, undefined, 120);
+      const transcript = messages.map(m => m.content).join('\n');
+
+      expect(transcript).toContain('Original question?');
+      expect(transcript).toContain('Summary of the earlier discussion:');
+      expect(transcript).toContain('- Optimist: This is a long earlier point.');
+      expect(transcript).not.toContain(longText.trim());
+      expect(transcript).toContain('Latest realist answer.');
+      expect(estimateTokens(transcript)).toBeLessThanOrEqual(120);
+    });
+  });
+
+  describe('Branch generation', () => {
+    test('should send the full conversation to the provider', async () => {
+      const provider = createMockProvider();
+      const requests: LLMRequest[] = [];
+      setLLMProvider({
+        ...provider,
+        generate: async (request) => {
+          requests.push(request);
+          return provider.generate(request);
+        }
+      });
+      const { session, deepNode } = await createDeepSession();
+
+      const result = await generatePersonalityBranch(deepNode.text, 'Any risks?', [realist], await getAncestorPath(session.id, deepNode.id));
+
+      expect(result.map(r => r.persona)).toEqual(['realist']);
+      const content = requests[0].messages.map(m => m.content).join('\n');
+      expect(content).toContain('Should we launch a podcast?');
+      expect(content).toContain('How do we find sponsors?');
+      expect(content).toContain('What budget do we need?');
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, test, expect } from '@jest/globals';
+import { exportSession, buildExportTree, getExportFilename, FAILED_RESPONSE_TEXT } from '../services/exportService';
+import { createSession, addBranch, getSession, updateNodeText } from '../services/graphService';
+import type { Session, SessionExport } from '../../shared/types';
+
+const responses = [
+  { persona: 'optimist', text: 'Listeners love <honest> stories.', color: 'green' },
+  { persona: 'realist', text: 'It takes "steady"\nweekly effort.', color: 'grey' }
+];
+
+/**
+ * Builds a session with a follow-up question under the optimist response.
+ */
+const createExportSession = async (): Promise<Session> => {
+  const session = await createSession('Should we launch a podcast?', responses);
+  const optimistNode = session.nodes.find(node => node.persona === 'optimist')!;
+  await addBranch(session.id, optimistNode.id, responses, 'How do we find sponsors?');
+  return (await getSession(session.id))!;
+};
+
+describe('Forum ExportService', () => {
+  describe('Tree', () => {
+    test('should nest nodes under their parents from the root prompt', async () => {
+      const session = await createExportSession();
+
+      const root = buildExportTree(session);
+
+      expect(root.text).toBe('Should we launch a podcast?');
+      expect(root.children.map(child => child.persona)).toEqual(['optimist', 'realist']);
+      expect(root.children[0].children[0]).toMatchObject({ type: 'prompt', text: 'How do we find sponsors?' });
+      expect(root.children[0].children[0].children.map(child => child.personaLabel)).toEqual(['Optimist', 'Realist']);
+      expect(root.children[1].children).toEqual([]);
+    });
+  });
+
+  describe('Formats', () => {
+    test('should render an indented, persona-labelled Markdown outline', async () => {
+      const session = await createExportSession();
+
+      const { content, contentType } = exportSession(session, 'markdown');
+
+      expect(contentType).toContain('text/markdown');
+      expect(content.split('\n')).toEqual([
+        '# Should we launch a podcast?',
+        '',
+        '- **Optimist:** Listeners love <honest> stories.',
+        '  - **Follow-up:** How do we find sponsors?',
+        '    - **Optimist:** Listeners love <honest> stories.',
+        '    - **Realist:** It takes "steady" weekly effort.',
+        '- **Realist:** It takes "steady" weekly effort.',
+        ''
+      ]);
+    });
+
+    test('should nest escaped OPML outlines', async () => {
+      const session = await createExportSession();
+
+      const { content } = exportSession(session, 'opml');
+
+      expect(content).toContain('<title>Should we launch a podcast?</title>');
+      expect(content).toContain('<outline text="Optimist: Listeners love &lt;honest&gt; stories." _type="response" _persona="optimist">');
+      expect(content).toContain('<outline text="Follow-up: How do we find sponsors?" _type="prompt">');
+      expect(content).toContain('<outline text="Realist: It takes &quot;steady&quot; weekly effort." _type="response" _persona="realist"/>');
+    });
+
+    test('should connect parents and children in the diagram formats', async () => {
+      const session = await createExportSession();
+      const nodeCount = session.nodes.length;
+
+      const mermaid = exportSession(session, 'mermaid').content;
+      expect(mermaid.startsWith('flowchart TD\n')).toBe(true);
+      expect(mermaid).toContain('n0["Should we launch a podcast?"]');
+      expect(mermaid).toContain('n0 --> n1');
+      expect(mermaid).toContain('("Realist: It takes #quot;steady#quot; weekly effort.")');
+      expect(mermaid.match(/-->/g)).toHaveLength(nodeCount - 1);
+
+      const dot = exportSession(session, 'dot').content;
+      expect(dot).toContain('label="Realist: It takes \\"steady\\" weekly effort."');
+      expect(dot.match(/ -> /g)).toHaveLength(nodeCount - 1);
+
+      const graphml = exportSession(session, 'graphml').content;
+      expect(graphml.match(/<node /g)).toHaveLength(nodeCount);
+      expect(graphml.match(/<edge /g)).toHaveLength(nodeCount - 1);
+      expect(graphml).toContain('<data key="text">Listeners love &lt;honest&gt; stories.</data>');
+    });
+
+    test('should mark failed responses instead of exporting their fallback text', async () => {
+      const session = await createSession('Should we launch a podcast?', responses);
+      const realistNode = session.nodes.find(node => node.persona === 'realist')!;
+      await updateNodeText(session.id, realistNode.id, 'Canned realist reply.', { isFallback: true, error: 'Provider timed out' });
+      const stored = (await getSession(session.id))!;
+
+      (['markdown', 'opml', 'mermaid', 'graphml', 'dot'] as const).forEach(format => {
+        const { content } = exportSession(stored, format);
+        expect(content).toContain(FAILED_RESPONSE_TEXT);
+        expect(content).not.toContain('Canned realist reply.');
+      });
+      expect(exportSession(stored, 'markdown').content).toContain(`- **Realist:** ${FAILED_RESPONSE_TEXT}`);
+
+      const document = JSON.parse(exportSession(stored, 'json').content) as SessionExport;
+      expect(document.root.children[1]).toMatchObject({ text: 'Canned realist reply.', isFallback: true });
+    });
+
+    test('should produce a versioned JSON document', async () => {
+      const session = await createExportSession();
+
+      const document = JSON.parse(exportSession(session, 'json').content) as SessionExport;
+
+      expect(document).toMatchObject({
+        format: 'forum-session',
+        version: 1,
+        session: { id: session.id, title: 'Should we launch a podcast?', personas: session.personas }
+      });
+      expect(document.root.children[0].children[0].children).toHaveLength(2);
+    });
+  });
+
+  describe('File names', () => {
+    test('should name files after the session title', async () => {
+      const session = await createExportSession();
+
+      expect(getExportFilename(session, 'markdown')).toBe('should-we-launch-a-podcast.md');
+      expect(getExportFilename({ ...session, title: '!!!' }, 'dot')).toBe('forum-session.gv');
+    });
+  });
+});
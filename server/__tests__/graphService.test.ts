@@ -0,0 +1,318 @@
+import { describe, test, expect, afterEach, beforeEach } from '@jest/globals';
+import {
+  createSession,
+  addBranch,
+  getSession,
+  getSessionStats,
+  isSessionExpired,
+  sweepSessions,
+  listSessions,
+  renameSession,
+  deleteSession,
+  addNodeVersion,
+  setActiveNodeVersion,
+  updatePromptText,
+  deleteSubtree,
+  getStaleSubtreeLevels,
+  acknowledgePrompt,
+  restoreSubtree,
+  updateNodePositions
+} from '../services/graphService';
+import { getSessionStore, setSessionStore, resetSessionStore } from '../services/sessionStore';
+import { createMemorySessionStore } from '../services/stores/memorySessionStore';
+
+const responses = [
+  { persona: 'optimist', text: 'Great idea with lots of upside.', color: 'green' },
+  { persona: 'realist', text: 'Workable with steady effort.', color: 'grey' }
+];
+
+/**
+ * Moves a session's last access time into the past.
+ */
+const ageSession = async (sessionId: string, minutes: number) => {
+  const store = getSessionStore();
+  const session = (await store.get(sessionId))!;
+  session.lastAccessedAt = new Date(Date.now() - minutes * 60 * 1000);
+  await store.save(session);
+};
+
+describe('Forum GraphService', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    setSessionStore(createMemorySessionStore());
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    resetSessionStore();
+  });
+
+  describe('Node metadata', () => {
+    test('should stamp new nodes with their creation time', async () => {
+      const session = await createSession('Launch a podcast?', responses);
+      const { newNodes } = await addBranch(session.id, session.nodes[1].id, responses, 'And then?');
+
+      [...session.nodes, ...newNodes].forEach(node => {
+        expect(Date.parse(node.createdAt!)).not.toBeNaN();
+      });
+      expect(session.nodes[0].createdAt).toBe(session.createdAt.toISOString());
+    });
+  });
+
+  describe('Response versions', () => {
+    test('should keep earlier texts when a response is regenerated', async () => {
+      const session = await createSession('Launch a podcast?', responses);
+      const nodeId = session.nodes[1].id;
+
+      const node = await addNodeVersion(session.id, nodeId, { persona: 'optimist', text: 'An even better idea.', color: 'green', model: 'mock-1' });
+
+      expect(node.versions!.map(version => version.text)).toEqual(['Great idea with lots of upside.', 'An even better idea.']);
+      expect(node.versions![1].model).toBe('mock-1');
+      expect(node).toMatchObject({ text: 'An even better idea.', activeVersion: 1, model: 'mock-1' });
+    });
+
+    test('should switch the active version and reject unknown ones', async () => {
+      const session = await createSession('Launch a podcast?', responses);
+      const nodeId = session.nodes[1].id;
+      await addNodeVersion(session.id, nodeId, { persona: 'optimist', text: 'Failed.', color: 'green', isFallback: true, error: 'down' });
+
+      const node = await setActiveNodeVersion(session.id, nodeId, 0);
+
+      expect(node).toMatchObject({ text: 'Great idea with lots of upside.', activeVersion: 0 });
+      expect(node.isFallback).toBeUndefined();
+      expect((await getSession(session.id))!.nodes[1].text).toBe('Great idea with lots of upside.');
+      await expect(setActiveNodeVersion(session.id, nodeId, 5)).rejects.toThrow('Version not found');
+    });
+  });
+
+  describe('Editing and pruning', () => {
+    test('should edit prompt text but not responses', async () => {
+      const session = await createSession('Launch a podcast?', responses);
+
+      expect((await updatePromptText(session.id, session.nodes[0].id, 'Launch a newsletter?')).text).toBe('Launch a newsletter?');
+      await expect(updatePromptText(session.id, session.nodes[1].id, 'Nope')).rejects.toThrow('Only prompt nodes can be edited');
+    });
+
+    test('should delete a node with its subtree and the edges touching it', async () => {
+      const session = await createSession('Launch a podcast?', responses);
+      const [, optimist, realist] = session.nodes;
+      const { newNodes } = await addBranch(session.id, optimist.id, responses, 'And then?');
+      const { newNodes: grandchildren } = await addBranch(session.id, newNodes[1].id, responses);
+
+      const { deletedNodeIds, deletedEdgeIds } = await deleteSubtree(session.id, optimist.id);
+
+      expect(new Set(deletedNodeIds)).toEqual(new Set([optimist, ...newNodes, ...grandchildren].map(node => node.id)));
+      expect(deletedEdgeIds).toHaveLength(deletedNodeIds.length);
+
+      const stored = (await getSession(session.id))!;
+      expect(stored.nodes.map(node => node.id)).toEqual([session.nodes[0].id, realist.id]);
+      expect(stored.edges).toEqual([expect.objectContaining({ source: session.nodes[0].id, target: realist.id })]);
+      await expect(deleteSubtree(session.id, session.nodes[0].id)).rejects.toThrow('The root prompt cannot be deleted');
+    });
+  });
+
+  describe('Restoring deleted subtrees', () => {
+    test('should put a deleted subtree back exactly once', async () => {
+      const session = await createSession('Launch a podcast?', responses);
+      const optimist = session.nodes[1];
+      await addBranch(session.id, optimist.id, responses, 'And then?');
+      const before = (await getSession(session.id))!;
+
+      await deleteSubtree(session.id, optimist.id);
+      const { nodes, edges } = await restoreSubtree(session.id, optimist.id);
+
+      const after = (await getSession(session.id))!;
+      expect(nodes).toHaveLength(4);
+      expect(edges).toHaveLength(4);
+      expect(new Set(after.nodes.map(node => node.id))).toEqual(new Set(before.nodes.map(node => node.id)));
+      expect(after.edges).toHaveLength(before.edges.length);
+      await expect(restoreSubtree(session.id, optimist.id)).rejects.toThrow('Deleted subtree not found');
+    });
+
+    test('should refuse to restore under a parent that is gone', async () => {
+      const session = await createSession('Launch a podcast?', responses);
+      const optimist = session.nodes[1];
+      const { newNodes: [answer] } = await addBranch(session.id, optimist.id, responses);
+
+      await deleteSubtree(session.id, answer.id);
+      await deleteSubtree(session.id, optimist.id);
+
+      await expect(restoreSubtree(session.id, answer.id)).rejects.toThrow('Parent node not found');
+    });
+  });
+
+  describe('Node positions', () => {
+    test('should save positions, keep the pin state unless given and skip deleted nodes', async () => {
+      const session = await createSession('Launch a podcast?', responses);
+      const [root, optimist, realist] = session.nodes;
+      await deleteSubtree(session.id, realist.id);
+
+      const updated = await updateNodePositions(session.id, [
+        { nodeId: root.id, x: 10, y: -20, pinned: true },
+        { nodeId: optimist.id, x: 300, y: 120 },
+        { nodeId: realist.id, x: 5, y: 5 }
+      ]);
+      expect(updated.map(node => node.id)).toEqual([root.id, optimist.id]);
+
+      await updateNodePositions(session.id, [{ nodeId: root.id, x: 15, y: -25 }]);
+      let stored = (await getSession(session.id))!;
+      expect(stored.nodes[0]).toMatchObject({ position: { x: 15, y: -25 }, pinned: true });
+      expect(stored.nodes[1].position).toEqual({ x: 300, y: 120 });
+      expect(stored.nodes[1].pinned).toBeUndefined();
+
+      await updateNodePositions(session.id, [{ nodeId: root.id, x: 15, y: -25, pinned: false }]);
+      stored = (await getSession(session.id))!;
+      expect(stored.nodes[0].pinned).toBeUndefined();
+    });
+  });
+
+  describe('Stale tracking', () => {
+    test('should flag descendants stale when an ancestor changes', async () => {
+      const session = await createSession('Launch a podcast?', responses);
+      const [root, optimist, realist] = session.nodes;
+      const { newNodes } = await addBranch(session.id, optimist.id, responses, 'And then?');
+
+      await updatePromptText(session.id, root.id, 'Launch a newsletter?');
+
+      const stored = (await getSession(session.id))!;
+      expect(stored.nodes.filter(node => node.stale).map(node => node.id))
+        .toEqual([optimist, realist, ...newNodes].map(node => node.id));
+      expect(stored.nodes[0].stale).toBeUndefined();
+    });
+
+    test('should clear stale flags when an edit is reverted', async () => {
+      const session = await createSession('Launch a podcast?', responses);
+      const [, optimist] = session.nodes;
+      const { newNodes: [followUp] } = await addBranch(session.id, optimist.id, responses, 'And then?');
+      await addBranch(session.id, followUp.id, responses, 'What about costs?');
+
+      await updatePromptText(session.id, followUp.id, 'And after that?');
+      expect((await getSession(session.id))!.nodes.filter(node => node.stale)).toHaveLength(5);
+
+      await updatePromptText(session.id, followUp.id, 'And then?');
+      expect((await getSession(session.id))!.nodes.filter(node => node.stale)).toEqual([]);
+    });
+
+    test('should group stale nodes top-down and clear them as they are regenerated', async () => {
+      const session = await createSession('Launch a podcast?', responses);
+      const [root, optimist] = session.nodes;
+      const { newNodes: [followUp, ...answers] } = await addBranch(session.id, optimist.id, responses, 'And then?');
+      await addNodeVersion(session.id, optimist.id, { persona: 'optimist', text: 'A different take.', color: 'green' });
+
+      const levels = await getStaleSubtreeLevels(session.id, root.id);
+      expect(levels.map(level => level.map(node => node.id))).toEqual([[followUp.id], answers.map(node => node.id)]);
+
+      await acknowledgePrompt(session.id, followUp.id);
+      await addNodeVersion(session.id, answers[0].id, { persona: 'optimist', text: 'Fresh answer.', color: 'green' });
+
+      const stored = (await getSession(session.id))!;
+      expect(stored.nodes.filter(node => node.stale).map(node => node.id)).toEqual([answers[1].id]);
+    });
+  });
+
+  describe('Session history', () => {
+    test('should page sessions newest first with generated titles', async () => {
+      const first = await createSession('Launch a podcast?', responses);
+      const second = await createSession('Open a bakery   with a\n very long name that keeps going and going past the limit?', responses);
+      first.createdAt = new Date(Date.now() - 60 * 1000);
+      await getSessionStore().save(first);
+
+      const page = await listSessions({ page: 1, pageSize: 1 });
+
+      expect(page.total).toBe(2);
+      expect(page.sessions.map(session => session.id)).toEqual([second.id]);
+      expect(page.sessions[0].title).toBe('Open a bakery with a very long name that keeps going and go…');
+      expect(page.sessions[0].title.length).toBeLessThanOrEqual(60);
+      expect((await listSessions({ page: 1, pageSize: 5, order: 'asc' })).sessions.map(session => session.title))
+        .toEqual(['Launch a podcast?', page.sessions[0].title]);
+      expect((await listSessions({ page: 3, pageSize: 1 })).sessions).toEqual([]);
+    });
+
+    test('should rename sessions and restore the generated title', async () => {
+      const session = await createSession('Launch a podcast?', responses);
+
+      expect(await renameSession(session.id, '  Podcast plan ')).toMatchObject({ title: 'Podcast plan', hasCustomTitle: true });
+      expect((await listSessions()).sessions[0].title).toBe('Podcast plan');
+      expect(await renameSession(session.id, '')).toMatchObject({ title: 'Launch a podcast?', hasCustomTitle: false });
+    });
+
+    test('should delete sessions without reporting them as expired', async () => {
+      const session = await createSession('Launch a podcast?', responses);
+
+      expect(await deleteSession(session.id)).toBe(true);
+      expect(await deleteSession(session.id)).toBe(false);
+      expect(await getSession(session.id)).toBeUndefined();
+      expect(isSessionExpired(session.id)).toBe(false);
+    });
+  });
+
+  describe('Node limits', () => {
+    test('should reject branches that exceed the per-session node limit', async () => {
+      process.env.SESSION_MAX_NODES = '5';
+      const session = await createSession('Launch a podcast?', responses);
+
+      await addBranch(session.id, session.nodes[1].id, responses);
+
+      await expect(addBranch(session.id, session.nodes[1].id, responses)).rejects.toThrow('Session is full');
+      expect((await getSession(session.id))!.nodes).toHaveLength(5);
+    });
+
+    test('should count the follow-up prompt node', async () => {
+      process.env.SESSION_MAX_NODES = '5';
+      const session = await createSession('Launch a podcast?', responses);
+
+      await expect(addBranch(session.id, session.nodes[1].id, responses, 'And then?')).rejects.toThrow('Session is full');
+    });
+  });
+
+  describe('Idle expiry', () => {
+    test('should expire idle sessions on access and remember them', async () => {
+      process.env.SESSION_IDLE_TTL_MINUTES = '30';
+      const session = await createSession('Launch a podcast?', responses);
+      await ageSession(session.id, 31);
+
+      expect(await getSession(session.id)).toBeUndefined();
+      expect(isSessionExpired(session.id)).toBe(true);
+      expect(isSessionExpired('never-existed')).toBe(false);
+    });
+
+    test('should refresh the access time when a session is read', async () => {
+      process.env.SESSION_IDLE_TTL_MINUTES = '30';
+      const session = await createSession('Launch a podcast?', responses);
+      await ageSession(session.id, 20);
+
+      const loaded = await getSession(session.id);
+
+      expect(Date.now() - loaded!.lastAccessedAt.getTime()).toBeLessThan(1000);
+    });
+
+    test('should remove idle sessions in a sweep', async () => {
+      process.env.SESSION_IDLE_TTL_MINUTES = '30';
+      const idle = await createSession('Old idea', responses);
+      const active = await createSession('New idea', responses);
+      await ageSession(idle.id, 45);
+
+      expect(await sweepSessions()).toEqual({ expired: 1, evicted: 0 });
+      expect(isSessionExpired(idle.id)).toBe(true);
+      expect(await getSession(active.id)).toBeDefined();
+    });
+  });
+
+  describe('Session cap', () => {
+    test('should evict the least recently used sessions above the cap', async () => {
+      process.env.SESSION_MAX_SESSIONS = '2';
+      const first = await createSession('First', responses);
+      const second = await createSession('Second', responses);
+      await ageSession(second.id, 10);
+      await ageSession(first.id, 5);
+
+      const third = await createSession('Third', responses);
+
+      expect(isSessionExpired(second.id)).toBe(true);
+      expect(await getSession(first.id)).toBeDefined();
+      expect(await getSession(third.id)).toBeDefined();
+      expect((await getSessionStats()).totalSessions).toBe(2);
+    });
+  });
+});
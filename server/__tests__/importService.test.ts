@@ -0,0 +1,186 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  parseImport,
+  detectImportFormat,
+  getImportedPersonas,
+  countImportedNodes,
+  isInvalidImportError
+} from '../services/importService';
+import { exportSession, buildExportTree, FAILED_RESPONSE_TEXT } from '../services/exportService';
+import { createSession, addBranch, getSession, importSession, getStaleNodeIds, updateNodeText } from '../services/graphService';
+import type { ExportedNode, SessionImportNode } from '../../shared/types';
+
+const responses = [
+  { persona: 'optimist', text: 'Listeners love <honest> stories.', color: 'green' },
+  { persona: 'realist', text: 'It takes "steady" weekly effort.', color: 'grey' }
+];
+
+/**
+ * Reduces a tree to the fields every format preserves.
+ */
+const shape = (node: SessionImportNode | ExportedNode): unknown => ({
+  type: node.type,
+  text: node.text,
+  persona: node.persona,
+  children: node.children.map(shape)
+});
+
+/**
+ * Captures the error thrown by an import.
+ */
+const importError = (content: string): Error => {
+  try {
+    parseImport(content);
+  } catch (error) {
+    return error as Error;
+  }
+  throw new Error('Expected the import to fail');
+};
+
+describe('Forum ImportService', () => {
+  describe('Markdown outlines', () => {
+    test('should infer prompts and responses from labels and nest by indentation', () => {
+      const root = parseImport([
+        '# Launch a podcast',
+        '',
+        '- **Optimist:** Sponsors will follow',
+        '  - Follow-up: Which sponsors?',
+        '    * Realist: Start with local shops',
+        '      that already advertise.',
+        '- Record a pilot episode'
+      ].join('\n'));
+
+      expect(shape(root)).toEqual({
+        type: 'prompt',
+        text: 'Launch a podcast',
+        persona: undefined,
+        children: [
+          {
+            type: 'response',
+            text: 'Sponsors will follow',
+            persona: 'optimist',
+            children: [{
+              type: 'prompt',
+              text: 'Which sponsors?',
+              persona: undefined,
+              children: [{ type: 'response', text: 'Start with local shops that already advertise.', persona: 'realist', children: [] }]
+            }]
+          },
+          { type: 'prompt', text: 'Record a pilot episode', persona: undefined, children: [] }
+        ]
+      });
+      expect(root.children[0].color).toBe('green');
+    });
+
+    test('should nest later headings by level and use a single top-level item as the root', () => {
+      const withSections = parseImport('# Plan\n## Marketing\n- Social clips\n## Budget\n- 1. Microphones');
+      expect(withSections.children.map(child => child.text)).toEqual(['Marketing', 'Budget']);
+      expect(withSections.children[0].children[0].text).toBe('Social clips');
+
+      const withoutHeading = parseImport('- Launch a podcast\n  - Optimist: Sponsors will follow');
+      expect(withoutHeading.text).toBe('Launch a podcast');
+      expect(withoutHeading.children[0].persona).toBe('optimist');
+    });
+
+    test('should reject outlines without an unambiguous root', () => {
+      const error = importError('- First idea\n- Second idea');
+
+      expect(isInvalidImportError(error)).toBe(true);
+      expect(error.message).toContain('single top-level item');
+      expect(isInvalidImportError(importError('   \n'))).toBe(true);
+    });
+  });
+
+  describe('OPML', () => {
+    test('should use the head title as the root for several top-level outlines', () => {
+      const root = parseImport([
+        '<?xml version="1.0"?>',
+        '<opml version="2.0"><head><title>Launch &amp; grow</title></head><body>',
+        '<outline text="Pessimist: Too &lt;crowded&gt;"/>',
+        '<outline text="Ideas"><outline text=""><outline text="Interview guests"/></outline></outline>',
+        '</body></opml>'
+      ].join('\n'));
+
+      expect(shape(root)).toEqual({
+        type: 'prompt',
+        text: 'Launch & grow',
+        persona: undefined,
+        children: [
+          { type: 'response', text: 'Too <crowded>', persona: 'pessimist', children: [] },
+          {
+            type: 'prompt',
+            text: 'Ideas',
+            persona: undefined,
+            children: [{ type: 'prompt', text: 'Interview guests', persona: undefined, children: [] }]
+          }
+        ]
+      });
+    });
+
+    test('should reject unbalanced outlines', () => {
+      const error = importError('<opml><body><outline text="Open"></body></opml>');
+
+      expect(isInvalidImportError(error)).toBe(true);
+    });
+  });
+
+  describe('Round trips', () => {
+    test('should read the Markdown, OPML and JSON exports back into the same tree', async () => {
+      const session = await createSession('Should we launch a podcast?', responses);
+      const optimistNode = session.nodes.find(node => node.persona === 'optimist')!;
+      await addBranch(session.id, optimistNode.id, responses, 'How do we find sponsors?');
+      const stored = (await getSession(session.id))!;
+      const expected = shape(buildExportTree(stored));
+
+      for (const format of ['markdown', 'opml', 'json'] as const) {
+        const { content } = exportSession(stored, format);
+        expect(detectImportFormat(content)).toBe(format);
+        expect(shape(parseImport(content))).toEqual(expected);
+      }
+    });
+
+    test('should keep failed responses marked as failed', async () => {
+      const session = await createSession('Should we launch a podcast?', responses);
+      const realistNode = session.nodes.find(node => node.persona === 'realist')!;
+      await updateNodeText(session.id, realistNode.id, 'Canned realist reply.', { isFallback: true, error: 'Provider timed out' });
+      const stored = (await getSession(session.id))!;
+
+      const fromJson = parseImport(exportSession(stored, 'json').content);
+      expect(fromJson.children[1]).toMatchObject({ text: 'Canned realist reply.', isFallback: true, error: 'Provider timed out' });
+      expect(fromJson.children[0].isFallback).toBeUndefined();
+
+      const imported = await importSession(fromJson, getImportedPersonas(fromJson));
+      expect(imported.nodes[2]).toMatchObject({ persona: 'realist', isFallback: true, error: 'Provider timed out' });
+      expect(imported.nodes[1].isFallback).toBeUndefined();
+
+      const fromMarkdown = parseImport(exportSession(stored, 'markdown').content);
+      expect(fromMarkdown.children[1]).toMatchObject({ text: FAILED_RESPONSE_TEXT, isFallback: true });
+    });
+
+    test('should reject JSON that is not a supported Forum export', () => {
+      expect(importError('{"format":"forum-session","version":2}').message).toBe('Unsupported export version 2');
+      expect(importError('{"nodes":[]}').message).toBe('The document is not a Forum session export');
+      expect(importError('{oops').message).toBe('The document is not valid JSON');
+    });
+  });
+
+  describe('Session creation', () => {
+    test('should create a session whose imported nodes are connected and not stale', async () => {
+      const root = parseImport('# Launch a podcast\n- Optimist: Sponsors will follow\n  - Follow-up: Which ones?');
+
+      const session = await importSession(root, getImportedPersonas(root));
+
+      expect(session.nodes).toHaveLength(countImportedNodes(root));
+      expect(session.edges).toHaveLength(2);
+      expect(session.personas).toEqual(['optimist']);
+      expect(session.nodes[1]).toMatchObject({ type: 'response', persona: 'optimist', color: 'green', parentId: session.nodes[0].id });
+      expect(await getStaleNodeIds(session.id)).toEqual([]);
+    });
+
+    test('should fall back to the built-in personas when no responses are imported', () => {
+      const root = parseImport('- Launch a podcast\n  - Record a pilot');
+
+      expect(getImportedPersonas(root)).toEqual(['optimist', 'pessimist', 'realist']);
+    });
+  });
+});
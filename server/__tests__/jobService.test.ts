@@ -0,0 +1,145 @@
+import { describe, test, expect, afterEach, beforeEach } from '@jest/globals';
+import { createSession, addBranch, deleteSubtree, getSession } from '../services/graphService';
+import { createJob, runJob, getJob, listSessionJobs, cancelJob, clearJobs } from '../services/jobService';
+import type { JobListener } from '../services/jobService';
+import { setSessionStore, resetSessionStore } from '../services/sessionStore';
+import { createMemorySessionStore } from '../services/stores/memorySessionStore';
+
+const placeholders = [
+  { persona: 'optimist', text: '', color: 'green' },
+  { persona: 'realist', text: '', color: 'grey' }
+];
+
+/**
+ * Waits until a condition holds, giving pending saves a chance to finish.
+ */
+const waitFor = async (condition: () => boolean | Promise<boolean>) => {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    if (await condition()) return;
+    await new Promise(resolve => setImmediate(resolve));
+  }
+  throw new Error('Condition not met');
+};
+
+describe('Forum JobService', () => {
+  beforeEach(() => {
+    setSessionStore(createMemorySessionStore());
+  });
+
+  afterEach(() => {
+    clearJobs();
+    resetSessionStore();
+  });
+
+  test('should commit each response to the session as soon as its persona finishes', async () => {
+    const session = await createSession('Launch a podcast?', placeholders);
+    const [, optimist, realist] = session.nodes;
+    const job = createJob({ kind: 'brainstorm', sessionId: session.id, nodes: session.nodes });
+    expect(job.personas.map(progress => [progress.nodeId, progress.status])).toEqual([
+      [optimist.id, 'pending'],
+      [realist.id, 'pending']
+    ]);
+
+    const events: string[] = [];
+    const listener: JobListener = {
+      onDelta: (nodeId, delta) => events.push(`delta ${nodeId} ${delta}`),
+      onDone: (node) => events.push(`done ${node.id}`)
+    };
+
+    const finished = await runJob(job.id, async (handlers) => {
+      handlers.onDelta('optimist', 'Great ');
+      handlers.onDelta('realist', 'Maybe');
+      handlers.onDelta('optimist', 'idea.');
+      handlers.onDone({ persona: 'optimist', text: 'Great idea.', color: 'green' });
+
+      // The optimist is saved while the realist is still generating
+      await waitFor(() => getJob(job.id)!.personas[0].status === 'done');
+      const stored = (await getSession(session.id))!;
+      expect(stored.nodes[1].text).toBe('Great idea.');
+      expect(stored.nodes[2].text).toBe('');
+      expect(getJob(job.id)).toMatchObject({
+        status: 'running',
+        personas: [{ status: 'done' }, { status: 'generating', text: 'Maybe' }]
+      });
+      expect(listSessionJobs(session.id).map(candidate => candidate.id)).toEqual([job.id]);
+
+      handlers.onDone({ persona: 'realist', text: 'Maybe, with effort.', color: 'grey' });
+    }, listener);
+
+    expect(finished.status).toBe('completed');
+    expect(finished.completedAt).toBeDefined();
+    expect(finished.personas.map(progress => progress.node?.text)).toEqual(['Great idea.', 'Maybe, with effort.']);
+    expect(events).toEqual([
+      `delta ${optimist.id} Great `,
+      `delta ${realist.id} Maybe`,
+      `delta ${optimist.id} idea.`,
+      `done ${optimist.id}`,
+      `done ${realist.id}`
+    ]);
+    expect((await getSession(session.id))!.nodes[2].text).toBe('Maybe, with effort.');
+  });
+
+  test('should fail personas that cannot be saved or never finish', async () => {
+    const session = await createSession('Launch a podcast?', placeholders);
+    const [, optimist, realist] = session.nodes;
+    const job = createJob({ kind: 'brainstorm', sessionId: session.id, nodes: session.nodes });
+    await deleteSubtree(session.id, realist.id);
+
+    const errors: string[] = [];
+    const finished = await runJob(job.id, async (handlers) => {
+      handlers.onDone({ persona: 'realist', text: 'Too late.', color: 'grey' });
+      handlers.onDelta('optimist', 'Half an ans');
+      throw new Error('Provider crashed');
+    }, { onError: (nodeId, message) => errors.push(`${nodeId} ${message}`) });
+
+    expect(finished).toMatchObject({
+      status: 'failed',
+      error: 'Generation failed',
+      personas: [
+        { nodeId: optimist.id, status: 'failed', text: 'Half an ans', error: 'Generation failed' },
+        { nodeId: realist.id, status: 'failed', error: 'Failed to save response' }
+      ]
+    });
+    expect(errors).toEqual([`${realist.id} Failed to save response`, `${optimist.id} Generation failed`]);
+    await expect(runJob(job.id, async () => undefined)).rejects.toThrow('Job not found');
+  });
+
+  test('should stop generating and delete the branch when cancelled', async () => {
+    const session = await createSession('Launch a podcast?', placeholders);
+    const [, optimist] = session.nodes;
+    const { newNodes: [followUp, ...answers] } = await addBranch(session.id, optimist.id, placeholders, 'And then?');
+    const job = createJob({ kind: 'branch', sessionId: session.id, parentNodeId: optimist.id, nodes: [followUp, ...answers] });
+
+    const deltas: string[] = [];
+    const finished = runJob(job.id, async (handlers) => {
+      handlers.onDelta('optimist', 'Half');
+      await waitFor(() => !!handlers.signal?.aborted);
+      handlers.onDelta('optimist', ' more');
+      handlers.onDone({ persona: 'optimist', text: 'Half more.', color: 'green' });
+    }, { onDelta: (nodeId, delta) => deltas.push(delta) });
+
+    await waitFor(() => getJob(job.id)!.personas[0].status === 'generating');
+    const { job: cancelled, deletedNodeIds } = await cancelJob(job.id);
+
+    expect(cancelled).toMatchObject({
+      status: 'cancelled',
+      personas: [{ status: 'failed', error: 'Generation was cancelled' }, { status: 'failed' }]
+    });
+    expect(deletedNodeIds).toEqual([followUp, ...answers].map(node => node.id));
+    expect(await finished).toMatchObject({ status: 'cancelled' });
+    expect(deltas).toEqual(['Half']);
+    expect((await getSession(session.id))!.nodes).toHaveLength(3);
+    await expect(cancelJob(job.id)).rejects.toThrow('Job not running');
+  });
+
+  test('should only list jobs of the given session', async () => {
+    const first = await createSession('Launch a podcast?', placeholders);
+    const second = await createSession('Open a bakery?', placeholders);
+    const job = createJob({ kind: 'brainstorm', sessionId: first.id, nodes: first.nodes });
+
+    expect(listSessionJobs(first.id).map(candidate => candidate.id)).toEqual([job.id]);
+    expect(listSessionJobs(second.id)).toEqual([]);
+    expect(getJob('missing')).toBeUndefined();
+    expect(() => createJob({ kind: 'branch', sessionId: first.id, nodes: [first.nodes[0]] })).toThrow('Job has no response nodes');
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, test, expect, afterEach } from '@jest/globals';
+import { getLLMProvider, setLLMProvider, resetLLMProvider } from '../services/llmProvider';
+import { createMockProvider } from '../services/providers/mockProvider';
+import { createOpenAICompatibleProvider } from '../services/providers/openAICompatibleProvider';
+import { generatePersonalityResponses, streamPersonalityResponses } from '../services/personalityService';
+
+const collect = async (chunks: AsyncIterable<string>): Promise<string> => {
+  let text = '';
+  for await (const chunk of chunks) {
+    text += chunk;
+  }
+  return text;
+};
+
+describe('LLM provider layer', () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    resetLLMProvider();
+    jest.restoreAllMocks();
+  });
+
+  describe('Provider selection', () => {
+    test('should select the mock provider from LLM_PROVIDER', () => {
+      process.env.LLM_PROVIDER = 'mock';
+      process.env.LLM_MODEL = 'mock-test';
+
+      const provider = getLLMProvider();
+
+      expect(provider?.name).toBe('mock');
+      expect(provider?.getModelInfo()).toEqual({ provider: 'mock', model: 'mock-test' });
+    });
+
+    test('should return null for gemini without an API key', () => {
+      process.env.LLM_PROVIDER = 'gemini';
+      delete process.env.GEMINI_API_KEY;
+
+      expect(getLLMProvider()).toBeNull();
+    });
+
+    test('should report the configured OpenAI-compatible endpoint', () => {
+      process.env.LLM_PROVIDER = 'openai';
+      process.env.OPENAI_BASE_URL = 'http://localhost:8080/v1';
+
+      expect(getLLMProvider()?.getModelInfo()).toEqual({
+        provider: 'openai',
+        model: 'llama3.1',
+        baseUrl: 'http://localhost:8080/v1'
+      });
+    });
+  });
+
+  describe('Mock provider', () => {
+    const request = {
+      systemPrompt: 'You are a test persona. Extra detail.',
+      messages: [{ role: 'user' as const, content: 'Should we build it?' }]
+    };
+
+    test('should be deterministic', async () => {
+      const provider = createMockProvider();
+
+      const first = await provider.generate(request);
+      const second = await provider.generate(request);
+
+      expect(first).toEqual(second);
+      expect(first.text).toContain('Should we build it?');
+      expect(first.text).toContain('You are a test persona.');
+    });
+
+    test('should stream the same text it generates', async () => {
+      const provider = createMockProvider();
+
+      const streamed = await collect(provider.stream(request));
+      const { text } = await provider.generate(request);
+
+      expect(streamed).toBe(text);
+    });
+  });
+
+  describe('OpenAI-compatible provider', () => {
+    test('should send chat completion requests with the system prompt first', async () => {
+      const fetchMock = jest.spyOn(globalThis, 'fetch').mockResolvedValue(
+        new Response(JSON.stringify({
+          model: 'llama3.1',
+          choices: [{ message: { content: 'Local answer' } }]
+        }))
+      );
+      const provider = createOpenAICompatibleProvider({ baseUrl: 'http://localhost:11434/v1/', model: 'llama3.1' });
+
+      const result = await provider.generate({
+        systemPrompt: 'Be brief.',
+        messages: [{ role: 'user', content: 'Hello' }]
+      });
+
+      expect(result).toEqual({ text: 'Local answer', model: 'llama3.1' });
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('http://localhost:11434/v1/chat/completions');
+      expect(JSON.parse(init!.body as string).messages).toEqual([
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'Hello' }
+      ]);
+    });
+
+    test('should parse streamed SSE deltas', async () => {
+      const body = [
+        'data: {"choices":[{"delta":{"content":"Hel"}}]}',
+        'data: {"choices":[{"delta":{"content":"lo"}}]}',
+        'data: [DONE]',
+        ''
+      ].join('\n\n');
+      jest.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(body));
+      const provider = createOpenAICompatibleProvider({ baseUrl: 'http://localhost:11434/v1', model: 'llama3.1' });
+
+      const streamed = await collect(provider.stream({ messages: [{ role: 'user', content: 'Hi' }] }));
+
+      expect(streamed).toBe('Hello');
+    });
+  });
+
+  describe('Personality generation through a provider', () => {
+    test('should use the active provider for every persona', async () => {
+      setLLMProvider(createMockProvider());
+
+      const responses = await generatePersonalityResponses('Launch a podcast');
+
+      expect(responses.map(r => r.persona)).toEqual(['optimist', 'pessimist', 'realist']);
+      responses.forEach(response => {
+        expect(response.text).toContain('Mock response');
+        expect(response.text).toContain('Launch a podcast');
+      });
+    });
+
+    test('should stream deltas that add up to each final response', async () => {
+      setLLMProvider(createMockProvider());
+      const streamed: Record<string, string> = {};
+      const done: string[] = [];
+
+      const responses = await streamPersonalityResponses('Launch a podcast', {
+        onDelta: (persona, delta) => { streamed[persona] = (streamed[persona] || '') + delta; },
+        onDone: (response) => { done.push(response.persona); }
+      });
+
+      expect(responses.map(r => r.persona)).toEqual(['optimist', 'pessimist', 'realist']);
+      expect(done.sort()).toEqual(['optimist', 'pessimist', 'realist']);
+      responses.forEach(response => {
+        expect(streamed[response.persona]).toBe(response.text);
+      });
+    });
+
+    test('should deliver fallback responses when no provider is available', async () => {
+      setLLMProvider(null);
+      const onDelta = jest.fn();
+
+      const responses = await streamPersonalityResponses('Launch a podcast', { onDelta, onDone: () => {} });
+
+      expect(onDelta).not.toHaveBeenCalled();
+      expect(responses).toHaveLength(3);
+      responses.forEach(response => expect(response.text.length).toBeGreaterThan(10));
+    });
+  });
+});
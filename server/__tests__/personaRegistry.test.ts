@@ -0,0 +1,99 @@
+import { describe, test, expect, afterEach } from '@jest/globals';
+import {
+  listPersonas,
+  getPersona,
+  resolvePersonas,
+  createPersona,
+  updatePersona,
+  deletePersona
+} from '../services/personaRegistry';
+import { generatePersonalityResponses } from '../services/personalityService';
+
+describe('Forum PersonaRegistry', () => {
+  afterEach(() => {
+    listPersonas()
+      .filter(persona => !persona.builtIn)
+      .forEach(persona => deletePersona(persona.name));
+  });
+
+  describe('Built-in personas', () => {
+    test('should be seeded with the three built-in personalities', () => {
+      expect(listPersonas().map(p => p.name)).toEqual(['optimist', 'pessimist', 'realist']);
+      expect(listPersonas().every(p => p.builtIn)).toBe(true);
+    });
+
+    test('should not allow deleting a built-in persona', () => {
+      expect(() => deletePersona('optimist')).toThrow('Built-in personas cannot be deleted');
+      expect(getPersona('optimist')).toBeDefined();
+    });
+  });
+
+  describe('Custom personas', () => {
+    test('should create a persona with defaults for optional fields', () => {
+      const persona = createPersona({
+        name: 'domain-expert',
+        systemPrompt: 'You are a seasoned domain expert.'
+      });
+
+      expect(persona).toEqual({
+        name: 'domain-expert',
+        label: 'domain-expert',
+        systemPrompt: 'You are a seasoned domain expert.',
+        color: 'blue',
+        temperature: 0.7,
+        model: undefined,
+        builtIn: false
+      });
+      expect(listPersonas().map(p => p.name)).toContain('domain-expert');
+    });
+
+    test('should reject duplicate names', () => {
+      createPersona({ name: 'customer', systemPrompt: 'You are a demanding customer.' });
+
+      expect(() => createPersona({ name: 'customer', systemPrompt: 'Another customer.' })).toThrow('Persona already exists');
+    });
+
+    test('should update fields without changing the name or built-in flag', () => {
+      createPersona({ name: 'customer', systemPrompt: 'You are a demanding customer.' });
+
+      const updated = updatePersona('customer', { label: 'Customer', temperature: 1.1, color: undefined });
+
+      expect(updated.name).toBe('customer');
+      expect(updated.label).toBe('Customer');
+      expect(updated.temperature).toBe(1.1);
+      expect(updated.color).toBe('blue');
+      expect(updated.builtIn).toBe(false);
+    });
+
+    test('should delete custom personas', () => {
+      createPersona({ name: 'customer', systemPrompt: 'You are a demanding customer.' });
+
+      deletePersona('customer');
+
+      expect(getPersona('customer')).toBeUndefined();
+    });
+  });
+
+  describe('Persona resolution', () => {
+    test('should default to the built-in personas', () => {
+      expect(resolvePersonas().map(p => p.name)).toEqual(['optimist', 'pessimist', 'realist']);
+      expect(resolvePersonas([]).map(p => p.name)).toEqual(['optimist', 'pessimist', 'realist']);
+    });
+
+    test('should keep the requested order and skip unknown names', () => {
+      createPersona({ name: 'customer', systemPrompt: 'You are a demanding customer.' });
+
+      expect(resolvePersonas(['customer', 'missing', 'realist']).map(p => p.name)).toEqual(['customer', 'realist']);
+    });
+
+    test('should generate one response per selected persona', async () => {
+      createPersona({ name: 'customer', systemPrompt: 'You are a demanding customer.', color: '#8b5cf6' });
+
+      const responses = await generatePersonalityResponses('New pricing page', resolvePersonas(['customer', 'realist']));
+
+      expect(responses.map(r => r.persona)).toEqual(['customer', 'realist']);
+      expect(responses[0].color).toBe('#8b5cf6');
+      expect(responses[0].text.length).toBeGreaterThan(10);
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, test, expect, afterEach, beforeEach } from '@jest/globals';
+import {
+  withRetry,
+  getBackoffDelay,
+  createCircuitBreaker,
+  isCircuitOpenError,
+  getLLMCircuitBreaker,
+  resetLLMCircuitBreaker
+} from '../services/resilience';
+import { generatePersonalityResponses, streamPersonalityResponses } from '../services/personalityService';
+import { setLLMProvider, resetLLMProvider } from '../services/llmProvider';
+import { createMockProvider } from '../services/providers/mockProvider';
+import type { LLMProvider } from '../services/llmProvider';
+
+const noDelay = { retries: 2, baseDelayMs: 0, maxDelayMs: 0 };
+
+/**
+ * Mock provider whose calls fail a given number of times before succeeding.
+ */
+const createFlakyProvider = (failures: number): LLMProvider & { calls: number } => {
+  const mock = createMockProvider();
+  const flaky = {
+    ...mock,
+    calls: 0,
+    generate: async (request: Parameters<LLMProvider['generate']>[0]) => {
+      flaky.calls++;
+      if (flaky.calls <= failures) throw new Error('503 Service Unavailable');
+      return mock.generate(request);
+    },
+    stream: async function* (request: Parameters<LLMProvider['stream']>[0]) {
+      flaky.calls++;
+      if (flaky.calls <= failures) throw new Error('503 Service Unavailable');
+      yield* mock.stream(request);
+    }
+  };
+  return flaky;
+};
+
+describe('Forum Resilience', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    process.env.LLM_RETRY_BASE_DELAY_MS = '0';
+    process.env.LLM_RETRY_MAX_DELAY_MS = '0';
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    resetLLMCircuitBreaker();
+    resetLLMProvider();
+  });
+
+  describe('Retry with backoff', () => {
+    test('should retry failures until an attempt succeeds', async () => {
+      let attempts = 0;
+
+      const result = await withRetry(async () => {
+        attempts++;
+        if (attempts < 3) throw new Error('flaky');
+        return 'ok';
+      }, noDelay);
+
+      expect(result).toBe('ok');
+      expect(attempts).toBe(3);
+    });
+
+    test('should give up after the retry budget and on non-retryable errors', async () => {
+      let attempts = 0;
+      const fail = async () => { attempts++; throw new Error('down'); };
+
+      await expect(withRetry(fail, noDelay)).rejects.toThrow('down');
+      expect(attempts).toBe(3);
+
+      attempts = 0;
+      await expect(withRetry(fail, { ...noDelay, shouldRetry: () => false })).rejects.toThrow('down');
+      expect(attempts).toBe(1);
+    });
+
+    test('should keep jittered delays within the exponential ceiling', () => {
+      for (let attempt = 1; attempt <= 6; attempt++) {
+        const delay = getBackoffDelay(attempt, 100, 1000);
+        expect(delay).toBeGreaterThanOrEqual(0);
+        expect(delay).toBeLessThanOrEqual(Math.min(1000, 100 * 2 ** (attempt - 1)));
+      }
+    });
+  });
+
+  describe('Circuit breaker', () => {
+    test('should open after consecutive failures, fail fast, then recover', async () => {
+      let now = 0;
+      const breaker = createCircuitBreaker({ name: 'test', failureThreshold: 2, resetTimeoutMs: 1000, now: () => now });
+      let calls = 0;
+      const fail = async () => { calls++; throw new Error('down'); };
+
+      await expect(breaker.execute(fail)).rejects.toThrow('down');
+      await expect(breaker.execute(fail)).rejects.toThrow('down');
+      expect(breaker.getState()).toBe('open');
+
+      const fastFail = await breaker.execute(fail).catch(error => error);
+      expect(isCircuitOpenError(fastFail)).toBe(true);
+      expect(calls).toBe(2);
+
+      now = 1000;
+      expect(breaker.getState()).toBe('half-open');
+      await expect(breaker.execute(async () => 'back')).resolves.toBe('back');
+      expect(breaker.getState()).toBe('closed');
+    });
+
+    test('should reopen when the half-open trial fails', async () => {
+      let now = 0;
+      const breaker = createCircuitBreaker({ name: 'test', failureThreshold: 1, resetTimeoutMs: 1000, now: () => now });
+      const fail = async () => { throw new Error('down'); };
+
+      await expect(breaker.execute(fail)).rejects.toThrow('down');
+      now = 1000;
+      await expect(breaker.execute(fail)).rejects.toThrow('down');
+
+      expect(breaker.getState()).toBe('open');
+    });
+  });
+
+  describe('Personality generation', () => {
+    test('should retry transient provider failures transparently', async () => {
+      const provider = createFlakyProvider(2);
+      setLLMProvider(provider);
+
+      const responses = await generatePersonalityResponses('Launch a podcast');
+
+      responses.forEach(response => expect(response.isFallback).toBeUndefined());
+      expect(provider.calls).toBe(5);
+    });
+
+    test('should flag fallback responses with the failure reason', async () => {
+      process.env.LLM_MAX_RETRIES = '0';
+      process.env.LLM_CIRCUIT_FAILURE_THRESHOLD = '2';
+      setLLMProvider(createFlakyProvider(Infinity));
+
+      const responses = await generatePersonalityResponses('Launch a podcast');
+
+      expect(responses.map(response => response.isFallback)).toEqual([true, true, true]);
+      expect(responses.map(response => response.error)).toEqual([
+        'The AI service did not respond',
+        'The AI service did not respond',
+        'The AI service did not respond'
+      ]);
+      expect(getLLMCircuitBreaker().getState()).toBe('open');
+
+      const [fastFailed] = await generatePersonalityResponses('Launch a podcast');
+      expect(fastFailed.error).toBe('The AI service is temporarily unavailable');
+    });
+
+    test('should flag fallback responses when no provider is configured', async () => {
+      setLLMProvider(null);
+
+      const responses = await generatePersonalityResponses('Launch a podcast');
+
+      responses.forEach(response => {
+        expect(response.isFallback).toBe(true);
+        expect(response.error).toBe('No AI provider is configured');
+      });
+    });
+
+    test('should retry streams that fail before the first chunk', async () => {
+      setLLMProvider(createFlakyProvider(1));
+      const onError = jest.fn();
+
+      const responses = await streamPersonalityResponses('Launch a podcast', { onDelta: () => {}, onDone: () => {}, onError });
+
+      expect(onError).not.toHaveBeenCalled();
+      responses.forEach(response => expect(response.isFallback).toBeUndefined());
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, test, expect, afterEach, beforeEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { getSessionStore, setSessionStore, resetSessionStore } from '../services/sessionStore';
+import type { SessionStore } from '../services/sessionStore';
+import { createMemorySessionStore } from '../services/stores/memorySessionStore';
+import { createJsonFileSessionStore } from '../services/stores/jsonFileSessionStore';
+import { createSqliteSessionStore } from '../services/stores/sqliteSessionStore';
+import { createSession, addBranch, getSession, getSessionStats, updateNodeText } from '../services/graphService';
+import type { Session } from '../../shared/types';
+
+const buildSession = (id: string, createdAt: string): Session => ({
+  id,
+  nodes: [{ id: `${id}-root`, text: 'Launch a podcast?', type: 'prompt', position: { x: 0, y: 0 } }],
+  edges: [],
+  personas: ['optimist'],
+  createdAt: new Date(createdAt),
+  lastAccessedAt: new Date(createdAt)
+});
+
+describe('Forum SessionStore', () => {
+  let tempDir: string;
+  const originalEnv = { ...process.env };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'forum-sessions-'));
+  });
+
+  afterEach(async () => {
+    process.env = { ...originalEnv };
+    resetSessionStore();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  const backends: Array<[string, (dir: string) => SessionStore]> = [
+    ['memory', () => createMemorySessionStore()],
+    ['json', (dir) => createJsonFileSessionStore({ filePath: path.join(dir, 'sessions.json') })],
+    ['sqlite', (dir) => createSqliteSessionStore({ filePath: path.join(dir, 'sessions.db') })]
+  ];
+
+  describe.each(backends)('%s store', (_name, createStore) => {
+    test('should round-trip sessions including createdAt as a Date', async () => {
+      const store = createStore(tempDir);
+      const session = buildSession('a', '2025-03-01T10:00:00.000Z');
+
+      await store.save(session);
+      const loaded = await store.get('a');
+
+      expect(loaded).toEqual(session);
+      expect(loaded!.createdAt).toBeInstanceOf(Date);
+      expect(loaded!.createdAt.toISOString()).toBe('2025-03-01T10:00:00.000Z');
+    });
+
+    test('should hand out copies rather than shared objects', async () => {
+      const store = createStore(tempDir);
+      await store.save(buildSession('a', '2025-03-01T10:00:00.000Z'));
+
+      const loaded = await store.get('a');
+      loaded!.nodes[0].text = 'Changed without saving';
+
+      expect((await store.get('a'))!.nodes[0].text).toBe('Launch a podcast?');
+    });
+
+    test('should list, replace and delete sessions', async () => {
+      const store = createStore(tempDir);
+      await store.save(buildSession('a', '2025-03-01T10:00:00.000Z'));
+      await store.save(buildSession('b', '2025-03-02T10:00:00.000Z'));
+      await store.save({ ...buildSession('a', '2025-03-01T10:00:00.000Z'), personas: ['realist'] });
+
+      expect((await store.list()).map(session => session.id)).toEqual(['a', 'b']);
+      expect((await store.get('a'))!.personas).toEqual(['realist']);
+
+      expect(await store.delete('a')).toBe(true);
+      expect(await store.delete('a')).toBe(false);
+      expect(await store.get('a')).toBeUndefined();
+    });
+  });
+
+  describe('Durability', () => {
+    test.each(backends.slice(1))('should keep %s sessions across store instances', async (_name, createStore) => {
+      await createStore(tempDir).save(buildSession('a', '2025-03-01T10:00:00.000Z'));
+
+      const reopened = await createStore(tempDir).get('a');
+
+      expect(reopened?.createdAt).toEqual(new Date('2025-03-01T10:00:00.000Z'));
+    });
+
+    test('should keep writing the JSON file after a failed write', async () => {
+      const filePath = path.join(tempDir, 'sessions.json');
+      const store = createJsonFileSessionStore({ filePath });
+
+      // A directory in place of the temporary file makes the write fail
+      await fs.mkdir(`${filePath}.tmp`);
+      await expect(store.save(buildSession('a', '2025-03-01T10:00:00.000Z'))).rejects.toThrow();
+      await fs.rmdir(`${filePath}.tmp`);
+      await store.save(buildSession('b', '2025-03-02T10:00:00.000Z'));
+
+      const reopened = createJsonFileSessionStore({ filePath });
+      expect((await reopened.list()).map(session => session.id)).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('Store selection', () => {
+    test('should default to the memory store', () => {
+      delete process.env.SESSION_STORE;
+
+      expect(getSessionStore().name).toBe('memory');
+    });
+
+    test('should select the configured store', () => {
+      process.env.SESSION_STORE = 'json';
+      process.env.SESSION_STORE_PATH = path.join(tempDir, 'sessions.json');
+
+      expect(getSessionStore().name).toBe('json');
+    });
+  });
+
+  describe('Graph service on a file-backed store', () => {
+    test('should persist sessions, branches and concurrent node updates', async () => {
+      const filePath = path.join(tempDir, 'sessions.json');
+      setSessionStore(createJsonFileSessionStore({ filePath }));
+
+      const session = await createSession('Launch a podcast?', [
+        { persona: 'optimist', text: '', color: 'green' },
+        { persona: 'realist', text: '', color: 'grey' }
+      ]);
+      const [optimistNode, realistNode] = session.nodes.slice(1);
+      await Promise.all([
+        updateNodeText(session.id, optimistNode.id, 'Great idea.'),
+        updateNodeText(session.id, realistNode.id, 'Takes effort.'),
+        addBranch(session.id, optimistNode.id, [{ persona: 'optimist', text: 'Sponsors!', color: 'green' }])
+      ]);
+
+      setSessionStore(createJsonFileSessionStore({ filePath }));
+      const reloaded = await getSession(session.id);
+
+      expect(reloaded!.createdAt).toBeInstanceOf(Date);
+      expect(reloaded!.nodes.map(node => node.text)).toEqual(['Launch a podcast?', 'Great idea.', 'Takes effort.', 'Sponsors!']);
+      expect(await getSessionStats()).toEqual({ totalSessions: 1, totalNodes: 4, totalEdges: 3, averageNodesPerSession: 4 });
+    });
+  });
+});
@@ -7,21 +7,43 @@
  * It sets up an Express.js server with comprehensive security middleware
  * and API endpoints for personality-based AI conversations.
  * 
- * Forum is an AI brainstorming tool that explores ideas through three
- * distinct AI personalities: Optimist, Pessimist, and Realist.
+ * Forum is an AI brainstorming tool that explores ideas through distinct
+ * AI personalities: the built-in Optimist, Pessimist, and Realist plus
+ * any team-defined personas from the persona registry.
  * 
  * Server Features:
  * - RESTful API endpoints for brainstorming and conversation branching
  * - Multi-layered security middleware (rate limiting, CORS, validation)
  * - Session management for conversation persistence
  * - Real-time personality response generation
+ * - Token-by-token streaming over Server-Sent Events
  * - Health monitoring and statistics
  * - Comprehensive error handling and logging
  * 
  * API Endpoints:
  * - POST /api/brainstorm - Start new brainstorming session
+ * - POST /api/brainstorm/stream - Start new session, streaming responses (SSE)
+ * - POST /api/import - Start a session from a Markdown outline, OPML or a Forum JSON export
  * - POST /api/branch - Branch existing conversation
+ * - POST /api/branch/stream - Branch existing conversation, streaming responses (SSE)
+ * - POST /api/brainstorm/jobs, POST /api/branch/jobs - Start a generation job and return right away
+ * - GET /api/jobs/:id - Per-persona progress of a generation job
+ * - DELETE /api/jobs/:id - Cancel a generation job and discard its branch
+ * - GET /api/session/:id/jobs - Running and recently finished jobs of a session
+ * - GET /api/sessions - List sessions (paged, newest first by default)
  * - GET /api/session/:id - Retrieve session data
+ * - GET /api/session/:id/export?format= - Download a session as Markdown, OPML, Mermaid, GraphML, DOT or JSON
+ * - PATCH/DELETE /api/session/:id - Rename or delete a session
+ * - GET /api/session/:id/node/:nodeId - Retrieve one node's full text and ancestors
+ * - PATCH /api/session/:id/node/:nodeId - Edit a prompt node's text
+ * - DELETE /api/session/:id/node/:nodeId - Delete a node and its descendants
+ * - POST /api/session/:id/node/:nodeId/restore - Undo the deletion of a node and its descendants
+ * - POST /api/session/:id/node/:nodeId/retry - Regenerate a failed (fallback) response
+ * - POST /api/node/:id/regenerate - Re-run one response's persona, keeping the old text as a version
+ * - PUT /api/node/:id/active-version - Choose which version of a response is shown
+ * - POST /api/session/:id/node/:nodeId/regenerate-subtree - Regenerate stale nodes below a node, top-down
+ * - GET/POST /api/personas - List or register personas
+ * - GET/PATCH/DELETE /api/personas/:name - Read, update or delete a persona
  * - GET /api/stats - Server statistics
  * - GET /api/health - Health check
  * 
@@ -41,7 +63,20 @@
  * 
  * Environment Variables:
  * - PORT: Server port (default: 3000)
+ * - LLM_PROVIDER: LLM backend - gemini, openai or mock (default: gemini)
+ * - LLM_MODEL: Model override for the selected LLM provider
  * - GEMINI_API_KEY: Google Gemini API key for AI responses
+ * - OPENAI_BASE_URL: OpenAI-compatible server URL (default: http://localhost:11434/v1)
+ * - OPENAI_API_KEY: Optional API key for the OpenAI-compatible server
+ * - BRANCH_CONTEXT_TOKEN_BUDGET: Approximate token budget for branch transcripts (default: 1500)
+ * - LLM_MAX_RETRIES, LLM_RETRY_BASE_DELAY_MS, LLM_RETRY_MAX_DELAY_MS: Retry policy for LLM calls
+ * - LLM_CIRCUIT_FAILURE_THRESHOLD, LLM_CIRCUIT_RESET_SECONDS: Circuit breaker for LLM calls
+ * - SESSION_STORE: Session storage - memory, json or sqlite (default: memory)
+ * - SESSION_STORE_PATH: File for the json/sqlite session stores (default: data/sessions.json or data/sessions.db)
+ * - SESSION_MAX_NODES: Maximum nodes per session (default: 500)
+ * - SESSION_MAX_SESSIONS: Maximum stored sessions, least recently used evicted (default: 1000)
+ * - SESSION_IDLE_TTL_MINUTES: Idle time before a session expires (default: 1440)
+ * - SESSION_SWEEP_INTERVAL_SECONDS: Background sweeper interval (default: 300)
  * - RATE_LIMIT_MAX: Rate limit per window (default: 60)
  * - RATE_LIMIT_WINDOW: Rate limit window (default: 1m)
  * - CORS_ORIGIN: Allowed CORS origin (default: localhost:5173)
@@ -54,21 +89,101 @@
 
 import 'dotenv/config';
 import express from 'express';
+import type { Response } from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
-import { generatePersonalityResponses, generatePersonalityBranch } from './services/personalityService.js';
-import { createSession, addBranch, getSession, getSessionStats } from './services/graphService.js';
+import { 
+  generatePersonalityResponses, 
+  generatePersonalityBranch,
+  streamPersonalityResponses,
+  streamPersonalityBranch,
+  regeneratePersonalityResponse,
+  getPersonalityPlaceholders
+} from './services/personalityService.js';
+import type { PersonalityStreamHandlers } from './services/personalityService.js';
+import { 
+  createSession, 
+  importSession, 
+  addBranch, 
+  getSession, 
+  getSessionStats, 
+  getSessionLimits, 
+  updateNodeText, 
+  addNodeVersion, 
+  setActiveNodeVersion, 
+  updatePromptText, 
+  deleteSubtree, 
+  restoreSubtree, 
+  updateNodePositions, 
+  getStaleNodeIds, 
+  getStaleSubtreeLevels, 
+  acknowledgePrompt, 
+  getAncestorPath, 
+  hasRoomForNodes, 
+  isSessionExpired, 
+  listSessions, 
+  renameSession, 
+  deleteSession, 
+  startSessionSweeper 
+} from './services/graphService.js';
+import { createJob, runJob, getJob, listSessionJobs, cancelJob } from './services/jobService.js';
+import { exportSession } from './services/exportService.js';
+import { parseImport, countImportedNodes, getImportedPersonas, isInvalidImportError } from './services/importService.js';
+import { getLLMProvider } from './services/llmProvider.js';
+import { getLLMCircuitBreaker } from './services/resilience.js';
+import { 
+  listPersonas, 
+  getPersona, 
+  resolvePersonas, 
+  createPersona, 
+  updatePersona, 
+  deletePersona 
+} from './services/personaRegistry.js';
 import { 
   createRateLimiter, 
   corsOptions, 
   helmetOptions,
   validateBrainstormRequest,
   validateBranchRequest,
+  validatePersonaCreateRequest,
+  validatePersonaUpdateRequest,
+  validateSessionListQuery,
+  validateSessionExportQuery,
+  validateSessionImportRequest,
+  validateSessionUpdateRequest,
+  validateSessionNodeRequest,
+  validateNodeRegenerateRequest,
+  validateNodeUpdateRequest,
+  validateNodeVersionRequest,
+  validateNodePositionsRequest,
+  validateJobRequest,
+  validateSessionJobsRequest,
   limitResponseSize,
   securityLogger,
   securityErrorHandler
 } from './middleware/security.js';
-import type { BrainstormRequest, BranchRequest } from '../shared/types.js';
+import { openEventStream } from './utils/sse.js';
+import type { EventStream } from './utils/sse.js';
+import type { 
+  BrainstormRequest, 
+  BranchRequest, 
+  Node, 
+  Edge, 
+  GenerationJob, 
+  GenerationJobResponse, 
+  JobCancelResponse, 
+  SessionJobsResponse, 
+  PersonaStreamEvent, 
+  PersonaCreateRequest, 
+  PersonaUpdateRequest, 
+  SessionUpdateRequest, 
+  NodeRegenerateRequest, 
+  NodeActiveVersionRequest, 
+  NodeUpdateRequest, 
+  NodePositionsRequest, 
+  ExportFormat, 
+  SessionImportRequest 
+} from '../shared/types.js';
 
 // ===================================================================
 // SERVER INITIALIZATION
@@ -99,11 +214,63 @@ app.use('/api', rateLimiter);
 // CORE API ENDPOINTS
 // ===================================================================
 
+/**
+ * Returns the requested persona names that are not in the registry.
+ * 
+ * @param {string[]} [names] - Requested persona names
+ * @returns {string[]} Unknown names (empty if all are registered)
+ */
+const findUnknownPersonas = (names?: string[]): string[] => {
+  return (names || []).filter(name => !getPersona(name));
+};
+
+/**
+ * Responds to a request for a session that couldn't be loaded:
+ * 410 if it expired or was evicted, 404 if it never existed.
+ * 
+ * @param {Response} res - Express response
+ * @param {string} sessionId - The requested session ID
+ */
+const sendMissingSession = (res: Response, sessionId: string) => {
+  return isSessionExpired(sessionId)
+    ? res.status(410).json({ error: 'Session expired' })
+    : res.status(404).json({ error: 'Session not found' });
+};
+
+/**
+ * Responds 413 when a branch would push a session past its node limit.
+ * 
+ * @param {Response} res - Express response
+ */
+const sendSessionFull = (res: Response) => {
+  return res.status(413).json({ 
+    error: 'Session is full', 
+    details: { maxNodes: getSessionLimits().maxNodesPerSession } 
+  });
+};
+
+/**
+ * Responds 409 when a session's personas are no longer registered (e.g.
+ * custom personas lost in a server restart), instead of branching the
+ * session with other personas.
+ * 
+ * @param {Response} res - Express response
+ * @param {string[]} missing - Persona names that are no longer registered
+ */
+const sendMissingPersonas = (res: Response, missing: string[]) => {
+  return res.status(409).json({ 
+    error: "Some of this session's personas no longer exist", 
+    details: missing 
+  });
+};
+
 /**
  * POST /api/brainstorm
  * 
  * Creates a new brainstorming session with personality responses.
  * This is the primary endpoint for starting Forum conversations.
+ * Responses are only saved once every personality has answered;
+ * POST /api/brainstorm/jobs saves each one as soon as it is done.
  * 
  * Process:
  * 1. Validates and sanitizes user input
@@ -113,11 +280,13 @@ app.use('/api', rateLimiter);
  * 
  * Request Body:
  * - prompt: String (1-1000 characters) - The topic to explore
+ * - personas: Optional array of persona names (default: built-in three)
  * 
  * Response:
  * - sessionId: UUID of the created session
- * - nodes: Array of graph nodes (prompt + 3 personality responses)
+ * - nodes: Array of graph nodes (prompt + one response per personality)
  * - edges: Array of graph edges connecting nodes
+ * - personas: Names of the participating personalities
  * 
  * Security:
  * - Rate limited (60 requests/minute per IP)
@@ -140,26 +309,33 @@ app.use('/api', rateLimiter);
  */
 app.post('/api/brainstorm', validateBrainstormRequest, async (req, res) => {
   try {
-    const { prompt }: BrainstormRequest = req.body;
+    const { prompt, personas: personaNames }: BrainstormRequest = req.body;
+    
+    const unknownPersonas = findUnknownPersonas(personaNames);
+    if (unknownPersonas.length > 0) {
+      return res.status(400).json({ error: 'Unknown personas', details: unknownPersonas });
+    }
     
     console.info(`🎭 Forum brainstorm request: "${prompt.substring(0, 100)}..." from IP: ${req.ip}`);
     
-    // Generate personality responses (always exactly 3: Optimist, Pessimist, Realist)
-    const personalityResponses = await generatePersonalityResponses(prompt);
+    // Generate one response per participating personality (default: Optimist, Pessimist, Realist)
+    const personas = resolvePersonas(personaNames);
+    const personalityResponses = await generatePersonalityResponses(prompt, personas);
     
     if (personalityResponses.length === 0) {
       return res.status(500).json({ error: 'Failed to generate personality responses' });
     }
     
     // Create session with personality-aware graph structure
-    const session = createSession(prompt, personalityResponses);
+    const session = await createSession(prompt, personalityResponses, personas.map(persona => persona.name));
     
     console.info(`✅ Forum session created: ${session.id} with ${personalityResponses.length} personality responses`);
     
     res.json({
       sessionId: session.id,
       nodes: session.nodes,
-      edges: session.edges
+      edges: session.edges,
+      personas: session.personas
     });
     
   } catch (error) {
@@ -168,6 +344,97 @@ app.post('/api/brainstorm', validateBrainstormRequest, async (req, res) => {
   }
 });
 
+/**
+ * POST /api/import
+ * 
+ * Starts a session from an existing idea tree instead of a single prompt.
+ * Outline items labelled with a persona become that persona's responses;
+ * other items become prompts. No responses are generated, so imported
+ * plans can be expanded with the personas right away.
+ * 
+ * Request Body:
+ * - content: Markdown outline, OPML document or Forum JSON export
+ * - format: Optional markdown | opml | json (detected when absent)
+ * 
+ * Response:
+ * - sessionId, nodes, edges, personas: As for POST /api/brainstorm
+ * 
+ * Error Responses:
+ * - 400: Invalid input, or content that can't be read as the format
+ * - 413: More nodes than a session may hold
+ * - 500: Server error
+ * 
+ * @example
+ * POST /api/import
+ * {
+ *   "content": "# Launch a podcast\n- **Optimist:** Sponsors will follow"
+ * }
+ */
+app.post('/api/import', validateSessionImportRequest, async (req, res) => {
+  try {
+    const { content, format }: SessionImportRequest = req.body;
+    
+    const root = parseImport(content, format);
+    
+    const { maxNodesPerSession } = getSessionLimits();
+    if (maxNodesPerSession > 0 && countImportedNodes(root) > maxNodesPerSession) {
+      return sendSessionFull(res);
+    }
+    
+    const session = await importSession(root, getImportedPersonas(root));
+    
+    res.json({
+      sessionId: session.id,
+      nodes: session.nodes,
+      edges: session.edges,
+      personas: session.personas
+    });
+    
+  } catch (error) {
+    if (isInvalidImportError(error)) {
+      return res.status(400).json({ error: (error as Error).message });
+    }
+    console.error('Session import error:', error);
+    res.status(500).json({ error: 'Failed to import session' });
+  }
+});
+
+/**
+ * GET /api/sessions
+ * 
+ * Lists stored sessions for the session history sidebar.
+ * Sessions are sorted by creation time and returned one page at a time,
+ * each with a title generated from its root prompt unless renamed.
+ * 
+ * Query Parameters:
+ * - page: 1-based page number (default: 1)
+ * - pageSize: Sessions per page, 1-100 (default: 20)
+ * - order: 'desc' for newest first (default) or 'asc'
+ * 
+ * Response:
+ * - sessions: Session summaries (id, title, timestamps, node count, personas)
+ * - total: Total number of sessions
+ * - page, pageSize: The applied paging
+ * 
+ * Error Responses:
+ * - 400: Invalid paging or sort parameters
+ * - 500: Server error
+ * 
+ * @example
+ * GET /api/sessions?page=2&pageSize=10&order=desc
+ */
+app.get('/api/sessions', validateSessionListQuery, async (req, res) => {
+  try {
+    const { page, pageSize, order } = req.query as { page?: number, pageSize?: number, order?: 'asc' | 'desc' };
+    
+    res.json(await listSessions({ page, pageSize, order }));
+    
+  } catch (error) {
+    console.error('Session listing error:', error);
+    res.status(500).json({ error: 'Failed to list sessions' });
+  }
+});
+
 /**
  * GET /api/session/:id
  * 
@@ -181,6 +448,7 @@ app.post('/api/brainstorm', validateBrainstormRequest, async (req, res) => {
  * - sessionId: UUID of the session
  * - nodes: Array of all nodes in the session
  * - edges: Array of all edges in the session
+ * - personas: Names of the participating personalities
  * 
  * Security:
  * - Lighter rate limiting (retrieval is less expensive)
@@ -190,12 +458,13 @@ app.post('/api/brainstorm', validateBrainstormRequest, async (req, res) => {
  * Error Responses:
  * - 400: Invalid session ID format
  * - 404: Session not found
+ * - 410: Session expired or evicted
  * - 500: Server error
  * 
  * @example
  * GET /api/session/123e4567-e89b-12d3-a456-426614174000
  */
-app.get('/api/session/:id', (req, res) => {
+app.get('/api/session/:id', async (req, res) => {
   try {
     const sessionId = req.params.id;
     
@@ -204,16 +473,17 @@ app.get('/api/session/:id', (req, res) => {
       return res.status(400).json({ error: 'Invalid session ID format' });
     }
     
-    const session = getSession(sessionId);
+    const session = await getSession(sessionId);
     
     if (!session) {
-      return res.status(404).json({ error: 'Session not found' });
+      return sendMissingSession(res, sessionId);
     }
     
     res.json({
       sessionId: session.id,
       nodes: session.nodes,
-      edges: session.edges
+      edges: session.edges,
+      personas: session.personas
     });
     
   } catch (error) {
@@ -223,184 +493,1406 @@ app.get('/api/session/:id', (req, res) => {
 });
 
 /**
- * POST /api/branch
+ * GET /api/session/:id/export
  * 
- * Branches an existing conversation by generating new personality responses.
- * Allows users to explore deeper into any personality's response.
+ * Downloads a session's conversation tree as a document for other tools.
+ * The tree is walked from the root prompt along parent links.
  * 
- * Process:
- * 1. Validates session and node existence
- * 2. Generates new personality responses based on parent node
- * 3. Optionally incorporates follow-up prompt
- * 4. Adds new nodes and edges to the session
- * 5. Returns new graph elements
+ * Query Parameters:
+ * - format: markdown | opml | mermaid | graphml | dot | json
  * 
- * Request Body:
- * - sessionId: UUID of the session to branch
- * - nodeId: UUID of the node to branch from
- * - prompt: Optional follow-up question (1-500 characters)
+ * Response:
+ * - The rendered document, sent as an attachment named after the session title
+ * 
+ * Error Responses:
+ * - 400: Invalid session ID or unknown format
+ * - 404: Session not found
+ * - 410: Session expired or evicted
+ * - 500: Server error
+ * 
+ * @example
+ * GET /api/session/123e4567-e89b-12d3-a456-426614174000/export?format=markdown
+ */
+app.get('/api/session/:id/export', validateSessionExportQuery, async (req, res) => {
+  try {
+    const sessionId = req.params.id;
+    const format = req.query.format as ExportFormat;
+    
+    const session = await getSession(sessionId);
+    
+    if (!session) {
+      return sendMissingSession(res, sessionId);
+    }
+    
+    const { content, contentType, filename } = exportSession(session, format);
+    
+    console.info(`📤 Exported Forum session ${sessionId} as ${format}`);
+    res
+      .type(contentType)
+      .attachment(filename)
+      .send(content);
+    
+  } catch (error) {
+    console.error('Session export error:', error);
+    res.status(500).json({ error: 'Failed to export session' });
+  }
+});
+
+/**
+ * POST /api/session/:id/node/:nodeId/retry
+ * 
+ * Regenerates a response node whose generation failed (`isFallback`).
+ * The node's persona answers again from the same context; on success the
+ * fallback marker is cleared, otherwise the node stays flagged with the
+ * new error.
  * 
  * Response:
- * - newNodes: Array of new nodes added to the graph
- * - newEdges: Array of new edges added to the graph
+ * - node: The updated node
+ * - staleNodeIds: IDs of all stale nodes in the session after the change
  * 
- * Security:
- * - Rate limited (60 requests/minute per IP)
- * - Input validation for UUIDs and optional prompt
- * - Session and node existence validation
- * - XSS prevention through HTML escaping
+ * Error Responses:
+ * - 400: Invalid IDs, or the node is not a response
+ * - 404: Session or node not found
+ * - 409: The node did not fail, or its persona no longer exists
+ * - 410: Session expired or evicted
+ * - 500: Server error
  * 
  * @example
- * POST /api/branch
- * {
- *   "sessionId": "uuid-here",
- *   "nodeId": "node-uuid-here",
- *   "prompt": "What about funding challenges?"
- * }
+ * POST /api/session/123e4567-e89b-12d3-a456-426614174000/node/9b2f6c1e-8d4a-4f3b-a1c2-5e6f7a8b9c0d/retry
  */
-app.post('/api/branch', validateBranchRequest, async (req, res) => {
+app.post('/api/session/:id/node/:nodeId/retry', validateSessionNodeRequest, async (req, res) => {
   try {
-    const { sessionId, nodeId, prompt: followUpPrompt }: BranchRequest = req.body;
+    const { id: sessionId, nodeId } = req.params;
+    
+    const session = await getSession(sessionId);
     
-    // Get the node to branch from
-    const session = getSession(sessionId);
     if (!session) {
-      return res.status(404).json({ error: 'Session not found' });
+      return sendMissingSession(res, sessionId);
     }
     
-    const parentNode = session.nodes.find(node => node.id === nodeId);
-    if (!parentNode) {
+    const node = session.nodes.find(candidate => candidate.id === nodeId);
+    if (!node) {
       return res.status(404).json({ error: 'Node not found' });
     }
     
-    console.info(`🌳 Forum branch request: node ${nodeId} in session ${sessionId} from IP: ${req.ip}`);
-    if (followUpPrompt) {
-      console.info(`📝 Follow-up prompt: "${followUpPrompt.substring(0, 100)}..."`);
+    if (node.type !== 'response' || !node.parentId) {
+      return res.status(400).json({ error: 'Only response nodes can be retried' });
     }
     
-    // Generate personality responses for the branch
-    const personalityResponses = await generatePersonalityBranch(parentNode.text, followUpPrompt);
+    if (!node.isFallback) {
+      return res.status(409).json({ error: 'Only failed responses can be retried' });
+    }
     
-    if (personalityResponses.length === 0) {
-      return res.status(500).json({ error: 'Failed to generate personality branch responses' });
+    const persona = getPersona(node.persona!);
+    if (!persona) {
+      return res.status(409).json({ error: 'Persona no longer exists', details: { persona: node.persona } });
     }
     
-    // Add branch to session with personality responses
-    const { newNodes, newEdges } = addBranch(sessionId, nodeId, personalityResponses, followUpPrompt);
+    console.info(`🔁 Retrying ${persona.name} response ${nodeId} in session ${sessionId}`);
     
-    console.info(`✅ Forum branch added: ${newNodes.length} nodes, ${newEdges.length} edges`);
+    const response = await regeneratePersonalityResponse(persona, await getAncestorPath(sessionId, node.parentId));
+    const updated = await updateNodeText(sessionId, nodeId, response.text, response);
     
-    res.json({
-      newNodes,
-      newEdges
-    });
+    res.json({ node: updated, staleNodeIds: await getStaleNodeIds(sessionId) });
     
   } catch (error) {
-    console.error('Forum branch API error:', error);
-    res.status(500).json({ error: 'Failed to create Forum branch' });
+    console.error('Node retry error:', error);
+    res.status(500).json({ error: 'Failed to retry response' });
   }
 });
 
-// ===================================================================
-// MONITORING AND HEALTH ENDPOINTS
-// ===================================================================
-
 /**
- * GET /api/stats
+ * POST /api/node/:id/regenerate
  * 
- * Provides server statistics for monitoring and analytics.
- * Includes session data, security configuration, and system metrics.
+ * Re-runs the persona of a single response node with the same context it
+ * was generated from. Unlike branching, no nodes are added: the new text
+ * becomes the node's newest version and is made active, and earlier texts
+ * stay available in `versions`.
+ * 
+ * Request Body:
+ * - sessionId: UUID of the session containing the node
  * 
  * Response:
- * - totalSessions: Number of active sessions
- * - totalNodes: Total nodes across all sessions
- * - totalEdges: Total edges across all sessions
- * - averageNodesPerSession: Average conversation complexity
- * - rateLimitWindow: Current rate limit window
- * - rateLimitMax: Current rate limit maximum
- * - corsOrigin: Configured CORS origin
- * - timestamp: Current server timestamp
+ * - node: The updated node with its versions
+ * - staleNodeIds: IDs of all stale nodes in the session after the change
+ * 
+ * Error Responses:
+ * - 400: Invalid IDs, or the node is not a response
+ * - 404: Session or node not found
+ * - 409: The node's persona no longer exists
+ * - 410: Session expired or evicted
+ * - 500: Server error
  * 
  * @example
- * GET /api/stats
+ * POST /api/node/9b2f6c1e-8d4a-4f3b-a1c2-5e6f7a8b9c0d/regenerate
+ * { "sessionId": "123e4567-e89b-12d3-a456-426614174000" }
  */
-app.get('/api/stats', (req, res) => {
+app.post('/api/node/:id/regenerate', validateNodeRegenerateRequest, async (req, res) => {
   try {
-    const stats = getSessionStats();
+    const nodeId = req.params.id;
+    const { sessionId }: NodeRegenerateRequest = req.body;
     
-    // Add security information to stats
-    const securityStats = {
-      ...stats,
-      rateLimitWindow: process.env.RATE_LIMIT_WINDOW || '1m',
-      rateLimitMax: parseInt(process.env.RATE_LIMIT_MAX || '60'),
-      corsOrigin: process.env.CORS_ORIGIN || 'http://localhost:5173',
-      timestamp: new Date().toISOString()
-    };
+    const session = await getSession(sessionId);
+    
+    if (!session) {
+      return sendMissingSession(res, sessionId);
+    }
+    
+    const node = session.nodes.find(candidate => candidate.id === nodeId);
+    if (!node) {
+      return res.status(404).json({ error: 'Node not found' });
+    }
+    
+    if (node.type !== 'response' || !node.parentId) {
+      return res.status(400).json({ error: 'Only response nodes can be regenerated' });
+    }
+    
+    const persona = getPersona(node.persona!);
+    if (!persona) {
+      return res.status(409).json({ error: 'Persona no longer exists', details: { persona: node.persona } });
+    }
+    
+    console.info(`🔄 Regenerating ${persona.name} response ${nodeId} in session ${sessionId}`);
+    
+    const response = await regeneratePersonalityResponse(persona, await getAncestorPath(sessionId, node.parentId));
+    const updated = await addNodeVersion(sessionId, nodeId, response);
+    
+    res.json({ node: updated, staleNodeIds: await getStaleNodeIds(sessionId) });
     
-    res.json(securityStats);
   } catch (error) {
-    console.error('Stats API error:', error);
-    res.status(500).json({ error: 'Failed to retrieve statistics' });
+    console.error('Node regenerate error:', error);
+    res.status(500).json({ error: 'Failed to regenerate response' });
   }
 });
 
 /**
- * GET /api/health
+ * PUT /api/node/:id/active-version
  * 
- * Health check endpoint for monitoring system availability.
- * Provides basic system information and uptime metrics.
+ * Chooses which of a response node's versions is shown. The node's text,
+ * model and fallback marker are replaced by those of the chosen version.
+ * 
+ * Request Body:
+ * - sessionId: UUID of the session containing the node
+ * - version: Index into the node's `versions`
  * 
  * Response:
- * - status: 'healthy' if system is operational
- * - service: Service name ('Forum')
- * - personalities: Array of available AI personalities
- * - timestamp: Current server timestamp
- * - uptime: Server uptime in seconds
+ * - node: The updated node
+ * - staleNodeIds: IDs of all stale nodes in the session after the change
+ * 
+ * Error Responses:
+ * - 400: Invalid IDs or version
+ * - 404: Session, node or version not found
+ * - 410: Session expired or evicted
+ * - 500: Server error
  * 
  * @example
- * GET /api/health
+ * PUT /api/node/9b2f6c1e-8d4a-4f3b-a1c2-5e6f7a8b9c0d/active-version
+ * { "sessionId": "123e4567-e89b-12d3-a456-426614174000", "version": 0 }
  */
-app.get('/api/health', (req, res) => {
-  res.json({
-    status: 'healthy',
-    service: 'Forum',
-    personalities: ['optimist', 'pessimist', 'realist'],
-    timestamp: new Date().toISOString(),
-    uptime: process.uptime()
-  });
+app.put('/api/node/:id/active-version', validateNodeVersionRequest, async (req, res) => {
+  try {
+    const nodeId = req.params.id;
+    const { sessionId, version }: NodeActiveVersionRequest = req.body;
+    
+    const session = await getSession(sessionId);
+    
+    if (!session) {
+      return sendMissingSession(res, sessionId);
+    }
+    
+    const node = session.nodes.find(candidate => candidate.id === nodeId);
+    if (!node) {
+      return res.status(404).json({ error: 'Node not found' });
+    }
+    
+    if (!node.versions?.[version]) {
+      return res.status(404).json({ error: 'Version not found', details: { versions: node.versions?.length ?? 0 } });
+    }
+    
+    const updated = await setActiveNodeVersion(sessionId, nodeId, version);
+    
+    res.json({ node: updated, staleNodeIds: await getStaleNodeIds(sessionId) });
+    
+  } catch (error) {
+    console.error('Node version error:', error);
+    res.status(500).json({ error: 'Failed to change the active version' });
+  }
 });
 
-// ===================================================================
-// ERROR HANDLING MIDDLEWARE
-// ===================================================================
-
-// Security-specific error handling
-app.use(securityErrorHandler);
-
 /**
- * Global error handler for unhandled errors.
- * Provides consistent error responses and logging.
+ * POST /api/session/:id/node/:nodeId/regenerate-subtree
  * 
- * Development vs Production:
- * - Development: Detailed error messages for debugging
- * - Production: Generic error messages to avoid information leakage
+ * Brings a subtree up to date after an ancestor's text changed. Stale
+ * nodes in the subtree (the node itself included) are processed top-down,
+ * one level at a time, so every response is regenerated from its parent's
+ * already refreshed text:
+ * - stale responses are regenerated; the old text is kept as a version
+ * - stale follow-up prompts are kept as written and marked current
  * 
- * @param {any} err - Error object
- * @param {express.Request} req - Express request object
- * @param {express.Response} res - Express response object
- * @param {express.NextFunction} next - Express next function
+ * Responses whose persona no longer exists are skipped and stay stale,
+ * and so does everything below them.
+ * 
+ * Response:
+ * - nodes: The regenerated and acknowledged nodes
+ * - skippedNodeIds: Stale nodes left as they are (missing persona at or above them)
+ * - staleNodeIds: IDs of all stale nodes in the session afterwards
+ * 
+ * Error Responses:
+ * - 400: Invalid session or node ID format
+ * - 404: Session or node not found
+ * - 410: Session expired or evicted
+ * - 500: Server error
+ * 
+ * @example
+ * POST /api/session/123e4567-e89b-12d3-a456-426614174000/node/9b2f6c1e-8d4a-4f3b-a1c2-5e6f7a8b9c0d/regenerate-subtree
  */
-app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
-  console.error('Unhandled error:', err);
-  res.status(500).json({ 
-    error: 'Internal server error',
-    message: process.env.NODE_ENV === 'development' ? err.message : 'Something went wrong'
-  });
-});
-
-// ===================================================================
-// SERVER STARTUP
-// ===================================================================
+app.post('/api/session/:id/node/:nodeId/regenerate-subtree', validateSessionNodeRequest, async (req, res) => {
+  try {
+    const { id: sessionId, nodeId } = req.params;
+    
+    const session = await getSession(sessionId);
+    
+    if (!session) {
+      return sendMissingSession(res, sessionId);
+    }
+    
+    if (!session.nodes.some(node => node.id === nodeId)) {
+      return res.status(404).json({ error: 'Node not found' });
+    }
+    
+    const levels = await getStaleSubtreeLevels(sessionId, nodeId);
+    const updatedIds: string[] = [];
+    const skippedIds = new Set<string>();
+    
+    console.info(`🔄 Regenerating ${levels.flat().length} stale nodes below ${nodeId} in session ${sessionId}`);
+    
+    for (const level of levels) {
+      await Promise.all(level.map(async (node) => {
+        // Nothing below a skipped node can be brought up to date
+        if (node.parentId && skippedIds.has(node.parentId)) {
+          skippedIds.add(node.id);
+          return;
+        }
+        
+        if (node.type === 'prompt') {
+          await acknowledgePrompt(sessionId, node.id);
+          updatedIds.push(node.id);
+          return;
+        }
+        
+        const persona = node.persona ? getPersona(node.persona) : undefined;
+        if (!persona || !node.parentId) {
+          skippedIds.add(node.id);
+          return;
+        }
+        
+        const response = await regeneratePersonalityResponse(persona, await getAncestorPath(sessionId, node.parentId));
+        await addNodeVersion(sessionId, node.id, response);
+        updatedIds.push(node.id);
+      }));
+    }
+    
+    const updated = await getSession(sessionId);
+    
+    res.json({
+      nodes: updated ? updated.nodes.filter(node => updatedIds.includes(node.id)) : [],
+      skippedNodeIds: Array.from(skippedIds),
+      staleNodeIds: await getStaleNodeIds(sessionId)
+    });
+    
+  } catch (error) {
+    console.error('Subtree regenerate error:', error);
+    res.status(500).json({ error: 'Failed to regenerate subtree' });
+  }
+});
+
+/**
+ * PATCH /api/session/:id
+ * 
+ * Renames a session. Sending an empty title restores the title
+ * generated from the root prompt.
+ * 
+ * Request Body:
+ * - title: New title (at most 100 characters)
+ * 
+ * Response:
+ * - The updated session summary
+ * 
+ * Error Responses:
+ * - 400: Invalid session ID or title
+ * - 404: Session not found
+ * - 410: Session expired or evicted
+ * - 500: Server error
+ * 
+ * @example
+ * PATCH /api/session/123e4567-e89b-12d3-a456-426614174000
+ * { "title": "Podcast launch plan" }
+ */
+app.patch('/api/session/:id', validateSessionUpdateRequest, async (req, res) => {
+  try {
+    const sessionId = req.params.id;
+    const { title } = req.body as SessionUpdateRequest;
+    
+    if (!await getSession(sessionId)) {
+      return sendMissingSession(res, sessionId);
+    }
+    
+    res.json(await renameSession(sessionId, title));
+    
+  } catch (error) {
+    console.error('Session rename error:', error);
+    res.status(500).json({ error: 'Failed to rename session' });
+  }
+});
+
+/**
+ * DELETE /api/session/:id
+ * 
+ * Permanently deletes a session and its graph.
+ * 
+ * Response:
+ * - 204 No Content
+ * 
+ * Error Responses:
+ * - 400: Invalid session ID format
+ * - 404: Session not found
+ * - 410: Session expired or evicted
+ * - 500: Server error
+ * 
+ * @example
+ * DELETE /api/session/123e4567-e89b-12d3-a456-426614174000
+ */
+app.delete('/api/session/:id', async (req, res) => {
+  try {
+    const sessionId = req.params.id;
+    
+    if (!/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(sessionId)) {
+      return res.status(400).json({ error: 'Invalid session ID format' });
+    }
+    
+    if (!await deleteSession(sessionId)) {
+      return sendMissingSession(res, sessionId);
+    }
+    
+    res.status(204).end();
+    
+  } catch (error) {
+    console.error('Session deletion error:', error);
+    res.status(500).json({ error: 'Failed to delete session' });
+  }
+});
+
+/**
+ * GET /api/session/:id/node/:nodeId
+ * 
+ * Retrieves a single node with its complete, untruncated text.
+ * Used by the node detail panel, which shows the full response and the
+ * conversation leading to it.
+ * 
+ * URL Parameters:
+ * - id: UUID of the session
+ * - nodeId: UUID of the node
+ * 
+ * Response:
+ * - node: The requested node
+ * - ancestors: Nodes from the root prompt down to the node's parent
+ * 
+ * Error Responses:
+ * - 400: Invalid session or node ID format
+ * - 404: Session or node not found
+ * - 410: Session expired or evicted
+ * - 500: Server error
+ * 
+ * @example
+ * GET /api/session/123e4567-e89b-12d3-a456-426614174000/node/9b2f6c1e-8d4a-4f3b-a1c2-5e6f7a8b9c0d
+ */
+app.get('/api/session/:id/node/:nodeId', validateSessionNodeRequest, async (req, res) => {
+  try {
+    const { id: sessionId, nodeId } = req.params;
+    
+    const session = await getSession(sessionId);
+    
+    if (!session) {
+      return sendMissingSession(res, sessionId);
+    }
+    
+    if (!session.nodes.some(node => node.id === nodeId)) {
+      return res.status(404).json({ error: 'Node not found' });
+    }
+    
+    const path = await getAncestorPath(sessionId, nodeId);
+    
+    res.json({
+      node: path[path.length - 1],
+      ancestors: path.slice(0, -1)
+    });
+    
+  } catch (error) {
+    console.error('Node retrieval error:', error);
+    res.status(500).json({ error: 'Failed to retrieve node' });
+  }
+});
+
+/**
+ * PATCH /api/session/:id/node/:nodeId
+ * 
+ * Edits the text of a prompt node: the root topic or a follow-up question.
+ * Responses cannot be edited; regenerate them instead.
+ * 
+ * Request Body:
+ * - text: New prompt text (1-1000 characters)
+ * 
+ * Response:
+ * - node: The edited node
+ * - staleNodeIds: IDs of all stale nodes in the session after the change
+ * 
+ * Error Responses:
+ * - 400: Invalid IDs or text, or the node is not a prompt
+ * - 404: Session or node not found
+ * - 410: Session expired or evicted
+ * - 500: Server error
+ * 
+ * @example
+ * PATCH /api/session/123e4567-e89b-12d3-a456-426614174000/node/9b2f6c1e-8d4a-4f3b-a1c2-5e6f7a8b9c0d
+ * { "text": "What about a weekly schedule?" }
+ */
+app.patch('/api/session/:id/node/:nodeId', validateNodeUpdateRequest, async (req, res) => {
+  try {
+    const { id: sessionId, nodeId } = req.params;
+    const { text }: NodeUpdateRequest = req.body;
+    
+    const session = await getSession(sessionId);
+    
+    if (!session) {
+      return sendMissingSession(res, sessionId);
+    }
+    
+    const node = session.nodes.find(candidate => candidate.id === nodeId);
+    if (!node) {
+      return res.status(404).json({ error: 'Node not found' });
+    }
+    
+    if (node.type !== 'prompt') {
+      return res.status(400).json({ error: 'Only prompt nodes can be edited' });
+    }
+    
+    const updated = await updatePromptText(sessionId, nodeId, text);
+    
+    res.json({ node: updated, staleNodeIds: await getStaleNodeIds(sessionId) });
+    
+  } catch (error) {
+    console.error('Node update error:', error);
+    res.status(500).json({ error: 'Failed to update node' });
+  }
+});
+
+/**
+ * DELETE /api/session/:id/node/:nodeId
+ * 
+ * Deletes a node together with its whole subtree, and every edge that
+ * touches a deleted node. Used to prune dead-end branches, and to undo
+ * expansions. The most recent deletions can be restored.
+ * 
+ * Response:
+ * - deletedNodeIds: The node and all of its descendants
+ * - deletedEdgeIds: Edges removed with them
+ * 
+ * Error Responses:
+ * - 400: Invalid IDs, or the node is the root prompt
+ * - 404: Session or node not found
+ * - 410: Session expired or evicted
+ * - 500: Server error
+ * 
+ * @example
+ * DELETE /api/session/123e4567-e89b-12d3-a456-426614174000/node/9b2f6c1e-8d4a-4f3b-a1c2-5e6f7a8b9c0d
+ */
+app.delete('/api/session/:id/node/:nodeId', validateSessionNodeRequest, async (req, res) => {
+  try {
+    const { id: sessionId, nodeId } = req.params;
+    
+    const session = await getSession(sessionId);
+    
+    if (!session) {
+      return sendMissingSession(res, sessionId);
+    }
+    
+    const node = session.nodes.find(candidate => candidate.id === nodeId);
+    if (!node) {
+      return res.status(404).json({ error: 'Node not found' });
+    }
+    
+    if (!node.parentId) {
+      return res.status(400).json({ error: 'The root prompt cannot be deleted; delete the session instead' });
+    }
+    
+    res.json(await deleteSubtree(sessionId, nodeId));
+    
+  } catch (error) {
+    console.error('Node deletion error:', error);
+    res.status(500).json({ error: 'Failed to delete node' });
+  }
+});
+
+/**
+ * POST /api/session/:id/node/:nodeId/restore
+ * 
+ * Undoes a deletion: puts a recently deleted node and its subtree back
+ * exactly as they were. Used by the client's undo/redo history.
+ * 
+ * Response:
+ * - nodes: The restored nodes
+ * - edges: The restored edges
+ * - staleNodeIds: IDs of all stale nodes in the session after the change
+ * 
+ * Error Responses:
+ * - 400: Invalid session or node ID format
+ * - 404: Session not found, or no recent deletion of this node
+ * - 409: The deleted node's parent no longer exists
+ * - 410: Session expired or evicted
+ * - 413: Session node limit reached
+ * - 500: Server error
+ * 
+ * @example
+ * POST /api/session/123e4567-e89b-12d3-a456-426614174000/node/9b2f6c1e-8d4a-4f3b-a1c2-5e6f7a8b9c0d/restore
+ */
+app.post('/api/session/:id/node/:nodeId/restore', validateSessionNodeRequest, async (req, res) => {
+  try {
+    const { id: sessionId, nodeId } = req.params;
+    
+    const session = await getSession(sessionId);
+    
+    if (!session) {
+      return sendMissingSession(res, sessionId);
+    }
+    
+    const entry = session.deletedSubtrees?.find(candidate => candidate.rootId === nodeId);
+    if (!entry) {
+      return res.status(404).json({ error: 'Nothing to restore for this node' });
+    }
+    
+    const root = entry.nodes.find(node => node.id === nodeId);
+    if (!root?.parentId || !session.nodes.some(node => node.id === root.parentId)) {
+      return res.status(409).json({ error: 'The parent of the deleted node no longer exists' });
+    }
+    
+    if (!hasRoomForNodes(session, entry.nodes.length)) {
+      return sendSessionFull(res);
+    }
+    
+    const restored = await restoreSubtree(sessionId, nodeId);
+    
+    res.json({ ...restored, staleNodeIds: await getStaleNodeIds(sessionId) });
+    
+  } catch (error) {
+    console.error('Node restore error:', error);
+    res.status(500).json({ error: 'Failed to restore node' });
+  }
+});
+
+/**
+ * PATCH /api/session/:id/positions
+ * 
+ * Saves node positions from the graph view in one batch, so hand-arranged
+ * layouts are restored when the session is reopened or shared. Nodes can
+ * be pinned (kept in place by the force layout) or unpinned at the same time.
+ * 
+ * Request Body:
+ * - positions: Array of { nodeId, x, y, pinned? } (1-1000 entries)
+ * 
+ * Response:
+ * - updatedNodeIds: Nodes whose position was saved; nodes deleted in the
+ *   meantime are skipped
+ * 
+ * Error Responses:
+ * - 400: Invalid session ID or positions
+ * - 404: Session not found
+ * - 410: Session expired or evicted
+ * - 500: Server error
+ * 
+ * @example
+ * PATCH /api/session/123e4567-e89b-12d3-a456-426614174000/positions
+ * { "positions": [{ "nodeId": "9b2f6c1e-8d4a-4f3b-a1c2-5e6f7a8b9c0d", "x": 420, "y": 180, "pinned": true }] }
+ */
+app.patch('/api/session/:id/positions', validateNodePositionsRequest, async (req, res) => {
+  try {
+    const sessionId = req.params.id;
+    const { positions }: NodePositionsRequest = req.body;
+    
+    if (!await getSession(sessionId)) {
+      return sendMissingSession(res, sessionId);
+    }
+    
+    const updated = await updateNodePositions(sessionId, positions);
+    
+    res.json({ updatedNodeIds: updated.map(node => node.id) });
+    
+  } catch (error) {
+    console.error('Position save error:', error);
+    res.status(500).json({ error: 'Failed to save node positions' });
+  }
+});
+
+/**
+ * POST /api/branch
+ * 
+ * Branches an existing conversation by generating new personality responses.
+ * Allows users to explore deeper into any personality's response.
+ * Responses are only saved once every personality has answered;
+ * POST /api/branch/jobs saves each one as soon as it is done.
+ * 
+ * Process:
+ * 1. Validates session and node existence
+ * 2. Walks the node's ancestors back to the root prompt to build the conversation
+ * 3. Generates new responses from the session's personalities, optionally
+ *    incorporating the follow-up prompt
+ * 4. Adds new nodes and edges to the session
+ * 5. Returns new graph elements
+ * 
+ * Request Body:
+ * - sessionId: UUID of the session to branch
+ * - nodeId: UUID of the node to branch from
+ * - prompt: Optional follow-up question (1-500 characters)
+ * 
+ * Response:
+ * - newNodes: Array of new nodes added to the graph
+ * - newEdges: Array of new edges added to the graph
+ * 
+ * Security:
+ * - Rate limited (60 requests/minute per IP)
+ * - Input validation for UUIDs and optional prompt
+ * - Session and node existence validation
+ * - Per-session node limit
+ * - XSS prevention through HTML escaping
+ * 
+ * Error Responses:
+ * - 404: Session or node not found
+ * - 409: Some of the session's personas no longer exist
+ * - 410: Session expired or evicted
+ * - 413: Session has reached its node limit
+ * - 500: Server error
+ * 
+ * @example
+ * POST /api/branch
+ * {
+ *   "sessionId": "uuid-here",
+ *   "nodeId": "node-uuid-here",
+ *   "prompt": "What about funding challenges?"
+ * }
+ */
+app.post('/api/branch', validateBranchRequest, async (req, res) => {
+  try {
+    const { sessionId, nodeId, prompt: followUpPrompt }: BranchRequest = req.body;
+    
+    // Get the node to branch from
+    const session = await getSession(sessionId);
+    if (!session) {
+      return sendMissingSession(res, sessionId);
+    }
+    
+    const parentNode = session.nodes.find(node => node.id === nodeId);
+    if (!parentNode) {
+      return res.status(404).json({ error: 'Node not found' });
+    }
+    
+    const missingPersonas = findUnknownPersonas(session.personas);
+    if (missingPersonas.length > 0) {
+      return sendMissingPersonas(res, missingPersonas);
+    }
+    
+    const personas = resolvePersonas(session.personas);
+    if (!hasRoomForNodes(session, personas.length + (followUpPrompt ? 1 : 0))) {
+      return sendSessionFull(res);
+    }
+    
+    console.info(`🌳 Forum branch request: node ${nodeId} in session ${sessionId} from IP: ${req.ip}`);
+    if (followUpPrompt) {
+      console.info(`📝 Follow-up prompt: "${followUpPrompt.substring(0, 100)}..."`);
+    }
+    
+    // Generate personality responses for the branch, giving every
+    // personality the conversation from the root prompt to this node
+    const ancestors = await getAncestorPath(sessionId, nodeId);
+    const personalityResponses = await generatePersonalityBranch(parentNode.text, followUpPrompt, personas, ancestors);
+    
+    if (personalityResponses.length === 0) {
+      return res.status(500).json({ error: 'Failed to generate personality branch responses' });
+    }
+    
+    // Add branch to session with personality responses
+    const { newNodes, newEdges } = await addBranch(sessionId, nodeId, personalityResponses, followUpPrompt);
+    
+    console.info(`✅ Forum branch added: ${newNodes.length} nodes, ${newEdges.length} edges`);
+    
+    res.json({
+      newNodes,
+      newEdges
+    });
+    
+  } catch (error) {
+    console.error('Forum branch API error:', error);
+    res.status(500).json({ error: 'Failed to create Forum branch' });
+  }
+});
+
+// ===================================================================
+// STREAMING API ENDPOINTS
+// ===================================================================
+
+/**
+ * Writes a typed persona stream event to an open event stream.
+ * 
+ * @param {EventStream} stream - Open SSE stream
+ * @param {PersonaStreamEvent} event - Event to send
+ */
+const sendStreamEvent = (stream: EventStream, event: PersonaStreamEvent) => {
+  stream.send(event.type, event);
+};
+
+/**
+ * Announces newly created nodes and streams persona responses into them.
+ * The generation runs as a job, so each final response is saved to the
+ * session (before its 'done' event is sent) even if the client disconnects,
+ * and a reconnecting client can follow the rest via GET /api/session/:id/jobs.
+ * 
+ * @param {EventStream} stream - Open SSE stream
+ * @param {GenerationJob} job - Job registered for the nodes
+ * @param {Node[]} nodes - New nodes (prompt and empty response nodes)
+ * @param {Edge[]} edges - Edges created alongside the nodes
+ * @param {Function} generate - Starts streaming with the given handlers
+ */
+const streamIntoNodes = async (
+  stream: EventStream,
+  job: GenerationJob,
+  nodes: Node[],
+  edges: Edge[],
+  generate: (handlers: PersonalityStreamHandlers) => Promise<unknown>
+) => {
+  nodes.forEach(node => sendStreamEvent(stream, {
+    type: 'node-created',
+    sessionId: job.sessionId,
+    node,
+    edge: edges.find(edge => edge.target === node.id),
+    jobId: job.id
+  }));
+  
+  const finished = await runJob(job.id, generate, {
+    onDelta: (nodeId, delta) => sendStreamEvent(stream, { type: 'delta', nodeId, delta }),
+    onDone: (node) => sendStreamEvent(stream, { type: 'done', node }),
+    onError: (nodeId, message) => sendStreamEvent(stream, { type: 'error', nodeId, message })
+  });
+  
+  if (finished.status === 'failed') {
+    throw new Error(finished.error);
+  }
+};
+
+/**
+ * POST /api/brainstorm/stream
+ * 
+ * Streaming variant of POST /api/brainstorm. Creates the session and its
+ * (initially empty) personality nodes immediately, then streams each
+ * persona's response token-by-token as Server-Sent Events.
+ * 
+ * Request Body:
+ * - prompt: String (1-1000 characters) - The topic to explore
+ * - personas: Optional array of persona names (default: built-in three)
+ * 
+ * Events (see PersonaStreamEvent):
+ * - node-created: Root prompt node, then one node per personality
+ * - delta: Text chunk for a personality node
+ * - done: Final text for a personality node (already saved to the session)
+ * - error: A personality or the whole request failed
+ * 
+ * The stream ends once every personality is done. Generation continues
+ * and is saved to the session even if the client disconnects early.
+ * 
+ * Error Responses (JSON, before the stream starts):
+ * - 400: Invalid input or unknown persona names
+ * 
+ * @example
+ * POST /api/brainstorm/stream
+ * {
+ *   "prompt": "Starting a tech startup"
+ * }
+ * 
+ * Response (text/event-stream):
+ * event: node-created
+ * data: {"type":"node-created","sessionId":"uuid-here","node":{...}}
+ */
+app.post('/api/brainstorm/stream', validateBrainstormRequest, async (req, res) => {
+  const { prompt, personas: personaNames }: BrainstormRequest = req.body;
+  
+  const unknownPersonas = findUnknownPersonas(personaNames);
+  if (unknownPersonas.length > 0) {
+    return res.status(400).json({ error: 'Unknown personas', details: unknownPersonas });
+  }
+  
+  console.info(`🎭 Forum streaming brainstorm request: "${prompt.substring(0, 100)}..." from IP: ${req.ip}`);
+  
+  const stream = openEventStream(res);
+  
+  try {
+    // Create the session up front so nodes can be rendered before text arrives
+    const personas = resolvePersonas(personaNames);
+    const session = await createSession(prompt, getPersonalityPlaceholders(personas), personas.map(persona => persona.name));
+    const job = createJob({ kind: 'brainstorm', sessionId: session.id, nodes: session.nodes });
+    
+    await streamIntoNodes(stream, job, session.nodes, session.edges, 
+      (handlers) => streamPersonalityResponses(prompt, handlers, personas)
+    );
+    
+    console.info(`✅ Forum streaming session completed: ${session.id}`);
+    
+  } catch (error) {
+    console.error('Forum streaming brainstorm API error:', error);
+    sendStreamEvent(stream, { type: 'error', message: 'Failed to generate Forum brainstorm responses' });
+  } finally {
+    stream.close();
+  }
+});
+
+/**
+ * POST /api/branch/stream
+ * 
+ * Streaming variant of POST /api/branch. Adds the follow-up prompt node
+ * (if any) and empty personality nodes to the session immediately, then
+ * streams each persona's response as Server-Sent Events.
+ * 
+ * Request Body:
+ * - sessionId: UUID of the session to branch
+ * - nodeId: UUID of the node to branch from
+ * - prompt: Optional follow-up question (1-500 characters)
+ * 
+ * Events: Same as POST /api/brainstorm/stream
+ * 
+ * Error Responses (JSON, before the stream starts):
+ * - 404: Session or node not found
+ * - 409: Some of the session's personas no longer exist
+ * - 410: Session expired or evicted
+ * - 413: Session has reached its node limit
+ * - 500: Server error
+ */
+app.post('/api/branch/stream', validateBranchRequest, async (req, res) => {
+  const { sessionId, nodeId, prompt: followUpPrompt }: BranchRequest = req.body;
+  
+  // Lookups fail with a plain 500; once the stream is open, errors become stream events
+  let stream: EventStream | null = null;
+  
+  try {
+    const session = await getSession(sessionId);
+    if (!session) {
+      return sendMissingSession(res, sessionId);
+    }
+    
+    const parentNode = session.nodes.find(node => node.id === nodeId);
+    if (!parentNode) {
+      return res.status(404).json({ error: 'Node not found' });
+    }
+    
+    const missingPersonas = findUnknownPersonas(session.personas);
+    if (missingPersonas.length > 0) {
+      return sendMissingPersonas(res, missingPersonas);
+    }
+    
+    const personas = resolvePersonas(session.personas);
+    if (!hasRoomForNodes(session, personas.length + (followUpPrompt ? 1 : 0))) {
+      return sendSessionFull(res);
+    }
+    
+    console.info(`🌳 Forum streaming branch request: node ${nodeId} in session ${sessionId} from IP: ${req.ip}`);
+    
+    stream = openEventStream(res);
+    
+    const ancestors = await getAncestorPath(sessionId, nodeId);
+    const { newNodes, newEdges } = await addBranch(sessionId, nodeId, getPersonalityPlaceholders(personas), followUpPrompt);
+    const job = createJob({ kind: 'branch', sessionId, parentNodeId: nodeId, nodes: newNodes });
+    
+    await streamIntoNodes(stream, job, newNodes, newEdges,
+      (handlers) => streamPersonalityBranch(parentNode.text, followUpPrompt, handlers, personas, ancestors)
+    );
+    
+    console.info(`✅ Forum streaming branch completed: ${newNodes.length} nodes, ${newEdges.length} edges`);
+    
+  } catch (error) {
+    console.error('Forum streaming branch API error:', error);
+    if (stream) {
+      sendStreamEvent(stream, { type: 'error', message: 'Failed to create Forum branch' });
+    } else {
+      res.status(500).json({ error: 'Failed to create Forum branch' });
+    }
+  } finally {
+    stream?.close();
+  }
+});
+
+// ===================================================================
+// GENERATION JOB ENDPOINTS
+// ===================================================================
+
+/**
+ * Runs a job in the background, after the response has been sent.
+ * 
+ * @param {GenerationJob} job - Registered job
+ * @param {Function} generate - Starts streaming with the given handlers
+ */
+const startJobInBackground = (job: GenerationJob, generate: (handlers: PersonalityStreamHandlers) => Promise<unknown>) => {
+  runJob(job.id, generate).catch(error => {
+    console.error(`Failed to run job ${job.id}:`, error);
+  });
+};
+
+/**
+ * POST /api/brainstorm/jobs
+ * 
+ * Job variant of POST /api/brainstorm. Creates the session with empty
+ * personality nodes, starts generating in the background and responds
+ * right away. Each response is committed to the session as soon as its
+ * persona finishes; poll GET /api/jobs/:id for progress.
+ * 
+ * Request Body: Same as POST /api/brainstorm
+ * 
+ * Response (202):
+ * - job: The started job (sessionId, per-persona progress)
+ * - nodes: Root prompt and empty response nodes
+ * - edges: Edges connecting them
+ * 
+ * Error Responses:
+ * - 400: Invalid input or unknown persona names
+ * - 500: Server error
+ * 
+ * @example
+ * POST /api/brainstorm/jobs
+ * {
+ *   "prompt": "Starting a tech startup"
+ * }
+ */
+app.post('/api/brainstorm/jobs', validateBrainstormRequest, async (req, res) => {
+  try {
+    const { prompt, personas: personaNames }: BrainstormRequest = req.body;
+    
+    const unknownPersonas = findUnknownPersonas(personaNames);
+    if (unknownPersonas.length > 0) {
+      return res.status(400).json({ error: 'Unknown personas', details: unknownPersonas });
+    }
+    
+    console.info(`🎭 Forum brainstorm job request: "${prompt.substring(0, 100)}..." from IP: ${req.ip}`);
+    
+    const personas = resolvePersonas(personaNames);
+    const session = await createSession(prompt, getPersonalityPlaceholders(personas), personas.map(persona => persona.name));
+    const job = createJob({ kind: 'brainstorm', sessionId: session.id, nodes: session.nodes });
+    startJobInBackground(job, (handlers) => streamPersonalityResponses(prompt, handlers, personas));
+    
+    const response: GenerationJobResponse = { job, nodes: session.nodes, edges: session.edges };
+    res.status(202).json(response);
+    
+  } catch (error) {
+    console.error('Forum brainstorm job API error:', error);
+    res.status(500).json({ error: 'Failed to start Forum brainstorm' });
+  }
+});
+
+/**
+ * POST /api/branch/jobs
+ * 
+ * Job variant of POST /api/branch. Adds the follow-up prompt node (if any)
+ * and empty personality nodes, starts generating in the background and
+ * responds right away.
+ * 
+ * Request Body: Same as POST /api/branch
+ * 
+ * Response (202): Same as POST /api/brainstorm/jobs
+ * 
+ * Error Responses:
+ * - 404: Session or node not found
+ * - 409: Some of the session's personas no longer exist
+ * - 410: Session expired or evicted
+ * - 413: Session has reached its node limit
+ * - 500: Server error
+ */
+app.post('/api/branch/jobs', validateBranchRequest, async (req, res) => {
+  try {
+    const { sessionId, nodeId, prompt: followUpPrompt }: BranchRequest = req.body;
+    
+    const session = await getSession(sessionId);
+    if (!session) {
+      return sendMissingSession(res, sessionId);
+    }
+    
+    const parentNode = session.nodes.find(node => node.id === nodeId);
+    if (!parentNode) {
+      return res.status(404).json({ error: 'Node not found' });
+    }
+    
+    const missingPersonas = findUnknownPersonas(session.personas);
+    if (missingPersonas.length > 0) {
+      return sendMissingPersonas(res, missingPersonas);
+    }
+    
+    const personas = resolvePersonas(session.personas);
+    if (!hasRoomForNodes(session, personas.length + (followUpPrompt ? 1 : 0))) {
+      return sendSessionFull(res);
+    }
+    
+    console.info(`🌳 Forum branch job request: node ${nodeId} in session ${sessionId} from IP: ${req.ip}`);
+    
+    const ancestors = await getAncestorPath(sessionId, nodeId);
+    const { newNodes, newEdges } = await addBranch(sessionId, nodeId, getPersonalityPlaceholders(personas), followUpPrompt);
+    const job = createJob({ kind: 'branch', sessionId, parentNodeId: nodeId, nodes: newNodes });
+    startJobInBackground(job, (handlers) => streamPersonalityBranch(parentNode.text, followUpPrompt, handlers, personas, ancestors));
+    
+    const response: GenerationJobResponse = { job, nodes: newNodes, edges: newEdges };
+    res.status(202).json(response);
+    
+  } catch (error) {
+    console.error('Forum branch job API error:', error);
+    res.status(500).json({ error: 'Failed to start Forum branch' });
+  }
+});
+
+/**
+ * GET /api/jobs/:id
+ * 
+ * Reports a generation job's progress: its status and, per persona, the
+ * text generated so far and the committed node once it is done. Finished
+ * jobs can be looked up for a few minutes.
+ * 
+ * Error Responses:
+ * - 400: Invalid job ID format
+ * - 404: Job not found (unknown, or finished too long ago)
+ * 
+ * @example
+ * GET /api/jobs/123e4567-e89b-12d3-a456-426614174000
+ */
+app.get('/api/jobs/:id', validateJobRequest, (req, res) => {
+  const job = getJob(req.params.id);
+  
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+  
+  res.json(job);
+});
+
+/**
+ * DELETE /api/jobs/:id
+ * 
+ * Cancels a running generation job. Generation stops right away, so no
+ * more model calls are made for it. A branch job's nodes are deleted as
+ * well (restorable like any other deletion); a brainstorm job keeps its
+ * session with the responses finished so far.
+ * 
+ * Response:
+ * - job: The cancelled job
+ * - deletedNodeIds: Nodes of the discarded branch
+ * 
+ * Error Responses:
+ * - 400: Invalid job ID format
+ * - 404: Job not found
+ * - 409: Job already finished
+ * - 500: Server error
+ * 
+ * @example
+ * DELETE /api/jobs/123e4567-e89b-12d3-a456-426614174000
+ */
+app.delete('/api/jobs/:id', validateJobRequest, async (req, res) => {
+  try {
+    const job = getJob(req.params.id);
+    
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    
+    if (job.status !== 'running') {
+      return res.status(409).json({ error: 'Job already finished' });
+    }
+    
+    const response: JobCancelResponse = await cancelJob(job.id);
+    res.json(response);
+    
+  } catch (error) {
+    console.error('Job cancellation error:', error);
+    res.status(500).json({ error: 'Failed to cancel job' });
+  }
+});
+
+/**
+ * GET /api/session/:id/jobs
+ * 
+ * Lists a session's running and recently finished generation jobs, so a
+ * client that reconnects can pick up generations that are still going.
+ * Jobs started by the streaming endpoints are included.
+ * 
+ * Response:
+ * - jobs: The session's jobs, oldest first
+ * 
+ * Error Responses:
+ * - 400: Invalid session ID format
+ * - 404: Session not found
+ * - 410: Session expired or evicted
+ * - 500: Server error
+ */
+app.get('/api/session/:id/jobs', validateSessionJobsRequest, async (req, res) => {
+  try {
+    const sessionId = req.params.id;
+    
+    const session = await getSession(sessionId);
+    if (!session) {
+      return sendMissingSession(res, sessionId);
+    }
+    
+    const response: SessionJobsResponse = { jobs: listSessionJobs(sessionId) };
+    res.json(response);
+    
+  } catch (error) {
+    console.error('Session jobs retrieval error:', error);
+    res.status(500).json({ error: 'Failed to retrieve session jobs' });
+  }
+});
+
+// ===================================================================
+// PERSONA REGISTRY ENDPOINTS
+// ===================================================================
+
+/**
+ * GET /api/personas
+ * 
+ * Lists every registered personality, built-ins first.
+ * 
+ * Response:
+ * - personas: Array of persona configurations
+ * 
+ * @example
+ * GET /api/personas
+ */
+app.get('/api/personas', (req, res) => {
+  res.json({ personas: listPersonas() });
+});
+
+/**
+ * GET /api/personas/:name
+ * 
+ * Retrieves a single persona configuration.
+ * 
+ * Error Responses:
+ * - 404: Persona not found
+ */
+app.get('/api/personas/:name', (req, res) => {
+  const persona = getPersona(req.params.name);
+  
+  if (!persona) {
+    return res.status(404).json({ error: 'Persona not found' });
+  }
+  
+  res.json(persona);
+});
+
+/**
+ * POST /api/personas
+ * 
+ * Registers a new personality that sessions can opt into.
+ * 
+ * Request Body:
+ * - name: Unique lowercase slug (e.g. "domain-expert")
+ * - systemPrompt: Instructions defining the personality (10-2000 characters)
+ * - label: Optional display name (defaults to the name)
+ * - color: Optional palette name or hex color (default: blue)
+ * - temperature: Optional sampling temperature 0-2 (default: 0.7)
+ * - model: Optional model override
+ * 
+ * Error Responses:
+ * - 400: Invalid input
+ * - 409: A persona with this name already exists
+ * 
+ * @example
+ * POST /api/personas
+ * {
+ *   "name": "domain-expert",
+ *   "label": "Domain Expert",
+ *   "systemPrompt": "You are a seasoned domain expert...",
+ *   "color": "#8b5cf6"
+ * }
+ */
+app.post('/api/personas', validatePersonaCreateRequest, (req, res) => {
+  try {
+    const request: PersonaCreateRequest = req.body;
+    
+    if (getPersona(request.name)) {
+      return res.status(409).json({ error: 'Persona already exists' });
+    }
+    
+    res.status(201).json(createPersona(request));
+    
+  } catch (error) {
+    console.error('Persona creation error:', error);
+    res.status(500).json({ error: 'Failed to create persona' });
+  }
+});
+
+/**
+ * PATCH /api/personas/:name
+ * 
+ * Updates a persona's label, system prompt, color, temperature or model.
+ * Built-in personalities can be tuned as well. Changes apply to future
+ * generations; existing nodes keep their text and color.
+ * 
+ * Error Responses:
+ * - 400: Invalid input
+ * - 404: Persona not found
+ */
+app.patch('/api/personas/:name', validatePersonaUpdateRequest, (req, res) => {
+  try {
+    const { label, systemPrompt, color, temperature, model }: PersonaUpdateRequest = req.body;
+    
+    if (!getPersona(req.params.name)) {
+      return res.status(404).json({ error: 'Persona not found' });
+    }
+    
+    res.json(updatePersona(req.params.name, { label, systemPrompt, color, temperature, model }));
+    
+  } catch (error) {
+    console.error('Persona update error:', error);
+    res.status(500).json({ error: 'Failed to update persona' });
+  }
+});
+
+/**
+ * DELETE /api/personas/:name
+ * 
+ * Removes a custom persona. Sessions that included it keep their existing
+ * nodes but no longer generate responses for it.
+ * 
+ * Error Responses:
+ * - 400: Built-in personas cannot be deleted
+ * - 404: Persona not found
+ */
+app.delete('/api/personas/:name', (req, res) => {
+  try {
+    const persona = getPersona(req.params.name);
+    
+    if (!persona) {
+      return res.status(404).json({ error: 'Persona not found' });
+    }
+    
+    if (persona.builtIn) {
+      return res.status(400).json({ error: 'Built-in personas cannot be deleted' });
+    }
+    
+    deletePersona(persona.name);
+    res.status(204).end();
+    
+  } catch (error) {
+    console.error('Persona deletion error:', error);
+    res.status(500).json({ error: 'Failed to delete persona' });
+  }
+});
+
+// ===================================================================
+// MONITORING AND HEALTH ENDPOINTS
+// ===================================================================
+
+/**
+ * GET /api/stats
+ * 
+ * Provides server statistics for monitoring and analytics.
+ * Includes session data, security configuration, and system metrics.
+ * 
+ * Response:
+ * - totalSessions: Number of active sessions
+ * - totalNodes: Total nodes across all sessions
+ * - totalEdges: Total edges across all sessions
+ * - averageNodesPerSession: Average conversation complexity
+ * - rateLimitWindow: Current rate limit window
+ * - rateLimitMax: Current rate limit maximum
+ * - corsOrigin: Configured CORS origin
+ * - timestamp: Current server timestamp
+ * 
+ * @example
+ * GET /api/stats
+ */
+app.get('/api/stats', async (req, res) => {
+  try {
+    const stats = await getSessionStats();
+    
+    // Add security information to stats
+    const securityStats = {
+      ...stats,
+      rateLimitWindow: process.env.RATE_LIMIT_WINDOW || '1m',
+      rateLimitMax: parseInt(process.env.RATE_LIMIT_MAX || '60'),
+      corsOrigin: process.env.CORS_ORIGIN || 'http://localhost:5173',
+      timestamp: new Date().toISOString()
+    };
+    
+    res.json(securityStats);
+  } catch (error) {
+    console.error('Stats API error:', error);
+    res.status(500).json({ error: 'Failed to retrieve statistics' });
+  }
+});
+
+/**
+ * GET /api/health
+ * 
+ * Health check endpoint for monitoring system availability.
+ * Provides basic system information and uptime metrics.
+ * 
+ * Response:
+ * - status: 'healthy' if system is operational
+ * - service: Service name ('Forum')
+ * - personalities: Names of all registered AI personalities
+ * - llm: Active LLM provider and model, or null when using fallbacks
+ * - llmCircuit: State of the LLM circuit breaker ('closed', 'open' or 'half-open')
+ * - timestamp: Current server timestamp
+ * - uptime: Server uptime in seconds
+ * 
+ * @example
+ * GET /api/health
+ */
+app.get('/api/health', (req, res) => {
+  res.json({
+    status: 'healthy',
+    service: 'Forum',
+    personalities: listPersonas().map(persona => persona.name),
+    llm: getLLMProvider()?.getModelInfo() ?? null,
+    llmCircuit: getLLMCircuitBreaker().getState(),
+    timestamp: new Date().toISOString(),
+    uptime: process.uptime()
+  });
+});
+
+// ===================================================================
+// ERROR HANDLING MIDDLEWARE
+// ===================================================================
+
+// Security-specific error handling
+app.use(securityErrorHandler);
+
+/**
+ * Global error handler for unhandled errors.
+ * Provides consistent error responses and logging.
+ * 
+ * Development vs Production:
+ * - Development: Detailed error messages for debugging
+ * - Production: Generic error messages to avoid information leakage
+ * 
+ * @param {any} err - Error object
+ * @param {express.Request} req - Express request object
+ * @param {express.Response} res - Express response object
+ * @param {express.NextFunction} next - Express next function
+ */
+app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  console.error('Unhandled error:', err);
+  res.status(500).json({ 
+    error: 'Internal server error',
+    message: process.env.NODE_ENV === 'development' ? err.message : 'Something went wrong'
+  });
+});
+
+// ===================================================================
+// SERVER STARTUP
+// ===================================================================
+
+// Remove idle sessions and enforce the session cap in the background
+startSessionSweeper();
 
 /**
  * Starts the Forum server with comprehensive logging.
@@ -409,11 +1901,13 @@ app.use((err: any, req: express.Request, res: express.Response, next: express.Ne
 app.listen(port, () => {
   console.log(`🎭 Forum Server running on port ${port}`);
   console.log(`📡 API available at http://localhost:${port}/api`);
-  console.log(`🎨 Three personalities ready: Optimist, Pessimist, Realist`);
+  console.log(`🎨 Personalities ready: ${listPersonas().map(persona => persona.label).join(', ')}`);
   console.log(`🔒 Security features enabled:`);
   console.log(`   - Rate limiting: ${process.env.RATE_LIMIT_MAX || '60'} requests per ${process.env.RATE_LIMIT_WINDOW || '1m'}`);
   console.log(`   - CORS origin: ${process.env.CORS_ORIGIN || 'http://localhost:5173'}`);
   console.log(`   - Security headers: Helmet enabled`);
   console.log(`   - Input validation: Express-validator enabled`);
   console.log(`   - Response size limit: 64KB`);
+  const limits = getSessionLimits();
+  console.log(`🧹 Session limits: ${limits.maxNodesPerSession || 'unlimited'} nodes/session, ${limits.maxSessions || 'unlimited'} sessions, idle TTL ${limits.idleTtlMs ? `${limits.idleTtlMs / 60000}m` : 'none'}`);
 });
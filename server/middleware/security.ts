@@ -38,8 +38,9 @@
 import rateLimit from 'express-rate-limit';
 import cors from 'cors';
 import helmet from 'helmet';
-import { body, validationResult } from 'express-validator';
+import { body, param, query, validationResult } from 'express-validator';
 import type { Request, Response, NextFunction } from 'express';
+import { EXPORT_FORMATS, IMPORT_FORMATS } from '../../shared/types.js';
 
 // ===================================================================
 // RATE LIMITING CONFIGURATION
@@ -171,12 +172,23 @@ export const helmetOptions = {
 // INPUT VALIDATION MIDDLEWARE
 // ===================================================================
 
+/**
+ * Allowed persona names: lowercase slug, e.g. 'domain-expert'.
+ */
+const PERSONA_NAME_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/**
+ * Allowed persona colors: a palette name (e.g. 'green') or a hex color.
+ */
+const PERSONA_COLOR_PATTERN = /^(?:[a-z]{3,20}|#[0-9a-fA-F]{3}|#[0-9a-fA-F]{6})$/;
+
 /**
  * Validation middleware for brainstorm request endpoints.
  * Ensures user prompts are safe and within acceptable limits.
  * 
  * Validation Rules:
  * - prompt: String, 1-1000 characters, trimmed, HTML-escaped
+ * - personas: Optional array of 1-8 persona names
  * - Prevents XSS attacks through input sanitization
  * - Returns structured error responses for invalid input
  * 
@@ -191,6 +203,16 @@ export const validateBrainstormRequest = [
     .withMessage('Prompt must be a string between 1 and 1000 characters')
     .escape(), // Escape HTML to prevent XSS
   
+  body('personas')
+    .optional()
+    .isArray({ min: 1, max: 8 })
+    .withMessage('Personas must be an array of 1 to 8 persona names'),
+  
+  body('personas.*')
+    .isString()
+    .matches(PERSONA_NAME_PATTERN)
+    .withMessage('Persona names must be lowercase letters, digits and dashes'),
+  
   (req: Request, res: Response, next: NextFunction) => {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -245,6 +267,499 @@ export const validateBranchRequest = [
   }
 ];
 
+/**
+ * Validation middleware for session listing queries.
+ * 
+ * Validation Rules:
+ * - page: Optional integer of at least 1
+ * - pageSize: Optional integer between 1 and 100
+ * - order: Optional 'asc' or 'desc' (creation time)
+ * 
+ * @example
+ * app.get('/api/sessions', validateSessionListQuery, handler);
+ */
+export const validateSessionListQuery = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer')
+    .toInt(),
+  
+  query('pageSize')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Page size must be an integer between 1 and 100')
+    .toInt(),
+  
+  query('order')
+    .optional()
+    .isIn(['asc', 'desc'])
+    .withMessage("Order must be 'asc' or 'desc'"),
+  
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        details: errors.array().map(err => err.msg)
+      });
+    }
+    next();
+  }
+];
+
+/**
+ * Validation middleware for session export requests.
+ * 
+ * Validation Rules:
+ * - id: Valid UUID format
+ * - format: One of markdown, opml, mermaid, graphml, dot or json
+ * 
+ * @example
+ * app.get('/api/session/:id/export', validateSessionExportQuery, handler);
+ */
+export const validateSessionExportQuery = [
+  param('id')
+    .isUUID()
+    .withMessage('Invalid session ID format'),
+  
+  query('format')
+    .isIn(EXPORT_FORMATS)
+    .withMessage(`Format must be one of: ${EXPORT_FORMATS.join(', ')}`),
+  
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        details: errors.array().map(err => err.msg)
+      });
+    }
+    next();
+  }
+];
+
+/**
+ * Validation middleware for session import requests.
+ * 
+ * Validation Rules:
+ * - content: Non-empty string of at most 1,000,000 characters (not escaped;
+ *   imported texts are stored like generated responses)
+ * - format: Optional markdown, opml or json
+ * 
+ * @example
+ * app.post('/api/import', validateSessionImportRequest, handler);
+ */
+export const validateSessionImportRequest = [
+  body('content')
+    .isString()
+    .isLength({ min: 1, max: 1000000 })
+    .withMessage('Content must be a non-empty string of at most 1,000,000 characters'),
+  
+  body('format')
+    .optional()
+    .isIn(IMPORT_FORMATS)
+    .withMessage(`Format must be one of: ${IMPORT_FORMATS.join(', ')}`),
+  
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        details: errors.array().map(err => err.msg)
+      });
+    }
+    next();
+  }
+];
+
+/**
+ * Maximum number of node positions saved in one request.
+ */
+const MAX_POSITION_UPDATES = 1000;
+
+/**
+ * Validation middleware for saving node positions.
+ * 
+ * Validation Rules:
+ * - id: Valid UUID format
+ * - positions: Array of 1-1000 entries
+ * - positions[].nodeId: Valid UUID format
+ * - positions[].x, positions[].y: Numbers between -1,000,000 and 1,000,000
+ * - positions[].pinned: Optional boolean
+ * 
+ * @example
+ * app.patch('/api/session/:id/positions', validateNodePositionsRequest, handler);
+ */
+export const validateNodePositionsRequest = [
+  param('id')
+    .isUUID()
+    .withMessage('Invalid session ID format'),
+  
+  body('positions')
+    .isArray({ min: 1, max: MAX_POSITION_UPDATES })
+    .withMessage(`Positions must be an array of 1 to ${MAX_POSITION_UPDATES} entries`),
+  
+  body('positions.*.nodeId')
+    .isUUID()
+    .withMessage('Invalid node ID format'),
+  
+  body(['positions.*.x', 'positions.*.y'])
+    .isFloat({ min: -1000000, max: 1000000 })
+    .withMessage('Coordinates must be numbers between -1,000,000 and 1,000,000')
+    .toFloat(),
+  
+  body('positions.*.pinned')
+    .optional()
+    .isBoolean()
+    .withMessage('Pinned must be a boolean')
+    .toBoolean(true),
+  
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        details: errors.array().map(err => err.msg)
+      });
+    }
+    next();
+  }
+];
+
+/**
+ * Validation middleware for session rename requests.
+ * 
+ * Validation Rules:
+ * - id: Valid UUID format
+ * - title: String of at most 100 characters, trimmed, HTML-escaped
+ *   (empty restores the generated title)
+ * 
+ * @example
+ * app.patch('/api/session/:id', validateSessionUpdateRequest, handler);
+ */
+export const validateSessionUpdateRequest = [
+  param('id')
+    .isUUID()
+    .withMessage('Invalid session ID format'),
+  
+  body('title')
+    .isString()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Title must be a string of at most 100 characters')
+    .escape(),
+  
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        details: errors.array().map(err => err.msg)
+      });
+    }
+    next();
+  }
+];
+
+/**
+ * Validation middleware for editing a prompt node.
+ * 
+ * Validation Rules:
+ * - id, nodeId: Valid UUID format
+ * - text: String between 1 and 1000 characters, trimmed (not escaped; node
+ *   text is rendered as plain text or sanitized Markdown, and escaping again
+ *   on every edit would pile up entities)
+ * 
+ * @example
+ * app.patch('/api/session/:id/node/:nodeId', validateNodeUpdateRequest, handler);
+ */
+export const validateNodeUpdateRequest = [
+  param('id')
+    .isUUID()
+    .withMessage('Invalid session ID format'),
+  
+  param('nodeId')
+    .isUUID()
+    .withMessage('Invalid node ID format'),
+  
+  body('text')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 1000 })
+    .withMessage('Text must be a string between 1 and 1000 characters'),
+  
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        details: errors.array().map(err => err.msg)
+      });
+    }
+    next();
+  }
+];
+
+/**
+ * Validation middleware for requests on one node of a session.
+ * 
+ * Validation Rules:
+ * - id: Session ID, valid UUID format
+ * - nodeId: Node ID, valid UUID format
+ * 
+ * @example
+ * app.get('/api/session/:id/node/:nodeId', validateSessionNodeRequest, handler);
+ */
+export const validateSessionNodeRequest = [
+  param('id')
+    .isUUID()
+    .withMessage('Invalid session ID format'),
+  
+  param('nodeId')
+    .isUUID()
+    .withMessage('Invalid node ID format'),
+  
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        details: errors.array().map(err => err.msg)
+      });
+    }
+    next();
+  }
+];
+
+/**
+ * Validation middleware for regenerating a response node.
+ * 
+ * Validation Rules:
+ * - id: Node ID, valid UUID format
+ * - sessionId: Valid UUID format
+ * 
+ * @example
+ * app.post('/api/node/:id/regenerate', validateNodeRegenerateRequest, handler);
+ */
+export const validateNodeRegenerateRequest = [
+  param('id')
+    .isUUID()
+    .withMessage('Invalid node ID format'),
+  
+  body('sessionId')
+    .isUUID()
+    .withMessage('SessionId must be a valid UUID'),
+  
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        details: errors.array().map(err => err.msg)
+      });
+    }
+    next();
+  }
+];
+
+/**
+ * Validation middleware for choosing a node's active version.
+ * 
+ * Validation Rules:
+ * - id: Node ID, valid UUID format
+ * - sessionId: Valid UUID format
+ * - version: Non-negative integer
+ * 
+ * @example
+ * app.put('/api/node/:id/active-version', validateNodeVersionRequest, handler);
+ */
+export const validateNodeVersionRequest = [
+  param('id')
+    .isUUID()
+    .withMessage('Invalid node ID format'),
+  
+  body('sessionId')
+    .isUUID()
+    .withMessage('SessionId must be a valid UUID'),
+  
+  body('version')
+    .isInt({ min: 0 })
+    .withMessage('Version must be a non-negative integer')
+    .toInt(),
+  
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        details: errors.array().map(err => err.msg)
+      });
+    }
+    next();
+  }
+];
+
+/**
+ * Validation middleware for listing a session's generation jobs.
+ * 
+ * Validation Rules:
+ * - id: Session ID, valid UUID format
+ * 
+ * @example
+ * app.get('/api/session/:id/jobs', validateSessionJobsRequest, handler);
+ */
+export const validateSessionJobsRequest = [
+  param('id')
+    .isUUID()
+    .withMessage('Invalid session ID format'),
+  
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        details: errors.array().map(err => err.msg)
+      });
+    }
+    next();
+  }
+];
+
+/**
+ * Validation middleware for generation job requests.
+ * 
+ * Validation Rules:
+ * - id: Job ID, valid UUID format
+ * 
+ * @example
+ * app.get('/api/jobs/:id', validateJobRequest, handler);
+ * app.delete('/api/jobs/:id', validateJobRequest, handler);
+ */
+export const validateJobRequest = [
+  param('id')
+    .isUUID()
+    .withMessage('Invalid job ID format'),
+  
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        details: errors.array().map(err => err.msg)
+      });
+    }
+    next();
+  }
+];
+
+/**
+ * Validation chains shared by persona create and update requests.
+ * Every field is optional here; the create validator additionally
+ * requires `name` and `systemPrompt`. Label and prompt are not escaped:
+ * the prompt goes to the model verbatim and the label is rendered as text.
+ */
+const personaFieldValidators = [
+  body('label')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 60 })
+    .withMessage('Label must be a string between 1 and 60 characters'),
+  
+  body('systemPrompt')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 10, max: 2000 })
+    .withMessage('System prompt must be a string between 10 and 2000 characters'),
+  
+  body('color')
+    .optional()
+    .isString()
+    .matches(PERSONA_COLOR_PATTERN)
+    .withMessage('Color must be a palette name or a hex color like #3b82f6'),
+  
+  body('temperature')
+    .optional()
+    .isFloat({ min: 0, max: 2 })
+    .withMessage('Temperature must be a number between 0 and 2')
+    .toFloat(),
+  
+  body('model')
+    .optional()
+    .isString()
+    .trim()
+    .matches(/^[\w.:/-]{1,100}$/)
+    .withMessage('Model must be a valid model identifier')
+];
+
+/**
+ * Validation middleware for persona creation requests.
+ * 
+ * Validation Rules:
+ * - name: Required lowercase slug, 1-40 characters
+ * - systemPrompt: Required string, 10-2000 characters, trimmed
+ * - label: Optional string, 1-60 characters, trimmed
+ * - color: Optional palette name or hex color
+ * - temperature: Optional number between 0 and 2
+ * - model: Optional model identifier
+ * 
+ * @example
+ * app.post('/api/personas', validatePersonaCreateRequest, handler);
+ */
+export const validatePersonaCreateRequest = [
+  body('name')
+    .isString()
+    .isLength({ min: 1, max: 40 })
+    .matches(PERSONA_NAME_PATTERN)
+    .withMessage('Name must be 1-40 lowercase letters, digits and dashes'),
+  
+  body('systemPrompt')
+    .exists()
+    .withMessage('System prompt is required'),
+  
+  ...personaFieldValidators,
+  
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        details: errors.array().map(err => err.msg)
+      });
+    }
+    next();
+  }
+];
+
+/**
+ * Validation middleware for persona update requests.
+ * Same field rules as creation; every field is optional and the name
+ * comes from the URL.
+ * 
+ * @example
+ * app.patch('/api/personas/:name', validatePersonaUpdateRequest, handler);
+ */
+export const validatePersonaUpdateRequest = [
+  param('name')
+    .matches(PERSONA_NAME_PATTERN)
+    .withMessage('Invalid persona name'),
+  
+  ...personaFieldValidators,
+  
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        details: errors.array().map(err => err.msg)
+      });
+    }
+    next();
+  }
+];
+
 // ===================================================================
 // RESPONSE SIZE LIMITING
 // ===================================================================
@@ -280,7 +795,7 @@ export const limitResponseSize = (maxSize: number = 64 * 1024) => { // 64KB defa
           // Truncate node text if response is too large
           body.nodes = body.nodes.map((node: any) => ({
             ...node,
-            text: node.text.length > 200 ? node.text.substring(0, 200) + '...' : node.text
+            ...(node.text.length > 200 && { text: node.text.substring(0, 200) + '...', truncated: true })
           }));
         }
       }
@@ -0,0 +1,249 @@
+/**
+ * ===================================================================
+ * CONTEXT SERVICE - Forum AI Brainstorming Application
+ * ===================================================================
+ *
+ * This service turns a node's ancestry in the conversation graph into the
+ * transcript each personality sees when a branch is expanded. Instead of
+ * only the immediate parent's text, the model receives the original
+ * question, every follow-up and the responses along the path, so deep
+ * branches stay on-topic.
+ *
+ * Transcript Rules:
+ * - Prompt nodes become user turns
+ * - The persona's own earlier responses become assistant turns
+ * - Other personas' responses are quoted in user turns
+ * - When the transcript exceeds the token budget, the oldest turns
+ *   between the root prompt and the expanded node are condensed into a
+ *   short extractive summary
+ *
+ * Environment Variables:
+ * - BRANCH_CONTEXT_TOKEN_BUDGET: Approximate token budget for a branch
+ *   transcript (default: 1500)
+ *
+ * Dependencies:
+ * - LLM provider layer for message types
+ * - Persona registry for persona labels
+ * - Shared types for graph data structures
+ *
+ * @author Forum Development Team
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import type { LLMMessage } from './llmProvider.js';
+import { getPersona } from './personaRegistry.js';
+import type { Node, Persona } from '../../shared/types.js';
+
+// ===================================================================
+// CONTEXT CONFIGURATION
+// ===================================================================
+
+/**
+ * Default approximate token budget for a branch transcript.
+ */
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = 1500;
+
+/**
+ * Maximum length of a single summary line, in characters.
+ */
+const SUMMARY_LINE_LENGTH = 160;
+
+/**
+ * Reads the branch transcript token budget from the environment.
+ *
+ * @returns {number} Positive token budget
+ */
+export const getContextTokenBudget = (): number => {
+  const budget = parseInt(process.env.BRANCH_CONTEXT_TOKEN_BUDGET || '', 10);
+  return budget > 0 ? budget : DEFAULT_CONTEXT_TOKEN_BUDGET;
+};
+
+/**
+ * Roughly estimates the number of tokens in a text.
+ * Uses the common ~4 characters per token heuristic, which is close
+ * enough for budgeting across providers without a tokenizer.
+ *
+ * @param {string} text - Text to measure
+ * @returns {number} Estimated token count
+ */
+export const estimateTokens = (text: string): number => {
+  return Math.ceil(text.length / 4);
+};
+
+// ===================================================================
+// TRANSCRIPT HELPERS
+// ===================================================================
+
+/**
+ * A transcript turn together with the node it was built from.
+ */
+interface TranscriptTurn {
+  node: Node;
+  message: LLMMessage;
+}
+
+/**
+ * Returns the display label of a persona, falling back to its name
+ * when it is no longer registered.
+ *
+ * @param {string} name - Persona name
+ * @returns {string} Persona label
+ */
+const getPersonaLabel = (name: string): string => {
+  return getPersona(name)?.label || name;
+};
+
+/**
+ * Converts a node on the ancestor path into a turn from the given
+ * persona's point of view.
+ *
+ * @param {Node} node - Ancestor node
+ * @param {Persona} persona - Persona the transcript is built for
+ * @returns {TranscriptTurn} Transcript turn
+ */
+const toTurn = (node: Node, persona: Persona): TranscriptTurn => {
+  if (node.type === 'prompt') {
+    const content = node.parentId ? `Follow-up question: "${node.text}"` : `User prompt: "${node.text}"`;
+    return { node, message: { role: 'user', content } };
+  }
+
+  if (node.persona === persona.name) {
+    return { node, message: { role: 'assistant', content: node.text } };
+  }
+
+  return {
+    node,
+    message: { role: 'user', content: `The ${getPersonaLabel(node.persona || 'unknown')} perspective said: "${node.text}"` }
+  };
+};
+
+/**
+ * Extracts the first sentence of a text, capped at SUMMARY_LINE_LENGTH.
+ *
+ * @param {string} text - Text to shorten
+ * @returns {string} Leading sentence
+ */
+const firstSentence = (text: string): string => {
+  const sentence = (text.match(/^[\s\S]*?[.!?](?=\s|$)/)?.[0] || text).trim();
+  return sentence.length > SUMMARY_LINE_LENGTH
+    ? `${sentence.substring(0, SUMMARY_LINE_LENGTH - 1).trimEnd()}…`
+    : sentence;
+};
+
+/**
+ * Condenses older turns into a single summary message that fits the
+ * remaining budget. The oldest lines are dropped first when even the
+ * summary is too long.
+ *
+ * @param {TranscriptTurn[]} turns - Turns to summarize, oldest first
+ * @param {Persona} persona - Persona the transcript is built for
+ * @param {number} tokenBudget - Tokens available for the summary
+ * @returns {LLMMessage | null} Summary message, or null if nothing fits
+ */
+const summarizeTurns = (turns: TranscriptTurn[], persona: Persona, tokenBudget: number): LLMMessage | null => {
+  const header = 'Summary of the earlier discussion:';
+  const lines = turns.map(({ node }) => {
+    const speaker = node.type === 'prompt'
+      ? 'User'
+      : node.persona === persona.name ? 'You' : getPersonaLabel(node.persona || 'unknown');
+    return `- ${speaker}: ${firstSentence(node.text)}`;
+  });
+
+  while (lines.length > 0 && estimateTokens([header, ...lines].join('\n')) > tokenBudget) {
+    lines.shift();
+  }
+
+  return lines.length > 0 ? { role: 'user', content: [header, ...lines].join('\n') } : null;
+};
+
+/**
+ * Merges consecutive messages from the same role so providers receive
+ * strictly alternating turns.
+ *
+ * @param {LLMMessage[]} messages - Messages in order
+ * @returns {LLMMessage[]} Alternating messages
+ */
+const mergeConsecutiveTurns = (messages: LLMMessage[]): LLMMessage[] => {
+  return messages.reduce<LLMMessage[]>((merged, message) => {
+    const previous = merged[merged.length - 1];
+    if (previous && previous.role === message.role) {
+      merged[merged.length - 1] = { ...previous, content: `${previous.content}\n\n${message.content}` };
+    } else {
+      merged.push(message);
+    }
+    return merged;
+  }, []);
+};
+
+// ===================================================================
+// BRANCH TRANSCRIPT BUILDING
+// ===================================================================
+
+/**
+ * Builds the conversation transcript a persona receives when a node is
+ * expanded.
+ *
+ * The root prompt, the expanded node and the closing instruction are
+ * always included. Intermediate turns are kept newest-first while they
+ * fit the token budget; older ones are replaced by a summary.
+ *
+ * @param {Node[]} ancestors - Nodes from the root prompt down to the expanded node
+ * @param {Persona} persona - Persona the transcript is built for
+ * @param {string} [followUpPrompt] - Optional follow-up question from the user
+ * @param {number} [tokenBudget] - Approximate token budget (defaults to BRANCH_CONTEXT_TOKEN_BUDGET)
+ * @returns {LLMMessage[]} Alternating messages ending with a user turn
+ *
+ * @example
+ * const path = getAncestorPath(sessionId, nodeId);
+ * const messages = buildBranchTranscript(path, realist, 'What about funding?');
+ */
+export const buildBranchTranscript = (
+  ancestors: Node[],
+  persona: Persona,
+  followUpPrompt?: string,
+  tokenBudget: number = getContextTokenBudget()
+): LLMMessage[] => {
+  const instruction: LLMMessage = {
+    role: 'user',
+    content: followUpPrompt
+      ? `Follow-up question: "${followUpPrompt}"\n\nProvide your response as the ${persona.label} personality:`
+      : `Expand on the last point in more depth.\n\nProvide your response as the ${persona.label} personality:`
+  };
+
+  const turns = ancestors.map(node => toTurn(node, persona));
+  if (turns.length <= 2) {
+    return mergeConsecutiveTurns([...turns.map(turn => turn.message), instruction]);
+  }
+
+  const root = turns[0];
+  const last = turns[turns.length - 1];
+  const middle = turns.slice(1, -1);
+
+  let usedTokens = [root, last].reduce((total, turn) => total + estimateTokens(turn.message.content), estimateTokens(instruction.content));
+
+  // Keep the most recent intermediate turns that fit the budget
+  let keptCount = 0;
+  for (let i = middle.length - 1; i >= 0; i--) {
+    const tokens = estimateTokens(middle[i].message.content);
+    if (usedTokens + tokens > tokenBudget) break;
+    usedTokens += tokens;
+    keptCount++;
+  }
+
+  const summarized = middle.slice(0, middle.length - keptCount);
+  const kept = middle.slice(middle.length - keptCount);
+  const summary = summarized.length > 0 ? summarizeTurns(summarized, persona, tokenBudget - usedTokens) : null;
+
+  if (summarized.length > 0) {
+    console.info(`🧵 Summarized ${summarized.length} earlier turns for ${persona.name} branch context`);
+  }
+
+  return mergeConsecutiveTurns([
+    root.message,
+    ...(summary ? [summary] : []),
+    ...kept.map(turn => turn.message),
+    last.message,
+    instruction
+  ]);
+};
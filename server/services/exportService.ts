@@ -0,0 +1,472 @@
+/**
+ * ===================================================================
+ * EXPORT SERVICE - Forum AI Brainstorming Application
+ * ===================================================================
+ *
+ * Turns a session's conversation graph into documents that can be pasted
+ * into docs or opened in other mind-map and diagram tools. Every format
+ * walks the `parentId` tree from the root prompt, visiting children in
+ * the order they were added. Failed responses are exported as
+ * FAILED_RESPONSE_TEXT, never as their canned fallback text; only the JSON
+ * export keeps the fallback text, flagged with `isFallback`.
+ *
+ * Formats:
+ * - markdown: Indented outline with persona-labelled responses
+ * - opml: Outline for mind-map and outliner apps
+ * - mermaid: Flowchart definition
+ * - graphml: GraphML graph with node attributes
+ * - dot: Graphviz digraph
+ * - json: Versioned Forum export (see SessionExport)
+ *
+ * Dependencies:
+ * - Graph service for session titles
+ * - Persona registry for persona labels
+ * - Shared types for graph and export structures
+ *
+ * @author Forum Development Team
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { getSessionTitle } from './graphService.js';
+import { getPersona } from './personaRegistry.js';
+import type { ExportedNode, ExportFormat, Node, Session, SessionExport } from '../../shared/types.js';
+
+// ===================================================================
+// EXPORT CONFIGURATION
+// ===================================================================
+
+/**
+ * Current version of the JSON export schema.
+ */
+export const SESSION_EXPORT_VERSION = 1;
+
+/**
+ * Maximum label length in diagram formats (Mermaid, DOT), in characters.
+ */
+const DIAGRAM_LABEL_LENGTH = 80;
+
+/**
+ * Label given to follow-up prompts in outlines.
+ */
+export const FOLLOW_UP_LABEL = 'Follow-up';
+
+/**
+ * Text exported in place of a failed response's canned fallback text.
+ */
+export const FAILED_RESPONSE_TEXT = '(No response: generation failed)';
+
+/**
+ * Content type and file extension of each format.
+ */
+const FORMAT_FILES: Record<ExportFormat, { contentType: string, extension: string }> = {
+  markdown: { contentType: 'text/markdown; charset=utf-8', extension: 'md' },
+  opml: { contentType: 'text/x-opml; charset=utf-8', extension: 'opml' },
+  mermaid: { contentType: 'text/plain; charset=utf-8', extension: 'mmd' },
+  graphml: { contentType: 'application/graphml+xml; charset=utf-8', extension: 'graphml' },
+  dot: { contentType: 'text/vnd.graphviz; charset=utf-8', extension: 'gv' },
+  json: { contentType: 'application/json; charset=utf-8', extension: 'json' }
+};
+
+/**
+ * A rendered export ready to be sent as a download.
+ */
+export interface ExportedFile {
+  /** File contents */
+  content: string;
+
+  /** MIME type including charset */
+  contentType: string;
+
+  /** Suggested file name */
+  filename: string;
+}
+
+// ===================================================================
+// TREE HELPERS
+// ===================================================================
+
+/**
+ * Returns the display label of a persona, falling back to its name
+ * when it is no longer registered.
+ *
+ * @param {string} name - Persona name
+ * @returns {string} Persona label
+ */
+const getPersonaLabel = (name: string): string => {
+  return getPersona(name)?.label || name;
+};
+
+/**
+ * Converts a session node into an export node without children.
+ *
+ * @param {Node} node - Session node
+ * @returns {ExportedNode} Export node
+ */
+const toExportedNode = (node: Node): ExportedNode => ({
+  id: node.id,
+  type: node.type,
+  text: node.text,
+  ...(node.persona && { persona: node.persona, personaLabel: getPersonaLabel(node.persona) }),
+  ...(node.model && { model: node.model }),
+  ...(node.createdAt && { createdAt: node.createdAt }),
+  ...(node.isFallback && { isFallback: true, ...(node.error && { error: node.error }) }),
+  children: []
+});
+
+/**
+ * Builds the nested node tree of a session by walking parent links from
+ * the root prompt. Nodes that can't be reached from the root are left out.
+ *
+ * @param {Session} session - The session to export
+ * @returns {ExportedNode} The root prompt with its descendants
+ * @throws {Error} If the session has no root prompt
+ */
+export const buildExportTree = (session: Session): ExportedNode => {
+  const root = session.nodes.find(node => !node.parentId);
+  if (!root) {
+    throw new Error('Session has no root prompt');
+  }
+
+  const childrenByParent = new Map<string, Node[]>();
+  session.nodes.forEach(node => {
+    if (!node.parentId) return;
+    const siblings = childrenByParent.get(node.parentId) || [];
+    siblings.push(node);
+    childrenByParent.set(node.parentId, siblings);
+  });
+
+  const build = (node: Node): ExportedNode => ({
+    ...toExportedNode(node),
+    children: (childrenByParent.get(node.id) || []).map(build)
+  });
+
+  return build(root);
+};
+
+/**
+ * Visits every node of an export tree depth-first, parents before children.
+ *
+ * @param {ExportedNode} root - Tree to walk
+ * @param {Function} visit - Called with each node, its parent and its depth
+ */
+const walkTree = (root: ExportedNode, visit: (node: ExportedNode, parent: ExportedNode | null, depth: number) => void): void => {
+  const walk = (node: ExportedNode, parent: ExportedNode | null, depth: number) => {
+    visit(node, parent, depth);
+    node.children.forEach(child => walk(child, node, depth + 1));
+  };
+  walk(root, null, 0);
+};
+
+/**
+ * Collapses a text onto a single line.
+ *
+ * @param {string} text - Text to flatten
+ * @returns {string} Single-line text
+ */
+const toSingleLine = (text: string): string => {
+  return text.replace(/\s+/g, ' ').trim();
+};
+
+/**
+ * Returns the text a text format shows for a node. Failed responses are
+ * marked as such instead of showing their fallback text as an answer.
+ *
+ * @param {ExportedNode} node - Node to show
+ * @returns {string} Node text
+ */
+const getNodeText = (node: ExportedNode): string => {
+  return node.isFallback ? FAILED_RESPONSE_TEXT : node.text;
+};
+
+/**
+ * Returns the label shown before a node's text: the persona label for
+ * responses and "Follow-up" for follow-up prompts. The root has none.
+ *
+ * @param {ExportedNode} node - Node to label
+ * @param {ExportedNode | null} parent - The node's parent
+ * @returns {string | null} Label, or null for the root prompt
+ */
+const getNodeLabel = (node: ExportedNode, parent: ExportedNode | null): string | null => {
+  if (node.type === 'response') return node.personaLabel || node.persona || 'Response';
+  return parent ? FOLLOW_UP_LABEL : null;
+};
+
+/**
+ * Returns a node's text prefixed with its label, shortened for diagrams.
+ *
+ * @param {ExportedNode} node - Node to describe
+ * @param {ExportedNode | null} parent - The node's parent
+ * @returns {string} Diagram label
+ */
+const getDiagramLabel = (node: ExportedNode, parent: ExportedNode | null): string => {
+  const label = getNodeLabel(node, parent);
+  const text = toSingleLine(label ? `${label}: ${getNodeText(node)}` : getNodeText(node));
+  return text.length > DIAGRAM_LABEL_LENGTH
+    ? `${text.substring(0, DIAGRAM_LABEL_LENGTH - 1).trimEnd()}…`
+    : text;
+};
+
+/**
+ * Escapes text for XML attribute values and element content.
+ *
+ * @param {string} text - Text to escape
+ * @returns {string} Escaped text
+ */
+const escapeXml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+};
+
+// ===================================================================
+// FORMAT RENDERERS
+// ===================================================================
+
+/**
+ * Renders an indented Markdown outline. The root prompt becomes the
+ * heading; responses are labelled with their persona in bold.
+ *
+ * @param {ExportedNode} root - Tree to render
+ * @returns {string} Markdown document
+ */
+const toMarkdown = (root: ExportedNode): string => {
+  const lines = [`# ${toSingleLine(root.text)}`, ''];
+
+  walkTree(root, (node, parent, depth) => {
+    if (!parent) return;
+    const label = getNodeLabel(node, parent);
+    lines.push(`${'  '.repeat(depth - 1)}- **${label}:** ${toSingleLine(getNodeText(node))}`);
+  });
+
+  return `${lines.join('\n')}\n`;
+};
+
+/**
+ * Renders an OPML 2.0 outline. Outline texts carry the same labels as the
+ * Markdown export; the node type and persona are kept as extra attributes.
+ *
+ * @param {ExportedNode} root - Tree to render
+ * @param {string} title - Document title
+ * @param {string} createdAt - Session creation time (ISO-8601)
+ * @returns {string} OPML document
+ */
+const toOpml = (root: ExportedNode, title: string, createdAt: string): string => {
+  const render = (node: ExportedNode, parent: ExportedNode | null, indent: string): string => {
+    const label = getNodeLabel(node, parent);
+    const text = toSingleLine(label ? `${label}: ${getNodeText(node)}` : getNodeText(node));
+    const attributes = [
+      `text="${escapeXml(text)}"`,
+      `_type="${node.type}"`,
+      ...(node.persona ? [`_persona="${escapeXml(node.persona)}"`] : [])
+    ].join(' ');
+
+    if (node.children.length === 0) {
+      return `${indent}<outline ${attributes}/>`;
+    }
+
+    return [
+      `${indent}<outline ${attributes}>`,
+      ...node.children.map(child => render(child, node, `${indent}  `)),
+      `${indent}</outline>`
+    ].join('\n');
+  };
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    '  <head>',
+    `    <title>${escapeXml(title)}</title>`,
+    `    <dateCreated>${new Date(createdAt).toUTCString()}</dateCreated>`,
+    '  </head>',
+    '  <body>',
+    render(root, null, '    '),
+    '  </body>',
+    '</opml>',
+    ''
+  ].join('\n');
+};
+
+/**
+ * Renders a top-down Mermaid flowchart. Prompts are rectangles and
+ * responses rounded boxes.
+ *
+ * @param {ExportedNode} root - Tree to render
+ * @returns {string} Mermaid definition
+ */
+const toMermaid = (root: ExportedNode): string => {
+  const ids = new Map<string, string>();
+  const lines = ['flowchart TD'];
+  const promptIds: string[] = [];
+
+  walkTree(root, (node, parent) => {
+    const id = `n${ids.size}`;
+    ids.set(node.id, id);
+
+    const label = getDiagramLabel(node, parent).replace(/"/g, '#quot;');
+    lines.push(node.type === 'prompt' ? `  ${id}["${label}"]` : `  ${id}("${label}")`);
+    if (node.type === 'prompt') promptIds.push(id);
+
+    if (parent) {
+      lines.push(`  ${ids.get(parent.id)} --> ${id}`);
+    }
+  });
+
+  lines.push('  classDef prompt fill:#667eea,color:#fff');
+  lines.push(`  class ${promptIds.join(',')} prompt`);
+
+  return `${lines.join('\n')}\n`;
+};
+
+/**
+ * Renders a directed GraphML graph. Every node carries its type,
+ * persona, label and full text as data attributes.
+ *
+ * @param {ExportedNode} root - Tree to render
+ * @param {string} sessionId - Session ID, used as the graph ID
+ * @returns {string} GraphML document
+ */
+const toGraphml = (root: ExportedNode, sessionId: string): string => {
+  const nodes: string[] = [];
+  const edges: string[] = [];
+
+  walkTree(root, (node, parent) => {
+    const data = [
+      `<data key="type">${node.type}</data>`,
+      ...(node.persona ? [`<data key="persona">${escapeXml(node.persona)}</data>`] : []),
+      `<data key="label">${escapeXml(getDiagramLabel(node, parent))}</data>`,
+      `<data key="text">${escapeXml(getNodeText(node))}</data>`
+    ];
+    nodes.push(`    <node id="${node.id}">${data.join('')}</node>`);
+
+    if (parent) {
+      edges.push(`    <edge id="e${edges.length}" source="${parent.id}" target="${node.id}"/>`);
+    }
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="type" for="node" attr.name="type" attr.type="string"/>',
+    '  <key id="persona" for="node" attr.name="persona" attr.type="string"/>',
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    '  <key id="text" for="node" attr.name="text" attr.type="string"/>',
+    `  <graph id="${sessionId}" edgedefault="directed">`,
+    ...nodes,
+    ...edges,
+    '  </graph>',
+    '</graphml>',
+    ''
+  ].join('\n');
+};
+
+/**
+ * Renders a Graphviz digraph with prompts as filled boxes.
+ *
+ * @param {ExportedNode} root - Tree to render
+ * @returns {string} DOT source
+ */
+const toDot = (root: ExportedNode): string => {
+  const quote = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  const lines = [
+    'digraph forum {',
+    '  rankdir=TB;',
+    '  node [shape=box, style=rounded, fontname="Helvetica"];'
+  ];
+
+  walkTree(root, (node, parent) => {
+    const style = node.type === 'prompt' ? ', style="rounded,filled", fillcolor="#667eea", fontcolor=white' : '';
+    lines.push(`  ${quote(node.id)} [label=${quote(getDiagramLabel(node, parent))}${style}];`);
+
+    if (parent) {
+      lines.push(`  ${quote(parent.id)} -> ${quote(node.id)};`);
+    }
+  });
+
+  lines.push('}');
+  return `${lines.join('\n')}\n`;
+};
+
+/**
+ * Builds the versioned JSON export document.
+ *
+ * @param {Session} session - The exported session
+ * @param {ExportedNode} root - The session's node tree
+ * @returns {SessionExport} Export document
+ */
+const toSessionExport = (session: Session, root: ExportedNode): SessionExport => ({
+  format: 'forum-session',
+  version: SESSION_EXPORT_VERSION,
+  exportedAt: new Date().toISOString(),
+  session: {
+    id: session.id,
+    title: getSessionTitle(session),
+    createdAt: session.createdAt.toISOString(),
+    personas: session.personas
+  },
+  root
+});
+
+// ===================================================================
+// EXPORT
+// ===================================================================
+
+/**
+ * Builds a download file name from the session title.
+ *
+ * @param {Session} session - The exported session
+ * @param {ExportFormat} format - Export format
+ * @returns {string} File name such as "launch-a-podcast.md"
+ */
+export const getExportFilename = (session: Session, format: ExportFormat): string => {
+  const slug = getSessionTitle(session)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .substring(0, 60)
+    .replace(/-+$/, '');
+
+  return `${slug || 'forum-session'}.${FORMAT_FILES[format].extension}`;
+};
+
+/**
+ * Renders a session in the given export format.
+ *
+ * @param {Session} session - The session to export
+ * @param {ExportFormat} format - Export format
+ * @returns {ExportedFile} File contents, content type and suggested name
+ * @throws {Error} If the session has no root prompt
+ *
+ * @example
+ * const { content, contentType, filename } = exportSession(session, 'markdown');
+ */
+export const exportSession = (session: Session, format: ExportFormat): ExportedFile => {
+  const root = buildExportTree(session);
+  const title = getSessionTitle(session);
+
+  const content = (() => {
+    switch (format) {
+      case 'markdown':
+        return toMarkdown(root);
+      case 'opml':
+        return toOpml(root, title, session.createdAt.toISOString());
+      case 'mermaid':
+        return toMermaid(root);
+      case 'graphml':
+        return toGraphml(root, session.id);
+      case 'dot':
+        return toDot(root);
+      case 'json':
+        return `${JSON.stringify(toSessionExport(session, root), null, 2)}\n`;
+    }
+  })();
+
+  return {
+    content,
+    contentType: FORMAT_FILES[format].contentType,
+    filename: getExportFilename(session, format)
+  };
+};
@@ -3,8 +3,8 @@
  * GEMINI SERVICE - Forum AI Brainstorming Application
  * ===================================================================
  * 
- * This service provides a generic interface to Google's Gemini AI API
- * for generating AI responses. While the Forum application primarily uses
+ * This service provides a generic multi-perspective interface on top of
+ * the LLM provider layer for generating AI responses. While the Forum application primarily uses
  * the specialized PersonalityService, this service provides additional
  * AI capabilities for future expansion and general-purpose AI operations.
  * 
@@ -21,44 +21,15 @@
  * - Supports future manager/worker agent patterns
  * 
  * Dependencies:
- * - Google Generative AI (Gemini) for response generation
- * - Environment variable GEMINI_API_KEY for API authentication
+ * - LLM provider layer (Gemini, OpenAI-compatible or mock backend)
+ * - Environment variable LLM_PROVIDER (and provider credentials) for configuration
  * 
  * @author Forum Development Team
  * @version 1.0.0
  * @since 2024
  */
 
-import { GoogleGenAI } from '@google/genai';
-
-// ===================================================================
-// GOOGLE GEMINI AI INITIALIZATION
-// ===================================================================
-
-/**
- * Initializes the Google Generative AI client with API key from environment.
- * Handles configuration validation and error scenarios gracefully.
- * 
- * @returns {GoogleGenAI | null} Initialized GenAI client or null if API key unavailable
- */
-const initializeGenAI = () => {
-  const apiKey = process.env.GEMINI_API_KEY;
-  
-  if (!apiKey) {
-    console.warn('GEMINI_API_KEY not configured, will use fallback responses');
-    return null;
-  }
-  
-  // Log that API key is configured (but don't log the actual key)
-  console.info(`Gemini API key configured (${apiKey.length} characters, starts with: ${apiKey.substring(0, 8)}...)`);
-  
-  try {
-    return new GoogleGenAI({ apiKey });
-  } catch (error) {
-    console.error('Failed to initialize GoogleGenAI:', error);
-    return null;
-  }
-};
+import { getLLMProvider, DEFAULT_GENERATION_CONFIG } from './llmProvider.js';
 
 // ===================================================================
 // PROMPT TEMPLATES CONFIGURATION
@@ -92,7 +63,7 @@ const PROMPT_TEMPLATES = [
  * 
  * Process:
  * 1. Validates and limits the number of variants (2-5)
- * 2. Initializes Google Gemini AI client
+ * 2. Resolves the configured LLM provider
  * 3. Creates diverse prompts using templates
  * 4. Generates responses in parallel for better performance
  * 5. Validates and cleans up responses
@@ -111,11 +82,11 @@ export const generateResponses = async (prompt: string, numVariants: number = 4)
     // Limit variants to prevent API abuse
     const variants = Math.min(Math.max(numVariants, 2), 5);
     
-    const genAI = initializeGenAI();
+    const provider = getLLMProvider();
     
-    // Check if API key is configured
-    if (!genAI) {
-      console.warn('GEMINI_API_KEY not configured, using fallback responses');
+    // Check if an LLM provider is configured
+    if (!provider) {
+      console.warn('No LLM provider configured, using fallback responses');
       return getFallbackResponses(prompt, variants);
     }
     
@@ -127,14 +98,9 @@ export const generateResponses = async (prompt: string, numVariants: number = 4)
     // Generate responses in parallel for better performance
     const responsePromises = promptVariations.map(async (variation) => {
       try {
-        const response = await genAI.models.generateContent({
-          model: 'gemini-2.0-flash-001',
-          contents: variation,
-          config: {
-            maxOutputTokens: 500,
-            temperature: 0.7,
-            candidateCount: 1
-          }
+        const response = await provider.generate({
+          messages: [{ role: 'user', content: variation }],
+          ...DEFAULT_GENERATION_CONFIG
         });
         
         const text = response.text;
@@ -149,7 +115,7 @@ export const generateResponses = async (prompt: string, numVariants: number = 4)
         return cleanedText;
         
       } catch (error) {
-        console.error('Individual Gemini API call failed:', error);
+        console.error('Individual LLM provider call failed:', error);
         // Return a fallback for this specific prompt
         return getFallbackForPrompt(variation);
       }
@@ -162,7 +128,7 @@ export const generateResponses = async (prompt: string, numVariants: number = 4)
     const validResponses = responses.filter(response => response && response.length > 10);
     
     if (validResponses.length === 0) {
-      console.warn('No valid responses from Gemini API, using fallback');
+      console.warn('No valid responses from LLM provider, using fallback');
       return getFallbackResponses(prompt, variants);
     }
     
@@ -14,10 +14,17 @@
  * 
  * Key Features:
  * - Session creation with initial personality responses
+ * - Session creation from imported outlines and exports
+ * - Paged session listing with generated titles, renaming and deletion
  * - Graph expansion through branching conversations
+ * - Version history for regenerated responses
+ * - Prompt editing, subtree deletion and restoring deleted subtrees
+ * - Stale tracking for nodes generated from text that has since changed
  * - D3 force simulation positioning (client-side)
  * - Dynamic positioning for optimal graph organization
- * - In-memory session storage for MVP deployment
+ * - Pluggable session storage (memory, JSON file or SQLite)
+ * - Per-session node limits, idle expiry and an LRU cap on total sessions
+ * - Background sweeper for expired sessions
  * - Session statistics and monitoring
  * 
  * Graph Structure:
@@ -27,8 +34,18 @@
  * - D3 force simulation: Automatic physics-based positioning
  * - Dynamic expansion: New branches integrate naturally
  * 
+ * Environment Variables:
+ * - SESSION_MAX_NODES: Maximum nodes per session (default: 500, 0 = unlimited)
+ * - SESSION_MAX_SESSIONS: Maximum stored sessions before the least recently
+ *   used are evicted (default: 1000, 0 = unlimited)
+ * - SESSION_IDLE_TTL_MINUTES: Idle time before a session expires
+ *   (default: 1440, 0 = never)
+ * - SESSION_SWEEP_INTERVAL_SECONDS: Interval of the background sweeper
+ *   (default: 300, 0 = disabled)
+ * 
  * Dependencies:
  * - UUID for unique node/edge/session identifiers
+ * - Session store for persistence
  * - Shared types for consistent data structures
  * 
  * @author Forum Development Team
@@ -36,21 +53,132 @@
  * @since 2024
  */
 
+import { createHash } from 'crypto';
+import type { Hash } from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
-import type { Node, Edge, Session, PersonalityResponse } from '../../shared/types.js';
+import { getSessionStore } from './sessionStore.js';
+import type { 
+  Node, 
+  Edge, 
+  NodeVersion, 
+  Session, 
+  SessionSummary, 
+  SessionListResponse, 
+  PersonalityResponse, 
+  PersonalityName, 
+  SessionImportNode,
+  NodePositionUpdate
+} from '../../shared/types.js';
+
+// ===================================================================
+// SESSION LIMITS
+// ===================================================================
+
+/**
+ * Limits applied to stored sessions. A value of 0 disables the limit.
+ */
+export interface SessionLimits {
+  /** Maximum number of nodes in a single session */
+  maxNodesPerSession: number;
+  
+  /** Maximum number of stored sessions; least recently used are evicted */
+  maxSessions: number;
+  
+  /** Idle time in milliseconds after which a session expires */
+  idleTtlMs: number;
+  
+  /** Interval in milliseconds between background sweeps */
+  sweepIntervalMs: number;
+}
+
+/**
+ * Reads a non-negative integer setting from the environment.
+ * 
+ * @param {string} name - Environment variable name
+ * @param {number} fallback - Value used when unset or invalid
+ * @returns {number} The configured value
+ */
+const readLimit = (name: string, fallback: number): number => {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+/**
+ * Returns the current session limits from environment configuration.
+ * 
+ * @returns {SessionLimits} Active limits
+ */
+export const getSessionLimits = (): SessionLimits => ({
+  maxNodesPerSession: readLimit('SESSION_MAX_NODES', 500),
+  maxSessions: readLimit('SESSION_MAX_SESSIONS', 1000),
+  idleTtlMs: readLimit('SESSION_IDLE_TTL_MINUTES', 1440) * 60 * 1000,
+  sweepIntervalMs: readLimit('SESSION_SWEEP_INTERVAL_SECONDS', 300) * 1000
+});
+
+/**
+ * Checks whether a session can take additional nodes without exceeding
+ * the per-session node limit.
+ * 
+ * @param {Session} session - The session to check
+ * @param {number} count - Number of nodes about to be added
+ * @returns {boolean} True if the nodes fit
+ */
+export const hasRoomForNodes = (session: Session, count: number): boolean => {
+  const { maxNodesPerSession } = getSessionLimits();
+  return maxNodesPerSession === 0 || session.nodes.length + count <= maxNodesPerSession;
+};
 
 // ===================================================================
 // SESSION STORAGE
 // ===================================================================
 
 /**
- * In-memory session storage for MVP deployment.
- * In production, this would be replaced with a database solution.
+ * Pending modifications per session.
+ * Changes to a session are applied one at a time so concurrent updates
+ * (e.g. several personas finishing a stream together) don't overwrite
+ * each other with stale copies.
  * 
  * Key: Session ID (UUID)
- * Value: Complete session object with nodes, edges, and metadata
+ * Value: Promise settling when the latest queued modification is done
+ */
+const sessionLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * Loads a session, applies a modification and saves it back, queued
+ * behind any other pending modification of the same session.
+ * 
+ * @param {string} sessionId - The ID of the session to modify
+ * @param {Function} mutate - Modifies the session in place and returns a result
+ * @returns {Promise<T>} The result of `mutate`
+ * @throws {Error} If the session doesn't exist or `mutate` throws (nothing is saved)
  */
-const sessions = new Map<string, Session>();
+const modifySession = <T>(sessionId: string, mutate: (session: Session) => T): Promise<T> => {
+  const previous = sessionLocks.get(sessionId) || Promise.resolve();
+  
+  const next = previous.catch(() => undefined).then(async () => {
+    const store = getSessionStore();
+    const session = await store.get(sessionId);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+    
+    const result = mutate(session);
+    session.lastAccessedAt = new Date();
+    await store.save(session);
+    return result;
+  });
+  
+  sessionLocks.set(sessionId, next);
+  next
+    .finally(() => {
+      if (sessionLocks.get(sessionId) === next) {
+        sessionLocks.delete(sessionId);
+      }
+    })
+    .catch(() => undefined);
+  
+  return next;
+};
 
 // ===================================================================
 // SESSION CREATION FUNCTIONS
@@ -62,17 +190,20 @@ const sessions = new Map<string, Session>();
  * 
  * @param {string} prompt - The user's original topic or question
  * @param {PersonalityResponse[]} personalityResponses - Array of AI personality responses
- * @returns {Session} Complete session object with nodes and edges
+ * @param {PersonalityName[]} [personas] - Participating personalities (defaults to those in the responses)
+ * @returns {Promise<Session>} Complete session object with nodes and edges
  */
-export const createSession = (prompt: string, personalityResponses: PersonalityResponse[]): Session => {
+export const createSession = async (prompt: string, personalityResponses: PersonalityResponse[], personas?: PersonalityName[]): Promise<Session> => {
   const sessionId = uuidv4();
+  const createdAt = new Date();
   
   // Create root prompt node (no position - D3 will handle this)
   const rootNode: Node = {
     id: uuidv4(),
     text: prompt,
     type: 'prompt',
-    position: { x: 0, y: 0 } // Initial position, D3 will override
+    position: { x: 0, y: 0 }, // Initial position, D3 will override
+    createdAt: createdAt.toISOString()
   };
   
   // Create personality response nodes (no position - D3 will handle this)
@@ -83,7 +214,11 @@ export const createSession = (prompt: string, personalityResponses: PersonalityR
     type: 'response',
     position: { x: 0, y: 0 }, // Initial position, D3 will override
     persona: response.persona,
-    color: response.color
+    color: response.color,
+    createdAt: createdAt.toISOString(),
+    contextHash: hashContext([prompt]),
+    ...(response.model && { model: response.model }),
+    ...(response.isFallback && { isFallback: true, error: response.error })
   }));
   
   // Create edges connecting prompt to personality responses
@@ -97,14 +232,74 @@ export const createSession = (prompt: string, personalityResponses: PersonalityR
     id: sessionId,
     nodes: [rootNode, ...responseNodes],
     edges,
-    createdAt: new Date()
+    personas: personas || personalityResponses.map(response => response.persona),
+    createdAt,
+    lastAccessedAt: new Date()
   };
   
-  sessions.set(sessionId, session);
+  await getSessionStore().save(session);
+  await evictLeastRecentlyUsed();
   console.info(`✅ Created Forum session ${sessionId} with D3 force simulation layout for ${personalityResponses.length} personality responses`);
   return session;
 };
 
+/**
+ * Creates a session from an imported node tree. Every node is recorded as
+ * generated from its ancestors' texts, so nothing starts out stale.
+ * 
+ * @param {SessionImportNode} root - Root prompt with its descendants
+ * @param {PersonalityName[]} personas - Participating personalities for later expansions
+ * @returns {Promise<Session>} The new session
+ * @throws {Error} If the tree has more nodes than a session may hold
+ */
+export const importSession = async (root: SessionImportNode, personas: PersonalityName[]): Promise<Session> => {
+  const createdAt = new Date();
+  const nodes: Node[] = [];
+  const edges: Edge[] = [];
+  
+  const addNode = (imported: SessionImportNode, parent: Node | null, ancestorTexts: string[]) => {
+    const node: Node = {
+      id: uuidv4(),
+      text: imported.text,
+      ...(parent && { parentId: parent.id }),
+      type: imported.type,
+      position: { x: 0, y: 0 }, // Initial position, D3 will override
+      ...(imported.persona && { persona: imported.persona }),
+      ...(imported.color && { color: imported.color }),
+      createdAt: createdAt.toISOString(),
+      ...(parent && { contextHash: hashContext(ancestorTexts) }),
+      ...(imported.model && { model: imported.model }),
+      ...(imported.isFallback && { isFallback: true, ...(imported.error && { error: imported.error }) })
+    };
+    nodes.push(node);
+    
+    if (parent) {
+      edges.push({ id: uuidv4(), source: parent.id, target: node.id });
+    }
+    
+    imported.children.forEach(child => addNode(child, node, [...ancestorTexts, node.text]));
+  };
+  addNode(root, null, []);
+  
+  const session: Session = {
+    id: uuidv4(),
+    nodes,
+    edges,
+    personas,
+    createdAt,
+    lastAccessedAt: new Date()
+  };
+  
+  if (!hasRoomForNodes({ ...session, nodes: [] }, nodes.length)) {
+    throw new Error('Session is full');
+  }
+  
+  await getSessionStore().save(session);
+  await evictLeastRecentlyUsed();
+  console.info(`📥 Imported Forum session ${session.id} with ${nodes.length} nodes`);
+  return session;
+};
+
 // ===================================================================
 // GRAPH EXPANSION FUNCTIONS
 // ===================================================================
@@ -117,20 +312,21 @@ export const createSession = (prompt: string, personalityResponses: PersonalityR
  * @param {string} parentNodeId - The node to branch from
  * @param {PersonalityResponse[]} personalityResponses - New personality responses
  * @param {string} [followUpPrompt] - Optional follow-up question
- * @returns {{newNodes: Node[], newEdges: Edge[]}} New graph elements added
+ * @returns {Promise<{newNodes: Node[], newEdges: Edge[]}>} New graph elements added
+ * @throws {Error} If the session or parent node doesn't exist, or the session is full
  */
-export const addBranch = (sessionId: string, parentNodeId: string, personalityResponses: PersonalityResponse[], followUpPrompt?: string): { newNodes: Node[], newEdges: Edge[] } => {
-  const session = sessions.get(sessionId);
-  if (!session) {
-    throw new Error('Session not found');
-  }
-  
+export const addBranch = (sessionId: string, parentNodeId: string, personalityResponses: PersonalityResponse[], followUpPrompt?: string): Promise<{ newNodes: Node[], newEdges: Edge[] }> => modifySession(sessionId, (session) => {
   const parentNode = session.nodes.find(node => node.id === parentNodeId);
   if (!parentNode) {
     throw new Error('Parent node not found');
   }
   
+  if (!hasRoomForNodes(session, personalityResponses.length + (followUpPrompt ? 1 : 0))) {
+    throw new Error('Session is full');
+  }
+  
   // Create follow-up prompt node if provided
+  const createdAt = new Date().toISOString();
   const newNodes: Node[] = [];
   let promptNode: Node | null = null;
   
@@ -140,13 +336,18 @@ export const addBranch = (sessionId: string, parentNodeId: string, personalityRe
       text: followUpPrompt,
       parentId: parentNodeId,
       type: 'prompt',
-      position: { x: 0, y: 0 } // D3 will handle positioning
+      position: { x: 0, y: 0 }, // D3 will handle positioning
+      createdAt,
+      contextHash: hashContext(getAncestorTexts(session, parentNode.id))
     };
     newNodes.push(promptNode);
   }
   
   // Create personality response nodes
   const anchorNode = promptNode || parentNode;
+  const responseContext = promptNode
+    ? [...getAncestorTexts(session, parentNode.id), promptNode.text]
+    : getAncestorTexts(session, parentNode.id);
   const personalityNodes: Node[] = personalityResponses.map((response) => ({
     id: uuidv4(),
     text: response.text,
@@ -154,7 +355,11 @@ export const addBranch = (sessionId: string, parentNodeId: string, personalityRe
     type: 'response',
     position: { x: 0, y: 0 }, // D3 will handle positioning
     persona: response.persona,
-    color: response.color
+    color: response.color,
+    createdAt,
+    contextHash: hashContext(responseContext),
+    ...(response.model && { model: response.model }),
+    ...(response.isFallback && { isFallback: true, error: response.error })
   }));
   
   newNodes.push(...personalityNodes);
@@ -183,13 +388,517 @@ export const addBranch = (sessionId: string, parentNodeId: string, personalityRe
   // Add new nodes and edges to session
   session.nodes.push(...newNodes);
   session.edges.push(...newEdges);
-  
-  sessions.set(sessionId, session);
+  refreshStaleFlags(session);
   
   console.info(`✅ Added branch to session ${sessionId} with D3 force simulation: ${newNodes.length} nodes, ${newEdges.length} edges`);
   return { newNodes, newEdges };
+});
+
+/**
+ * Replaces the text of an existing node.
+ * Used when response nodes are created up front and filled in as a
+ * personality response streams in, and when a failed response is retried.
+ * The fallback marker and model are set or cleared to match the new text;
+ * on a node with versions the active version is replaced as well.
+ * 
+ * @param {string} sessionId - The ID of the session containing the node
+ * @param {string} nodeId - The node to update
+ * @param {string} text - The new node text
+ * @param {Object} [status] - Fallback marker for the new text
+ * @param {boolean} [status.isFallback] - Whether the text is fallback content
+ * @param {string} [status.error] - Why generation failed
+ * @param {string} [status.model] - Model that produced the text
+ * @returns {Promise<Node>} The updated node
+ * @throws {Error} If the session or node doesn't exist
+ */
+export const updateNodeText = (sessionId: string, nodeId: string, text: string, status: { isFallback?: boolean, error?: string, model?: string } = {}): Promise<Node> => modifySession(sessionId, (session) => {
+  const node = session.nodes.find(candidate => candidate.id === nodeId);
+  if (!node) {
+    throw new Error('Node not found');
+  }
+  
+  const { text: previousText, contextHash: previousContextHash } = node;
+  const version = createNodeVersion(text, status);
+  if (node.versions && node.activeVersion !== undefined) {
+    node.versions[node.activeVersion] = version;
+  }
+  applyNodeVersion(node, version);
+  markGeneratedFromContext(session, node);
+  if (node.text !== previousText || node.contextHash !== previousContextHash) {
+    refreshStaleFlags(session);
+  }
+  return node;
+});
+
+// ===================================================================
+// STALE TRACKING
+// ===================================================================
+
+/**
+ * Fingerprints the conversation a node was generated from, so it can later
+ * be told whether any ancestor text changed without copying the texts.
+ * 
+ * @param {string[]} texts - Ancestor texts from the root prompt down to the parent
+ * @returns {string} Short hex digest
+ */
+const hashContext = (texts: string[]): string => {
+  return createHash('sha256').update(texts.join('\u0000')).digest('hex').substring(0, 16);
+};
+
+/**
+ * Collects the texts from the root prompt down to a node, inclusive.
+ * 
+ * @param {Session} session - The session containing the node
+ * @param {string} nodeId - The last node of the path
+ * @returns {string[]} Texts in root-first order
+ */
+const getAncestorTexts = (session: Session, nodeId: string): string[] => {
+  const texts: string[] = [];
+  const visited = new Set<string>();
+  let current = session.nodes.find(node => node.id === nodeId);
+  
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    texts.unshift(current.text);
+    const parentId: string | undefined = current.parentId;
+    current = parentId ? session.nodes.find(node => node.id === parentId) : undefined;
+  }
+  
+  return texts;
+};
+
+/**
+ * Records that a node was (re)generated from its ancestors' current texts.
+ * 
+ * @param {Session} session - The session containing the node
+ * @param {Node} node - The node to update
+ */
+const markGeneratedFromContext = (session: Session, node: Node): void => {
+  if (node.parentId) {
+    node.contextHash = hashContext(getAncestorTexts(session, node.parentId));
+  }
+};
+
+/**
+ * Creates a lookup of each node's context hash: the hashContext of the
+ * texts from the root prompt down to the node. Hash states are shared
+ * along the tree, so every text is hashed once no matter how deep it is.
+ * 
+ * @param {Session} session - The session to hash
+ * @returns {Function} Returns the context hash of a node ID (undefined if unknown)
+ */
+const createContextHashLookup = (session: Session): ((nodeId: string) => string | undefined) => {
+  const nodesById = new Map(session.nodes.map(node => [node.id, node]));
+  const states = new Map<string, Hash | null>();
+  const digests = new Map<string, string>();
+  
+  const getState = (node: Node): Hash => {
+    const known = states.get(node.id);
+    if (known) return known;
+    
+    // Guard against cycles in corrupted data: a revisited node starts a new path
+    states.set(node.id, null);
+    const parent = known === undefined && node.parentId ? nodesById.get(node.parentId) : undefined;
+    const state = parent
+      ? getState(parent).copy().update(`\u0000${node.text}`)
+      : createHash('sha256').update(node.text);
+    states.set(node.id, state);
+    return state;
+  };
+  
+  return (nodeId) => {
+    const node = nodesById.get(nodeId);
+    if (!node) return undefined;
+    
+    if (!digests.has(nodeId)) {
+      digests.set(nodeId, getState(node).copy().digest('hex').substring(0, 16));
+    }
+    return digests.get(nodeId);
+  };
+};
+
+/**
+ * Recomputes the `stale` flag of every node. A node is stale when the
+ * texts of its ancestors no longer match those it was generated from,
+ * or when its parent is stale. Nodes from older sessions without a
+ * recorded context only inherit staleness.
+ * 
+ * Call it only after a mutation that changes a node's text or recorded
+ * context; other changes (e.g. positions) can't affect staleness.
+ * 
+ * @param {Session} session - The session to update in place
+ */
+const refreshStaleFlags = (session: Session): void => {
+  const nodesById = new Map(session.nodes.map(node => [node.id, node]));
+  const getContextHash = createContextHashLookup(session);
+  const staleById = new Map<string, boolean>();
+  
+  const isStale = (node: Node): boolean => {
+    const known = staleById.get(node.id);
+    if (known !== undefined) return known;
+    
+    // Guard against cycles in corrupted data
+    staleById.set(node.id, false);
+    
+    const parent = node.parentId ? nodesById.get(node.parentId) : undefined;
+    const stale = !!parent && (
+      isStale(parent) ||
+      (node.contextHash !== undefined && node.contextHash !== getContextHash(parent.id))
+    );
+    staleById.set(node.id, stale);
+    return stale;
+  };
+  
+  session.nodes.forEach(node => {
+    if (isStale(node)) {
+      node.stale = true;
+    } else {
+      delete node.stale;
+    }
+  });
+};
+
+/**
+ * Lists the IDs of a session's stale nodes. Sent along with text changes
+ * so clients can update stale markers anywhere in the graph.
+ * 
+ * @param {string} sessionId - The ID of the session
+ * @returns {Promise<string[]>} IDs of stale nodes (empty if the session doesn't exist)
+ */
+export const getStaleNodeIds = async (sessionId: string): Promise<string[]> => {
+  const session = await getSession(sessionId);
+  return session ? session.nodes.filter(node => node.stale).map(node => node.id) : [];
+};
+
+/**
+ * Returns the stale nodes of a subtree grouped by depth, top level first,
+ * so they can be regenerated top-down.
+ * 
+ * @param {string} sessionId - The ID of the session
+ * @param {string} nodeId - Root of the subtree (included when stale)
+ * @returns {Promise<Node[][]>} Stale nodes per level below the root
+ * @throws {Error} If the session or node doesn't exist
+ */
+export const getStaleSubtreeLevels = async (sessionId: string, nodeId: string): Promise<Node[][]> => {
+  const session = await getSession(sessionId);
+  if (!session) {
+    throw new Error('Session not found');
+  }
+  
+  const root = session.nodes.find(node => node.id === nodeId);
+  if (!root) {
+    throw new Error('Node not found');
+  }
+  
+  const levels: Node[][] = [];
+  let level = [root];
+  
+  while (level.length > 0) {
+    const staleNodes = level.filter(node => node.stale);
+    if (staleNodes.length > 0) {
+      levels.push(staleNodes);
+    }
+    
+    const levelIds = new Set(level.map(node => node.id));
+    level = session.nodes.filter(node => node.parentId && levelIds.has(node.parentId));
+  }
+  
+  return levels;
 };
 
+/**
+ * Accepts a stale prompt node as it is: records that it now follows the
+ * current conversation. The responses below it stay stale until regenerated.
+ * 
+ * @param {string} sessionId - The ID of the session containing the node
+ * @param {string} nodeId - The prompt node
+ * @returns {Promise<Node>} The updated node
+ * @throws {Error} If the session or node doesn't exist
+ */
+export const acknowledgePrompt = (sessionId: string, nodeId: string): Promise<Node> => modifySession(sessionId, (session) => {
+  const node = session.nodes.find(candidate => candidate.id === nodeId);
+  if (!node) {
+    throw new Error('Node not found');
+  }
+  
+  markGeneratedFromContext(session, node);
+  refreshStaleFlags(session);
+  return node;
+});
+
+// ===================================================================
+// RESPONSE VERSIONS
+// ===================================================================
+
+/**
+ * Maximum number of versions kept per node; the oldest are dropped first.
+ */
+const MAX_NODE_VERSIONS = 20;
+
+/**
+ * Builds a version record for a response text.
+ * 
+ * @param {string} text - The response text
+ * @param {Object} status - Fallback marker and model of the text
+ * @param {string} [createdAt] - ISO timestamp (defaults to now)
+ * @returns {NodeVersion} The version record
+ */
+const createNodeVersion = (text: string, status: { isFallback?: boolean, error?: string, model?: string }, createdAt: string = new Date().toISOString()): NodeVersion => ({
+  text,
+  createdAt,
+  ...(status.model && { model: status.model }),
+  ...(status.isFallback && { isFallback: true, error: status.error })
+});
+
+/**
+ * Copies a version's text, model and fallback marker onto its node.
+ * 
+ * @param {Node} node - The node to update
+ * @param {NodeVersion} version - The version to show
+ */
+const applyNodeVersion = (node: Node, version: NodeVersion): void => {
+  node.text = version.text;
+  
+  if (version.model) {
+    node.model = version.model;
+  } else {
+    delete node.model;
+  }
+  
+  if (version.isFallback) {
+    node.isFallback = true;
+    node.error = version.error;
+  } else {
+    delete node.isFallback;
+    delete node.error;
+  }
+};
+
+/**
+ * Records a regenerated response as the newest version of a node and
+ * makes it the active one. The node's current text becomes the first
+ * version the first time it is regenerated.
+ * 
+ * @param {string} sessionId - The ID of the session containing the node
+ * @param {string} nodeId - The regenerated response node
+ * @param {PersonalityResponse} response - The new response
+ * @returns {Promise<Node>} The updated node
+ * @throws {Error} If the session or node doesn't exist
+ */
+export const addNodeVersion = (sessionId: string, nodeId: string, response: PersonalityResponse): Promise<Node> => modifySession(sessionId, (session) => {
+  const node = session.nodes.find(candidate => candidate.id === nodeId);
+  if (!node) {
+    throw new Error('Node not found');
+  }
+  
+  const versions = node.versions || [createNodeVersion(node.text, node, node.createdAt)];
+  const version = createNodeVersion(response.text, response);
+  
+  node.versions = [...versions, version].slice(-MAX_NODE_VERSIONS);
+  node.activeVersion = node.versions.length - 1;
+  applyNodeVersion(node, version);
+  markGeneratedFromContext(session, node);
+  refreshStaleFlags(session);
+  
+  console.info(`🔄 Node ${nodeId} now has ${node.versions.length} versions`);
+  return node;
+});
+
+/**
+ * Chooses which version of a node is shown.
+ * 
+ * @param {string} sessionId - The ID of the session containing the node
+ * @param {string} nodeId - The node to update
+ * @param {number} version - Index into the node's versions
+ * @returns {Promise<Node>} The updated node
+ * @throws {Error} If the session or node doesn't exist, or the version doesn't
+ */
+export const setActiveNodeVersion = (sessionId: string, nodeId: string, version: number): Promise<Node> => modifySession(sessionId, (session) => {
+  const node = session.nodes.find(candidate => candidate.id === nodeId);
+  if (!node) {
+    throw new Error('Node not found');
+  }
+  
+  const selected = node.versions?.[version];
+  if (!selected) {
+    throw new Error('Version not found');
+  }
+  
+  const previousText = node.text;
+  node.activeVersion = version;
+  applyNodeVersion(node, selected);
+  if (node.text !== previousText) {
+    refreshStaleFlags(session);
+  }
+  return node;
+});
+
+// ===================================================================
+// NODE EDITING AND PRUNING
+// ===================================================================
+
+/**
+ * Collects the IDs of a node and every node below it, following
+ * `parentId` links.
+ * 
+ * @param {Session} session - The session containing the node
+ * @param {string} nodeId - Root of the subtree
+ * @returns {Set<string>} IDs of the node and its descendants
+ */
+const collectSubtree = (session: Session, nodeId: string): Set<string> => {
+  const subtree = new Set([nodeId]);
+  let added = true;
+  
+  while (added) {
+    added = false;
+    for (const node of session.nodes) {
+      if (node.parentId && subtree.has(node.parentId) && !subtree.has(node.id)) {
+        subtree.add(node.id);
+        added = true;
+      }
+    }
+  }
+  
+  return subtree;
+};
+
+/**
+ * Replaces the text of a prompt node (the root topic or a follow-up question).
+ * Response text is never edited directly; responses are regenerated instead.
+ * 
+ * @param {string} sessionId - The ID of the session containing the node
+ * @param {string} nodeId - The prompt node to edit
+ * @param {string} text - The new prompt text
+ * @returns {Promise<Node>} The updated node
+ * @throws {Error} If the session or node doesn't exist, or the node is not a prompt
+ */
+export const updatePromptText = (sessionId: string, nodeId: string, text: string): Promise<Node> => modifySession(sessionId, (session) => {
+  const node = session.nodes.find(candidate => candidate.id === nodeId);
+  if (!node) {
+    throw new Error('Node not found');
+  }
+  
+  if (node.type !== 'prompt') {
+    throw new Error('Only prompt nodes can be edited');
+  }
+  
+  if (node.text !== text) {
+    node.text = text;
+    refreshStaleFlags(session);
+  }
+  console.info(`✏️ Edited prompt ${nodeId} in session ${sessionId}`);
+  return node;
+});
+
+/**
+ * Maximum number of deleted subtrees kept per session for undo.
+ */
+const MAX_DELETED_SUBTREES = 20;
+
+/**
+ * Deletes a node together with every node below it, and all edges that
+ * touch a deleted node. The root prompt cannot be deleted; delete the
+ * session instead. The removed nodes are kept in the session's recently
+ * deleted list so the deletion can be undone with restoreSubtree.
+ * 
+ * @param {string} sessionId - The ID of the session containing the node
+ * @param {string} nodeId - Root of the subtree to delete
+ * @returns {Promise<{deletedNodeIds: string[], deletedEdgeIds: string[]}>} What was removed
+ * @throws {Error} If the session or node doesn't exist, or the node is the root prompt
+ */
+export const deleteSubtree = (sessionId: string, nodeId: string): Promise<{ deletedNodeIds: string[], deletedEdgeIds: string[] }> => modifySession(sessionId, (session) => {
+  const node = session.nodes.find(candidate => candidate.id === nodeId);
+  if (!node) {
+    throw new Error('Node not found');
+  }
+  
+  if (!node.parentId) {
+    throw new Error('The root prompt cannot be deleted');
+  }
+  
+  const subtree = collectSubtree(session, nodeId);
+  const deletedEdgeIds = session.edges
+    .filter(edge => subtree.has(edge.source) || subtree.has(edge.target))
+    .map(edge => edge.id);
+  
+  session.deletedSubtrees = [...(session.deletedSubtrees || []).filter(entry => entry.rootId !== nodeId), {
+    rootId: nodeId,
+    nodes: session.nodes.filter(candidate => subtree.has(candidate.id)),
+    edges: session.edges.filter(edge => subtree.has(edge.source) || subtree.has(edge.target)),
+    deletedAt: new Date().toISOString()
+  }].slice(-MAX_DELETED_SUBTREES);
+  
+  session.nodes = session.nodes.filter(candidate => !subtree.has(candidate.id));
+  session.edges = session.edges.filter(edge => !subtree.has(edge.source) && !subtree.has(edge.target));
+  
+  console.info(`🗑️ Deleted ${subtree.size} nodes from session ${sessionId}`);
+  return { deletedNodeIds: Array.from(subtree), deletedEdgeIds };
+});
+
+/**
+ * Puts a recently deleted subtree back into the session, exactly as it
+ * was. Stale flags are recomputed, since ancestors may have changed since.
+ * 
+ * @param {string} sessionId - The ID of the session
+ * @param {string} nodeId - ID of the deleted node the subtree hangs from
+ * @returns {Promise<{nodes: Node[], edges: Edge[]}>} The restored nodes and edges
+ * @throws {Error} If the session doesn't exist, nothing was deleted under that ID,
+ *   the subtree's parent is gone, or the session is full
+ */
+export const restoreSubtree = (sessionId: string, nodeId: string): Promise<{ nodes: Node[], edges: Edge[] }> => modifySession(sessionId, (session) => {
+  const entry = session.deletedSubtrees?.find(candidate => candidate.rootId === nodeId);
+  if (!entry) {
+    throw new Error('Deleted subtree not found');
+  }
+  
+  const root = entry.nodes.find(node => node.id === nodeId);
+  if (!root?.parentId || !session.nodes.some(node => node.id === root.parentId)) {
+    throw new Error('Parent node not found');
+  }
+  
+  if (!hasRoomForNodes(session, entry.nodes.length)) {
+    throw new Error('Session is full');
+  }
+  
+  session.nodes.push(...entry.nodes);
+  session.edges.push(...entry.edges);
+  session.deletedSubtrees = session.deletedSubtrees!.filter(candidate => candidate !== entry);
+  refreshStaleFlags(session);
+  
+  console.info(`♻️ Restored ${entry.nodes.length} nodes in session ${sessionId}`);
+  return { nodes: entry.nodes, edges: entry.edges };
+});
+
+/**
+ * Saves node positions from the graph view, so a hand-arranged layout
+ * survives reloads and shared links. Updates for nodes that no longer
+ * exist (deleted while the client's save was pending) are skipped.
+ * 
+ * @param {string} sessionId - The ID of the session containing the nodes
+ * @param {NodePositionUpdate[]} updates - New positions, optionally pinning or unpinning
+ * @returns {Promise<Node[]>} The updated nodes
+ * @throws {Error} If the session doesn't exist
+ */
+export const updateNodePositions = (sessionId: string, updates: NodePositionUpdate[]): Promise<Node[]> => modifySession(sessionId, (session) => {
+  const nodesById = new Map(session.nodes.map(node => [node.id, node]));
+  
+  const updated = updates.flatMap(update => {
+    const node = nodesById.get(update.nodeId);
+    if (!node) return [];
+    
+    node.position = { x: update.x, y: update.y };
+    if (update.pinned === true) {
+      node.pinned = true;
+    } else if (update.pinned === false) {
+      delete node.pinned;
+    }
+    return [node];
+  });
+  
+  console.info(`📌 Saved ${updated.length} node positions in session ${sessionId}`);
+  return updated;
+});
+
 // ===================================================================
 // BACKWARD COMPATIBILITY FUNCTIONS
 // ===================================================================
@@ -202,11 +911,11 @@ export const addBranch = (sessionId: string, parentNodeId: string, personalityRe
  * @param {string} sessionId - The ID of the session to expand
  * @param {string} parentNodeId - The node to branch from
  * @param {string[]} responses - Array of simple string responses
- * @returns {{newNodes: Node[], newEdges: Edge[]}} New graph elements added
+ * @returns {Promise<{newNodes: Node[], newEdges: Edge[]}>} New graph elements added
  * 
  * @deprecated Use addBranch with PersonalityResponse[] instead
  */
-export const addSimpleBranch = (sessionId: string, parentNodeId: string, responses: string[]): { newNodes: Node[], newEdges: Edge[] } => {
+export const addSimpleBranch = (sessionId: string, parentNodeId: string, responses: string[]): Promise<{ newNodes: Node[], newEdges: Edge[] }> => {
   // Convert simple responses to personality responses for backward compatibility
   const personalityResponses: PersonalityResponse[] = responses.map((response, index) => {
     const personas: Array<{name: string, color: string}> = [
@@ -217,7 +926,7 @@ export const addSimpleBranch = (sessionId: string, parentNodeId: string, respons
     const persona = personas[index] || { name: 'realist', color: 'grey' };
     
     return {
-      persona: persona.name as any,
+      persona: persona.name,
       text: response,
       color: persona.color
     };
@@ -231,23 +940,324 @@ export const addSimpleBranch = (sessionId: string, parentNodeId: string, respons
 // ===================================================================
 
 /**
- * Retrieves a specific session by its ID.
+ * Retrieves a specific session by its ID and marks it as accessed.
+ * Sessions that have been idle longer than the TTL are expired instead.
  * 
  * @param {string} sessionId - The unique identifier of the session
- * @returns {Session | undefined} The session object or undefined if not found
+ * @returns {Promise<Session | undefined>} The session object or undefined if not found or expired
  */
-export const getSession = (sessionId: string): Session | undefined => {
-  return sessions.get(sessionId);
+export const getSession = async (sessionId: string): Promise<Session | undefined> => {
+  const session = await getSessionStore().get(sessionId);
+  if (!session) {
+    return undefined;
+  }
+  
+  if (isIdle(session, Date.now())) {
+    await expireSession(sessionId, 'idle');
+    return undefined;
+  }
+  
+  return modifySession(sessionId, (current) => current);
 };
 
 /**
  * Retrieves all existing sessions.
  * Useful for administration and monitoring purposes.
  * 
- * @returns {Session[]} Array of all session objects
+ * @returns {Promise<Session[]>} Array of all session objects
+ */
+export const getAllSessions = async (): Promise<Session[]> => {
+  return getSessionStore().list();
+};
+
+/**
+ * Maximum length of titles generated from the root prompt.
+ */
+const MAX_GENERATED_TITLE_LENGTH = 60;
+
+/**
+ * Returns a session's display title: the user-chosen title, or the root
+ * prompt shortened to a single line.
+ * 
+ * @param {Session} session - The session to title
+ * @returns {string} Display title
+ */
+export const getSessionTitle = (session: Session): string => {
+  if (session.title) {
+    return session.title;
+  }
+  
+  const rootPrompt = session.nodes.find(node => node.type === 'prompt' && !node.parentId);
+  const text = (rootPrompt?.text || '').replace(/\s+/g, ' ').trim();
+  if (!text) {
+    return 'Untitled session';
+  }
+  
+  return text.length > MAX_GENERATED_TITLE_LENGTH
+    ? `${text.substring(0, MAX_GENERATED_TITLE_LENGTH - 1).trimEnd()}…`
+    : text;
+};
+
+/**
+ * Builds the listing entry for a session.
+ * 
+ * @param {Session} session - The session to summarize
+ * @returns {SessionSummary} Session summary
+ */
+const summarizeSession = (session: Session): SessionSummary => ({
+  id: session.id,
+  title: getSessionTitle(session),
+  hasCustomTitle: !!session.title,
+  createdAt: session.createdAt.toISOString(),
+  lastAccessedAt: session.lastAccessedAt.toISOString(),
+  nodeCount: session.nodes.length,
+  personas: session.personas
+});
+
+/**
+ * Lists stored sessions one page at a time, sorted by creation time.
+ * Idle sessions awaiting the sweeper are left out. Listing does not
+ * count as accessing a session.
+ * 
+ * @param {Object} [options] - Paging and sorting options
+ * @param {number} [options.page=1] - 1-based page number
+ * @param {number} [options.pageSize=20] - Sessions per page
+ * @param {'asc' | 'desc'} [options.order='desc'] - Creation time order (newest first by default)
+ * @returns {Promise<SessionListResponse>} The requested page and the total count
+ * 
+ * @example
+ * const { sessions, total } = await listSessions({ page: 2, pageSize: 10 });
+ */
+export const listSessions = async ({ page = 1, pageSize = 20, order = 'desc' }: {
+  page?: number,
+  pageSize?: number,
+  order?: 'asc' | 'desc'
+} = {}): Promise<SessionListResponse> => {
+  const now = Date.now();
+  const direction = order === 'asc' ? 1 : -1;
+  const sessions = (await getSessionStore().list())
+    .filter(session => !isIdle(session, now))
+    .sort((a, b) => direction * (a.createdAt.getTime() - b.createdAt.getTime()));
+  const start = (page - 1) * pageSize;
+  
+  return {
+    sessions: sessions.slice(start, start + pageSize).map(summarizeSession),
+    total: sessions.length,
+    page,
+    pageSize
+  };
+};
+
+/**
+ * Walks `parentId` links from a node back to the session's root prompt.
+ * Used to give branch generation the full conversation leading to a node.
+ *
+ * @param {string} sessionId - The unique identifier of the session
+ * @param {string} nodeId - The node whose ancestry to collect
+ * @returns {Promise<Node[]>} Nodes from the root prompt down to (and including) the node
+ * @throws {Error} If the session or node doesn't exist
+ *
+ * @example
+ * const path = await getAncestorPath(sessionId, deepNodeId);
+ * // Returns: [rootPrompt, optimistResponse, followUpPrompt, deepNode]
  */
-export const getAllSessions = (): Session[] => {
-  return Array.from(sessions.values());
+export const getAncestorPath = async (sessionId: string, nodeId: string): Promise<Node[]> => {
+  const session = await getSessionStore().get(sessionId);
+  if (!session) {
+    throw new Error('Session not found');
+  }
+
+  const nodesById = new Map(session.nodes.map(node => [node.id, node]));
+  const path: Node[] = [];
+  const visited = new Set<string>();
+  let current = nodesById.get(nodeId);
+
+  if (!current) {
+    throw new Error('Node not found');
+  }
+
+  // Guard against malformed (cyclic) parent links
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    path.unshift(current);
+    current = current.parentId ? nodesById.get(current.parentId) : undefined;
+  }
+
+  return path;
+};
+
+// ===================================================================
+// SESSION MANAGEMENT FUNCTIONS
+// ===================================================================
+
+/**
+ * Renames a session. An empty title restores the generated title.
+ * 
+ * @param {string} sessionId - The ID of the session to rename
+ * @param {string} title - New title
+ * @returns {Promise<SessionSummary>} The updated session summary
+ * @throws {Error} If the session doesn't exist
+ */
+export const renameSession = (sessionId: string, title: string): Promise<SessionSummary> => modifySession(sessionId, (session) => {
+  const trimmed = title.trim();
+  if (trimmed) {
+    session.title = trimmed;
+  } else {
+    delete session.title;
+  }
+  
+  return summarizeSession(session);
+});
+
+/**
+ * Deletes a session after any pending modifications have been applied.
+ * Deleted sessions are gone for good and are not reported as expired.
+ * 
+ * @param {string} sessionId - The ID of the session to delete
+ * @returns {Promise<boolean>} True if the session existed
+ */
+export const deleteSession = async (sessionId: string): Promise<boolean> => {
+  await sessionLocks.get(sessionId)?.catch(() => undefined);
+  
+  const deleted = await getSessionStore().delete(sessionId);
+  if (deleted) {
+    console.info(`🗑️ Deleted Forum session ${sessionId}`);
+  }
+  return deleted;
+};
+
+// ===================================================================
+// SESSION EXPIRY AND EVICTION
+// ===================================================================
+
+/**
+ * Maximum number of expired session IDs remembered for 410 responses.
+ */
+const MAX_EXPIRED_SESSION_IDS = 10000;
+
+/**
+ * IDs of sessions removed by expiry or eviction, in removal order.
+ * Lets routes tell "expired" apart from "never existed".
+ * 
+ * Key: Session ID (UUID)
+ * Value: When the session was removed
+ */
+const expiredSessions = new Map<string, Date>();
+
+/**
+ * Checks whether a session was removed by expiry or eviction.
+ * 
+ * @param {string} sessionId - The unique identifier of the session
+ * @returns {boolean} True if the session existed but has expired
+ */
+export const isSessionExpired = (sessionId: string): boolean => {
+  return expiredSessions.has(sessionId);
+};
+
+/**
+ * Checks whether a session has been idle longer than the configured TTL.
+ * 
+ * @param {Session} session - The session to check
+ * @param {number} now - Current time in milliseconds
+ * @returns {boolean} True if the session should expire
+ */
+const isIdle = (session: Session, now: number): boolean => {
+  const { idleTtlMs } = getSessionLimits();
+  const lastAccessedAt = session.lastAccessedAt || session.createdAt;
+  return idleTtlMs > 0 && now - lastAccessedAt.getTime() > idleTtlMs;
+};
+
+/**
+ * Deletes a session and remembers its ID as expired.
+ * 
+ * @param {string} sessionId - The session to remove
+ * @param {string} reason - Why it is removed (for logging)
+ */
+const expireSession = async (sessionId: string, reason: 'idle' | 'evicted'): Promise<void> => {
+  await getSessionStore().delete(sessionId);
+  
+  expiredSessions.set(sessionId, new Date());
+  if (expiredSessions.size > MAX_EXPIRED_SESSION_IDS) {
+    expiredSessions.delete(expiredSessions.keys().next().value!);
+  }
+  
+  console.info(`🧹 Session ${sessionId} removed (${reason})`);
+};
+
+/**
+ * Evicts the least recently used sessions above the session cap.
+ * Sessions with modifications in flight (e.g. streaming) are skipped.
+ * 
+ * @param {Session[]} [sessions] - Current sessions (loaded from the store if omitted)
+ * @returns {Promise<number>} Number of evicted sessions
+ */
+const evictLeastRecentlyUsed = async (sessions?: Session[]): Promise<number> => {
+  const { maxSessions } = getSessionLimits();
+  if (maxSessions === 0) {
+    return 0;
+  }
+  
+  const candidates = sessions || await getSessionStore().list();
+  if (candidates.length <= maxSessions) {
+    return 0;
+  }
+  
+  const victims = candidates
+    .filter(session => !sessionLocks.has(session.id))
+    .sort((a, b) => a.lastAccessedAt.getTime() - b.lastAccessedAt.getTime())
+    .slice(0, candidates.length - maxSessions);
+  
+  for (const session of victims) {
+    await expireSession(session.id, 'evicted');
+  }
+  
+  return victims.length;
+};
+
+/**
+ * Removes idle sessions and enforces the session cap.
+ * Runs periodically through startSessionSweeper.
+ * 
+ * @returns {Promise<{expired: number, evicted: number}>} Number of removed sessions
+ * 
+ * @example
+ * const { expired, evicted } = await sweepSessions();
+ */
+export const sweepSessions = async (): Promise<{ expired: number, evicted: number }> => {
+  const now = Date.now();
+  const sessions = await getSessionStore().list();
+  const idle = sessions.filter(session => isIdle(session, now) && !sessionLocks.has(session.id));
+  
+  for (const session of idle) {
+    await expireSession(session.id, 'idle');
+  }
+  
+  const evicted = await evictLeastRecentlyUsed(sessions.filter(session => !idle.includes(session)));
+  
+  if (idle.length > 0 || evicted > 0) {
+    console.info(`🧹 Session sweep: ${idle.length} expired, ${evicted} evicted`);
+  }
+  
+  return { expired: idle.length, evicted };
+};
+
+/**
+ * Starts the background sweeper. The timer doesn't keep the process alive.
+ * 
+ * @param {number} [intervalMs] - Sweep interval (defaults to SESSION_SWEEP_INTERVAL_SECONDS)
+ * @returns {Function} Stops the sweeper
+ */
+export const startSessionSweeper = (intervalMs: number = getSessionLimits().sweepIntervalMs): (() => void) => {
+  if (intervalMs <= 0) {
+    return () => {};
+  }
+  
+  const timer = setInterval(() => {
+    sweepSessions().catch(error => console.error('Session sweep failed:', error));
+  }, intervalMs);
+  timer.unref();
+  
+  return () => clearInterval(timer);
 };
 
 // ===================================================================
@@ -265,13 +1275,14 @@ export const getAllSessions = (): Session[] => {
  *   - averageNodesPerSession: Average graph complexity
  * 
  * @example
- * const stats = getSessionStats();
+ * const stats = await getSessionStats();
  * // Returns: { totalSessions: 5, totalNodes: 20, totalEdges: 15, averageNodesPerSession: 4 }
  */
-export const getSessionStats = () => {
-  const totalSessions = sessions.size;
-  const totalNodes = Array.from(sessions.values()).reduce((sum, session) => sum + session.nodes.length, 0);
-  const totalEdges = Array.from(sessions.values()).reduce((sum, session) => sum + session.edges.length, 0);
+export const getSessionStats = async () => {
+  const sessions = await getSessionStore().list();
+  const totalSessions = sessions.length;
+  const totalNodes = sessions.reduce((sum, session) => sum + session.nodes.length, 0);
+  const totalEdges = sessions.reduce((sum, session) => sum + session.edges.length, 0);
   
   return {
     totalSessions,
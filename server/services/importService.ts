@@ -0,0 +1,442 @@
+/**
+ * ===================================================================
+ * IMPORT SERVICE - Forum AI Brainstorming Application
+ * ===================================================================
+ *
+ * Parses existing idea trees into node trees that the graph service can
+ * turn into a new session, so imported plans can be expanded with the
+ * personas like any other brainstorm.
+ *
+ * Formats:
+ * - markdown: Nested list, optionally under a heading that becomes the root prompt
+ * - opml: Outline documents from mind-map and outliner apps
+ * - json: Forum's own versioned export (see SessionExport)
+ *
+ * Label Rules (Markdown and OPML):
+ * - "Optimist: …" or "**Optimist:** …" (persona label or name) is a
+ *   response from that persona
+ * - "Follow-up: …", "Question: …" or "Prompt: …" is a prompt
+ * - Anything else is a prompt with the full text
+ *
+ * These rules read the Markdown and OPML exports back unchanged.
+ *
+ * Dependencies:
+ * - Persona registry for persona labels and colors
+ * - Shared types for import and export structures
+ *
+ * @author Forum Development Team
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { getPersona, listPersonas, resolvePersonas } from './personaRegistry.js';
+import { FAILED_RESPONSE_TEXT } from './exportService.js';
+import type {
+  ExportedNode,
+  ImportFormat,
+  PersonalityName,
+  SessionExport,
+  SessionImportNode
+} from '../../shared/types.js';
+
+// ===================================================================
+// IMPORT CONFIGURATION
+// ===================================================================
+
+/**
+ * Labels (lowercase) that mark an outline item as a prompt.
+ */
+const PROMPT_LABELS = ['follow-up', 'follow up', 'question', 'prompt'];
+
+/**
+ * Width of a tab when measuring Markdown list indentation.
+ */
+const TAB_WIDTH = 4;
+
+// ===================================================================
+// ERRORS
+// ===================================================================
+
+/**
+ * Creates the error thrown for content that can't be imported.
+ *
+ * @param {string} message - What is wrong with the content
+ * @returns {Error} Error marked as an invalid import
+ */
+const invalidImport = (message: string): Error => {
+  return Object.assign(new Error(message), { code: 'INVALID_IMPORT' });
+};
+
+/**
+ * Checks whether an error was raised for content that can't be imported.
+ *
+ * @param {unknown} error - Error to check
+ * @returns {boolean} True if the content was rejected
+ */
+export const isInvalidImportError = (error: unknown): boolean => {
+  return (error as { code?: string })?.code === 'INVALID_IMPORT';
+};
+
+// ===================================================================
+// LABEL INFERENCE
+// ===================================================================
+
+/**
+ * Creates a response node for a registered persona. Responses that an
+ * outline export marked as failed are imported as failed again.
+ *
+ * @param {PersonalityName} persona - Persona name
+ * @param {string} text - Response text
+ * @returns {SessionImportNode} Response node without children
+ */
+const toResponse = (persona: PersonalityName, text: string): SessionImportNode => {
+  const color = getPersona(persona)?.color;
+  return {
+    type: 'response',
+    text,
+    persona,
+    ...(color && { color }),
+    ...(text === FAILED_RESPONSE_TEXT && { isFallback: true, error: 'Generation failed' }),
+    children: []
+  };
+};
+
+/**
+ * Finds the persona whose label or name matches an outline label.
+ *
+ * @param {string} label - Label in front of an item's text
+ * @returns {PersonalityName | undefined} Matching persona name
+ */
+const findPersonaByLabel = (label: string): PersonalityName | undefined => {
+  const normalized = label.trim().toLowerCase();
+  return listPersonas().find(persona =>
+    persona.label.toLowerCase() === normalized || persona.name.toLowerCase() === normalized
+  )?.name;
+};
+
+/**
+ * Infers an outline item's node type from its label.
+ *
+ * @param {string} text - Item text, possibly starting with a label
+ * @returns {SessionImportNode} Prompt or response node without children
+ *
+ * @example
+ * classifyItem('**Optimist:** Sponsors will follow');
+ * // Returns: { type: 'response', persona: 'optimist', text: 'Sponsors will follow', ... }
+ */
+const classifyItem = (text: string): SessionImportNode => {
+  const trimmed = text.trim();
+  const match = /^\*\*(.+?):\*\*\s*(.*)$/s.exec(trimmed)
+    || /^\*\*(.+?)\*\*:\s*(.*)$/s.exec(trimmed)
+    || /^([^:*\n]{1,40}):\s+(.*)$/s.exec(trimmed);
+
+  if (match && match[2].trim()) {
+    const [, label, rest] = match;
+    const persona = findPersonaByLabel(label);
+    if (persona) {
+      return toResponse(persona, rest.trim());
+    }
+    if (PROMPT_LABELS.includes(label.trim().toLowerCase())) {
+      return { type: 'prompt', text: rest.trim(), children: [] };
+    }
+  }
+
+  return { type: 'prompt', text: trimmed, children: [] };
+};
+
+/**
+ * Picks the root prompt of a parsed outline. A title (Markdown heading or
+ * OPML head title) becomes the root above the top-level items; without
+ * one, the outline must have a single top-level item.
+ *
+ * @param {string | null} title - Document title
+ * @param {SessionImportNode[]} items - Top-level items
+ * @returns {SessionImportNode} Root prompt with its descendants
+ * @throws {Error} If there is no unambiguous root
+ */
+const resolveRoot = (title: string | null, items: SessionImportNode[]): SessionImportNode => {
+  if (title) {
+    return { type: 'prompt', text: title.trim(), children: items };
+  }
+
+  if (items.length === 0) {
+    throw invalidImport('The outline is empty');
+  }
+
+  if (items.length > 1) {
+    throw invalidImport('The outline needs a title or a single top-level item to use as the root prompt');
+  }
+
+  const [root] = items;
+  return root.type === 'prompt' ? root : { type: 'prompt', text: root.text, children: root.children };
+};
+
+// ===================================================================
+// FORMAT PARSERS
+// ===================================================================
+
+/**
+ * Parses a Markdown outline. A heading at the top becomes the root
+ * prompt and later headings nest by level; list items ("-", "*", "+" or
+ * numbered) nest by indentation below them, and other lines continue the
+ * item above them.
+ *
+ * @param {string} content - Markdown text
+ * @returns {SessionImportNode} Root prompt with its descendants
+ * @throws {Error} If the outline has no unambiguous root
+ */
+const parseMarkdown = (content: string): SessionImportNode => {
+  let title: string | null = null;
+  const items: Array<{ indent: number, text: string }> = [];
+
+  content.split(/\r?\n/).forEach(line => {
+    if (!line.trim()) return;
+
+    const heading = /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line);
+    if (heading && title === null && items.length === 0) {
+      title = heading[2];
+      return;
+    }
+    if (heading) {
+      // Negative indents keep headings above every list item, deeper levels nested
+      items.push({ indent: heading[1].length - 7, text: heading[2] });
+      return;
+    }
+
+    const item = /^([ \t]*)(?:[-*+]|\d+[.)])\s+(.*)$/.exec(line);
+    if (item) {
+      const indent = item[1].replace(/\t/g, ' '.repeat(TAB_WIDTH)).length;
+      items.push({ indent, text: item[2] });
+      return;
+    }
+
+    // Continuation of the previous item (or of the title)
+    const text = line.trim();
+    if (items.length > 0) {
+      items[items.length - 1].text += ` ${text}`;
+    } else if (title !== null) {
+      title += ` ${text}`;
+    } else {
+      items.push({ indent: 0, text });
+    }
+  });
+
+  const topLevel: SessionImportNode[] = [];
+  const stack: Array<{ indent: number, node: SessionImportNode }> = [];
+
+  items.filter(item => item.text.trim()).forEach(item => {
+    const node = classifyItem(item.text);
+    while (stack.length > 0 && stack[stack.length - 1].indent >= item.indent) {
+      stack.pop();
+    }
+
+    const parent = stack[stack.length - 1];
+    (parent ? parent.node.children : topLevel).push(node);
+    stack.push({ indent: item.indent, node });
+  });
+
+  return resolveRoot(title, topLevel);
+};
+
+/**
+ * Decodes the XML entities in attribute values and text.
+ *
+ * @param {string} text - Escaped text
+ * @returns {string} Decoded text
+ */
+const decodeXml = (text: string): string => {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|quot|apos|amp);/gi, (entity, code: string) => {
+    const lower = code.toLowerCase();
+    if (lower.startsWith('#x')) return String.fromCodePoint(parseInt(lower.substring(2), 16));
+    if (lower.startsWith('#')) return String.fromCodePoint(parseInt(lower.substring(1), 10));
+    return { lt: '<', gt: '>', quot: '"', apos: "'", amp: '&' }[lower] ?? entity;
+  });
+};
+
+/**
+ * Parses the attributes of an XML start tag.
+ *
+ * @param {string} source - Everything between the tag name and ">"
+ * @returns {Map<string, string>} Decoded attribute values by name
+ */
+const parseAttributes = (source: string): Map<string, string> => {
+  const attributes = new Map<string, string>();
+  for (const match of source.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes.set(match[1], decodeXml(match[2] ?? match[3]));
+  }
+  return attributes;
+};
+
+/**
+ * Parses an OPML document. Outline texts follow the label rules; the
+ * `_type` and `_persona` attributes written by the OPML export take
+ * precedence. The head title is the root when the body has several
+ * top-level outlines.
+ *
+ * @param {string} content - OPML document
+ * @returns {SessionImportNode} Root prompt with its descendants
+ * @throws {Error} If the document is not OPML or its outlines are unbalanced
+ */
+const parseOpml = (content: string): SessionImportNode => {
+  if (!/<opml[\s>]/i.test(content)) {
+    throw invalidImport('The document is not OPML');
+  }
+
+  const titleMatch = /<title>([\s\S]*?)<\/title>/i.exec(content);
+  const title = titleMatch ? decodeXml(titleMatch[1]).trim() : '';
+  const body = /<body[^>]*>([\s\S]*)<\/body>/i.exec(content)?.[1] ?? '';
+
+  const topLevel: SessionImportNode[] = [];
+  const stack: SessionImportNode[] = [];
+
+  for (const match of body.matchAll(/<outline\b([^>]*?)(\/?)>|<\/outline\s*>/gi)) {
+    if (match[0].startsWith('</')) {
+      if (!stack.pop()) throw invalidImport('The OPML outlines are not balanced');
+      continue;
+    }
+
+    const attributes = parseAttributes(match[1]);
+    const text = attributes.get('text') ?? attributes.get('title') ?? '';
+    let node = classifyItem(text);
+
+    const persona = attributes.get('_persona');
+    if (attributes.get('_type') === 'response' && persona) {
+      node = toResponse(persona, node.persona ? node.text : text.trim());
+    } else if (attributes.get('_type') === 'prompt' && node.type === 'response') {
+      node = { type: 'prompt', text: text.trim(), children: [] };
+    }
+
+    // Outlines without text are dropped; their children move up a level
+    const siblings = stack.length > 0 ? stack[stack.length - 1].children : topLevel;
+    if (node.text) {
+      siblings.push(node);
+    }
+    if (match[2] !== '/') {
+      stack.push(node.text ? node : { ...node, children: siblings });
+    }
+  }
+
+  if (stack.length > 0) {
+    throw invalidImport('The OPML outlines are not balanced');
+  }
+
+  return resolveRoot(topLevel.length > 1 && title ? title : null, topLevel);
+};
+
+/**
+ * Parses Forum's JSON export.
+ *
+ * @param {string} content - JSON document
+ * @returns {SessionImportNode} Root prompt with its descendants
+ * @throws {Error} If the document is not a supported Forum export
+ */
+const parseSessionExport = (content: string): SessionImportNode => {
+  let document: SessionExport;
+  try {
+    document = JSON.parse(content);
+  } catch {
+    throw invalidImport('The document is not valid JSON');
+  }
+
+  if (document?.format !== 'forum-session') {
+    throw invalidImport('The document is not a Forum session export');
+  }
+  if (document.version !== 1) {
+    throw invalidImport(`Unsupported export version ${document.version}`);
+  }
+
+  const convert = (node: ExportedNode): SessionImportNode => {
+    if (!node || typeof node.text !== 'string' || !['prompt', 'response'].includes(node.type) || !Array.isArray(node.children)) {
+      throw invalidImport('The export contains an invalid node');
+    }
+
+    const children = node.children.map(convert);
+    if (node.type === 'response' && node.persona) {
+      return {
+        ...toResponse(node.persona, node.text),
+        ...(node.model && { model: node.model }),
+        // Fallback text stands in for a failed response; keep it marked so it can be retried
+        ...(node.isFallback === true && {
+          isFallback: true,
+          ...(typeof node.error === 'string' && { error: node.error })
+        }),
+        children
+      };
+    }
+    return { type: 'prompt', text: node.text, children };
+  };
+
+  const root = convert(document.root);
+  if (root.type !== 'prompt' || !root.text.trim()) {
+    throw invalidImport('The export must start with a root prompt');
+  }
+  return root;
+};
+
+// ===================================================================
+// IMPORT
+// ===================================================================
+
+/**
+ * Guesses the format of an imported document from its first character.
+ *
+ * @param {string} content - Imported document
+ * @returns {ImportFormat} Detected format
+ */
+export const detectImportFormat = (content: string): ImportFormat => {
+  const start = content.trimStart();
+  if (start.startsWith('{')) return 'json';
+  if (start.startsWith('<')) return 'opml';
+  return 'markdown';
+};
+
+/**
+ * Parses an imported document into a node tree.
+ *
+ * @param {string} content - The outline or export document
+ * @param {ImportFormat} [format] - Document format (detected when absent)
+ * @returns {SessionImportNode} Root prompt with its descendants
+ * @throws {Error} An invalid-import error (see isInvalidImportError) for unusable content
+ *
+ * @example
+ * const root = parseImport('# Launch a podcast\n- **Optimist:** Sponsors will follow');
+ */
+export const parseImport = (content: string, format: ImportFormat = detectImportFormat(content)): SessionImportNode => {
+  switch (format) {
+    case 'markdown':
+      return parseMarkdown(content);
+    case 'opml':
+      return parseOpml(content);
+    case 'json':
+      return parseSessionExport(content);
+  }
+};
+
+/**
+ * Counts the nodes of an imported tree.
+ *
+ * @param {SessionImportNode} root - Imported tree
+ * @returns {number} Number of nodes, including the root
+ */
+export const countImportedNodes = (root: SessionImportNode): number => {
+  return 1 + root.children.reduce((total, child) => total + countImportedNodes(child), 0);
+};
+
+/**
+ * Lists the registered personas that answer in an imported tree, in order
+ * of first appearance. Falls back to the built-in personalities so
+ * imported prompts can still be expanded.
+ *
+ * @param {SessionImportNode} root - Imported tree
+ * @returns {PersonalityName[]} Personas for the new session
+ */
+export const getImportedPersonas = (root: SessionImportNode): PersonalityName[] => {
+  const names: PersonalityName[] = [];
+  const visit = (node: SessionImportNode) => {
+    if (node.persona && !names.includes(node.persona)) names.push(node.persona);
+    node.children.forEach(visit);
+  };
+  visit(root);
+
+  return resolvePersonas(names).map(persona => persona.name);
+};
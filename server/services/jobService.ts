@@ -0,0 +1,342 @@
+/**
+ * ===================================================================
+ * JOB SERVICE - Forum AI Brainstorming Application
+ * ===================================================================
+ *
+ * Runs brainstorm and branch generations as jobs that outlive the request
+ * that started them. The session's nodes are created up front; each
+ * persona's response is committed to its node as soon as that persona
+ * finishes, so a slow model or a dropped connection never loses the
+ * responses that are already done.
+ *
+ * Job Lifecycle:
+ * - createJob: registers the job for the session's new response nodes
+ * - runJob: streams the personas, tracks per-persona progress and saves
+ *   every finished response with updateNodeText
+ * - getJob / listSessionJobs: report progress to polling or reconnecting clients
+ * - cancelJob: stops the generation and deletes the nodes of a branch job
+ *
+ * Listeners (e.g. an open SSE stream) can follow a job while it runs; the
+ * job carries on when they go away.
+ *
+ * Jobs are kept in memory. Finished jobs are forgotten after
+ * FINISHED_JOB_TTL_MS; jobs still running when the server stops are lost,
+ * leaving their unfinished response nodes empty.
+ *
+ * @author Forum Development Team
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { randomUUID } from 'crypto';
+import { deleteSubtree, getSession, updateNodeText } from './graphService.js';
+import type { PersonalityStreamHandlers } from './personalityService.js';
+import type { GenerationJob, JobPersonaProgress, Node } from '../../shared/types.js';
+
+/**
+ * How long finished jobs can still be looked up, in milliseconds.
+ */
+const FINISHED_JOB_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Callbacks for following a running job.
+ */
+export interface JobListener {
+  /** Called with each chunk of a persona's response */
+  onDelta?: (nodeId: string, delta: string) => void;
+
+  /** Called once a persona's response has been saved to the session */
+  onDone?: (node: Node) => void;
+
+  /** Called when a persona failed or its response could not be saved */
+  onError?: (nodeId: string, message: string) => void;
+}
+
+/**
+ * Options for a new job.
+ */
+export interface JobOptions {
+  /** Whether the job starts a session or expands a node */
+  kind: GenerationJob['kind'];
+
+  /** Session the nodes belong to */
+  sessionId: string;
+
+  /** Node that was expanded (branch jobs only) */
+  parentNodeId?: string;
+
+  /** Nodes created for the job; each response node gets one persona entry */
+  nodes: Node[];
+}
+
+const jobs = new Map<string, GenerationJob>();
+
+/**
+ * Aborts the generation of each running job.
+ */
+const controllers = new Map<string, AbortController>();
+
+// ===================================================================
+// JOB REGISTRY
+// ===================================================================
+
+/**
+ * Forgets finished jobs older than FINISHED_JOB_TTL_MS.
+ *
+ * @param {number} [now=Date.now()] - Current time in milliseconds
+ */
+const pruneJobs = (now: number = Date.now()): void => {
+  jobs.forEach((job, jobId) => {
+    if (job.completedAt && now - Date.parse(job.completedAt) > FINISHED_JOB_TTL_MS) {
+      jobs.delete(jobId);
+    }
+  });
+};
+
+/**
+ * Copies a job so callers can't change the registry's copy.
+ */
+const snapshot = (job: GenerationJob): GenerationJob => ({
+  ...job,
+  personas: job.personas.map(progress => ({ ...progress }))
+});
+
+/**
+ * Registers a job for freshly created nodes. The job starts in the
+ * 'running' state with every persona 'pending'.
+ *
+ * @param {JobOptions} options - Job kind, session and created nodes
+ * @returns {GenerationJob} The registered job
+ * @throws {Error} If none of the nodes is a response node
+ *
+ * @example
+ * const { newNodes } = await addBranch(sessionId, nodeId, getPersonalityPlaceholders(personas));
+ * const job = createJob({ kind: 'branch', sessionId, parentNodeId: nodeId, nodes: newNodes });
+ */
+export const createJob = ({ kind, sessionId, parentNodeId, nodes }: JobOptions): GenerationJob => {
+  const personas: JobPersonaProgress[] = nodes
+    .filter(node => node.type === 'response' && node.persona)
+    .map(node => ({ persona: node.persona!, nodeId: node.id, status: 'pending', text: '' }));
+  if (personas.length === 0) {
+    throw new Error('Job has no response nodes');
+  }
+
+  pruneJobs();
+  const now = new Date().toISOString();
+  const job: GenerationJob = {
+    id: randomUUID(),
+    kind,
+    sessionId,
+    ...(parentNodeId ? { parentNodeId } : {}),
+    status: 'running',
+    personas,
+    createdAt: now,
+    updatedAt: now
+  };
+  jobs.set(job.id, job);
+  controllers.set(job.id, new AbortController());
+
+  console.info(`🧵 Created ${kind} job ${job.id} for session ${sessionId} (${personas.length} personas)`);
+  return snapshot(job);
+};
+
+/**
+ * Retrieves a job.
+ *
+ * @param {string} jobId - The UUID of the job
+ * @returns {GenerationJob | undefined} The job, or undefined if unknown or forgotten
+ */
+export const getJob = (jobId: string): GenerationJob | undefined => {
+  pruneJobs();
+  const job = jobs.get(jobId);
+  return job && snapshot(job);
+};
+
+/**
+ * Lists a session's running and recently finished jobs, oldest first.
+ *
+ * @param {string} sessionId - The UUID of the session
+ * @returns {GenerationJob[]} The session's jobs
+ */
+export const listSessionJobs = (sessionId: string): GenerationJob[] => {
+  pruneJobs();
+  return Array.from(jobs.values())
+    .filter(job => job.sessionId === sessionId)
+    .map(snapshot);
+};
+
+// ===================================================================
+// JOB EXECUTION
+// ===================================================================
+
+/**
+ * Runs a registered job. Persona progress is updated as text arrives and
+ * every finished response is saved to its node before the next listener
+ * event. A persona whose response can't be saved (e.g. the node was
+ * deleted meanwhile) fails without affecting the others.
+ *
+ * @param {string} jobId - The UUID of a running job
+ * @param {Function} generate - Starts streaming the personas with the given handlers
+ * @param {JobListener} [listener] - Follows the job while it runs
+ * @returns {Promise<GenerationJob>} The finished job
+ * @throws {Error} If the job doesn't exist or isn't running
+ *
+ * @example
+ * const finished = await runJob(job.id,
+ *   (handlers) => streamPersonalityBranch(parentText, followUp, handlers, personas, ancestors)
+ * );
+ */
+export const runJob = async (
+  jobId: string,
+  generate: (handlers: PersonalityStreamHandlers) => Promise<unknown>,
+  listener: JobListener = {}
+): Promise<GenerationJob> => {
+  const job = jobs.get(jobId);
+  const controller = controllers.get(jobId);
+  if (!job || job.status !== 'running' || !controller) {
+    throw new Error('Job not found');
+  }
+
+  const { signal } = controller;
+  const progressByPersona = new Map(job.personas.map(progress => [progress.persona, progress]));
+  const pendingSaves: Promise<void>[] = [];
+  const touch = () => { job.updatedAt = new Date().toISOString(); };
+
+  /**
+   * Marks a persona failed, keeping the text it produced so far.
+   */
+  const fail = (progress: JobPersonaProgress, message: string) => {
+    progress.status = 'failed';
+    progress.error = message;
+    touch();
+    listener.onError?.(progress.nodeId, message);
+  };
+
+  try {
+    await generate({
+      signal,
+      onDelta: (persona, delta) => {
+        const progress = progressByPersona.get(persona);
+        if (!progress || progress.status === 'done' || progress.status === 'failed' || signal.aborted) return;
+
+        progress.status = 'generating';
+        progress.text += delta;
+        touch();
+        listener.onDelta?.(progress.nodeId, delta);
+      },
+      onDone: (response) => {
+        const progress = progressByPersona.get(response.persona);
+        if (!progress || signal.aborted) return;
+
+        progress.text = response.text;
+        pendingSaves.push(
+          updateNodeText(job.sessionId, progress.nodeId, response.text, response)
+            .then(node => {
+              if (signal.aborted) return;
+              progress.status = 'done';
+              progress.node = node;
+              if (node.error) progress.error = node.error;
+              touch();
+              listener.onDone?.(node);
+            })
+            .catch(error => {
+              if (signal.aborted) return;
+              console.error(`Failed to save node ${progress.nodeId} of job ${job.id}:`, error);
+              fail(progress, 'Failed to save response');
+            })
+        );
+      },
+      onError: (persona, message) => {
+        // A fallback response follows via onDone, so the persona isn't failed yet
+        const progress = progressByPersona.get(persona);
+        if (progress && !signal.aborted) listener.onError?.(progress.nodeId, message);
+      }
+    });
+
+    await Promise.all(pendingSaves);
+    if (signal.aborted) return snapshot(job);
+    job.personas
+      .filter(progress => progress.status === 'pending' || progress.status === 'generating')
+      .forEach(progress => fail(progress, 'No response was generated'));
+    job.status = 'completed';
+  } catch (error) {
+    await Promise.allSettled(pendingSaves);
+    if (signal.aborted) return snapshot(job);
+    console.error(`Generation job ${job.id} failed:`, error);
+    job.personas
+      .filter(progress => progress.status === 'pending' || progress.status === 'generating')
+      .forEach(progress => fail(progress, 'Generation failed'));
+    job.status = 'failed';
+    job.error = 'Generation failed';
+  }
+
+  controllers.delete(job.id);
+  job.completedAt = new Date().toISOString();
+  touch();
+  console.info(`✅ Job ${job.id} ${job.status}: ${job.personas.filter(progress => progress.status === 'done').length}/${job.personas.length} personas done`);
+  return snapshot(job);
+};
+
+/**
+ * Cancels a running job: stops generating, marks the unfinished personas
+ * failed and, for a branch job, deletes the branch it created (responses
+ * that were already saved included). The deletion can be undone like any
+ * other with restoreSubtree.
+ *
+ * @param {string} jobId - The UUID of a running job
+ * @returns {Promise<{job: GenerationJob, deletedNodeIds: string[]}>} The cancelled job and the deleted nodes
+ * @throws {Error} If the job doesn't exist or isn't running
+ *
+ * @example
+ * const { deletedNodeIds } = await cancelJob(jobId);
+ */
+export const cancelJob = async (jobId: string): Promise<{ job: GenerationJob, deletedNodeIds: string[] }> => {
+  const job = jobs.get(jobId);
+  const controller = controllers.get(jobId);
+  if (!job || job.status !== 'running' || !controller) {
+    throw new Error('Job not running');
+  }
+
+  controller.abort();
+  controllers.delete(jobId);
+  job.personas
+    .filter(progress => progress.status === 'pending' || progress.status === 'generating')
+    .forEach(progress => {
+      progress.status = 'failed';
+      progress.error = 'Generation was cancelled';
+    });
+  job.status = 'cancelled';
+  job.completedAt = new Date().toISOString();
+  job.updatedAt = job.completedAt;
+
+  // The branch roots are the nodes right below the expanded node: the
+  // responses, or the follow-up prompt they answer
+  const deletedNodeIds: string[] = [];
+  const session = job.kind === 'branch' ? await getSession(job.sessionId) : undefined;
+  if (session) {
+    const nodesById = new Map(session.nodes.map(node => [node.id, node]));
+    const rootIds = new Set<string>();
+    job.personas.forEach(progress => {
+      const node = nodesById.get(progress.nodeId);
+      const root = node?.parentId === job.parentNodeId ? node : nodesById.get(node?.parentId || '');
+      if (root && root.parentId === job.parentNodeId) rootIds.add(root.id);
+    });
+
+    for (const rootId of rootIds) {
+      const { deletedNodeIds: removed } = await deleteSubtree(job.sessionId, rootId);
+      deletedNodeIds.push(...removed);
+    }
+  }
+
+  console.info(`✖️ Cancelled job ${job.id}, deleted ${deletedNodeIds.length} nodes`);
+  return { job: snapshot(job), deletedNodeIds };
+};
+
+/**
+ * Forgets every job. Intended for tests.
+ */
+export const clearJobs = (): void => {
+  controllers.forEach(controller => controller.abort());
+  controllers.clear();
+  jobs.clear();
+};
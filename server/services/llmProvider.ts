@@ -0,0 +1,256 @@
+/**
+ * ===================================================================
+ * LLM PROVIDER - Forum AI Brainstorming Application
+ * ===================================================================
+ *
+ * This module defines the vendor-neutral LLM provider layer used by the
+ * Forum services. Callers describe what they want generated (system prompt,
+ * conversation messages, sampling settings) and the configured provider
+ * decides how to talk to its backend.
+ *
+ * Available Providers:
+ * - gemini: Google Gemini via @google/genai (default)
+ * - openai: Any OpenAI-compatible chat completions server
+ *   (OpenAI, a local Ollama or llama.cpp server, vLLM, ...)
+ * - mock: Deterministic offline provider for development and tests
+ *
+ * Key Features:
+ * - Single LLMProvider interface (generate, stream, model info)
+ * - Provider selection through environment configuration
+ * - Lazily created, cached provider instance
+ * - Test hooks for injecting or resetting the active provider
+ *
+ * Environment Variables:
+ * - LLM_PROVIDER: 'gemini' | 'openai' | 'mock' (default: gemini)
+ * - LLM_MODEL: Model override for the selected provider
+ * - GEMINI_API_KEY: API key for the Gemini provider
+ * - OPENAI_BASE_URL: Base URL of the OpenAI-compatible server
+ *   (default: http://localhost:11434/v1, Ollama's endpoint)
+ * - OPENAI_API_KEY: Optional bearer token for the OpenAI-compatible server
+ *
+ * @author Forum Development Team
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { createGeminiProvider } from './providers/geminiProvider.js';
+import { createOpenAICompatibleProvider } from './providers/openAICompatibleProvider.js';
+import { createMockProvider } from './providers/mockProvider.js';
+
+// ===================================================================
+// TYPE DEFINITIONS
+// ===================================================================
+
+/**
+ * Supported provider identifiers for the LLM_PROVIDER setting.
+ */
+export type LLMProviderName = 'gemini' | 'openai' | 'mock';
+
+/**
+ * A single turn in the conversation sent to the model.
+ * System instructions are passed separately through LLMRequest.systemPrompt.
+ */
+export interface LLMMessage {
+  /** Who produced this turn */
+  role: 'user' | 'assistant';
+
+  /** Plain text content of the turn */
+  content: string;
+}
+
+/**
+ * Generation request shared by all providers.
+ */
+export interface LLMRequest {
+  /** Conversation turns, oldest first; the last turn is normally from the user */
+  messages: LLMMessage[];
+
+  /** Optional system instruction that shapes the model's behaviour */
+  systemPrompt?: string;
+
+  /** Sampling temperature (provider default when omitted) */
+  temperature?: number;
+
+  /** Upper bound on generated tokens */
+  maxOutputTokens?: number;
+
+  /** Per-request model override (provider default when omitted) */
+  model?: string;
+
+  /** Optional signal used to cancel an in-flight request */
+  signal?: AbortSignal;
+}
+
+/**
+ * Result of a non-streaming generation.
+ */
+export interface LLMResult {
+  /** Generated text (may be empty if the model returned nothing) */
+  text: string;
+
+  /** Model that actually produced the text */
+  model: string;
+}
+
+/**
+ * Descriptive information about a configured provider.
+ */
+export interface LLMModelInfo {
+  /** Provider identifier */
+  provider: LLMProviderName;
+
+  /** Default model used when a request does not override it */
+  model: string;
+
+  /** Endpoint the provider talks to, when applicable */
+  baseUrl?: string;
+}
+
+/**
+ * Contract implemented by every LLM backend.
+ */
+export interface LLMProvider {
+  /** Provider identifier */
+  readonly name: LLMProviderName;
+
+  /**
+   * Generates a complete response for the request.
+   *
+   * @param {LLMRequest} request - Messages and generation settings
+   * @returns {Promise<LLMResult>} Generated text and the model used
+   */
+  generate(request: LLMRequest): Promise<LLMResult>;
+
+  /**
+   * Streams a response for the request as incremental text chunks.
+   *
+   * @param {LLMRequest} request - Messages and generation settings
+   * @returns {AsyncIterable<string>} Text deltas in generation order
+   */
+  stream(request: LLMRequest): AsyncIterable<string>;
+
+  /**
+   * Describes the provider and its default model.
+   *
+   * @returns {LLMModelInfo} Provider information
+   */
+  getModelInfo(): LLMModelInfo;
+}
+
+// ===================================================================
+// PROVIDER CONFIGURATION
+// ===================================================================
+
+/**
+ * Default generation settings applied when a caller does not specify them.
+ */
+export const DEFAULT_GENERATION_CONFIG = {
+  maxOutputTokens: 500,
+  temperature: 0.7
+};
+
+/**
+ * Default models per provider.
+ */
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  gemini: 'gemini-2.0-flash-001',
+  openai: 'llama3.1',
+  mock: 'mock-1'
+};
+
+/**
+ * Resolves the configured provider name from the environment.
+ * Unknown values fall back to Gemini with a warning.
+ *
+ * @returns {LLMProviderName} The provider to use
+ */
+export const getConfiguredProviderName = (): LLMProviderName => {
+  const configured = (process.env.LLM_PROVIDER || 'gemini').toLowerCase();
+
+  if (configured === 'gemini' || configured === 'openai' || configured === 'mock') {
+    return configured;
+  }
+
+  console.warn(`Unknown LLM_PROVIDER "${configured}", defaulting to gemini`);
+  return 'gemini';
+};
+
+/**
+ * Builds a provider instance from the current environment.
+ *
+ * @returns {LLMProvider | null} Configured provider or null if it cannot be used
+ */
+const createProviderFromEnv = (): LLMProvider | null => {
+  const providerName = getConfiguredProviderName();
+  const model = process.env.LLM_MODEL || DEFAULT_MODELS[providerName];
+
+  switch (providerName) {
+    case 'openai':
+      return createOpenAICompatibleProvider({
+        baseUrl: process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+        apiKey: process.env.OPENAI_API_KEY,
+        model
+      });
+
+    case 'mock':
+      return createMockProvider({ model });
+
+    case 'gemini':
+    default:
+      return createGeminiProvider({
+        apiKey: process.env.GEMINI_API_KEY,
+        model
+      });
+  }
+};
+
+// ===================================================================
+// PROVIDER ACCESS
+// ===================================================================
+
+/**
+ * Cached provider instance. `undefined` means not yet resolved,
+ * `null` means resolution happened but no provider is usable.
+ */
+let activeProvider: LLMProvider | null | undefined;
+
+/**
+ * Returns the configured LLM provider, creating it on first use.
+ * Services fall back to canned responses when this returns null.
+ *
+ * @returns {LLMProvider | null} Active provider or null if unavailable
+ *
+ * @example
+ * const provider = getLLMProvider();
+ * if (provider) {
+ *   const { text } = await provider.generate({ messages: [{ role: 'user', content: 'Hi' }] });
+ * }
+ */
+export const getLLMProvider = (): LLMProvider | null => {
+  if (activeProvider === undefined) {
+    activeProvider = createProviderFromEnv();
+
+    if (activeProvider) {
+      const info = activeProvider.getModelInfo();
+      console.info(`🤖 LLM provider ready: ${info.provider} (${info.model})`);
+    }
+  }
+
+  return activeProvider;
+};
+
+/**
+ * Replaces the active provider. Intended for tests and embedding.
+ *
+ * @param {LLMProvider | null} provider - Provider to use, or null to force fallbacks
+ */
+export const setLLMProvider = (provider: LLMProvider | null): void => {
+  activeProvider = provider;
+};
+
+/**
+ * Clears the cached provider so the next call re-reads the environment.
+ */
+export const resetLLMProvider = (): void => {
+  activeProvider = undefined;
+};
@@ -0,0 +1,211 @@
+/**
+ * ===================================================================
+ * PERSONA REGISTRY - Forum AI Brainstorming Application
+ * ===================================================================
+ *
+ * This service owns the set of AI personalities available to Forum
+ * sessions. It is seeded with the three built-in personalities
+ * (Optimist, Pessimist, Realist) and lets teams register their own
+ * voices - a "Domain Expert", a "Customer", a "Devil's Advocate" - each
+ * with its own system prompt, color, temperature and optional model.
+ *
+ * Key Features:
+ * - Built-in personalities that can be tuned but not deleted
+ * - Create, read, update and delete operations for custom personalities
+ * - Resolution of a session's persona names into full configurations
+ * - In-memory storage for MVP deployment: custom personalities do not
+ *   survive a restart, and branching a stored session that used them is
+ *   refused with the missing names instead of switching to other personas
+ *
+ * Dependencies:
+ * - Shared types for persona data structures
+ *
+ * @author Forum Development Team
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import type { Persona, PersonalityName, PersonaCreateRequest, PersonaUpdateRequest } from '../../shared/types.js';
+
+// ===================================================================
+// BUILT-IN PERSONALITIES
+// ===================================================================
+
+/**
+ * Configuration for the three built-in personalities in Forum.
+ * Each personality has a unique system prompt that defines its perspective
+ * and approach to analyzing user topics.
+ */
+export const DEFAULT_PERSONAS: Persona[] = [
+  {
+    name: 'optimist',
+    label: 'Optimist',
+    systemPrompt: 'You are an Optimist AI personality. Assume the best-case scenario and highlight bold opportunities. Focus on potential, possibilities, and positive outcomes. Be encouraging and forward-thinking, but stay grounded in reality. Respond with enthusiasm while maintaining credibility.',
+    color: 'green',
+    temperature: 0.7,
+    builtIn: true
+  },
+  {
+    name: 'pessimist',
+    label: 'Pessimist',
+    systemPrompt: 'You are a Pessimist AI personality. Surface risks, pitfalls, and worst-case outcomes first. Focus on challenges, obstacles, and potential failures. Be cautious and analytical, identifying what could go wrong. Provide critical perspective while being constructive.',
+    color: 'red',
+    temperature: 0.7,
+    builtIn: true
+  },
+  {
+    name: 'realist',
+    label: 'Realist',
+    systemPrompt: 'You are a Realist AI personality. Project the most likely scenario, balancing pros and cons. Focus on practical considerations and realistic expectations. Provide balanced assessment considering both opportunities and constraints. Be pragmatic and evidence-based.',
+    color: 'grey',
+    temperature: 0.7,
+    builtIn: true
+  }
+];
+
+/**
+ * Defaults applied to optional fields of newly created personalities.
+ */
+const PERSONA_DEFAULTS = {
+  color: 'blue',
+  temperature: 0.7
+};
+
+// ===================================================================
+// PERSONA STORAGE
+// ===================================================================
+
+/**
+ * In-memory persona storage, keyed by persona name.
+ * Map insertion order determines listing order (built-ins first).
+ */
+const personas = new Map<PersonalityName, Persona>(
+  DEFAULT_PERSONAS.map(persona => [persona.name, { ...persona }])
+);
+
+// ===================================================================
+// PERSONA RETRIEVAL FUNCTIONS
+// ===================================================================
+
+/**
+ * Lists every registered personality, built-ins first.
+ *
+ * @returns {Persona[]} All personas
+ */
+export const listPersonas = (): Persona[] => {
+  return Array.from(personas.values());
+};
+
+/**
+ * Retrieves a personality by name.
+ *
+ * @param {PersonalityName} name - Persona name
+ * @returns {Persona | undefined} The persona or undefined if not registered
+ */
+export const getPersona = (name: PersonalityName): Persona | undefined => {
+  return personas.get(name);
+};
+
+/**
+ * Resolves persona names into their current configurations.
+ * Unknown names (e.g. personas deleted after a session was created) are
+ * skipped. When no names are given, or none resolve, the built-in
+ * personalities are used. Check for unknown names first where silently
+ * substituting personas would be wrong, such as branching a session.
+ *
+ * @param {PersonalityName[]} [names] - Persona names in the desired order
+ * @returns {Persona[]} Resolved personas in the given order
+ *
+ * @example
+ * resolvePersonas(['realist', 'domain-expert']);
+ * // Returns: [realistPersona, domainExpertPersona]
+ */
+export const resolvePersonas = (names?: PersonalityName[]): Persona[] => {
+  const resolved = (names || [])
+    .map(name => personas.get(name))
+    .filter((persona): persona is Persona => Boolean(persona));
+
+  if (resolved.length > 0) {
+    return resolved;
+  }
+
+  return DEFAULT_PERSONAS.map(persona => personas.get(persona.name) || persona);
+};
+
+// ===================================================================
+// PERSONA MODIFICATION FUNCTIONS
+// ===================================================================
+
+/**
+ * Registers a new personality.
+ *
+ * @param {PersonaCreateRequest} request - Persona definition
+ * @returns {Persona} The created persona
+ * @throws {Error} If a persona with the same name already exists
+ */
+export const createPersona = (request: PersonaCreateRequest): Persona => {
+  if (personas.has(request.name)) {
+    throw new Error('Persona already exists');
+  }
+
+  const persona: Persona = {
+    name: request.name,
+    label: request.label || request.name,
+    systemPrompt: request.systemPrompt,
+    color: request.color || PERSONA_DEFAULTS.color,
+    temperature: request.temperature ?? PERSONA_DEFAULTS.temperature,
+    model: request.model,
+    builtIn: false
+  };
+
+  personas.set(persona.name, persona);
+  console.info(`🎭 Registered persona "${persona.name}"`);
+  return persona;
+};
+
+/**
+ * Updates an existing personality. Built-in personalities may be tuned too.
+ *
+ * @param {PersonalityName} name - Persona to update
+ * @param {PersonaUpdateRequest} updates - Fields to change
+ * @returns {Persona} The updated persona
+ * @throws {Error} If the persona does not exist
+ */
+export const updatePersona = (name: PersonalityName, updates: PersonaUpdateRequest): Persona => {
+  const existing = personas.get(name);
+  if (!existing) {
+    throw new Error('Persona not found');
+  }
+
+  const persona: Persona = {
+    ...existing,
+    ...Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined)),
+    name: existing.name,
+    builtIn: existing.builtIn
+  };
+
+  personas.set(name, persona);
+  console.info(`🎭 Updated persona "${name}"`);
+  return persona;
+};
+
+/**
+ * Removes a custom personality. Existing nodes keep their persona name
+ * and color; sessions that referenced it simply stop generating for it.
+ *
+ * @param {PersonalityName} name - Persona to delete
+ * @throws {Error} If the persona does not exist or is built in
+ */
+export const deletePersona = (name: PersonalityName): void => {
+  const existing = personas.get(name);
+  if (!existing) {
+    throw new Error('Persona not found');
+  }
+
+  if (existing.builtIn) {
+    throw new Error('Built-in personas cannot be deleted');
+  }
+
+  personas.delete(name);
+  console.info(`🎭 Deleted persona "${name}"`);
+};
@@ -4,68 +4,63 @@
  * ===================================================================
  * 
  * This service manages the core personality system of the Forum application.
- * It handles the generation of responses from three distinct AI personalities
+ * It handles the generation of responses from distinct AI personalities
  * that provide different perspectives on user-submitted topics.
  * 
- * The Three Personalities:
+ * The Built-in Personalities:
  * 1. OPTIMIST - Focuses on opportunities and positive outcomes
  * 2. PESSIMIST - Identifies risks and potential challenges  
  * 3. REALIST - Provides balanced, practical analysis
  * 
+ * Additional personalities come from the persona registry; every function
+ * accepts the list of personas that should respond and defaults to the
+ * built-in three.
+ * 
  * Key Features:
- * - Parallel personality response generation using Google's Gemini API
- * - Robust fallback system for offline/error scenarios
+ * - Parallel personality response generation through the LLM provider layer
+ * - Bounded retries with jittered backoff and a shared circuit breaker
+ * - Robust fallback system for offline/error scenarios; fallback responses
+ *   are flagged with `isFallback` and an `error` so they are never shown
+ *   as real answers
  * - Consistent personality traits through system prompts
- * - Branching conversation support for deeper exploration
+ * - Per-persona temperature and model settings
+ * - Branching conversation support with ancestor-aware transcripts
  * - Comprehensive error handling and logging
  * 
  * Dependencies:
- * - Google Generative AI (Gemini) for personality response generation
- * - Environment variable GEMINI_API_KEY for API authentication
+ * - LLM provider layer (Gemini, OpenAI-compatible or mock backend)
+ * - Persona registry for personality configurations
+ * - Context service for branch conversation transcripts
+ * - Resilience helpers for retries and the LLM circuit breaker
+ * - Environment variable LLM_PROVIDER (and provider credentials) for configuration
  * 
  * @author Forum Development Team
  * @version 1.0.0
  * @since 2024
  */
 
-import { GoogleGenAI } from '@google/genai';
+import { getLLMProvider, DEFAULT_GENERATION_CONFIG } from './llmProvider.js';
+import type { LLMRequest } from './llmProvider.js';
+import { DEFAULT_PERSONAS, resolvePersonas } from './personaRegistry.js';
+import { buildBranchTranscript } from './contextService.js';
+import { withRetry, getLLMRetryOptions, getLLMCircuitBreaker, isCircuitOpenError } from './resilience.js';
+import type { Node, Persona, PersonalityName } from '../../shared/types.js';
 
 // ===================================================================
 // PERSONALITY CONFIGURATION
 // ===================================================================
 
 /**
- * Configuration for the three fixed personalities in Forum.
- * Each personality has a unique system prompt that defines its perspective
- * and approach to analyzing user topics.
+ * Configuration for the three built-in personalities in Forum.
+ * Custom personalities are managed through the persona registry.
  */
-export const PERSONAS = [
-  {
-    name: 'optimist',
-    systemPrompt: 'You are an Optimist AI personality. Assume the best-case scenario and highlight bold opportunities. Focus on potential, possibilities, and positive outcomes. Be encouraging and forward-thinking, but stay grounded in reality. Respond with enthusiasm while maintaining credibility.',
-    color: 'green'
-  },
-  {
-    name: 'pessimist', 
-    systemPrompt: 'You are a Pessimist AI personality. Surface risks, pitfalls, and worst-case outcomes first. Focus on challenges, obstacles, and potential failures. Be cautious and analytical, identifying what could go wrong. Provide critical perspective while being constructive.',
-    color: 'red'
-  },
-  {
-    name: 'realist',
-    systemPrompt: 'You are a Realist AI personality. Project the most likely scenario, balancing pros and cons. Focus on practical considerations and realistic expectations. Provide balanced assessment considering both opportunities and constraints. Be pragmatic and evidence-based.',
-    color: 'grey'
-  }
-];
+export const PERSONAS = DEFAULT_PERSONAS;
 
 // ===================================================================
 // TYPE DEFINITIONS
 // ===================================================================
 
-/**
- * Type representing the three available AI personalities.
- * Used throughout the application for type safety and consistency.
- */
-export type PersonalityName = 'optimist' | 'pessimist' | 'realist';
+export type { PersonalityName };
 
 /**
  * Interface for personality response data.
@@ -80,87 +75,165 @@ export interface PersonalityResponse {
   
   /** Color associated with this personality for UI theming */
   color: string;
+  
+  /** True when `text` is canned fallback content rather than a model answer */
+  isFallback?: boolean;
+  
+  /** Why no model answer is available (set together with `isFallback`) */
+  error?: string;
+  
+  /** Model that produced the text (absent for fallback content) */
+  model?: string;
 }
 
-// ===================================================================
-// GOOGLE GEMINI AI INITIALIZATION
-// ===================================================================
-
 /**
- * Initializes the Google Generative AI client with API key from environment.
- * Handles configuration validation and error scenarios gracefully.
- * 
- * @returns {GoogleGenAI | null} Initialized GenAI client or null if API key unavailable
+ * Callbacks invoked while personality responses are streamed.
+ * Each persona streams independently, so callbacks for different
+ * personas may interleave.
  */
-const initializeGenAI = () => {
-  const apiKey = process.env.GEMINI_API_KEY;
+export interface PersonalityStreamHandlers {
+  /** Called with each incremental chunk of a persona's response */
+  onDelta: (persona: PersonalityName, delta: string) => void;
   
-  if (!apiKey) {
-    console.warn('GEMINI_API_KEY not configured, will use fallback responses');
-    return null;
-  }
+  /** Called once per persona with its final, cleaned-up response */
+  onDone: (response: PersonalityResponse) => void;
   
-  // Log that API key is configured (but don't log the actual key)
-  console.info(`Gemini API key configured for PersonalityService (${apiKey.length} characters, starts with: ${apiKey.substring(0, 8)}...)`);
+  /** Called when a persona's generation fails (a fallback response follows via onDone) */
+  onError?: (persona: PersonalityName, message: string) => void;
   
-  try {
-    return new GoogleGenAI({ apiKey });
-  } catch (error) {
-    console.error('Failed to initialize GoogleGenAI for PersonalityService:', error);
-    return null;
-  }
-};
+  /** Stops the remaining generation when aborted; cut-off personas get a fallback response */
+  signal?: AbortSignal;
+}
 
 // ===================================================================
 // MAIN PERSONALITY GENERATION FUNCTIONS
 // ===================================================================
 
 /**
- * Generates responses from all three AI personalities for a given prompt.
+ * Fallback reasons reported to the client.
+ */
+const FALLBACK_ERRORS = {
+  NO_PROVIDER: 'No AI provider is configured',
+  UNAVAILABLE: 'The AI service is temporarily unavailable',
+  FAILED: 'The AI service did not respond',
+  EMPTY: 'The AI service returned an empty response',
+  CANCELLED: 'Generation was cancelled'
+};
+
+/**
+ * Describes why a provider call failed, for the fallback `error` field.
+ * 
+ * @param {unknown} error - Error thrown by the provider call
+ * @returns {string} User-facing reason
+ */
+const describeFailure = (error: unknown): string => {
+  return isCircuitOpenError(error) ? FALLBACK_ERRORS.UNAVAILABLE : FALLBACK_ERRORS.FAILED;
+};
+
+/**
+ * Runs a provider call with bounded retries behind the shared LLM
+ * circuit breaker. Only calls that still fail after retrying count
+ * against the breaker.
+ * 
+ * @param {PersonalityName} personaName - Persona being generated (for logging)
+ * @param {Function} operation - The provider call
+ * @param {Function} [canRetry] - Returns false when a failed attempt must not be repeated
+ * @returns {Promise<T>} The call's result
+ */
+const callProvider = <T>(personaName: PersonalityName, operation: () => Promise<T>, canRetry?: () => boolean): Promise<T> => {
+  return getLLMCircuitBreaker().execute(() => withRetry(operation, {
+    ...getLLMRetryOptions(),
+    shouldRetry: () => canRetry?.() ?? true,
+    onRetry: (error, attempt, delayMs) => {
+      console.warn(`🔁 Retrying ${personaName} personality (retry ${attempt}) in ${delayMs}ms:`, (error as Error)?.message || error);
+    }
+  }));
+};
+
+/**
+ * Builds the provider request for a single persona.
+ * The persona system prompt steers the model; the user prompt is the only turn.
+ * 
+ * @param {Persona} persona - Persona configuration
+ * @param {string} prompt - The user's topic or question
+ * @returns {LLMRequest} Provider-neutral generation request
+ */
+const buildPersonaRequest = (persona: Persona, prompt: string): LLMRequest => ({
+  systemPrompt: persona.systemPrompt,
+  messages: [{
+    role: 'user',
+    content: `User prompt: "${prompt}"\n\nProvide your response as the ${persona.label} personality:`
+  }],
+  ...DEFAULT_GENERATION_CONFIG,
+  temperature: persona.temperature,
+  model: persona.model
+});
+
+/**
+ * Builds the branch request for a single persona from the conversation
+ * leading to the expanded node.
+ * 
+ * @param {Persona} persona - Persona configuration
+ * @param {Node[]} ancestors - Nodes from the root prompt down to the expanded node
+ * @param {string} [followUpPrompt] - Optional follow-up question from the user
+ * @returns {LLMRequest} Provider-neutral generation request
+ */
+const buildBranchRequest = (persona: Persona, ancestors: Node[], followUpPrompt?: string): LLMRequest => ({
+  systemPrompt: persona.systemPrompt,
+  messages: buildBranchTranscript(ancestors, persona, followUpPrompt),
+  ...DEFAULT_GENERATION_CONFIG,
+  temperature: persona.temperature,
+  model: persona.model
+});
+
+/**
+ * Generates responses from the participating AI personalities for a given prompt.
  * This is the main function used to create the initial set of personality
  * responses when a user submits a topic for exploration.
  * 
  * Process:
- * 1. Initializes Google Gemini AI client
- * 2. Generates responses from all three personalities in parallel
+ * 1. Resolves the configured LLM provider
+ * 2. Generates responses from all personalities in parallel
  * 3. Validates and cleans up responses
  * 4. Falls back to static responses if API fails
- * 5. Ensures all three personalities are represented
+ * 5. Ensures every personality is represented
  * 
  * @param {string} prompt - The user's topic or question to explore
- * @returns {Promise<PersonalityResponse[]>} Array of three personality responses
+ * @param {Persona[]} [personas] - Participating personalities (defaults to the built-in three)
+ * @returns {Promise<PersonalityResponse[]>} One response per personality, in persona order
  * 
  * @example
  * const responses = await generatePersonalityResponses("Starting a tech startup");
  * // Returns: [optimist_response, pessimist_response, realist_response]
  */
-export const generatePersonalityResponses = async (prompt: string): Promise<PersonalityResponse[]> => {
+export const generatePersonalityResponses = async (prompt: string, personas: Persona[] = resolvePersonas()): Promise<PersonalityResponse[]> => {
+  return generateResponses(prompt, personas, (persona) => buildPersonaRequest(persona, prompt));
+};
+
+/**
+ * Shared implementation of personality generation.
+ * 
+ * @param {string} prompt - Prompt used for logging and fallback responses
+ * @param {Persona[]} personas - Participating personalities
+ * @param {Function} buildRequest - Builds the provider request for each persona
+ * @returns {Promise<PersonalityResponse[]>} One response per personality, in persona order
+ */
+const generateResponses = async (prompt: string, personas: Persona[], buildRequest: (persona: Persona) => LLMRequest): Promise<PersonalityResponse[]> => {
   try {
-    const genAI = initializeGenAI();
+    const provider = getLLMProvider();
     
-    // Check if API key is configured
-    if (!genAI) {
-      console.warn('GEMINI_API_KEY not configured, using personality fallback responses');
-      return getPersonalityFallbackResponses(prompt);
+    // Check if an LLM provider is configured
+    if (!provider) {
+      console.warn('No LLM provider configured, using personality fallback responses');
+      return getPersonalityFallbackResponses(prompt, personas, FALLBACK_ERRORS.NO_PROVIDER);
     }
     
     console.info(`Generating personality responses for prompt: "${prompt.substring(0, 50)}..."`);
     
-    // Generate responses from all three personalities in parallel
-    const responsePromises = PERSONAS.map(async (persona) => {
+    // Generate responses from all personalities in parallel
+    const responsePromises = personas.map(async (persona) => {
       try {
-        // Combine system prompt with user prompt
-        const fullPrompt = `${persona.systemPrompt}\n\nUser prompt: "${prompt}"\n\nProvide your response as the ${persona.name} personality:`;
-        
-        const response = await genAI.models.generateContent({
-          model: 'gemini-2.0-flash-001',
-          contents: fullPrompt,
-          config: {
-            maxOutputTokens: 500,
-            temperature: 0.7,
-            candidateCount: 1
-          }
-        });
+        const response = await callProvider(persona.name, () => provider.generate(buildRequest(persona)));
         
         const text = response.text;
         
@@ -168,21 +241,22 @@ export const generatePersonalityResponses = async (prompt: string): Promise<Pers
         const cleanedText = text?.trim();
         if (!cleanedText || cleanedText.length < 10) {
           console.warn(`Short or empty response from ${persona.name} personality`);
-          return getPersonalityFallback(persona.name as PersonalityName, prompt);
+          return getPersonalityFallback(persona, prompt, FALLBACK_ERRORS.EMPTY);
         }
         
         console.info(`✅ Generated ${persona.name} response: ${cleanedText.substring(0, 100)}...`);
         
         return {
-          persona: persona.name as PersonalityName,
+          persona: persona.name,
           text: cleanedText,
-          color: persona.color
+          color: persona.color,
+          model: response.model
         };
         
       } catch (error) {
         console.error(`${persona.name} personality API call failed:`, error);
         // Return a fallback for this specific personality
-        return getPersonalityFallback(persona.name as PersonalityName, prompt);
+        return getPersonalityFallback(persona, prompt, describeFailure(error));
       }
     });
     
@@ -193,38 +267,36 @@ export const generatePersonalityResponses = async (prompt: string): Promise<Pers
     const validResponses = responses.filter(response => response && response.text && response.text.length > 10);
     
     if (validResponses.length === 0) {
-      console.warn('No valid personality responses from Gemini API, using fallback');
-      return getPersonalityFallbackResponses(prompt);
+      console.warn('No valid personality responses from LLM provider, using fallback');
+      return getPersonalityFallbackResponses(prompt, personas, FALLBACK_ERRORS.EMPTY);
     }
     
     // Log successful generation
-    console.info(`✅ Generated ${validResponses.length}/3 personality responses successfully`);
+    console.info(`✅ Generated ${validResponses.length}/${personas.length} personality responses successfully`);
     
     // If we're missing some personalities, fill with fallbacks
-    if (validResponses.length < 3) {
-      const missingPersonalities = PERSONAS.filter(p => 
+    if (validResponses.length < personas.length) {
+      const missingPersonalities = personas.filter(p => 
         !validResponses.some(r => r.persona === p.name)
       );
       
       for (const persona of missingPersonalities) {
         console.warn(`Adding fallback for missing ${persona.name} personality`);
-        validResponses.push(getPersonalityFallback(persona.name as PersonalityName, prompt));
+        validResponses.push(getPersonalityFallback(persona, prompt, FALLBACK_ERRORS.EMPTY));
       }
     }
     
-    // Ensure responses are in the correct order (optimist, pessimist, realist)
-    const orderedResponses = [
-      validResponses.find(r => r.persona === 'optimist'),
-      validResponses.find(r => r.persona === 'pessimist'), 
-      validResponses.find(r => r.persona === 'realist')
-    ].filter(Boolean) as PersonalityResponse[];
+    // Ensure responses follow the persona order
+    const orderedResponses = personas
+      .map(persona => validResponses.find(r => r.persona === persona.name))
+      .filter(Boolean) as PersonalityResponse[];
     
     return orderedResponses;
     
   } catch (error) {
     console.error('PersonalityService error:', error);
     // Return fallback responses if API completely fails
-    return getPersonalityFallbackResponses(prompt);
+    return getPersonalityFallbackResponses(prompt, personas, describeFailure(error));
   }
 };
 
@@ -236,19 +308,20 @@ export const generatePersonalityResponses = async (prompt: string): Promise<Pers
  * Generates a single fallback response for a specific personality.
  * Used when the AI API fails or returns invalid responses.
  * 
- * Each personality has a unique fallback template that maintains
- * its characteristic perspective and tone.
+ * Each built-in personality has a unique fallback template that maintains
+ * its characteristic perspective and tone; custom personalities share a
+ * neutral template. The response is flagged as a fallback so clients can
+ * show a placeholder instead of presenting it as the persona's answer.
  * 
- * @param {PersonalityName} personality - The personality to generate fallback for
+ * @param {Persona} persona - The personality to generate fallback for
  * @param {string} prompt - The original user prompt
+ * @param {string} error - Why no model answer is available
  * @returns {PersonalityResponse} A fallback response for the specified personality
  */
-const getPersonalityFallback = (personality: PersonalityName, prompt: string): PersonalityResponse => {
-  const persona = PERSONAS.find(p => p.name === personality)!;
-  
+const getPersonalityFallback = (persona: Persona, prompt: string, error: string): PersonalityResponse => {
   let fallbackText: string;
   
-  switch (personality) {
+  switch (persona.name) {
     case 'optimist':
       fallbackText = `This is exciting! "${prompt}" presents incredible opportunities for growth and innovation. I see tremendous potential for positive impact and successful outcomes. The possibilities are endless, and with the right approach, this could lead to remarkable achievements. Let's focus on the bright side and bold opportunities ahead!`;
       break;
@@ -266,27 +339,27 @@ const getPersonalityFallback = (personality: PersonalityName, prompt: string): P
   }
   
   return {
-    persona: personality,
+    persona: persona.name,
     text: fallbackText,
-    color: persona.color
+    color: persona.color,
+    isFallback: true,
+    error
   };
 };
 
 /**
- * Generates complete fallback responses for all three personalities.
+ * Generates complete fallback responses for all participating personalities.
  * This function is called when the AI API is unavailable or fails completely.
  * 
  * @param {string} prompt - The original user prompt
- * @returns {PersonalityResponse[]} Array of three fallback personality responses
+ * @param {Persona[]} personas - Participating personalities
+ * @param {string} error - Why no model answers are available
+ * @returns {PersonalityResponse[]} One fallback response per personality
  */
-const getPersonalityFallbackResponses = (prompt: string): PersonalityResponse[] => {
+const getPersonalityFallbackResponses = (prompt: string, personas: Persona[], error: string): PersonalityResponse[] => {
   console.info('Using personality fallback responses');
   
-  return [
-    getPersonalityFallback('optimist', prompt),
-    getPersonalityFallback('pessimist', prompt),
-    getPersonalityFallback('realist', prompt)
-  ];
+  return personas.map(persona => getPersonalityFallback(persona, prompt, error));
 };
 
 // ===================================================================
@@ -298,21 +371,217 @@ const getPersonalityFallbackResponses = (prompt: string): PersonalityResponse[]
  * This function allows users to explore deeper into any personality's response
  * by asking follow-up questions or requesting elaboration.
  * 
+ * When the ancestor path of the expanded node is given, each personality
+ * receives the whole conversation from the root prompt (older turns are
+ * summarized to fit the token budget); otherwise only the parent text is sent.
+ * 
  * @param {string} parentText - The original personality response being expanded
  * @param {string} [followUpPrompt] - Optional follow-up question from the user
- * @returns {Promise<PersonalityResponse[]>} Array of three personality responses to the follow-up
+ * @param {Persona[]} [personas] - Participating personalities (defaults to the built-in three)
+ * @param {Node[]} [ancestors] - Nodes from the root prompt down to the expanded node
+ * @returns {Promise<PersonalityResponse[]>} One response per personality to the follow-up
  * 
  * @example
- * // Expanding on a previous response
+ * // Expanding on a previous response with its full conversation
  * const responses = await generatePersonalityBranch(
  *   "Starting a tech startup is exciting...",
- *   "What about funding challenges?"
+ *   "What about funding challenges?",
+ *   resolvePersonas(session.personas),
+ *   getAncestorPath(sessionId, nodeId)
  * );
  */
-export const generatePersonalityBranch = async (parentText: string, followUpPrompt?: string): Promise<PersonalityResponse[]> => {
-  const contextPrompt = followUpPrompt 
+export const generatePersonalityBranch = async (parentText: string, followUpPrompt?: string, personas: Persona[] = resolvePersonas(), ancestors: Node[] = []): Promise<PersonalityResponse[]> => {
+  const prompt = buildBranchPrompt(parentText, followUpPrompt);
+  
+  if (ancestors.length === 0) {
+    return generatePersonalityResponses(prompt, personas);
+  }
+  
+  return generateResponses(prompt, personas, (persona) => buildBranchRequest(persona, ancestors, followUpPrompt));
+};
+
+/**
+ * Builds the prompt used when branching from an existing node.
+ * 
+ * @param {string} parentText - The response being expanded
+ * @param {string} [followUpPrompt] - Optional follow-up question from the user
+ * @returns {string} Prompt combining the parent text and follow-up
+ */
+const buildBranchPrompt = (parentText: string, followUpPrompt?: string): string => {
+  return followUpPrompt 
     ? `Building on this idea: "${parentText}"\n\nFollow-up question: "${followUpPrompt}"`
     : `Expanding on this concept: "${parentText}"`;
+};
+
+/**
+ * Generates a new response for a single persona from the same context an
+ * existing response node was generated from. Used to retry failed responses
+ * and to regenerate a single persona's answer.
+ * 
+ * The node's parent decides the context:
+ * - the root prompt: the prompt alone
+ * - a follow-up prompt: a branch of the response it follows up, with the question
+ * - a response: a plain expansion of that response
+ * 
+ * @param {Persona} persona - The personality that should respond
+ * @param {Node[]} ancestors - Nodes from the root prompt down to the response node's parent
+ * @returns {Promise<PersonalityResponse>} The new response (flagged if it failed again)
+ * @throws {Error} If no ancestors are given
+ */
+export const regeneratePersonalityResponse = async (persona: Persona, ancestors: Node[]): Promise<PersonalityResponse> => {
+  const parent = ancestors[ancestors.length - 1];
+  if (!parent) {
+    throw new Error('Response node has no parent');
+  }
+  
+  if (parent.type === 'response') {
+    const [response] = await generatePersonalityBranch(parent.text, undefined, [persona], ancestors);
+    return response;
+  }
+  
+  const expandedPath = ancestors.slice(0, -1);
+  if (expandedPath.length === 0) {
+    const [response] = await generatePersonalityResponses(parent.text, [persona]);
+    return response;
+  }
+  
+  const [response] = await generatePersonalityBranch(expandedPath[expandedPath.length - 1].text, parent.text, [persona], expandedPath);
+  return response;
+};
+
+// ===================================================================
+// STREAMING PERSONALITY GENERATION
+// ===================================================================
+
+/**
+ * Returns one empty response per persona, in persona order.
+ * Streaming routes use these to create response nodes before any text
+ * has been generated.
+ * 
+ * @param {Persona[]} [personas] - Participating personalities (defaults to the built-in three)
+ * @returns {PersonalityResponse[]} Placeholder responses with empty text
+ */
+export const getPersonalityPlaceholders = (personas: Persona[] = resolvePersonas()): PersonalityResponse[] => {
+  return personas.map(persona => ({
+    persona: persona.name,
+    text: '',
+    color: persona.color
+  }));
+};
+
+/**
+ * Streams responses from the participating AI personalities for a given prompt.
+ * Personas are generated in parallel; each chunk is reported through
+ * `handlers.onDelta` as soon as the provider yields it.
+ * 
+ * Failures follow the same rules as generatePersonalityResponses: a persona
+ * that errors or returns a too-short answer is replaced by its flagged
+ * fallback response, which is delivered through `handlers.onDone`. Failed
+ * streams are retried only if they fail before the first chunk.
+ * 
+ * @param {string} prompt - The user's topic or question to explore
+ * @param {PersonalityStreamHandlers} handlers - Streaming callbacks
+ * @param {Persona[]} [personas] - Participating personalities (defaults to the built-in three)
+ * @returns {Promise<PersonalityResponse[]>} Final responses in persona order
+ * 
+ * @example
+ * await streamPersonalityResponses("Starting a tech startup", {
+ *   onDelta: (persona, delta) => process.stdout.write(delta),
+ *   onDone: (response) => console.log(response.persona, 'done')
+ * });
+ */
+export const streamPersonalityResponses = async (prompt: string, handlers: PersonalityStreamHandlers, personas: Persona[] = resolvePersonas()): Promise<PersonalityResponse[]> => {
+  return streamResponses(prompt, handlers, personas, (persona) => buildPersonaRequest(persona, prompt));
+};
+
+/**
+ * Shared implementation of streamed personality generation.
+ * 
+ * @param {string} prompt - Prompt used for fallback responses
+ * @param {PersonalityStreamHandlers} handlers - Streaming callbacks
+ * @param {Persona[]} personas - Participating personalities
+ * @param {Function} buildRequest - Builds the provider request for each persona
+ * @returns {Promise<PersonalityResponse[]>} Final responses in persona order
+ */
+const streamResponses = async (prompt: string, handlers: PersonalityStreamHandlers, personas: Persona[], buildRequest: (persona: Persona) => LLMRequest): Promise<PersonalityResponse[]> => {
+  const provider = getLLMProvider();
+  const { signal } = handlers;
+  
+  if (!provider) {
+    console.warn('No LLM provider configured, streaming personality fallback responses');
+  }
+  
+  const responsePromises = personas.map(async (persona) => {
+    const personaName = persona.name;
+    let response: PersonalityResponse;
+    
+    try {
+      if (!provider) {
+        throw new Error('No LLM provider configured');
+      }
+      
+      // A stream is only retried while nothing has been sent to the client
+      let text = '';
+      await callProvider(personaName, async () => {
+        if (signal?.aborted) return;
+        try {
+          for await (const delta of provider.stream({ ...buildRequest(persona), ...(signal && { signal }) })) {
+            if (signal?.aborted) break;
+            text += delta;
+            handlers.onDelta(personaName, delta);
+          }
+        } catch (error) {
+          // A cancelled stream ends quietly rather than counting as a provider failure
+          if (!signal?.aborted) throw error;
+        }
+      }, () => text === '');
+      
+      const cleanedText = text.trim();
+      if (signal?.aborted) {
+        response = getPersonalityFallback(persona, prompt, FALLBACK_ERRORS.CANCELLED);
+      } else if (cleanedText.length < 10) {
+        console.warn(`Short or empty streamed response from ${persona.name} personality`);
+        response = getPersonalityFallback(persona, prompt, FALLBACK_ERRORS.EMPTY);
+      } else {
+        response = {
+          persona: personaName,
+          text: cleanedText,
+          color: persona.color,
+          model: persona.model || provider.getModelInfo().model
+        };
+      }
+      
+    } catch (error) {
+      if (provider) {
+        console.error(`${persona.name} personality stream failed:`, error);
+        handlers.onError?.(personaName, `Failed to stream ${persona.name} response`);
+      }
+      response = getPersonalityFallback(persona, prompt, provider ? describeFailure(error) : FALLBACK_ERRORS.NO_PROVIDER);
+    }
     
-  return generatePersonalityResponses(contextPrompt);
-}; 
\ No newline at end of file
+    handlers.onDone(response);
+    return response;
+  });
+  
+  return Promise.all(responsePromises);
+};
+
+/**
+ * Streaming counterpart of generatePersonalityBranch.
+ * 
+ * @param {string} parentText - The original personality response being expanded
+ * @param {string | undefined} followUpPrompt - Optional follow-up question from the user
+ * @param {PersonalityStreamHandlers} handlers - Streaming callbacks
+ * @param {Persona[]} [personas] - Participating personalities (defaults to the built-in three)
+ * @param {Node[]} [ancestors] - Nodes from the root prompt down to the expanded node
+ * @returns {Promise<PersonalityResponse[]>} Final responses in persona order
+ */
+export const streamPersonalityBranch = async (parentText: string, followUpPrompt: string | undefined, handlers: PersonalityStreamHandlers, personas: Persona[] = resolvePersonas(), ancestors: Node[] = []): Promise<PersonalityResponse[]> => {
+  const prompt = buildBranchPrompt(parentText, followUpPrompt);
+  
+  if (ancestors.length === 0) {
+    return streamPersonalityResponses(prompt, handlers, personas);
+  }
+  
+  return streamResponses(prompt, handlers, personas, (persona) => buildBranchRequest(persona, ancestors, followUpPrompt));
+};
@@ -0,0 +1,106 @@
+/**
+ * ===================================================================
+ * GEMINI PROVIDER - Forum AI Brainstorming Application
+ * ===================================================================
+ *
+ * LLMProvider implementation backed by Google's Gemini API through the
+ * @google/genai SDK. This is the default provider for Forum.
+ *
+ * Dependencies:
+ * - Google Generative AI (Gemini) SDK
+ * - Environment variable GEMINI_API_KEY for API authentication
+ *
+ * @author Forum Development Team
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { GoogleGenAI } from '@google/genai';
+import type { LLMProvider, LLMRequest } from '../llmProvider.js';
+
+/**
+ * Options for creating the Gemini provider.
+ */
+export interface GeminiProviderOptions {
+  /** Gemini API key; the provider is unavailable without one */
+  apiKey?: string;
+
+  /** Default model name */
+  model: string;
+}
+
+/**
+ * Maps a provider-neutral request to Gemini generateContent parameters.
+ *
+ * @param {string} model - Model to call
+ * @param {LLMRequest} request - Provider-neutral request
+ * @returns {object} Parameters for models.generateContent(Stream)
+ */
+const toGeminiParams = (model: string, request: LLMRequest) => ({
+  model,
+  contents: request.messages.map(message => ({
+    role: message.role === 'assistant' ? 'model' : 'user',
+    parts: [{ text: message.content }]
+  })),
+  config: {
+    systemInstruction: request.systemPrompt,
+    maxOutputTokens: request.maxOutputTokens,
+    temperature: request.temperature,
+    candidateCount: 1,
+    abortSignal: request.signal
+  }
+});
+
+/**
+ * Creates the Gemini provider.
+ * Handles configuration validation and error scenarios gracefully.
+ *
+ * @param {GeminiProviderOptions} options - API key and default model
+ * @returns {LLMProvider | null} Provider instance or null if API key unavailable
+ */
+export const createGeminiProvider = ({ apiKey, model }: GeminiProviderOptions): LLMProvider | null => {
+  if (!apiKey) {
+    console.warn('GEMINI_API_KEY not configured, will use fallback responses');
+    return null;
+  }
+
+  // Log that API key is configured (but don't log the actual key)
+  console.info(`Gemini API key configured (${apiKey.length} characters, starts with: ${apiKey.substring(0, 8)}...)`);
+
+  let genAI: GoogleGenAI;
+  try {
+    genAI = new GoogleGenAI({ apiKey });
+  } catch (error) {
+    console.error('Failed to initialize GoogleGenAI:', error);
+    return null;
+  }
+
+  return {
+    name: 'gemini',
+
+    async generate(request) {
+      const requestModel = request.model || model;
+      const response = await genAI.models.generateContent(toGeminiParams(requestModel, request));
+
+      return {
+        text: response.text ?? '',
+        model: requestModel
+      };
+    },
+
+    async *stream(request) {
+      const requestModel = request.model || model;
+      const chunks = await genAI.models.generateContentStream(toGeminiParams(requestModel, request));
+
+      for await (const chunk of chunks) {
+        if (chunk.text) {
+          yield chunk.text;
+        }
+      }
+    },
+
+    getModelInfo() {
+      return { provider: 'gemini', model };
+    }
+  };
+};
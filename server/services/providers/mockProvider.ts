@@ -0,0 +1,74 @@
+/**
+ * ===================================================================
+ * MOCK PROVIDER - Forum AI Brainstorming Application
+ * ===================================================================
+ *
+ * Deterministic LLMProvider for offline development and automated tests.
+ * The same request always produces the same text, and no network access
+ * is required. Responses echo the persona instruction and the latest user
+ * turn so that the graph still reads sensibly in the UI.
+ *
+ * @author Forum Development Team
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import type { LLMProvider, LLMRequest } from '../llmProvider.js';
+
+/**
+ * Options for creating the mock provider.
+ */
+export interface MockProviderOptions {
+  /** Model name reported in results and model info */
+  model?: string;
+}
+
+/**
+ * Builds the deterministic response text for a request.
+ *
+ * @param {LLMRequest} request - Provider-neutral request
+ * @returns {string} Mock response text
+ */
+const buildMockText = (request: LLMRequest): string => {
+  const lastUserTurn = [...request.messages].reverse().find(message => message.role === 'user');
+  const userText = (lastUserTurn?.content ?? '').replace(/\s+/g, ' ').trim();
+  const excerpt = userText.length > 120 ? `${userText.substring(0, 117)}...` : userText;
+
+  // Use the first sentence of the system prompt as the "voice" of the response
+  const voice = request.systemPrompt?.split(/(?<=\.)\s/)[0]?.trim();
+
+  return [
+    voice ? `(${voice})` : null,
+    `Mock response to "${excerpt}".`,
+    'This text was generated offline by the mock LLM provider.'
+  ].filter(Boolean).join(' ');
+};
+
+/**
+ * Creates the deterministic mock provider.
+ *
+ * @param {MockProviderOptions} [options] - Optional model name
+ * @returns {LLMProvider} Provider instance
+ */
+export const createMockProvider = ({ model = 'mock-1' }: MockProviderOptions = {}): LLMProvider => ({
+  name: 'mock',
+
+  async generate(request) {
+    return {
+      text: buildMockText(request),
+      model: request.model || model
+    };
+  },
+
+  async *stream(request) {
+    // Emit word-sized chunks so streaming consumers can be exercised offline
+    const words = buildMockText(request).split(' ');
+    for (let i = 0; i < words.length; i++) {
+      yield i === 0 ? words[i] : ` ${words[i]}`;
+    }
+  },
+
+  getModelInfo() {
+    return { provider: 'mock', model };
+  }
+});
@@ -0,0 +1,146 @@
+/**
+ * ===================================================================
+ * OPENAI-COMPATIBLE PROVIDER - Forum AI Brainstorming Application
+ * ===================================================================
+ *
+ * LLMProvider implementation for any server exposing the OpenAI
+ * `/chat/completions` API. This covers OpenAI itself as well as local
+ * model servers such as Ollama (`ollama serve`) and llama.cpp's server.
+ *
+ * Key Features:
+ * - Plain fetch-based HTTP client (no vendor SDK)
+ * - Server-Sent Events parsing for streamed completions
+ * - Optional bearer token for hosted endpoints
+ *
+ * @author Forum Development Team
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import type { LLMProvider, LLMRequest } from '../llmProvider.js';
+
+/**
+ * Options for creating the OpenAI-compatible provider.
+ */
+export interface OpenAICompatibleProviderOptions {
+  /** Base URL including the API version path, e.g. http://localhost:11434/v1 */
+  baseUrl: string;
+
+  /** Optional API key sent as a bearer token */
+  apiKey?: string;
+
+  /** Default model name */
+  model: string;
+}
+
+/**
+ * Builds the chat completions request body.
+ *
+ * @param {string} model - Model to call
+ * @param {LLMRequest} request - Provider-neutral request
+ * @param {boolean} stream - Whether to request a streamed response
+ * @returns {object} JSON body for /chat/completions
+ */
+const toChatCompletionBody = (model: string, request: LLMRequest, stream: boolean) => ({
+  model,
+  stream,
+  temperature: request.temperature,
+  max_tokens: request.maxOutputTokens,
+  messages: [
+    ...(request.systemPrompt ? [{ role: 'system', content: request.systemPrompt }] : []),
+    ...request.messages.map(message => ({ role: message.role, content: message.content }))
+  ]
+});
+
+/**
+ * Creates the OpenAI-compatible provider.
+ *
+ * @param {OpenAICompatibleProviderOptions} options - Endpoint, credentials and default model
+ * @returns {LLMProvider} Provider instance
+ *
+ * @example
+ * const provider = createOpenAICompatibleProvider({
+ *   baseUrl: 'http://localhost:11434/v1',
+ *   model: 'llama3.1'
+ * });
+ */
+export const createOpenAICompatibleProvider = ({ baseUrl, apiKey, model }: OpenAICompatibleProviderOptions): LLMProvider => {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  /**
+   * Sends a chat completions request and validates the HTTP status.
+   */
+  const postCompletion = async (requestModel: string, request: LLMRequest, stream: boolean) => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify(toChatCompletionBody(requestModel, request, stream)),
+      signal: request.signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI-compatible server error! status: ${response.status}`);
+    }
+
+    return response;
+  };
+
+  return {
+    name: 'openai',
+
+    async generate(request) {
+      const requestModel = request.model || model;
+      const response = await postCompletion(requestModel, request, false);
+      const data = await response.json();
+
+      return {
+        text: data.choices?.[0]?.message?.content ?? '',
+        model: data.model || requestModel
+      };
+    },
+
+    async *stream(request) {
+      const requestModel = request.model || model;
+      const response = await postCompletion(requestModel, request, true);
+
+      if (!response.body) {
+        throw new Error('OpenAI-compatible server returned an empty stream');
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+
+        // SSE events are separated by newlines; keep any partial line for the next read
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) continue;
+
+          const payload = trimmed.slice('data:'.length).trim();
+          if (payload === '[DONE]') return;
+
+          const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+          if (delta) {
+            yield delta;
+          }
+        }
+      }
+    },
+
+    getModelInfo() {
+      return { provider: 'openai', model, baseUrl };
+    }
+  };
+};
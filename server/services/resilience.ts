@@ -0,0 +1,295 @@
+/**
+ * ===================================================================
+ * RESILIENCE - Forum AI Brainstorming Application
+ * ===================================================================
+ *
+ * Retry and circuit breaker helpers for calls to the LLM provider.
+ *
+ * Transient failures (timeouts, rate limits, flaky networks) are retried
+ * a bounded number of times with jittered exponential backoff. A circuit
+ * breaker shared by every LLM call counts calls that still fail after
+ * retrying; once too many fail in a row it opens and further calls fail
+ * immediately until a cool-down has passed, so an outage doesn't stall
+ * every request for the full retry budget.
+ *
+ * Circuit States:
+ * - closed: Calls go through; consecutive failures are counted
+ * - open: Calls fail fast until the reset timeout elapses
+ * - half-open: One trial call decides whether to close or reopen
+ *
+ * Environment Variables:
+ * - LLM_MAX_RETRIES: Retries after the first attempt (default: 2)
+ * - LLM_RETRY_BASE_DELAY_MS: Base backoff delay (default: 250)
+ * - LLM_RETRY_MAX_DELAY_MS: Upper bound for a single backoff (default: 4000)
+ * - LLM_CIRCUIT_FAILURE_THRESHOLD: Consecutive failures that open the circuit (default: 5)
+ * - LLM_CIRCUIT_RESET_SECONDS: Time the circuit stays open (default: 30)
+ *
+ * @author Forum Development Team
+ * @version 1.0.0
+ * @since 2025
+ */
+
+// ===================================================================
+// TYPE DEFINITIONS
+// ===================================================================
+
+/**
+ * Options for withRetry.
+ */
+export interface RetryOptions {
+  /** Retries after the first attempt */
+  retries: number;
+
+  /** Base delay in milliseconds; doubled on every retry */
+  baseDelayMs: number;
+
+  /** Upper bound for a single delay in milliseconds */
+  maxDelayMs: number;
+
+  /** Decides whether an error is worth retrying (default: all); aborted calls are never retried */
+  shouldRetry?: (error: unknown) => boolean;
+
+  /** Called before waiting for the next attempt */
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * State of a circuit breaker.
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Options for createCircuitBreaker.
+ */
+export interface CircuitBreakerOptions {
+  /** Name used in logs */
+  name: string;
+
+  /** Consecutive failures that open the circuit */
+  failureThreshold: number;
+
+  /** Time in milliseconds the circuit stays open before a trial call */
+  resetTimeoutMs: number;
+
+  /** Clock, replaceable in tests */
+  now?: () => number;
+}
+
+/**
+ * Circuit breaker guarding calls to an unreliable dependency.
+ */
+export interface CircuitBreaker {
+  /**
+   * Runs an operation through the breaker.
+   *
+   * @param {Function} operation - The call to protect
+   * @returns {Promise<T>} The operation's result
+   * @throws {Error} The operation's error, or a circuit-open error when failing fast
+   */
+  execute<T>(operation: () => Promise<T>): Promise<T>;
+
+  /** Current state */
+  getState(): CircuitState;
+
+  /** Closes the circuit and clears the failure count */
+  reset(): void;
+}
+
+// ===================================================================
+// RETRY WITH BACKOFF
+// ===================================================================
+
+/**
+ * Checks whether an error comes from an aborted request.
+ *
+ * @param {unknown} error - Error to check
+ * @returns {boolean} True for abort errors
+ */
+const isAbortError = (error: unknown): boolean => {
+  return (error as { name?: string })?.name === 'AbortError';
+};
+
+/**
+ * Computes a "full jitter" backoff delay: a random time between zero and
+ * the exponential delay for the attempt, so clients that failed together
+ * don't retry together.
+ *
+ * @param {number} attempt - Retry number, starting at 1
+ * @param {number} baseDelayMs - Base delay
+ * @param {number} maxDelayMs - Upper bound
+ * @returns {number} Delay in milliseconds
+ */
+export const getBackoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number): number => {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+};
+
+/**
+ * Runs an operation, retrying failures with jittered exponential backoff.
+ *
+ * @param {Function} operation - The call to run; receives the attempt number (0 for the first try)
+ * @param {RetryOptions} options - Retry settings
+ * @returns {Promise<T>} The first successful result
+ * @throws {Error} The last error once retries are exhausted or an error is not retryable
+ *
+ * @example
+ * const result = await withRetry(() => provider.generate(request), getLLMRetryOptions());
+ */
+export const withRetry = async <T>(operation: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> => {
+  const shouldRetry = (error: unknown) => !isAbortError(error) && (options.shouldRetry?.(error) ?? true);
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= options.retries || !shouldRetry(error)) {
+        throw error;
+      }
+
+      const delayMs = getBackoffDelay(attempt + 1, options.baseDelayMs, options.maxDelayMs);
+      options.onRetry?.(error, attempt + 1, delayMs);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+};
+
+// ===================================================================
+// CIRCUIT BREAKER
+// ===================================================================
+
+/**
+ * Checks whether an error was raised by an open circuit breaker.
+ *
+ * @param {unknown} error - Error to check
+ * @returns {boolean} True if the call was rejected without being attempted
+ */
+export const isCircuitOpenError = (error: unknown): boolean => {
+  return (error as { code?: string })?.code === 'CIRCUIT_OPEN';
+};
+
+/**
+ * Creates a circuit breaker.
+ *
+ * @param {CircuitBreakerOptions} options - Breaker settings
+ * @returns {CircuitBreaker} A closed circuit breaker
+ *
+ * @example
+ * const breaker = createCircuitBreaker({ name: 'llm', failureThreshold: 5, resetTimeoutMs: 30000 });
+ * const result = await breaker.execute(() => provider.generate(request));
+ */
+export const createCircuitBreaker = ({ name, failureThreshold, resetTimeoutMs, now = Date.now }: CircuitBreakerOptions): CircuitBreaker => {
+  let state: CircuitState = 'closed';
+  let consecutiveFailures = 0;
+  let openedAt = 0;
+  let trialInFlight = false;
+
+  const open = () => {
+    state = 'open';
+    openedAt = now();
+    console.warn(`⚡ Circuit "${name}" opened after ${consecutiveFailures} consecutive failures`);
+  };
+
+  return {
+    execute: async (operation) => {
+      if (state === 'open' && now() - openedAt >= resetTimeoutMs) {
+        state = 'half-open';
+      }
+
+      if (state === 'open' || (state === 'half-open' && trialInFlight)) {
+        throw Object.assign(new Error(`Circuit "${name}" is open`), { code: 'CIRCUIT_OPEN' });
+      }
+
+      const isTrial = state === 'half-open';
+      trialInFlight = isTrial;
+
+      try {
+        const result = await operation();
+        if (state !== 'closed') {
+          console.info(`✅ Circuit "${name}" closed`);
+        }
+        state = 'closed';
+        consecutiveFailures = 0;
+        return result;
+      } catch (error) {
+        // Aborted calls say nothing about the dependency's health
+        if (!isAbortError(error)) {
+          consecutiveFailures++;
+          if (isTrial || consecutiveFailures >= failureThreshold) {
+            open();
+          }
+        }
+        throw error;
+      } finally {
+        if (isTrial) {
+          trialInFlight = false;
+        }
+      }
+    },
+
+    getState: () => {
+      return state === 'open' && now() - openedAt >= resetTimeoutMs ? 'half-open' : state;
+    },
+
+    reset: () => {
+      state = 'closed';
+      consecutiveFailures = 0;
+      trialInFlight = false;
+    }
+  };
+};
+
+// ===================================================================
+// LLM CALL POLICY
+// ===================================================================
+
+/**
+ * Reads a non-negative integer setting from the environment.
+ *
+ * @param {string} name - Environment variable name
+ * @param {number} fallback - Value used when unset or invalid
+ * @returns {number} The configured value
+ */
+const readSetting = (name: string, fallback: number): number => {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+/**
+ * Returns the retry settings for LLM calls from environment configuration.
+ *
+ * @returns {RetryOptions} Retry settings
+ */
+export const getLLMRetryOptions = (): RetryOptions => ({
+  retries: readSetting('LLM_MAX_RETRIES', 2),
+  baseDelayMs: readSetting('LLM_RETRY_BASE_DELAY_MS', 250),
+  maxDelayMs: readSetting('LLM_RETRY_MAX_DELAY_MS', 4000)
+});
+
+/**
+ * Circuit breaker shared by every LLM call, created on first use.
+ */
+let llmCircuitBreaker: CircuitBreaker | null = null;
+
+/**
+ * Returns the circuit breaker shared by all LLM calls.
+ *
+ * @returns {CircuitBreaker} The shared breaker
+ */
+export const getLLMCircuitBreaker = (): CircuitBreaker => {
+  if (!llmCircuitBreaker) {
+    llmCircuitBreaker = createCircuitBreaker({
+      name: 'llm',
+      failureThreshold: Math.max(1, readSetting('LLM_CIRCUIT_FAILURE_THRESHOLD', 5)),
+      resetTimeoutMs: readSetting('LLM_CIRCUIT_RESET_SECONDS', 30) * 1000
+    });
+  }
+  return llmCircuitBreaker;
+};
+
+/**
+ * Discards the shared circuit breaker so the next call re-reads the
+ * environment. Intended for tests.
+ */
+export const resetLLMCircuitBreaker = (): void => {
+  llmCircuitBreaker = null;
+};
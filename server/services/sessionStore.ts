@@ -0,0 +1,155 @@
+/**
+ * ===================================================================
+ * SESSION STORE - Forum AI Brainstorming Application
+ * ===================================================================
+ *
+ * This module defines the storage abstraction behind the graph service.
+ * Sessions are loaded, saved and deleted through a SessionStore; the
+ * configured backend decides where they live.
+ *
+ * Available Stores:
+ * - memory: In-process Map, lost on restart (default)
+ * - json: A single JSON file on disk
+ * - sqlite: A SQLite database via better-sqlite3
+ *
+ * Key Features:
+ * - Single async SessionStore interface for every backend
+ * - Store selection through environment configuration
+ * - Lazily created, cached store instance
+ * - Session serialization with Date round-tripping
+ * - Test hooks for injecting or resetting the active store
+ *
+ * Environment Variables:
+ * - SESSION_STORE: 'memory' | 'json' | 'sqlite' (default: memory)
+ * - SESSION_STORE_PATH: File used by the json and sqlite stores
+ *   (default: data/sessions.json or data/sessions.db)
+ *
+ * @author Forum Development Team
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { createMemorySessionStore } from './stores/memorySessionStore.js';
+import { createJsonFileSessionStore } from './stores/jsonFileSessionStore.js';
+import { createSqliteSessionStore } from './stores/sqliteSessionStore.js';
+import type { Session } from '../../shared/types.js';
+
+// ===================================================================
+// TYPE DEFINITIONS
+// ===================================================================
+
+/**
+ * Supported store identifiers for the SESSION_STORE setting.
+ */
+export type SessionStoreName = 'memory' | 'json' | 'sqlite';
+
+/**
+ * Storage backend for conversation sessions.
+ * Stores hand out independent copies: callers modify a session and
+ * save it back to persist the change.
+ */
+export interface SessionStore {
+  /** Store identifier */
+  name: SessionStoreName;
+
+  /** Loads a session, or undefined if it doesn't exist */
+  get: (sessionId: string) => Promise<Session | undefined>;
+
+  /** Creates or replaces a session */
+  save: (session: Session) => Promise<void>;
+
+  /** Lists every stored session, oldest first */
+  list: () => Promise<Session[]>;
+
+  /** Deletes a session; resolves to whether it existed */
+  delete: (sessionId: string) => Promise<boolean>;
+}
+
+// ===================================================================
+// STORE SELECTION
+// ===================================================================
+
+/**
+ * Default file locations for the file-backed stores.
+ */
+const DEFAULT_STORE_PATHS: Record<Exclude<SessionStoreName, 'memory'>, string> = {
+  json: 'data/sessions.json',
+  sqlite: 'data/sessions.db'
+};
+
+/**
+ * Cached store instance, created on first use.
+ */
+let activeStore: SessionStore | null = null;
+
+/**
+ * Reads the configured store name from the environment.
+ * Unknown values fall back to the memory store with a warning.
+ *
+ * @returns {SessionStoreName} The selected store
+ */
+export const getConfiguredStoreName = (): SessionStoreName => {
+  const configured = (process.env.SESSION_STORE || 'memory').toLowerCase();
+
+  if (configured === 'memory' || configured === 'json' || configured === 'sqlite') {
+    return configured;
+  }
+
+  console.warn(`Unknown SESSION_STORE "${configured}", falling back to memory`);
+  return 'memory';
+};
+
+/**
+ * Creates a store from environment configuration.
+ *
+ * @returns {SessionStore} The configured store
+ */
+const createSessionStoreFromEnv = (): SessionStore => {
+  const name = getConfiguredStoreName();
+
+  switch (name) {
+    case 'json':
+      return createJsonFileSessionStore({ filePath: process.env.SESSION_STORE_PATH || DEFAULT_STORE_PATHS.json });
+
+    case 'sqlite':
+      return createSqliteSessionStore({ filePath: process.env.SESSION_STORE_PATH || DEFAULT_STORE_PATHS.sqlite });
+
+    case 'memory':
+    default:
+      return createMemorySessionStore();
+  }
+};
+
+/**
+ * Returns the active session store, creating it on first use.
+ *
+ * @returns {SessionStore} The active store
+ *
+ * @example
+ * const store = getSessionStore();
+ * const session = await store.get(sessionId);
+ */
+export const getSessionStore = (): SessionStore => {
+  if (!activeStore) {
+    activeStore = createSessionStoreFromEnv();
+    console.info(`💾 Session store initialized: ${activeStore.name}`);
+  }
+
+  return activeStore;
+};
+
+/**
+ * Replaces the active session store (used by tests and embedding code).
+ *
+ * @param {SessionStore} store - Store to use
+ */
+export const setSessionStore = (store: SessionStore): void => {
+  activeStore = store;
+};
+
+/**
+ * Clears the cached store so the next call re-reads the environment.
+ */
+export const resetSessionStore = (): void => {
+  activeStore = null;
+};
@@ -0,0 +1,109 @@
+/**
+ * ===================================================================
+ * JSON FILE SESSION STORE - Forum AI Brainstorming Application
+ * ===================================================================
+ *
+ * Persists every session to a single JSON file. Suited to small teams
+ * and single-instance deployments that want sessions to survive restarts
+ * without running a database.
+ *
+ * The file is read once on first use; every change rewrites it through
+ * a temporary file and rename so a crash never leaves it half-written.
+ *
+ * @author Forum Development Team
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { serializeSession, deserializeSession } from './sessionSerialization.js';
+import type { SessionStore } from '../sessionStore.js';
+import type { Session } from '../../../shared/types.js';
+
+/**
+ * Options for the JSON file store.
+ */
+export interface JsonFileSessionStoreOptions {
+  /** Path of the JSON file holding all sessions */
+  filePath: string;
+}
+
+/**
+ * Creates a session store backed by a JSON file.
+ *
+ * @param {JsonFileSessionStoreOptions} options - Store options
+ * @returns {SessionStore} File-backed store
+ */
+export const createJsonFileSessionStore = ({ filePath }: JsonFileSessionStoreOptions): SessionStore => {
+  let sessionsPromise: Promise<Map<string, string>> | null = null;
+  let writeQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * Loads the file once; a missing file means no sessions yet.
+   */
+  const load = (): Promise<Map<string, string>> => {
+    if (!sessionsPromise) {
+      sessionsPromise = fs.readFile(filePath, 'utf8')
+        .then(contents => {
+          const stored: object[] = JSON.parse(contents);
+          return new Map(stored.map(session => {
+            const restored = deserializeSession(session);
+            return [restored.id, serializeSession(restored)] as [string, string];
+          }));
+        })
+        .catch(error => {
+          if (error.code === 'ENOENT') {
+            return new Map<string, string>();
+          }
+          throw error;
+        });
+    }
+    return sessionsPromise;
+  };
+
+  /**
+   * Writes all sessions to disk. Writes are queued so they never overlap;
+   * a failed write is reported to its caller only, so later writes still run.
+   */
+  const persist = (sessions: Map<string, string>): Promise<void> => {
+    const write = writeQueue.catch(() => undefined).then(async () => {
+      const contents = `[${Array.from(sessions.values()).join(',')}]`;
+      const tempPath = `${filePath}.tmp`;
+
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(tempPath, contents, 'utf8');
+      await fs.rename(tempPath, filePath);
+    });
+    writeQueue = write;
+    return write;
+  };
+
+  return {
+    name: 'json',
+
+    get: async (sessionId) => {
+      const serialized = (await load()).get(sessionId);
+      return serialized ? deserializeSession(serialized) : undefined;
+    },
+
+    save: async (session: Session) => {
+      const sessions = await load();
+      sessions.set(session.id, serializeSession(session));
+      await persist(sessions);
+    },
+
+    list: async () => {
+      return Array.from((await load()).values()).map(serialized => deserializeSession(serialized));
+    },
+
+    delete: async (sessionId) => {
+      const sessions = await load();
+      const existed = sessions.delete(sessionId);
+      if (existed) {
+        await persist(sessions);
+      }
+      return existed;
+    }
+  };
+};
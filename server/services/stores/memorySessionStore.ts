@@ -0,0 +1,47 @@
+/**
+ * ===================================================================
+ * MEMORY SESSION STORE - Forum AI Brainstorming Application
+ * ===================================================================
+ *
+ * In-process session storage. Fast and dependency-free, but every
+ * session is lost when the server restarts. Used by default and in tests.
+ *
+ * @author Forum Development Team
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { serializeSession, deserializeSession } from './sessionSerialization.js';
+import type { SessionStore } from '../sessionStore.js';
+
+/**
+ * Creates an in-memory session store.
+ * Sessions are kept serialized so callers never share state with the
+ * store and behave exactly as with the file-backed stores.
+ *
+ * @returns {SessionStore} Memory-backed store
+ */
+export const createMemorySessionStore = (): SessionStore => {
+  const sessions = new Map<string, string>();
+
+  return {
+    name: 'memory',
+
+    get: async (sessionId) => {
+      const serialized = sessions.get(sessionId);
+      return serialized ? deserializeSession(serialized) : undefined;
+    },
+
+    save: async (session) => {
+      sessions.set(session.id, serializeSession(session));
+    },
+
+    list: async () => {
+      return Array.from(sessions.values()).map(serialized => deserializeSession(serialized));
+    },
+
+    delete: async (sessionId) => {
+      return sessions.delete(sessionId);
+    }
+  };
+};
@@ -0,0 +1,43 @@
+/**
+ * ===================================================================
+ * SESSION SERIALIZATION - Forum AI Brainstorming Application
+ * ===================================================================
+ *
+ * JSON serialization shared by the file-backed session stores.
+ * JSON has no Date type, so `createdAt` and `lastAccessedAt` are written
+ * as ISO strings and revived as Dates when a session is read back.
+ *
+ * @author Forum Development Team
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import type { Session } from '../../../shared/types.js';
+
+/**
+ * Serializes a session to JSON. Dates become ISO strings.
+ *
+ * @param {Session} session - Session to serialize
+ * @returns {string} JSON representation
+ */
+export const serializeSession = (session: Session): string => {
+  return JSON.stringify(session);
+};
+
+/**
+ * Restores a session from its JSON representation, reviving its
+ * timestamps as Dates. Sessions stored before `lastAccessedAt` existed
+ * use their creation time.
+ *
+ * @param {string | object} data - JSON string or already parsed object
+ * @returns {Session} The restored session
+ */
+export const deserializeSession = (data: string | object): Session => {
+  const parsed = typeof data === 'string' ? JSON.parse(data) : data;
+  return {
+    ...parsed,
+    personas: parsed.personas || [],
+    createdAt: new Date(parsed.createdAt),
+    lastAccessedAt: new Date(parsed.lastAccessedAt || parsed.createdAt)
+  };
+};
@@ -0,0 +1,100 @@
+/**
+ * ===================================================================
+ * SQLITE SESSION STORE - Forum AI Brainstorming Application
+ * ===================================================================
+ *
+ * Persists sessions in a SQLite database through better-sqlite3. Each
+ * session is one row holding its serialized graph, so writes touch only
+ * the session that changed.
+ *
+ * better-sqlite3 is a native module; it is loaded on first use so
+ * deployments using another store never need it to build.
+ *
+ * @author Forum Development Team
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Database } from 'better-sqlite3';
+import { serializeSession, deserializeSession } from './sessionSerialization.js';
+import type { SessionStore } from '../sessionStore.js';
+
+/**
+ * Options for the SQLite store.
+ */
+export interface SqliteSessionStoreOptions {
+  /** Database file path, or ':memory:' for a throwaway database */
+  filePath: string;
+}
+
+/**
+ * Schema for the sessions table. `created_at` is stored separately so
+ * sessions can be listed in creation order without parsing every row.
+ */
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS sessions (
+    id TEXT PRIMARY KEY,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  )
+`;
+
+/**
+ * Creates a session store backed by SQLite.
+ *
+ * @param {SqliteSessionStoreOptions} options - Store options
+ * @returns {SessionStore} SQLite-backed store
+ */
+export const createSqliteSessionStore = ({ filePath }: SqliteSessionStoreOptions): SessionStore => {
+  let databasePromise: Promise<Database> | null = null;
+
+  /**
+   * Opens the database and creates the schema on first use.
+   */
+  const open = (): Promise<Database> => {
+    if (!databasePromise) {
+      databasePromise = (async () => {
+        if (filePath !== ':memory:') {
+          await fs.mkdir(path.dirname(filePath), { recursive: true });
+        }
+
+        const { default: BetterSqlite3 } = await import('better-sqlite3');
+        const database = new BetterSqlite3(filePath);
+        database.pragma('journal_mode = WAL');
+        database.exec(SCHEMA);
+        return database;
+      })();
+    }
+    return databasePromise;
+  };
+
+  return {
+    name: 'sqlite',
+
+    get: async (sessionId) => {
+      const database = await open();
+      const row = database.prepare('SELECT data FROM sessions WHERE id = ?').get(sessionId) as { data: string } | undefined;
+      return row ? deserializeSession(row.data) : undefined;
+    },
+
+    save: async (session) => {
+      const database = await open();
+      database
+        .prepare('INSERT INTO sessions (id, created_at, data) VALUES (?, ?, ?) ON CONFLICT(id) DO UPDATE SET data = excluded.data')
+        .run(session.id, new Date(session.createdAt).toISOString(), serializeSession(session));
+    },
+
+    list: async () => {
+      const database = await open();
+      const rows = database.prepare('SELECT data FROM sessions ORDER BY created_at, rowid').all() as { data: string }[];
+      return rows.map(row => deserializeSession(row.data));
+    },
+
+    delete: async (sessionId) => {
+      const database = await open();
+      return database.prepare('DELETE FROM sessions WHERE id = ?').run(sessionId).changes > 0;
+    }
+  };
+};
@@ -0,0 +1,69 @@
+/**
+ * ===================================================================
+ * SERVER-SENT EVENTS - Forum AI Brainstorming Application
+ * ===================================================================
+ *
+ * Minimal helper for writing Server-Sent Events to an Express response.
+ * Used by the streaming brainstorm and branch endpoints to push persona
+ * responses to the client while they are generated.
+ *
+ * @author Forum Development Team
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import type { Response } from 'express';
+
+/**
+ * Handle for an open event stream.
+ */
+export interface EventStream {
+  /** Writes a named event with a JSON payload (no-op once the client disconnects) */
+  send: (event: string, data: unknown) => void;
+
+  /** Ends the response */
+  close: () => void;
+
+  /** Whether the client is still connected */
+  isOpen: () => boolean;
+}
+
+/**
+ * Switches a response into Server-Sent Events mode.
+ *
+ * @param {Response} res - Express response to stream into
+ * @returns {EventStream} Stream handle
+ *
+ * @example
+ * const stream = openEventStream(res);
+ * stream.send('delta', { nodeId, delta: 'Hello' });
+ * stream.close();
+ */
+export const openEventStream = (res: Response): EventStream => {
+  let open = true;
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no'); // Disable proxy buffering (nginx)
+  res.flushHeaders();
+
+  // The response closes early when the client disconnects
+  res.on('close', () => {
+    open = false;
+  });
+
+  return {
+    send: (event, data) => {
+      if (!open) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close: () => {
+      if (!open) return;
+      open = false;
+      res.end();
+    },
+    isOpen: () => open
+  };
+};
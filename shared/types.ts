@@ -4,11 +4,13 @@
  * ===================================================================
  * 
  * This file contains all TypeScript type definitions and interfaces
- * shared between the client and server components of the Forum application.
+ * shared between the client and server components of the Forum application,
+ * plus the lists of export and import formats the API accepts.
  * 
- * Forum is an AI brainstorming tool that explores ideas through three
- * distinct AI personalities: Optimist, Pessimist, and Realist. Each
- * personality provides unique perspectives on user-submitted topics.
+ * Forum is an AI brainstorming tool that explores ideas through distinct
+ * AI personalities: the built-in Optimist, Pessimist, and Realist plus any
+ * team-defined personas. Each personality provides unique perspectives on
+ * user-submitted topics.
  * 
  * Key Features:
  * - Interactive graph-based conversation visualization
@@ -26,13 +28,62 @@
 // ===================================================================
 
 /**
- * Represents the three distinct AI personalities used in Forum.
- * Each personality approaches topics from a different perspective:
+ * Identifies an AI personality by its unique name in the persona registry.
+ * Forum ships with three built-in personalities, each approaching topics
+ * from a different perspective:
  * - 'optimist': Focuses on opportunities and positive outcomes
  * - 'pessimist': Identifies risks and potential challenges
  * - 'realist': Provides balanced, practical analysis
+ * 
+ * Teams can register additional personalities (e.g. 'domain-expert')
+ * through the /api/personas endpoints.
+ */
+export type PersonalityName = string;
+
+/**
+ * Configuration of an AI personality stored in the persona registry.
+ */
+export interface Persona {
+  /** Unique, URL-safe identifier (lowercase letters, digits and dashes) */
+  name: PersonalityName;
+  
+  /** Human-readable name shown in the UI */
+  label: string;
+  
+  /** System prompt that defines the personality's perspective */
+  systemPrompt: string;
+  
+  /** UI color: a palette name (e.g. 'green') or a CSS hex color */
+  color: string;
+  
+  /** Sampling temperature used when generating this personality's responses */
+  temperature: number;
+  
+  /** Optional model override; the provider's default model is used when absent */
+  model?: string;
+  
+  /** Whether this is one of Forum's built-in personalities (cannot be deleted) */
+  builtIn: boolean;
+}
+
+/**
+ * Request payload for creating a persona via POST /api/personas.
+ * Omitted optional fields take registry defaults.
+ */
+export interface PersonaCreateRequest {
+  name: PersonalityName;
+  label?: string;
+  systemPrompt: string;
+  color?: string;
+  temperature?: number;
+  model?: string;
+}
+
+/**
+ * Request payload for updating a persona via PATCH /api/personas/:name.
+ * The persona name itself cannot be changed.
  */
-export type PersonalityName = 'optimist' | 'pessimist' | 'realist';
+export type PersonaUpdateRequest = Partial<Omit<PersonaCreateRequest, 'name'>>;
 
 /**
  * Represents a response generated by a specific AI personality.
@@ -47,6 +98,15 @@ export interface PersonalityResponse {
   
   /** Hex color code associated with this personality for UI theming */
   color: string;
+  
+  /** True when `text` is canned fallback content because generation failed */
+  isFallback?: boolean;
+  
+  /** Why generation failed (set together with `isFallback`) */
+  error?: string;
+  
+  /** Model that produced the text (absent for fallback content) */
+  model?: string;
 }
 
 // ===================================================================
@@ -67,9 +127,15 @@ export interface Node {
   /** Optional reference to the parent node this branches from */
   parentId?: string;
   
-  /** Coordinates for positioning this node in the graph visualization */
+  /** 
+   * Coordinates for positioning this node in the graph visualization.
+   * 0/0 until the graph view saves a layout (PATCH /api/session/:id/positions).
+   */
   position: { x: number; y: number };
   
+  /** True when the user pinned the node at `position`; the force layout leaves it there */
+  pinned?: boolean;
+  
   /** 
    * Type of node:
    * - 'prompt': User-submitted topic or question
@@ -88,6 +154,65 @@ export interface Node {
    * Matches the personality color for response nodes
    */
   color?: string;
+  
+  /** ISO-8601 timestamp when this node was added (absent on nodes from older sessions) */
+  createdAt?: string;
+  
+  /** 
+   * True when generation failed and `text` is canned fallback content.
+   * Clients show a placeholder with a retry action instead of the text.
+   */
+  isFallback?: boolean;
+  
+  /** Why generation failed (set together with `isFallback`) */
+  error?: string;
+  
+  /** Model that produced the response text */
+  model?: string;
+  
+  /** 
+   * Every text this response has had, oldest first. Absent until the
+   * response is regenerated for the first time.
+   */
+  versions?: NodeVersion[];
+  
+  /** Index into `versions` of the version shown as `text` */
+  activeVersion?: number;
+  
+  /** Fingerprint of the ancestor texts this node was generated from (or its prompt written after) */
+  contextHash?: string;
+  
+  /** 
+   * True when an ancestor's text changed after this node was generated.
+   * Cleared by regenerating the node (or accepting a follow-up prompt as is).
+   */
+  stale?: boolean;
+  
+  /** 
+   * Set when the server shortened this node's text to keep a response small.
+   * The full text is available from GET /api/session/:id/node/:nodeId
+   */
+  truncated?: boolean;
+}
+
+/**
+ * One generated text of a response node, kept when the response is regenerated.
+ */
+export interface NodeVersion {
+  /** The response text */
+  text: string;
+  
+  /** ISO-8601 timestamp when this text was generated */
+  createdAt: string;
+  
+  /** Model that produced the text (absent for fallback content and older nodes) */
+  model?: string;
+  
+  /** True when the text is canned fallback content */
+  isFallback?: boolean;
+  
+  /** Why generation failed (set together with `isFallback`) */
+  error?: string;
 }
 
 /**
@@ -124,8 +249,64 @@ export interface Session {
   /** Array of all edges connecting nodes in this session */
   edges: Edge[];
   
+  /** Names of the personalities participating in this session, in response order */
+  personas: PersonalityName[];
+  
   /** Timestamp when this session was created */
   createdAt: Date;
+  
+  /** Timestamp when this session was last read or modified (drives idle expiry) */
+  lastAccessedAt: Date;
+  
+  /** User-chosen title; when absent the title is derived from the root prompt */
+  title?: string;
+  
+  /** Recently deleted subtrees, newest last, kept so deletions can be undone */
+  deletedSubtrees?: DeletedSubtree[];
+}
+
+/**
+ * A subtree removed by DELETE /api/session/:id/node/:nodeId, kept so the
+ * deletion can be undone.
+ */
+export interface DeletedSubtree {
+  /** ID of the deleted node the subtree hangs from */
+  rootId: string;
+  
+  /** The deleted nodes */
+  nodes: Node[];
+  
+  /** Edges that touched a deleted node */
+  edges: Edge[];
+  
+  /** ISO-8601 timestamp of the deletion */
+  deletedAt: string;
+}
+
+/**
+ * Lightweight description of a session for the session history listing.
+ */
+export interface SessionSummary {
+  /** Unique identifier of the session */
+  id: string;
+  
+  /** User-chosen title, or one generated from the root prompt */
+  title: string;
+  
+  /** Whether the title was chosen by the user */
+  hasCustomTitle: boolean;
+  
+  /** ISO-8601 timestamp when the session was created */
+  createdAt: string;
+  
+  /** ISO-8601 timestamp when the session was last read or modified */
+  lastAccessedAt: string;
+  
+  /** Number of nodes in the session's graph */
+  nodeCount: number;
+  
+  /** Names of the participating personalities */
+  personas: PersonalityName[];
 }
 
 // ===================================================================
@@ -134,14 +315,18 @@ export interface Session {
 
 /**
  * Request payload for initiating a new brainstorming session.
- * Forum automatically generates responses from all three personalities.
+ * Forum generates one response per participating personality.
  */
 export interface BrainstormRequest {
   /** The topic or question to explore with AI personalities */
   prompt: string;
   
-  // Note: Forum always returns exactly 3 personality responses
-  // (removed numVariants - not needed for fixed personality system)
+  /** 
+   * Optional names of the personalities that participate in this session.
+   * Defaults to the built-in Optimist, Pessimist and Realist.
+   * Later branches in the session use the same personalities.
+   */
+  personas?: PersonalityName[];
 }
 
 /**
@@ -152,11 +337,14 @@ export interface BrainstormResponse {
   /** Unique identifier for the created session */
   sessionId: string;
   
-  /** Array of nodes created (prompt + 3 personality responses) */
+  /** Array of nodes created (prompt + one response per personality) */
   nodes: Node[];
   
   /** Array of edges connecting the prompt to personality responses */
   edges: Edge[];
+  
+  /** Names of the personalities participating in the session */
+  personas?: PersonalityName[];
 }
 
 /**
@@ -187,4 +375,459 @@ export interface BranchResponse {
   
   /** Array of new edges connecting the new nodes to the existing graph */
   newEdges: Edge[];
-} 
\ No newline at end of file
+}
+
+/**
+ * Response payload for POST /api/session/:id/node/:nodeId/retry.
+ */
+export interface NodeRetryResponse {
+  /** The retried node; still flagged `isFallback` if generation failed again */
+  node: Node;
+  
+  /** IDs of all stale nodes in the session after the change */
+  staleNodeIds: string[];
+}
+
+/**
+ * Request payload for POST /api/node/:id/regenerate.
+ */
+export interface NodeRegenerateRequest {
+  /** The session containing the node */
+  sessionId: string;
+}
+
+/**
+ * Request payload for PUT /api/node/:id/active-version.
+ */
+export interface NodeActiveVersionRequest {
+  /** The session containing the node */
+  sessionId: string;
+  
+  /** Index into the node's `versions` to show */
+  version: number;
+}
+
+/**
+ * Response payload for the node regenerate and active-version routes.
+ */
+export interface NodeVersionResponse {
+  /** The updated node with its full version history */
+  node: Node;
+  
+  /** IDs of all stale nodes in the session after the change */
+  staleNodeIds: string[];
+}
+
+/**
+ * Request payload for editing a prompt node via PATCH /api/session/:id/node/:nodeId.
+ */
+export interface NodeUpdateRequest {
+  /** The new prompt text */
+  text: string;
+}
+
+/**
+ * Response payload for PATCH /api/session/:id/node/:nodeId.
+ */
+export interface NodeUpdateResponse {
+  /** The edited node */
+  node: Node;
+  
+  /** IDs of all stale nodes in the session after the change (the node's descendants) */
+  staleNodeIds: string[];
+}
+
+/**
+ * Response payload for POST /api/session/:id/node/:nodeId/restore.
+ */
+export interface NodeRestoreResponse {
+  /** The restored nodes */
+  nodes: Node[];
+  
+  /** The restored edges */
+  edges: Edge[];
+  
+  /** IDs of all stale nodes in the session after the change */
+  staleNodeIds: string[];
+}
+
+/**
+ * Response payload for POST /api/session/:id/node/:nodeId/regenerate-subtree.
+ */
+export interface SubtreeRegenerateResponse {
+  /** Nodes that were regenerated (responses) or accepted as they are (prompts) */
+  nodes: Node[];
+  
+  /** Stale nodes left as they are because a persona at or above them no longer exists */
+  skippedNodeIds: string[];
+  
+  /** IDs of all stale nodes in the session afterwards */
+  staleNodeIds: string[];
+}
+
+/**
+ * Response payload for DELETE /api/session/:id/node/:nodeId.
+ * Lists everything removed so clients can prune their copy of the graph.
+ */
+export interface NodeDeleteResponse {
+  /** The deleted node and all of its descendants */
+  deletedNodeIds: string[];
+  
+  /** Edges that touched a deleted node */
+  deletedEdgeIds: string[];
+}
+
+/**
+ * A node position saved from the graph view.
+ */
+export interface NodePositionUpdate {
+  /** Node to move */
+  nodeId: string;
+  
+  /** Node center in graph coordinates */
+  x: number;
+  y: number;
+  
+  /** Pins or unpins the node; the pin state is kept when absent */
+  pinned?: boolean;
+}
+
+/**
+ * Request payload for PATCH /api/session/:id/positions.
+ * Clients batch the positions changed since their last save.
+ */
+export interface NodePositionsRequest {
+  positions: NodePositionUpdate[];
+}
+
+/**
+ * Response payload for PATCH /api/session/:id/positions.
+ */
+export interface NodePositionsResponse {
+  /** Nodes whose position was saved (nodes deleted in the meantime are skipped) */
+  updatedNodeIds: string[];
+}
+
+/**
+ * Response payload for GET /api/sessions.
+ * Sessions are sorted by creation time and returned one page at a time.
+ */
+export interface SessionListResponse {
+  /** Sessions on the requested page */
+  sessions: SessionSummary[];
+  
+  /** Total number of stored sessions */
+  total: number;
+  
+  /** 1-based page number */
+  page: number;
+  
+  /** Maximum number of sessions per page */
+  pageSize: number;
+}
+
+/**
+ * Request payload for renaming a session via PATCH /api/session/:id.
+ * An empty title restores the title generated from the root prompt.
+ */
+export interface SessionUpdateRequest {
+  title: string;
+}
+
+/**
+ * Response payload for GET /api/session/:id/node/:nodeId.
+ * Carries a node's complete text and the conversation leading to it.
+ */
+export interface NodeDetailResponse {
+  /** The requested node, never truncated */
+  node: Node;
+  
+  /** Nodes from the root prompt down to the node's parent */
+  ancestors: Node[];
+}
+
+// ===================================================================
+// EXPORT TYPES
+// ===================================================================
+
+/**
+ * Formats offered by GET /api/session/:id/export.
+ */
+export const EXPORT_FORMATS = ['markdown', 'opml', 'mermaid', 'graphml', 'dot', 'json'] as const;
+
+/**
+ * One of the EXPORT_FORMATS.
+ */
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+/**
+ * A node in a JSON session export, with its children nested below it.
+ */
+export interface ExportedNode {
+  /** The node's ID in the exported session */
+  id: string;
+  
+  /** Prompt (root or follow-up question) or persona response */
+  type: 'prompt' | 'response';
+  
+  /** The node's text */
+  text: string;
+  
+  /** Persona name, for responses */
+  persona?: PersonalityName;
+  
+  /** Persona display label at export time, for responses */
+  personaLabel?: string;
+  
+  /** Model that produced the response text */
+  model?: string;
+  
+  /** ISO-8601 timestamp when the node was added */
+  createdAt?: string;
+  
+  /** Whether the response is a placeholder for a failed generation */
+  isFallback?: boolean;
+  
+  /** Why generation failed (set together with `isFallback`) */
+  error?: string;
+  
+  /** Nodes branching from this node, in creation order */
+  children: ExportedNode[];
+}
+
+/**
+ * Document produced by the JSON export. `version` changes whenever the
+ * shape changes incompatibly, so importers can tell what they read.
+ */
+export interface SessionExport {
+  /** Identifies the document as a Forum session export */
+  format: 'forum-session';
+  
+  /** Schema version of the document */
+  version: 1;
+  
+  /** ISO-8601 timestamp of the export */
+  exportedAt: string;
+  
+  /** The exported session */
+  session: {
+    id: string;
+    title: string;
+    createdAt: string;
+    personas: PersonalityName[];
+  };
+  
+  /** The root prompt and everything below it */
+  root: ExportedNode;
+}
+
+// ===================================================================
+// IMPORT TYPES
+// ===================================================================
+
+/**
+ * Formats accepted by POST /api/import.
+ */
+export const IMPORT_FORMATS = ['markdown', 'opml', 'json'] as const;
+
+/**
+ * One of the IMPORT_FORMATS.
+ */
+export type ImportFormat = typeof IMPORT_FORMATS[number];
+
+/**
+ * Request payload for POST /api/import.
+ */
+export interface SessionImportRequest {
+  /** The outline or export document */
+  content: string;
+  
+  /** Format of `content`; detected from the content when absent */
+  format?: ImportFormat;
+}
+
+/**
+ * A node parsed from an imported document, with its children nested below it.
+ */
+export interface SessionImportNode {
+  /** Prompt (root or follow-up question) or persona response */
+  type: 'prompt' | 'response';
+  
+  /** The node's text */
+  text: string;
+  
+  /** Persona name, for responses */
+  persona?: PersonalityName;
+  
+  /** Persona color at import time, for responses */
+  color?: string;
+  
+  /** Model that produced the response text, when known */
+  model?: string;
+  
+  /** Whether the response is a placeholder for a failed generation */
+  isFallback?: boolean;
+  
+  /** Why generation failed (set together with `isFallback`) */
+  error?: string;
+  
+  /** Nodes branching from this node, in document order */
+  children: SessionImportNode[];
+}
+
+// ===================================================================
+// STREAMING TYPES
+// ===================================================================
+
+/**
+ * Server-Sent Event emitted by the streaming brainstorm and branch routes.
+ * The SSE `event:` field carries the `type`; the `data:` field carries the
+ * full JSON-encoded event object.
+ * 
+ * Event order:
+ * - 'node-created': Once per new node, before any text is generated.
+ *   Response nodes start with empty text.
+ * - 'delta': Incremental text for a response node as it is generated
+ * - 'done': Once per response node with its final text
+ * - 'error': A persona failed (its fallback still arrives via 'done'),
+ *   or the whole request failed when `nodeId` is absent
+ */
+export type PersonaStreamEvent =
+  | {
+      type: 'node-created';
+      /** Session the node belongs to */
+      sessionId: string;
+      /** The newly created node */
+      node: Node;
+      /** Edge connecting the node to its parent, absent for root prompts */
+      edge?: Edge;
+      /** Generation job filling in the new nodes; cancel it with DELETE /api/jobs/:id */
+      jobId?: string;
+    }
+  | {
+      type: 'delta';
+      /** Response node receiving the text */
+      nodeId: string;
+      /** Text chunk to append */
+      delta: string;
+    }
+  | {
+      type: 'done';
+      /** The completed node with its final text */
+      node: Node;
+    }
+  | {
+      type: 'error';
+      /** Response node that failed, absent for request-level failures */
+      nodeId?: string;
+      /** Human-readable error message */
+      message: string;
+    };
+
+// ===================================================================
+// GENERATION JOB TYPES
+// ===================================================================
+
+/**
+ * State of a generation job:
+ * - 'running': At least one persona is still generating
+ * - 'completed': Every persona finished (fallback answers included)
+ * - 'failed': The generation itself failed; unfinished personas are marked failed
+ * - 'cancelled': The job was cancelled; unfinished personas are marked failed
+ */
+export type GenerationJobStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * State of one persona within a generation job.
+ */
+export type JobPersonaStatus = 'pending' | 'generating' | 'done' | 'failed';
+
+/**
+ * Progress of one persona's response within a generation job.
+ */
+export interface JobPersonaProgress {
+  /** The generating persona */
+  persona: PersonalityName;
+  
+  /** Response node the text is committed to */
+  nodeId: string;
+  
+  /** Where the persona is at */
+  status: JobPersonaStatus;
+  
+  /** Text generated so far (the final text once done) */
+  text: string;
+  
+  /** The committed node, once the persona's response has been saved to the session */
+  node?: Node;
+  
+  /** Why the persona failed */
+  error?: string;
+}
+
+/**
+ * A brainstorm or branch generation that runs independently of the request
+ * that started it. Each persona's response is committed to the session as
+ * soon as it is finished.
+ */
+export interface GenerationJob {
+  /** Unique identifier for the job */
+  id: string;
+  
+  /** Whether the job started a session or expanded a node */
+  kind: 'brainstorm' | 'branch';
+  
+  /** Session the generated nodes belong to */
+  sessionId: string;
+  
+  /** Node that was expanded (branch jobs only) */
+  parentNodeId?: string;
+  
+  /** Overall state */
+  status: GenerationJobStatus;
+  
+  /** Progress per persona, in the order the response nodes were created */
+  personas: JobPersonaProgress[];
+  
+  /** Why the job failed */
+  error?: string;
+  
+  /** ISO-8601 timestamps */
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+/**
+ * Response payload for POST /api/brainstorm/jobs and POST /api/branch/jobs.
+ * The nodes exist right away; response nodes start with empty text.
+ */
+export interface GenerationJobResponse {
+  /** The started job */
+  job: GenerationJob;
+  
+  /** Nodes created for the job (follow-up or root prompt and empty response nodes) */
+  nodes: Node[];
+  
+  /** Edges created alongside the nodes */
+  edges: Edge[];
+}
+
+/**
+ * Response payload for DELETE /api/jobs/:id.
+ */
+export interface JobCancelResponse {
+  /** The cancelled job */
+  job: GenerationJob;
+  
+  /** Nodes of the cancelled branch that were deleted (empty for brainstorm jobs) */
+  deletedNodeIds: string[];
+}
+
+/**
+ * Response payload for GET /api/session/:id/jobs.
+ */
+export interface SessionJobsResponse {
+  /** Running and recently finished jobs of the session, oldest first */
+  jobs: GenerationJob[];
+}